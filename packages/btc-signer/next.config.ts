@@ -3,6 +3,7 @@ const nextConfig = {
     '@btc-wallet/ui',
     '@btc-wallet/my-pwa',
     '@btc-wallet/wallet-generator',
+    '@btc-wallet/chain-params',
   ],
   webpack: (config: any) => {
     config.experiments = {
@@ -0,0 +1,52 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { UR, UREncoder } from '@ngraveio/bc-ur';
+
+// PSBT bytes per frame and delay between frames, matching the coordinator
+const MAX_FRAGMENT_LENGTH = 200;
+const FRAME_INTERVAL_MS = 250;
+
+interface AnimatedPSBTQRProps {
+  psbt: string; // Base64 encoded PSBT
+  size?: number;
+  className?: string;
+}
+
+/**
+ * Shows a PSBT as a BC-UR `crypto-psbt` QR code, animating fountain-coded
+ * frames when it does not fit in one
+ */
+export function AnimatedPSBTQR({
+  psbt,
+  size = 260,
+  className,
+}: AnimatedPSBTQRProps) {
+  const encoder = useMemo(() => {
+    const bytes = Buffer.from(psbt.replace(/\s/g, ''), 'base64');
+    const ur = new UR(UR.fromBuffer(bytes).cbor, 'crypto-psbt');
+    return new UREncoder(ur, MAX_FRAGMENT_LENGTH);
+  }, [psbt]);
+  const [frame, setFrame] = useState(() => encoder.nextPart().toUpperCase());
+
+  useEffect(() => {
+    setFrame(encoder.nextPart().toUpperCase());
+    if (encoder.fragmentsLength <= 1) return;
+    const timer = setInterval(() => {
+      setFrame(encoder.nextPart().toUpperCase());
+    }, FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [encoder]);
+
+  return (
+    <div className={className}>
+      <QRCodeSVG value={frame} size={size} level="L" includeMargin={true} />
+      {encoder.fragmentsLength > 1 && (
+        <p className="text-sm text-gray-400 text-center mt-2">
+          Animated QR · {encoder.fragmentsLength} parts
+        </p>
+      )}
+    </div>
+  );
+}
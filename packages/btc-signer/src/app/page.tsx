@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import {
   Header,
   MainContainer,
@@ -9,15 +9,16 @@ import {
   TextArea,
   Input,
   Status,
+  TransactionReview,
 } from '@btc-wallet/ui';
 import { QRScannerModal } from '@btc-wallet/ui';
-import { QRCodeDisplay } from './components/QRCode';
+import { AnimatedPSBTQR } from './components/AnimatedPSBTQR';
 import { OfflineIndicator, InstallPrompt } from '@btc-wallet/my-pwa';
 import { Eye, EyeOff, Trash } from 'lucide-react';
 import {
   parsePSBT,
+  reviewPSBT,
   signPSBT,
-  extractSignatures,
   validatePrivateKey as validatePrivateKeyLib,
 } from '../libs/bitcoin';
 
@@ -28,18 +29,12 @@ interface PSBTInfo {
   rawPSBT: string;
 }
 
-interface SignatureData {
-  inputIndex: number;
-  publicKey: string;
-  signature: string;
-}
-
 export default function SignerPage() {
   const [psbtInfo, setPsbtInfo] = useState<PSBTInfo | null>(null);
   const [privateKey, setPrivateKey] = useState<string>('');
   const [showPrivateKey, setShowPrivateKey] = useState(false);
   const [signedPSBT, setSignedPSBT] = useState<string>('');
-  const [signatures, setSignatures] = useState<SignatureData[] | null>(null);
+  const [reviewConfirmed, setReviewConfirmed] = useState(false);
 
   const [error, setError] = useState<string>('');
   const [isLoading, setIsLoading] = useState(false);
@@ -57,6 +52,7 @@ export default function SignerPage() {
       // Parse the actual PSBT from QR data
       const info = parsePSBT(cleanedData);
       setPsbtInfo(info);
+      setReviewConfirmed(false);
       setStatus({
         message: 'PSBT scanned successfully!',
         type: 'success',
@@ -78,7 +74,8 @@ export default function SignerPage() {
   };
 
   const handleSignPSBT = async () => {
-    if (!psbtInfo || !privateKey) return;
+    // Nothing is signed until the user has approved the review
+    if (!psbtInfo || !privateKey || !reviewConfirmed) return;
 
     try {
       setIsLoading(true);
@@ -99,27 +96,6 @@ export default function SignerPage() {
     }
   };
 
-  const handleGenerateSignatures = async () => {
-    if (!psbtInfo || !privateKey) return;
-
-    try {
-      setIsLoading(true);
-      setError('');
-
-      // Extract signatures from the signed PSBT
-      const sigInfo = extractSignatures(psbtInfo.rawPSBT, privateKey);
-      setSignatures(sigInfo);
-      setStatus({
-        message: 'Signatures generated successfully!',
-        type: 'success',
-      });
-    } catch {
-      setError('Failed to generate signatures. Please check your private key.');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const handleCopyToClipboard = async (text: string, label: string) => {
     try {
       await navigator.clipboard.writeText(text);
@@ -136,14 +112,31 @@ export default function SignerPage() {
     setPsbtInfo(null);
     setPrivateKey('');
     setSignedPSBT('');
-    setSignatures(null);
+    setReviewConfirmed(false);
 
     setError('');
     setStatus(null);
   };
 
   const isPrivateKeyValid = privateKey ? validatePrivateKey(privateKey) : false;
-  const canSign = Boolean(psbtInfo && isPrivateKeyValid);
+
+  // What the key would approve: recipients, fee and change
+  const review = useMemo(() => {
+    if (!psbtInfo || !isPrivateKeyValid) return null;
+    try {
+      return { result: reviewPSBT(psbtInfo.rawPSBT, privateKey), error: '' };
+    } catch (error) {
+      return {
+        result: null,
+        error:
+          error instanceof Error ? error.message : 'Could not decode the PSBT',
+      };
+    }
+  }, [psbtInfo, privateKey, isPrivateKeyValid]);
+
+  const canSign = Boolean(
+    psbtInfo && isPrivateKeyValid && review?.result && reviewConfirmed
+  );
 
   return (
     <MainContainer>
@@ -160,8 +153,8 @@ export default function SignerPage() {
                 Point your camera at the PSBT QR code from the root project
               </li>
               <li>Wait for the QR code to be detected and parsed</li>
-              <li>Verify the transaction details are correct</li>
-              <li>Proceed to signing with your private key</li>
+              <li>Enter the private key that signs it</li>
+              <li>Check the recipients, amounts and fee, then approve</li>
             </ol>
           </div>
 
@@ -207,7 +200,10 @@ export default function SignerPage() {
                 </Button>
                 <Button
                   variant="secondary"
-                  onClick={() => setPsbtInfo(null)}
+                  onClick={() => {
+                    setPsbtInfo(null);
+                    setReviewConfirmed(false);
+                  }}
                   icon="fas fa-trash"
                 >
                   Clear PSBT
@@ -234,7 +230,10 @@ export default function SignerPage() {
               <Input
                 type={showPrivateKey ? 'text' : 'password'}
                 value={privateKey}
-                onChange={(e) => setPrivateKey(e.target.value)}
+                onChange={(e) => {
+                  setPrivateKey(e.target.value);
+                  setReviewConfirmed(false);
+                }}
                 placeholder="e.g., cQ8pwwpeeTPECzddjU2H8hWVH7MaABMJ64EunL3nrUy5mEBaYxqQ"
                 className={isPrivateKeyValid && privateKey ? 'validKey' : ''}
               />
@@ -250,7 +249,10 @@ export default function SignerPage() {
                   )}
                 </button>
                 <button
-                  onClick={() => setPrivateKey('')}
+                  onClick={() => {
+                    setPrivateKey('');
+                    setReviewConfirmed(false);
+                  }}
                   className="clearButton"
                 >
                   <Trash size={16} strokeWidth={2.5} />
@@ -273,6 +275,22 @@ export default function SignerPage() {
         </div>
       </Card>
 
+      {/* Transaction Review */}
+      {review && (
+        <Card title="Review Transaction" icon="fas fa-search">
+          {review.result ? (
+            <TransactionReview
+              review={review.result}
+              unit="BTC"
+              confirmed={reviewConfirmed}
+              onConfirmedChange={setReviewConfirmed}
+            />
+          ) : (
+            <span className="invalid">✗ {review.error}</span>
+          )}
+        </Card>
+      )}
+
       {/* Signing Actions */}
       <Card title="Signing Actions" icon="fas fa-signature">
         <div className="signingActions">
@@ -284,14 +302,6 @@ export default function SignerPage() {
           >
             {isLoading ? 'Signing...' : 'Sign PSBT'}
           </Button>
-          <Button
-            variant="secondary"
-            onClick={handleGenerateSignatures}
-            disabled={!canSign || isLoading}
-            icon="fas fa-file-text"
-          >
-            {isLoading ? 'Generating...' : 'Generate Signatures'}
-          </Button>
           <Button
             variant="secondary"
             onClick={handleClearAll}
@@ -304,9 +314,21 @@ export default function SignerPage() {
 
       {/* Signed Transaction */}
       {signedPSBT && (
-        <Card title="Signed Transaction" icon="fas fa-check-circle">
+        <Card title="Signed PSBT" icon="fas fa-check-circle">
           <div className="signedTransaction">
-            <h3>Signed PSBT:</h3>
+            <div className="airGappedInfo">
+              <h3>Air-Gapped Workflow:</h3>
+              <p>
+                Scan this QR code with the device that created the PSBT. It
+                combines this signed PSBT with any other signers&apos; PSBTs and
+                broadcasts the transaction.
+              </p>
+            </div>
+            <div className="qrCodeSection">
+              <div className="qrCodeContainer">
+                <AnimatedPSBTQR psbt={signedPSBT} className="qrCode" />
+              </div>
+            </div>
             <TextArea
               value={signedPSBT}
               readOnly
@@ -321,78 +343,13 @@ export default function SignerPage() {
               >
                 Copy Signed PSBT
               </Button>
-            </div>
-          </div>
-        </Card>
-      )}
-
-      {/* Signatures Display */}
-      {signatures && (
-        <Card title="Signatures Only" icon="fas fa-file-text">
-          <div className="signaturesSection">
-            <div className="airGappedInfo">
-              <h3>Air-Gapped Workflow:</h3>
-              <p>
-                These are just the signatures. Transfer this QR code back to the
-                device that created the PSBT to combine signatures with the
-                original PSBT.
-              </p>
-            </div>
-
-            <div className="signaturesList">
-              <h4>Generated Signatures:</h4>
-              {signatures.map((sig, index) => (
-                <div key={index} className="signatureItem">
-                  <span className="signatureIndex">{sig.inputIndex + 1}</span>
-                  <div className="signatureDetails">
-                    <div className="signatureTitle">
-                      Input {sig.inputIndex + 1}
-                    </div>
-                    <div className="signatureData">
-                      <div>
-                        <div className="signatureLabel">Public Key:</div>
-                        <div className="signatureValue">{sig.publicKey}</div>
-                      </div>
-                      <div>
-                        <div className="signatureLabel">Signature:</div>
-                        <div className="signatureValue">{sig.signature}</div>
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-
-            <div className="qrCodeSection">
-              <div className="qrCodeContainer">
-                <QRCodeDisplay
-                  data={JSON.stringify(signatures)}
-                  size={200}
-                  className="qrCode"
-                />
-              </div>
-
-              <div className="signatureActions">
-                <Button
-                  variant="secondary"
-                  onClick={() =>
-                    handleCopyToClipboard(
-                      JSON.stringify(signatures),
-                      'signatures'
-                    )
-                  }
-                  icon="fas fa-copy"
-                >
-                  Copy Signatures
-                </Button>
-                <Button
-                  variant="primary"
-                  onClick={() => setSignatures(null)}
-                  icon="fas fa-refresh"
-                >
-                  New Transaction
-                </Button>
-              </div>
+              <Button
+                variant="primary"
+                onClick={handleClearAll}
+                icon="fas fa-refresh"
+              >
+                New Transaction
+              </Button>
             </div>
           </div>
         </Card>
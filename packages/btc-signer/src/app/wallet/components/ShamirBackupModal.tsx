@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Button, Input } from '@btc-wallet/ui';
+import { SLIP39 } from '@btc-wallet/wallet-generator';
+import { QRCodeDisplay } from '../../components/QRCode';
+
+export interface ShamirBackupModalProps {
+  isOpen: boolean;
+  mnemonic: string;
+  onClose: () => void;
+  onError: (message: string) => void;
+}
+
+interface ShareView {
+  group: number;
+  member: number;
+}
+
+const DEFAULT_GROUPS: SLIP39.GroupSpec[] = [{ threshold: 2, count: 3 }];
+
+export function ShamirBackupModal({
+  isOpen,
+  mnemonic,
+  onClose,
+  onError,
+}: ShamirBackupModalProps) {
+  const [groupThreshold, setGroupThreshold] = useState(1);
+  const [groups, setGroups] = useState<SLIP39.GroupSpec[]>(DEFAULT_GROUPS);
+  const [passphrase, setPassphrase] = useState('');
+  const [shares, setShares] = useState<string[][] | null>(null);
+  const [selected, setSelected] = useState<ShareView | null>(null);
+  const [isSplitting, setIsSplitting] = useState(false);
+
+  if (!isOpen) return null;
+
+  function handleClose() {
+    setShares(null);
+    setSelected(null);
+    setPassphrase('');
+    onClose();
+  }
+
+  function updateGroup(index: number, patch: Partial<SLIP39.GroupSpec>) {
+    setGroups((prev) =>
+      prev.map((group, i) => (i === index ? { ...group, ...patch } : group))
+    );
+  }
+
+  async function handleSplit() {
+    try {
+      setIsSplitting(true);
+      const result = await SLIP39.splitMnemonic(mnemonic, {
+        groupThreshold,
+        groups,
+        passphrase,
+      });
+      setShares(result);
+      setSelected({ group: 0, member: 0 });
+    } catch (e) {
+      onError(e instanceof Error ? e.message : 'Failed to split mnemonic');
+    } finally {
+      setIsSplitting(false);
+    }
+  }
+
+  function handlePrintShare(view: ShareView) {
+    if (!shares) return;
+    const share = shares[view.group][view.member];
+    const win = window.open('', '_blank', 'width=600,height=400');
+    if (!win) {
+      onError('Pop-up blocked. Allow pop-ups to print shares.');
+      return;
+    }
+    const words = share
+      .split(' ')
+      .map((word) => `<li>${word}</li>`)
+      .join('');
+    win.document.write(`<!doctype html><html><head><title>SLIP-39 share</title>
+<style>body{font-family:monospace;padding:24px}ol{columns:3}li{margin:4px 0}</style>
+</head><body>
+<h2>SLIP-39 share · group ${view.group + 1} of ${shares.length} · member ${view.member + 1} of ${shares[view.group].length}</h2>
+<p>Group threshold ${groupThreshold}, member threshold ${groups[view.group].threshold}</p>
+<ol>${words}</ol>
+</body></html>`);
+    win.document.close();
+    win.focus();
+    win.print();
+  }
+
+  const selectedShare =
+    shares && selected ? shares[selected.group][selected.member] : '';
+
+  return (
+    <div className="fixed inset-0 bg-black/70 z-50 flex items-center justify-center p-4">
+      <div className="bg-zinc-900 border border-gray-700 rounded-xl max-w-2xl w-full p-4 max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-2">Shamir Backup (SLIP-39)</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          Split this wallet into share groups. Recovery needs the group
+          threshold of groups, each rebuilt from its member threshold of shares.
+          Store every share in a different place.
+        </p>
+
+        {!shares && (
+          <>
+            <Input
+              type="number"
+              label="Group threshold"
+              min={1}
+              max={groups.length}
+              value={String(groupThreshold)}
+              onChange={(e) =>
+                setGroupThreshold(
+                  Number((e.target as HTMLInputElement).value) || 1
+                )
+              }
+            />
+            {groups.map((group, index) => (
+              <div key={index} className="grid grid-cols-3 gap-2 items-end">
+                <Input
+                  type="number"
+                  label={`Group ${index + 1} threshold`}
+                  min={1}
+                  max={16}
+                  value={String(group.threshold)}
+                  onChange={(e) =>
+                    updateGroup(index, {
+                      threshold:
+                        Number((e.target as HTMLInputElement).value) || 1,
+                    })
+                  }
+                />
+                <Input
+                  type="number"
+                  label={`Group ${index + 1} shares`}
+                  min={1}
+                  max={16}
+                  value={String(group.count)}
+                  onChange={(e) =>
+                    updateGroup(index, {
+                      count: Number((e.target as HTMLInputElement).value) || 1,
+                    })
+                  }
+                />
+                <Button
+                  variant="secondary"
+                  icon="fas fa-minus"
+                  disabled={groups.length === 1}
+                  onClick={() => {
+                    setGroups((prev) => prev.filter((_, i) => i !== index));
+                    setGroupThreshold((t) => Math.min(t, groups.length - 1));
+                  }}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))}
+            <Input
+              type="password"
+              label="SLIP-39 passphrase (optional, ASCII)"
+              value={passphrase}
+              onChange={(e) =>
+                setPassphrase((e.target as HTMLInputElement).value)
+              }
+            />
+            <div className="mt-4 flex gap-2 justify-end">
+              <Button
+                variant="secondary"
+                icon="fas fa-plus"
+                disabled={groups.length >= 16}
+                onClick={() =>
+                  setGroups((prev) => [...prev, { threshold: 1, count: 1 }])
+                }
+              >
+                Add Group
+              </Button>
+              <Button variant="secondary" onClick={handleClose}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                icon="fas fa-puzzle-piece"
+                onClick={handleSplit}
+                disabled={isSplitting}
+              >
+                {isSplitting ? 'Splitting...' : 'Create Shares'}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {shares && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-3">
+                {shares.map((members, group) => (
+                  <div key={group}>
+                    <div className="text-sm font-semibold mb-1">
+                      Group {group + 1} · {groups[group].threshold} of{' '}
+                      {members.length}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {members.map((_, member) => (
+                        <Button
+                          key={member}
+                          variant={
+                            selected?.group === group &&
+                            selected?.member === member
+                              ? 'primary'
+                              : 'secondary'
+                          }
+                          onClick={() => setSelected({ group, member })}
+                        >
+                          Share {member + 1}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              {selected && (
+                <div className="text-center">
+                  <QRCodeDisplay
+                    data={selectedShare}
+                    size={220}
+                    className="mx-auto"
+                  />
+                  <p className="text-xs text-gray-400 mt-2 break-words font-mono">
+                    {selectedShare}
+                  </p>
+                </div>
+              )}
+            </div>
+            <div className="mt-4 flex gap-2 justify-end">
+              <Button
+                variant="secondary"
+                icon="fas fa-print"
+                disabled={!selected}
+                onClick={() => selected && handlePrintShare(selected)}
+              >
+                Print Share
+              </Button>
+              <Button variant="primary" onClick={handleClose}>
+                Done
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
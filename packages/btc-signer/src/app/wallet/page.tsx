@@ -10,10 +10,12 @@ import {
   TextArea,
   Status,
   QRScannerModal,
+  useDebouncedValue,
 } from '@btc-wallet/ui';
 import { OfflineIndicator, InstallPrompt } from '@btc-wallet/my-pwa';
 import { QRCodeDisplay } from '../components/QRCode';
 import { ExportPasswordModal } from './components/ExportPasswordModal';
+import { ShamirBackupModal } from './components/ShamirBackupModal';
 import {
   Entropy,
   BIP39,
@@ -23,7 +25,7 @@ import {
 import { ECPairFactory } from 'ecpair';
 import * as ecc from 'tiny-secp256k1';
 
-type AddressKind = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh';
+type AddressKind = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh' | 'p2tr';
 type NetworkOption = 'mainnet' | 'testnet';
 
 interface GeneratedWalletUI {
@@ -35,15 +37,25 @@ interface GeneratedWalletUI {
   wif: string;
   publicKeyHex: string;
   address: string;
+  internalPubkeyHex?: string;
+  descriptor?: string;
   privateKeyHex?: string;
 }
 
 const ECPair = ECPairFactory(ecc);
 
+// Diagnosing a mistyped phrase tries every wordlist word at every position,
+// so it waits for a pause in typing
+const DIAGNOSIS_DELAY_MS = 500;
+
 export default function WalletPage() {
   const [network, setNetwork] = useState<NetworkOption>('testnet');
   const [addressKind, setAddressKind] = useState<AddressKind | ''>('');
   const [mnemonic, setMnemonic] = useState<string>('');
+  const [settledMnemonic, settleMnemonic] = useDebouncedValue(
+    mnemonic,
+    DIAGNOSIS_DELAY_MS
+  );
   const [passphrase, setPassphrase] = useState<string>('');
   const [wallet, setWallet] = useState<GeneratedWalletUI | null>(null);
   const [status, setStatus] = useState<{
@@ -61,6 +73,7 @@ export default function WalletPage() {
     false | { mode: 'wallet-json' | 'wif-only' }
   >(false);
   const [exportPassword, setExportPassword] = useState('');
+  const [isShamirOpen, setIsShamirOpen] = useState(false);
   const [diagnostics, setDiagnostics] = useState('');
 
   function handleReset() {
@@ -76,6 +89,7 @@ export default function WalletPage() {
     setNetworkConfirmed(false);
     setIsPasswordPromptOpen(false);
     setExportPassword('');
+    setIsShamirOpen(false);
   }
 
   const coinType = useMemo(
@@ -83,8 +97,36 @@ export default function WalletPage() {
     [network]
   );
 
+  // Problems of a typed phrase, with word suggestions; insertions are left
+  // out since a phrase one word short is usually still being typed
+  const mnemonicProblems = useMemo(
+    () =>
+      settledMnemonic.trim()
+        ? BIP39.describeMnemonicProblems(
+            BIP39.diagnoseMnemonic(settledMnemonic, undefined, {
+              insertions: false,
+            })
+          )
+        : [],
+    [settledMnemonic]
+  );
+
+  // Problems of the current phrase, diagnosing it now if typing has not
+  // settled yet
+  const checkMnemonic = (): string[] =>
+    mnemonic === settledMnemonic
+      ? mnemonicProblems
+      : BIP39.describeMnemonicProblems(
+          BIP39.diagnoseMnemonic(mnemonic, undefined, { insertions: false })
+        );
+
   const handleGenerate = async () => {
     if (!mnemonic || !addressKind) return;
+    const problems = checkMnemonic();
+    if (problems.length > 0) {
+      setStatus({ message: problems.join('. '), type: 'error' });
+      return;
+    }
     try {
       setIsGenerating(true);
       setStatus({ message: 'Deriving wallet...', type: 'warning' });
@@ -113,6 +155,8 @@ export default function WalletPage() {
         wif: assembled.wif,
         publicKeyHex: assembled.publicKeyHex,
         address: assembled.address,
+        internalPubkeyHex: assembled.internalPubkeyHex,
+        descriptor: assembled.descriptor,
         privateKeyHex: privHex,
       });
       setStatus({ message: 'Wallet derived successfully', type: 'success' });
@@ -444,8 +488,9 @@ export default function WalletPage() {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const handleAssembleFromMnemonic = async () => {
     try {
-      if (!BIP39.isValidMnemonic(mnemonic)) {
-        setStatus({ message: 'Invalid mnemonic', type: 'error' });
+      const problems = checkMnemonic();
+      if (problems.length > 0) {
+        setStatus({ message: problems.join('. '), type: 'error' });
         return;
       }
       if (!addressKind) {
@@ -478,6 +523,8 @@ export default function WalletPage() {
         wif: assembled.wif,
         publicKeyHex: assembled.publicKeyHex,
         address: assembled.address,
+        internalPubkeyHex: assembled.internalPubkeyHex,
+        descriptor: assembled.descriptor,
         privateKeyHex: privHex,
       });
       setStatus({ message: 'Wallet derived from mnemonic', type: 'success' });
@@ -790,6 +837,12 @@ export default function WalletPage() {
               >
                 Native SegWit (P2WPKH)
               </Button>
+              <Button
+                variant={addressKind === 'p2tr' ? 'primary' : 'secondary'}
+                onClick={() => setAddressKind('p2tr')}
+              >
+                Taproot (P2TR)
+              </Button>
             </>
           }
         >
@@ -830,7 +883,13 @@ export default function WalletPage() {
               placeholder="Scan entropy first; mnemonic will populate here"
               value={mnemonic}
               onChange={(e) => setMnemonic(e.target.value)}
+              onBlur={settleMnemonic}
               rows={3}
+              error={
+                mnemonic === settledMnemonic
+                  ? mnemonicProblems.join('. ')
+                  : undefined
+              }
               helperText="Write this down securely. Never share it."
             />
             <Input
@@ -865,6 +924,13 @@ export default function WalletPage() {
               >
                 Export Encrypted WIF Only
               </Button>
+              <Button
+                variant="secondary"
+                icon="fas fa-puzzle-piece"
+                onClick={() => setIsShamirOpen(true)}
+              >
+                Shamir Backup (SLIP-39)
+              </Button>
             </>
           }
         >
@@ -903,6 +969,27 @@ export default function WalletPage() {
                   </Button>
                 </div>
               </div>
+              {wallet.descriptor && (
+                <div className="md:col-span-2">
+                  <TextArea
+                    label="Output Descriptor"
+                    value={wallet.descriptor}
+                    readOnly
+                    rows={3}
+                  />
+                  <div className="button-row">
+                    <Button
+                      variant="secondary"
+                      icon="fas fa-copy"
+                      onClick={() =>
+                        handleCopy(wallet.descriptor!, 'Descriptor')
+                      }
+                    >
+                      Copy Descriptor
+                    </Button>
+                  </div>
+                </div>
+              )}
               <div className="md:col-span-2">
                 <Input
                   label="Public Key (hex)"
@@ -921,6 +1008,26 @@ export default function WalletPage() {
                   </Button>
                 </div>
               </div>
+              {wallet.internalPubkeyHex && (
+                <div className="md:col-span-2">
+                  <Input
+                    label="Taproot Internal Key (x-only)"
+                    value={wallet.internalPubkeyHex}
+                    readOnly
+                  />
+                  <div className="button-row">
+                    <Button
+                      variant="secondary"
+                      icon="fas fa-copy"
+                      onClick={() =>
+                        handleCopy(wallet.internalPubkeyHex!, 'Internal Key')
+                      }
+                    >
+                      Copy Internal Key
+                    </Button>
+                  </div>
+                </div>
+              )}
               <div className="md:col-span-2">
                 <TextArea
                   label="Mnemonic (hidden by default)"
@@ -1046,6 +1153,15 @@ export default function WalletPage() {
         />
       )}
 
+      {wallet && (
+        <ShamirBackupModal
+          isOpen={isShamirOpen}
+          mnemonic={wallet.mnemonic}
+          onClose={() => setIsShamirOpen(false)}
+          onError={(message) => setStatus({ message, type: 'error' })}
+        />
+      )}
+
       <ExportPasswordModal
         isOpen={!!isPasswordPromptOpen}
         mode={
@@ -1,6 +1,8 @@
 import * as bitcoin from 'bitcoinjs-lib';
 import { ECPairFactory } from 'ecpair';
 import * as tinysecp from 'tiny-secp256k1';
+import { PSBTReview } from '@btc-wallet/wallet-generator';
+import { detectWIFNetworks, getNetwork } from '@btc-wallet/chain-params';
 
 const ECPair = ECPairFactory(tinysecp);
 
@@ -52,108 +54,58 @@ export function parsePSBT(psbtBase64: string): PSBTInfo {
   }
 }
 
-export function signPSBT(psbtBase64: string, privateKeyWIF: string): string {
-  try {
-    // Determine network from private key
-    const network = privateKeyWIF.startsWith('c')
-      ? bitcoin.networks.testnet
-      : bitcoin.networks.bitcoin;
-
-    const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network });
-    const keyPair = ECPair.fromWIF(privateKeyWIF, network);
-
-    // Sign all inputs that can be signed with this key
-    for (let i = 0; i < psbt.data.inputs.length; i++) {
-      try {
-        // Use the signer interface properly
-        const signer = {
-          publicKey: Buffer.from(keyPair.publicKey),
-          sign: (hash: Buffer) => Buffer.from(keyPair.sign(hash)),
-        };
-        psbt.signInput(i, signer);
-      } catch {
-        // Skip inputs that can't be signed with this key
-        // Only log in development (check if we're in browser and not in production)
-        if (
-          typeof window !== 'undefined' &&
-          window.location.hostname === 'localhost'
-        ) {
-          console.log(`Could not sign input ${i}`);
-        }
-      }
-    }
-
-    return psbt.toBase64();
-  } catch {
-    throw new Error('Failed to sign PSBT');
+// Read the network from the WIF version byte
+function getNetworkFromWIF(privateKeyWIF: string): bitcoin.Network {
+  const [chain] = detectWIFNetworks(privateKeyWIF, 'bitcoin');
+  if (!chain) {
+    throw new Error('Not a Bitcoin private key');
   }
+  return getNetwork(chain.coin, chain.network);
 }
 
-export function extractSignatures(
+export function reviewPSBT(
   psbtBase64: string,
   privateKeyWIF: string
-): Array<{
-  inputIndex: number;
-  publicKey: string;
-  signature: string;
-}> {
+): PSBTReview.SpendReview {
+  const network = getNetworkFromWIF(privateKeyWIF);
+  const keyPair = ECPair.fromWIF(privateKeyWIF.trim(), network);
+  return PSBTReview.reviewPSBT(psbtBase64, {
+    network,
+    publicKey: keyPair.publicKey,
+  });
+}
+
+export function signPSBT(psbtBase64: string, privateKeyWIF: string): string {
   try {
-    const network = privateKeyWIF.startsWith('c')
-      ? bitcoin.networks.testnet
-      : bitcoin.networks.bitcoin;
+    // Determine network from private key
+    const network = getNetworkFromWIF(privateKeyWIF);
+
     const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network });
     const keyPair = ECPair.fromWIF(privateKeyWIF, network);
 
-    const signatures: Array<{
-      inputIndex: number;
-      publicKey: string;
-      signature: string;
-    }> = [];
-
-    // Sign inputs and extract signatures
-    for (let i = 0; i < psbt.data.inputs.length; i++) {
-      try {
-        // Use the signer interface properly
-        const signer = {
-          publicKey: Buffer.from(keyPair.publicKey),
-          sign: (hash: Buffer) => Buffer.from(keyPair.sign(hash)),
-        };
-        psbt.signInput(i, signer);
-        const input = psbt.data.inputs[i];
-        if (input.partialSig && input.partialSig.length > 0) {
-          signatures.push({
-            inputIndex: i,
-            publicKey: Buffer.from(keyPair.publicKey).toString('hex'),
-            signature: input.partialSig[0].signature.toString('hex'),
-          });
-        }
-      } catch {
-        // Only log in development (check if we're in browser and not in production)
-        if (
-          typeof window !== 'undefined' &&
-          window.location.hostname === 'localhost'
-        ) {
-          console.log(`Could not sign input ${i}`);
-        }
-      }
+    // Sign all inputs the review shows as signable, taproot ones included
+    const signed = PSBTReview.signPSBTInputs(psbt, keyPair);
+
+    // Only log in development (check if we're in browser and not in production)
+    if (
+      typeof window !== 'undefined' &&
+      window.location.hostname === 'localhost'
+    ) {
+      psbt.data.inputs.forEach((_, i) => {
+        if (!signed.includes(i)) console.log(`Could not sign input ${i}`);
+      });
     }
 
-    return signatures;
+    return psbt.toBase64();
   } catch {
-    throw new Error('Failed to extract signatures');
+    throw new Error('Failed to sign PSBT');
   }
 }
 
 export function validatePrivateKey(privateKeyWIF: string): boolean {
   try {
-    // Remove any whitespace
-    const cleanKey = privateKeyWIF.trim();
-
-    // Basic WIF format validation
-    const wifRegex = /^[5KL][1-9A-HJ-NP-Za-km-z]{50,51}$/;
-    const testnetWifRegex = /^[c9][1-9A-HJ-NP-Za-km-z]{50,51}$/;
-
-    return wifRegex.test(cleanKey) || testnetWifRegex.test(cleanKey);
+    // Checksum, length and a Bitcoin mainnet or testnet version byte
+    return detectWIFNetworks(privateKeyWIF, 'bitcoin').length > 0;
   } catch {
     return false;
   }
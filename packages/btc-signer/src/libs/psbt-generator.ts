@@ -1,4 +1,5 @@
 import * as bitcoin from 'bitcoinjs-lib';
+import { detectAddressNetworks, getNetwork } from '@btc-wallet/chain-params';
 import { UTXO } from '../types/bitcoin';
 
 /**
@@ -141,28 +142,17 @@ function createScriptFromAddress(address: string): Buffer {
   console.log(`Creating script from address: ${address}`);
 
   try {
-    // For now, focus on the most common address types
-    // Most testnet addresses are P2WPKH (tb1...)
-    if (address.startsWith('tb1') || address.startsWith('bc1')) {
-      // Native SegWit (P2WPKH or P2WSH)
-      const decoded = bitcoin.address.fromBech32(address);
-      if (!decoded) {
-        throw new Error(`Invalid Bech32 address: ${address}`);
-      }
-
-      // P2WPKH (20-byte hash) or P2WSH (32-byte hash)
-      const script = bitcoin.script.compile([
-        bitcoin.opcodes.OP_0,
-        decoded.data,
-      ]);
-      console.log(`Successfully created SegWit script for address: ${address}`);
+    // Decode with the parameters of the network the address belongs to
+    const [chain] = detectAddressNetworks(address, 'bitcoin');
+    if (chain) {
+      const script = bitcoin.address.toOutputScript(
+        address,
+        getNetwork(chain.coin, chain.network)
+      );
+      console.log(`Successfully created script for address: ${address}`);
       return script;
     } else {
-      // For other address types, use placeholder for now
-      // TODO: Implement proper support for P2SH and Legacy addresses
-      console.log(
-        `Address type not fully supported yet: ${address}, using placeholder`
-      );
+      console.log(`Not a Bitcoin address: ${address}, using placeholder`);
       return createPlaceholderP2WPKHScript();
     }
   } catch (error) {
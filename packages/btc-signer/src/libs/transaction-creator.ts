@@ -1,4 +1,4 @@
-import * as bitcoin from 'bitcoinjs-lib';
+import { getNetwork } from '@btc-wallet/chain-params';
 import { UTXO } from '../types/bitcoin';
 import { getFeeEstimate, FeeEstimate } from './fee-estimator';
 import {
@@ -85,10 +85,7 @@ export async function createUnsignedTransaction(
     );
 
     // Create PSBT
-    const bitcoinNetwork =
-      network === 'testnet'
-        ? bitcoin.networks.testnet
-        : bitcoin.networks.bitcoin;
+    const bitcoinNetwork = getNetwork('bitcoin', network);
     const psbtResult = await createPSBTWithChange(
       utxoSelection.selectedUTXOs,
       toAddress,
@@ -172,10 +169,7 @@ export async function createUnsignedTransactionWithCustomFee(
     );
 
     // Create PSBT
-    const bitcoinNetwork =
-      network === 'testnet'
-        ? bitcoin.networks.testnet
-        : bitcoin.networks.bitcoin;
+    const bitcoinNetwork = getNetwork('bitcoin', network);
     const psbtResult = await createPSBTWithChange(
       utxoSelection.selectedUTXOs,
       toAddress,
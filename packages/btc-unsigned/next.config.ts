@@ -1,7 +1,20 @@
 const nextConfig = {
-  transpilePackages: ['@btc-wallet/ui', '@btc-wallet/my-pwa'],
+  transpilePackages: [
+    '@btc-wallet/ui',
+    '@btc-wallet/my-pwa',
+    '@btc-wallet/wallet-generator',
+    '@btc-wallet/chain-params',
+  ],
   webpack: (config: any) => {
-    // Existing webpack config preserved
+    // tiny-secp256k1 ships as WebAssembly
+    config.experiments = {
+      ...config.experiments,
+      asyncWebAssembly: true,
+    };
+    config.module.rules.push({
+      test: /\.wasm$/,
+      type: 'webassembly/async',
+    });
     return config;
   },
 };
@@ -1,9 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { combineAndBroadcast, SignatureData } from '../../../lib/broadcast';
+import { getChainBackend, getRequestNetwork } from '../../../lib/chain-backend';
+
+function isBase64String(value: unknown): value is string {
+  return typeof value === 'string' && /^[A-Za-z0-9+/]+={0,2}$/.test(value);
+}
 
 export async function POST(request: NextRequest) {
   try {
-    const { psbt, signatures } = await request.json();
+    const {
+      psbt,
+      signedPsbts = [],
+      signatures = [],
+      network: networkName,
+    } = await request.json();
 
     if (!psbt) {
       return NextResponse.json({
@@ -12,18 +22,45 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    if (!signatures || !Array.isArray(signatures) || signatures.length === 0) {
+    if (!Array.isArray(signedPsbts) || !Array.isArray(signatures)) {
       return NextResponse.json({
         success: false,
-        message: 'No signatures provided',
+        message: 'signedPsbts and signatures must be arrays',
+      });
+    }
+
+    if (signedPsbts.length === 0 && signatures.length === 0) {
+      return NextResponse.json({
+        success: false,
+        message: 'No signed PSBTs or signatures provided',
+      });
+    }
+
+    let network;
+    try {
+      network = getRequestNetwork(networkName ?? null);
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        message: error instanceof Error ? error.message : 'Invalid network',
       });
     }
 
     console.log('🔗 Broadcast API request received');
+    console.log('Network:', network);
     console.log('PSBT length:', psbt.length);
-    console.log('Signatures count:', signatures.length);
+    console.log('Signed PSBTs count:', signedPsbts.length);
+    console.log('Legacy signatures count:', signatures.length);
+
+    const validPsbts = signedPsbts.filter(isBase64String);
+    if (validPsbts.length !== signedPsbts.length) {
+      return NextResponse.json({
+        success: false,
+        message: 'Signed PSBTs must be base64 encoded',
+      });
+    }
 
-    // Validate signature format
+    // Validate legacy signature format
     const validSignatures: SignatureData[] = [];
     for (const sig of signatures) {
       if (
@@ -37,7 +74,7 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    if (validSignatures.length === 0) {
+    if (validPsbts.length === 0 && validSignatures.length === 0) {
       return NextResponse.json({
         success: false,
         message: 'No valid signatures provided',
@@ -45,7 +82,15 @@ export async function POST(request: NextRequest) {
     }
 
     // Combine and broadcast
-    const result = await combineAndBroadcast(psbt, validSignatures);
+    const result = await combineAndBroadcast(
+      psbt,
+      {
+        signedPsbts: validPsbts,
+        legacySignatures: validSignatures,
+      },
+      network,
+      getChainBackend(network)
+    );
 
     return NextResponse.json(result);
   } catch (error) {
@@ -4,12 +4,17 @@ import {
   validatePSBT,
   generatePSBTReport,
 } from '../../../lib/psbt-decoder-simple';
+import {
+  assertPSBTNetwork,
+  getBitcoinNetwork,
+  parseChainNetwork,
+} from '../../../lib/networks';
 import * as bitcoin from 'bitcoinjs-lib';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { psbtBase64, expectedValues, network = 'testnet' } = body;
+    const { psbtBase64, expectedValues } = body;
 
     if (!psbtBase64) {
       return NextResponse.json(
@@ -30,11 +35,21 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Convert network string to bitcoin network
-    const bitcoinNetwork =
-      network === 'mainnet'
-        ? bitcoin.networks.bitcoin
-        : bitcoin.networks.testnet;
+    // Convert network string to bitcoin network; an account xpub in the
+    // PSBT must belong to it
+    let bitcoinNetwork: bitcoin.Network;
+    try {
+      const network = parseChainNetwork(body.network);
+      bitcoinNetwork = getBitcoinNetwork(network);
+      assertPSBTNetwork(bitcoin.Psbt.fromBase64(psbtBase64), network);
+    } catch (error) {
+      return NextResponse.json(
+        {
+          error: error instanceof Error ? error.message : 'Invalid network',
+        },
+        { status: 400 }
+      );
+    }
 
     // Decode PSBT
     const decoded = decodePSBT(psbtBase64, bitcoinNetwork, {
@@ -87,7 +102,7 @@ export async function GET() {
           feeRate: 'number (required) - Expected fee rate in sat/byte',
         },
         network:
-          'string (optional) - "testnet" or "mainnet" (default: "testnet")',
+          'string (optional) - "mainnet", "testnet", "signet", "regtest", "ltc-mainnet" or "ltc-testnet" (default: "testnet")',
       },
     },
     example: {
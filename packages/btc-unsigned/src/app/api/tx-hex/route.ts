@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChainBackend, getRequestNetwork } from '../../../lib/chain-backend';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const txid = searchParams.get('txid');
+
+  if (!txid || !/^[0-9a-fA-F]{64}$/.test(txid)) {
+    return NextResponse.json(
+      { error: 'A 64 character hex txid parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  let network;
+  try {
+    network = getRequestNetwork(searchParams.get('network'));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid network' },
+      { status: 400 }
+    );
+  }
+
+  const backend = getChainBackend(network);
+  try {
+    const hex = (await backend.getTransactionHex(txid)).trim();
+    console.log(`Success from ${backend.name}:`, hex.length / 2, 'bytes');
+
+    return NextResponse.json({ txid, hex });
+  } catch (error) {
+    console.error(`Error fetching ${txid} from ${backend.name}:`, error);
+    return NextResponse.json(
+      {
+        error: `Failed to fetch transaction: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      },
+      { status: 500 }
+    );
+  }
+}
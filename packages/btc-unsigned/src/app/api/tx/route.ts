@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getChainBackend, getRequestNetwork } from '../../../lib/chain-backend';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const txid = searchParams.get('txid');
+
+  if (!txid || !/^[0-9a-fA-F]{64}$/.test(txid)) {
+    return NextResponse.json(
+      { error: 'A 64 character hex txid parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  let network;
+  try {
+    network = getRequestNetwork(searchParams.get('network'));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid network' },
+      { status: 400 }
+    );
+  }
+
+  const backend = getChainBackend(network);
+  try {
+    const status = await backend.getTransaction(txid.toLowerCase());
+    // Only a backend that does not know the txid answers 404; the history
+    // reads that as dropped or replaced, and any other failure as unknown
+    if (!status) {
+      return NextResponse.json(
+        { error: `Transaction ${txid} not found` },
+        { status: 404 }
+      );
+    }
+    // The tip turns a block height into a confirmation count
+    const tipHeight = status.status?.confirmed
+      ? await backend.getTipHeight()
+      : undefined;
+    return NextResponse.json({ status, tipHeight, api: backend.name });
+  } catch (error) {
+    console.error(`Error fetching ${txid} from ${backend.name}:`, error);
+    return NextResponse.json(
+      {
+        error: `Failed to get transaction status: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      },
+      { status: 500 }
+    );
+  }
+}
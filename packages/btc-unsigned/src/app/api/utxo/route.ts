@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getChainBackend, getRequestNetwork } from '../../../lib/chain-backend';
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
@@ -11,38 +12,31 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  const apis = [
-    `https://blockstream.info/testnet/api/address/${address}/utxo`,
-    `https://mempool.space/testnet/api/address/${address}/utxo`,
-  ];
-
-  for (const apiUrl of apis) {
-    try {
-      console.log(`Trying API: ${apiUrl}`);
-
-      const response = await fetch(apiUrl, {
-        method: 'GET',
-        headers: {
-          Accept: 'application/json',
-          'User-Agent': 'Mozilla/5.0 (compatible; Bitcoin-UTXO-Fetcher/1.0)',
-        },
-      });
+  let network;
+  try {
+    network = getRequestNetwork(searchParams.get('network'));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Invalid network' },
+      { status: 400 }
+    );
+  }
 
-      if (response.ok) {
-        const data = await response.json();
-        console.log(`Success from ${apiUrl}:`, data.length, 'UTXOs');
+  const backend = getChainBackend(network);
+  try {
+    const utxos = await backend.getUTXOs(address);
+    console.log(`Success from ${backend.name}:`, utxos.length, 'UTXOs');
 
-        return NextResponse.json(data);
-      } else {
-        console.log(`API ${apiUrl} returned status:`, response.status);
-      }
-    } catch (error) {
-      console.error(`Error fetching from ${apiUrl}:`, error);
-    }
+    return NextResponse.json(utxos);
+  } catch (error) {
+    console.error(`Error fetching UTXOs from ${backend.name}:`, error);
+    return NextResponse.json(
+      {
+        error: `Failed to fetch UTXOs: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`,
+      },
+      { status: 500 }
+    );
   }
-
-  return NextResponse.json(
-    { error: 'Failed to fetch UTXOs from all APIs' },
-    { status: 500 }
-  );
 }
@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import {
+  createPSBTQREncoder,
+  UR_FRAME_INTERVAL_MS,
+} from '../../lib/qr-generator';
+
+/**
+ * PSBT QR code using BC-UR `crypto-psbt` encoding. PSBTs that do not fit
+ * in one frame are shown as a looping fountain-coded animation; the scanner
+ * can start at any frame and needs slightly more frames than parts.
+ */
+export default function AnimatedPSBTQR({ psbt }: { psbt: string }) {
+  const encoder = useMemo(() => createPSBTQREncoder(psbt), [psbt]);
+  const [frame, setFrame] = useState(() => encoder.nextPart().toUpperCase());
+
+  useEffect(() => {
+    setFrame(encoder.nextPart().toUpperCase());
+    if (encoder.fragmentsLength <= 1) return;
+    const timer = setInterval(() => {
+      setFrame(encoder.nextPart().toUpperCase());
+    }, UR_FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [encoder]);
+
+  return (
+    <div className="w-full max-w-[320px]">
+      <div className="bg-white p-4 rounded-lg">
+        <QRCodeSVG
+          value={frame}
+          size={320}
+          level="L"
+          includeMargin={true}
+          style={{ width: '100%', height: 'auto' }}
+        />
+      </div>
+      {encoder.fragmentsLength > 1 && (
+        <p className="text-sm text-gray-400 text-center mt-2">
+          Animated QR · {encoder.fragmentsLength} parts. Keep the signer camera
+          on the code until it completes.
+        </p>
+      )}
+    </div>
+  );
+}
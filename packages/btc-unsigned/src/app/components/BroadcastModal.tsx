@@ -2,7 +2,14 @@
 
 import { useState } from 'react';
 import { Button, Card } from '@btc-wallet/ui';
-import { SignatureData } from '../../lib/broadcast';
+import {
+  CollectedSignatures,
+  SignatureData,
+  SignedPSBTSummary,
+  getCombinedSignatureProgress,
+  inspectSignedPSBT,
+} from '../../lib/broadcast';
+import { FeeBumpSummary } from '../../lib/rbf';
 import { parseSignatureQR } from '../../lib/qr-generator';
 import { QRScannerModal } from '@btc-wallet/ui';
 import {
@@ -11,21 +18,31 @@ import {
   Inbox,
   Trash,
   RadioTower,
+  Users,
 } from 'lucide-react';
 import styles from './BroadcastModal.module.css';
 
 interface BroadcastModalProps {
   psbt: string;
+  feeBump?: FeeBumpSummary; // Fees before and after, for RBF and CPFP
   isOpen: boolean;
   onClose: () => void;
-  onBroadcast: (signatures: SignatureData[]) => void;
+  onBroadcast: (collected: CollectedSignatures) => void;
+}
+
+interface SignedPSBTEntry {
+  psbt: string;
+  summary: SignedPSBTSummary;
 }
 
 export function BroadcastModal({
+  psbt,
+  feeBump,
   isOpen,
   onClose,
   onBroadcast,
 }: BroadcastModalProps) {
+  const [signedPsbts, setSignedPsbts] = useState<SignedPSBTEntry[]>([]);
   const [signatures, setSignatures] = useState<SignatureData[]>([]);
   const [error, setError] = useState<string>('');
   const [broadcasting, setBroadcasting] = useState(false);
@@ -33,6 +50,38 @@ export function BroadcastModal({
 
   if (!isOpen) return null;
 
+  const collectedCount = signedPsbts.length + signatures.length;
+
+  // Multisig inputs need M signatures, which may come from several signers
+  const progress = getCombinedSignatureProgress(
+    psbt,
+    signedPsbts.map((entry) => entry.psbt)
+  );
+  const missingSignatures = progress.reduce(
+    (sum, input) => sum + Math.max(input.required - input.signed, 0),
+    0
+  );
+  const needsMultipleSigners = progress.some((input) => input.required > 1);
+  // Legacy signature JSON is not counted, so it may complete the inputs
+  const canBroadcast =
+    collectedCount > 0 && (missingSignatures === 0 || signatures.length > 0);
+
+  const handleAddSignedPSBT = (signedPsbt: string) => {
+    if (signedPsbts.some((entry) => entry.psbt === signedPsbt)) {
+      setError('This signed PSBT has already been added');
+      return;
+    }
+
+    const summary = inspectSignedPSBT(psbt, signedPsbt);
+    if (summary.signatures === 0) {
+      setError('This PSBT has no signatures yet. Sign it on the signer first.');
+      return;
+    }
+
+    setSignedPsbts((prev) => [...prev, { psbt: signedPsbt, summary }]);
+    setError('');
+  };
+
   const handleAddSignature = (signature: SignatureData) => {
     // Check for duplicate signatures
     const isDuplicate = signatures.some(
@@ -51,84 +100,64 @@ export function BroadcastModal({
   };
 
   const handleScanResult = (result: string) => {
-    console.log('QR Scanner - Raw result received:', result);
-    console.log('QR Scanner - Result length:', result.length);
-    console.log('QR Scanner - Result type:', typeof result);
-    console.log('QR Scanner - First 100 characters:', result.substring(0, 100));
-    console.log(
-      'QR Scanner - Last 100 characters:',
-      result.substring(Math.max(0, result.length - 100))
-    );
-
-    // First, try to parse as signature QR code
-    try {
-      console.log('QR Scanner - Attempting to parse signature QR...');
-      console.log('QR Scanner - Raw result for signature parsing:', result);
-
-      const signatureDataArray = parseSignatureQR(result);
-      console.log(
-        'QR Scanner - Parsed signature data array:',
-        signatureDataArray
-      );
-
-      // Add all signatures from the array
-      signatureDataArray.forEach((signatureData, index) => {
-        console.log(`QR Scanner - Adding signature ${index}:`, signatureData);
-        handleAddSignature(signatureData);
-      });
+    const data = result.trim();
+    setShowQRScanner(false);
 
-      setShowQRScanner(false);
+    // Signers return a partially signed PSBT (multi-part BC-UR scans arrive
+    // here already reassembled into base64)
+    if (data.startsWith('cHNidP')) {
+      try {
+        handleAddSignedPSBT(data);
+      } catch (psbtError) {
+        setError(
+          psbtError instanceof Error
+            ? psbtError.message
+            : 'Could not read the signed PSBT'
+        );
+      }
       return;
-    } catch (signatureError) {
-      console.log(
-        "QR Scanner - Not a signature QR code, checking if it's a PSBT..."
-      );
-      console.log('QR Scanner - Signature parsing error:', signatureError);
     }
 
-    // If not a signature QR, check if it's a PSBT QR code
+    // Legacy signer output: signature JSON
     try {
-      console.log("QR Scanner - Checking if it's a PSBT QR code...");
-      console.log('QR Scanner - Result starts with:', result.substring(0, 10));
-      console.log(
-        'QR Scanner - Is base64 pattern match:',
-        /^[A-Za-z0-9+/]*={0,2}$/.test(result)
+      const signatureDataArray = parseSignatureQR(data);
+      signatureDataArray.forEach((signatureData) =>
+        handleAddSignature(signatureData)
       );
-
-      // Check if it looks like a PSBT (base64 string, typically starts with 'cHNidP')
-      if (
-        result.startsWith('cHNidP') ||
-        /^[A-Za-z0-9+/]*={0,2}$/.test(result)
-      ) {
-        console.log('QR Scanner - Detected PSBT QR code');
-        setError(
-          'This is a PSBT QR code. Please scan a signature QR code instead.'
-        );
-        setShowQRScanner(false);
-        return;
-      } else {
-        console.log('QR Scanner - Not a PSBT QR code');
-      }
-    } catch (psbtError) {
-      console.log('QR Scanner - Error checking PSBT format:', psbtError);
+      return;
+    } catch (signatureError) {
+      console.log('QR Scanner - Not legacy signature JSON:', signatureError);
     }
 
-    // If neither signature nor PSBT, show generic error
     console.error('QR Scanner - Unknown QR code format');
-    console.log('QR Scanner - Full unknown data:', result);
-    setError('Unknown QR code format. Please scan a signature QR code.');
-    setShowQRScanner(false);
+    setError('Unknown QR code format. Please scan a signed PSBT QR code.');
+  };
+
+  const handlePaste = async () => {
+    try {
+      const text = await navigator.clipboard.readText();
+      handleScanResult(text);
+    } catch {
+      setError('Could not read from the clipboard');
+    }
   };
 
   const handleBroadcast = async () => {
-    if (signatures.length === 0) {
-      setError('Please add at least one signature');
+    if (!canBroadcast) {
+      setError(
+        collectedCount === 0
+          ? 'Please add at least one signed PSBT'
+          : `Still waiting for ${missingSignatures} signature(s)`
+      );
       return;
     }
 
     setBroadcasting(true);
     try {
-      await onBroadcast(signatures);
+      await onBroadcast({
+        signedPsbts: signedPsbts.map((entry) => entry.psbt),
+        legacySignatures: signatures,
+      });
       onClose();
     } catch (error) {
       setError(
@@ -145,6 +174,10 @@ export function BroadcastModal({
     setSignatures((prev) => prev.filter((_, i) => i !== index));
   };
 
+  const removeSignedPSBT = (index: number) => {
+    setSignedPsbts((prev) => prev.filter((_, i) => i !== index));
+  };
+
   const startScanning = () => {
     setShowQRScanner(true);
     setError('');
@@ -165,6 +198,53 @@ export function BroadcastModal({
           </div>
 
           <div className={styles.modalContent}>
+            {/* Replacement fees */}
+            {feeBump && (
+              <Card
+                title="Fee Bump"
+                icon="fas fa-angle-double-up"
+                variant="outlined"
+                padding="lg"
+              >
+                <div className={styles.feeBumpSection}>
+                  <div className={styles.feeBumpRow}>
+                    <span>
+                      {feeBump.method === 'cpfp'
+                        ? 'Parent fee'
+                        : 'Original fee'}
+                    </span>
+                    <span className={styles.feeBumpValue}>
+                      {feeBump.originalFee} sats (
+                      {feeBump.originalFeeRate.toFixed(2)} sat/vB)
+                    </span>
+                  </div>
+                  <div className={styles.feeBumpRow}>
+                    <span>
+                      {feeBump.method === 'cpfp'
+                        ? 'Parent + child fee'
+                        : 'Replacement fee'}
+                    </span>
+                    <span className={styles.feeBumpValue}>
+                      {feeBump.newFee} sats ({feeBump.newFeeRate.toFixed(2)}{' '}
+                      sat/vB)
+                    </span>
+                  </div>
+                  <div className={styles.feeBumpRow}>
+                    <span>Increase</span>
+                    <span className={styles.feeBumpValue}>
+                      +{feeBump.newFee - feeBump.originalFee} sats
+                    </span>
+                  </div>
+                  <p className={styles.broadcastDescription}>
+                    {feeBump.method === 'cpfp' ? 'Accelerates' : 'Replaces'}{' '}
+                    {feeBump.originalTxid.substring(0, 16)}...
+                    {feeBump.addedInputs > 0 &&
+                      ` with ${feeBump.addedInputs} added input(s)`}
+                  </p>
+                </div>
+              </Card>
+            )}
+
             {/* Step 1: Signature Collection */}
             <Card
               title="1. Collect Signatures"
@@ -181,7 +261,15 @@ export function BroadcastModal({
                     icon="fas fa-camera"
                     className={styles.scanButton}
                   >
-                    Start Scanning Signatures
+                    Scan Signed PSBT
+                  </Button>
+                  <Button
+                    onClick={handlePaste}
+                    variant="secondary"
+                    icon="fas fa-paste"
+                    className={styles.scanButton}
+                  >
+                    Paste Signed PSBT
                   </Button>
                 </div>
 
@@ -197,20 +285,46 @@ export function BroadcastModal({
                 <div className={styles.signaturesSection}>
                   <h4 className={styles.signaturesTitle}>
                     <FileSignature size={16} strokeWidth={2.5} />
-                    Collected Signatures ({signatures.length})
+                    Collected Signatures ({collectedCount})
                   </h4>
-                  {signatures.length === 0 ? (
+                  {collectedCount === 0 ? (
                     <div className={styles.emptySignatures}>
                       <Inbox size={16} strokeWidth={2.5} />
-                      <p>No signatures collected yet</p>
+                      <p>No signed PSBTs collected yet</p>
                     </div>
                   ) : (
                     <div className={styles.signaturesList}>
+                      {signedPsbts.map((entry, index) => (
+                        <div
+                          key={`psbt-${index}`}
+                          className={styles.signatureItem}
+                        >
+                          <div className={styles.signatureInfo}>
+                            <div className={styles.signatureInput}>
+                              Signed PSBT {index + 1}
+                            </div>
+                            <div className={styles.signatureAddress}>
+                              {entry.summary.signatures} signature(s) on{' '}
+                              {entry.summary.signedInputs} of{' '}
+                              {entry.summary.inputs} inputs
+                            </div>
+                          </div>
+                          <button
+                            onClick={() => removeSignedPSBT(index)}
+                            className={styles.removeButton}
+                          >
+                            <Trash size={16} strokeWidth={2.5} />
+                          </button>
+                        </div>
+                      ))}
                       {signatures.map((sig, index) => (
-                        <div key={index} className={styles.signatureItem}>
+                        <div
+                          key={`sig-${index}`}
+                          className={styles.signatureItem}
+                        >
                           <div className={styles.signatureInfo}>
                             <div className={styles.signatureInput}>
-                              Input {sig.inputIndex}
+                              Input {sig.inputIndex} (legacy signature)
                             </div>
                             <div className={styles.signatureKey}>
                               {sig.publicKey.substring(0, 20)}...
@@ -232,6 +346,31 @@ export function BroadcastModal({
                     </div>
                   )}
                 </div>
+
+                {/* Per-input progress toward each input's threshold */}
+                {needsMultipleSigners && (
+                  <div className={styles.signaturesSection}>
+                    <h4 className={styles.signaturesTitle}>
+                      <Users size={16} strokeWidth={2.5} />
+                      Signature Progress
+                    </h4>
+                    {progress.map((input) => (
+                      <div key={input.index} className={styles.progressRow}>
+                        <span>Input {input.index}</span>
+                        <span
+                          className={
+                            input.complete
+                              ? styles.progressComplete
+                              : styles.progressValue
+                          }
+                        >
+                          {Math.min(input.signed, input.required)} of{' '}
+                          {input.required} signatures
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             </Card>
 
@@ -246,15 +385,17 @@ export function BroadcastModal({
                 <div className={styles.broadcastStatus}>
                   <div className={styles.statusDot}></div>
                   <span className={styles.statusText}>
-                    {signatures.length === 0
-                      ? 'Add at least one signature to broadcast'
-                      : `Ready to broadcast with ${signatures.length} signature(s)`}
+                    {collectedCount === 0
+                      ? 'Add at least one signed PSBT to broadcast'
+                      : !canBroadcast
+                        ? `Waiting for ${missingSignatures} more signature(s)`
+                        : `Ready to combine ${collectedCount} signer response(s)`}
                   </span>
                 </div>
 
                 <Button
                   onClick={handleBroadcast}
-                  disabled={signatures.length === 0 || broadcasting}
+                  disabled={!canBroadcast || broadcasting}
                   variant="primary"
                   icon="fas fa-broadcast-tower"
                   loading={broadcasting}
@@ -263,10 +404,10 @@ export function BroadcastModal({
                   {broadcasting ? 'Broadcasting...' : 'Broadcast Transaction'}
                 </Button>
 
-                {signatures.length > 0 && (
+                {canBroadcast && (
                   <p className={styles.broadcastDescription}>
-                    This will combine all signatures and broadcast to the
-                    Bitcoin network
+                    This will combine all signed PSBTs and broadcast the
+                    transaction
                   </p>
                 )}
               </div>
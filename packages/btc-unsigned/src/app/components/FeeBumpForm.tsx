@@ -0,0 +1,145 @@
+'use client';
+
+import { useState } from 'react';
+import { addressNeedsPublicKey, FeeBumpFormData } from '../../lib/bitcoin';
+import { Button, Input } from '@btc-wallet/ui';
+
+export default function FeeBumpForm({
+  onBumpFee,
+}: {
+  onBumpFee: (data: FeeBumpFormData) => Promise<void>;
+}) {
+  const [formData, setFormData] = useState<FeeBumpFormData>({
+    method: 'rbf',
+    transaction: '',
+    fromAddress: '',
+    feeRate: '',
+  });
+  const [isBumping, setIsBumping] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBumping(true);
+    try {
+      await onBumpFee(formData);
+    } finally {
+      setIsBumping(false);
+    }
+  };
+
+  const isCPFP = formData.method === 'cpfp';
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="tab-navigation">
+        <button
+          type="button"
+          onClick={() => setFormData((prev) => ({ ...prev, method: 'rbf' }))}
+          className={`tab-button ${!isCPFP ? 'active' : ''}`}
+        >
+          Replace (RBF)
+        </button>
+        <button
+          type="button"
+          onClick={() => setFormData((prev) => ({ ...prev, method: 'cpfp' }))}
+          className={`tab-button ${isCPFP ? 'active' : ''}`}
+        >
+          Child Pays for Parent
+        </button>
+      </div>
+
+      <div className="input-group">
+        <Input
+          label="Stuck Transaction"
+          icon="fas fa-hourglass-half"
+          type="text"
+          id="bumpTransaction"
+          name="transaction"
+          value={formData.transaction}
+          onChange={handleChange}
+          placeholder={
+            isCPFP
+              ? 'Transaction ID of the broadcast transaction'
+              : 'Transaction ID or raw transaction hex'
+          }
+          size="md"
+          variant="default"
+        />
+      </div>
+
+      <div className="input-group">
+        <Input
+          label={isCPFP ? 'Change Address' : 'From Address'}
+          icon="fas fa-wallet"
+          type="text"
+          id="bumpFromAddress"
+          name="fromAddress"
+          value={formData.fromAddress}
+          onChange={handleChange}
+          placeholder={
+            isCPFP
+              ? 'Your address receiving its change'
+              : 'Address the transaction spends from'
+          }
+          size="md"
+          variant="default"
+        />
+      </div>
+
+      {addressNeedsPublicKey(formData.fromAddress) && (
+        <div className="input-group">
+          <Input
+            label="From Address Public Key"
+            icon="fas fa-key"
+            type="text"
+            id="bumpPublicKey"
+            name="publicKey"
+            value={formData.publicKey ?? ''}
+            onChange={handleChange}
+            placeholder="Hex public key (taproot: internal key)"
+            size="md"
+            variant="default"
+          />
+        </div>
+      )}
+
+      <div className="input-group">
+        <Input
+          label={isCPFP ? 'Package Fee Rate (sat/vB)' : 'New Fee Rate (sat/vB)'}
+          icon="fas fa-tachometer-alt"
+          type="number"
+          id="bumpFeeRate"
+          name="feeRate"
+          min="1"
+          step="0.1"
+          value={formData.feeRate}
+          onChange={handleChange}
+          placeholder={
+            isCPFP
+              ? 'Leave empty for the current half-hour rate'
+              : 'Must be above the original fee rate'
+          }
+          size="md"
+          variant="default"
+        />
+      </div>
+
+      <div className="btn-container">
+        <Button
+          type="submit"
+          variant="primary"
+          disabled={isBumping}
+          loading={isBumping}
+          icon="fas fa-angle-double-up"
+        >
+          {isCPFP ? 'Create Child Transaction' : 'Create Replacement'}
+        </Button>
+      </div>
+    </form>
+  );
+}
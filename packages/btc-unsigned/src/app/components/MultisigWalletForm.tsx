@@ -0,0 +1,215 @@
+'use client';
+
+import { Button, Input } from '@btc-wallet/ui';
+import { describeMultisigWallet, MultisigFormData } from '../../lib/bitcoin';
+import { AccountKey } from '../../lib/key-origin';
+import {
+  MAX_MULTISIG_KEYS,
+  MULTISIG_SCRIPT_LABELS,
+  MultisigScriptType,
+} from '../../lib/multisig';
+import { ChainNetwork, getCoinType } from '../../lib/networks';
+import styles from './MultisigWalletForm.module.css';
+
+export const EMPTY_COSIGNER: AccountKey = {
+  xpub: '',
+  masterFingerprint: '',
+  accountPath: '',
+};
+
+export const INITIAL_MULTISIG: MultisigFormData = {
+  threshold: '2',
+  scriptType: 'p2wsh',
+  cosigners: [
+    { ...EMPTY_COSIGNER },
+    { ...EMPTY_COSIGNER },
+    { ...EMPTY_COSIGNER },
+  ],
+};
+
+// BIP48 script type index of each wallet type
+const BIP48_SCRIPT: Record<MultisigScriptType, number> = {
+  'p2sh-p2wsh': 1,
+  p2wsh: 2,
+};
+
+export default function MultisigWalletForm({
+  network,
+  multisig,
+  onChange,
+}: {
+  network: ChainNetwork;
+  multisig: MultisigFormData;
+  onChange: (multisig: MultisigFormData) => void;
+}) {
+  const updateCosigner = (index: number, changes: Partial<AccountKey>) => {
+    onChange({
+      ...multisig,
+      cosigners: multisig.cosigners.map((cosigner, i) =>
+        i === index ? { ...cosigner, ...changes } : cosigner
+      ),
+    });
+  };
+
+  const removeCosigner = (index: number) => {
+    const cosigners = multisig.cosigners.filter((_, i) => i !== index);
+    onChange({
+      ...multisig,
+      cosigners,
+      threshold: String(Math.min(Number(multisig.threshold), cosigners.length)),
+    });
+  };
+
+  const isComplete = multisig.cosigners.every(
+    (cosigner) =>
+      cosigner.xpub.trim() &&
+      cosigner.masterFingerprint.trim() &&
+      cosigner.accountPath.trim()
+  );
+  let summary: ReturnType<typeof describeMultisigWallet> | null = null;
+  let walletError = '';
+  if (isComplete) {
+    try {
+      summary = describeMultisigWallet(multisig, network);
+    } catch (error) {
+      walletError =
+        error instanceof Error ? error.message : 'Invalid multisig wallet';
+    }
+  }
+
+  const pathPlaceholder = `m/48'/${getCoinType(network)}'/0'/${
+    BIP48_SCRIPT[multisig.scriptType]
+  }'`;
+
+  return (
+    <div className="input-group">
+      <div className="tab-navigation">
+        {(Object.keys(MULTISIG_SCRIPT_LABELS) as MultisigScriptType[]).map(
+          (scriptType) => (
+            <button
+              key={scriptType}
+              type="button"
+              onClick={() => onChange({ ...multisig, scriptType })}
+              className={`tab-button ${
+                multisig.scriptType === scriptType ? 'active' : ''
+              }`}
+            >
+              {MULTISIG_SCRIPT_LABELS[scriptType]}
+            </button>
+          )
+        )}
+      </div>
+
+      <div className={styles.threshold}>
+        <Input
+          label="Signatures Required"
+          icon="fas fa-users"
+          type="number"
+          id="multisigThreshold"
+          name="multisigThreshold"
+          min={1}
+          max={multisig.cosigners.length}
+          value={multisig.threshold}
+          onChange={(e) => onChange({ ...multisig, threshold: e.target.value })}
+          size="md"
+          variant="default"
+        />
+        <span className={styles.thresholdOf}>
+          of {multisig.cosigners.length} cosigners
+        </span>
+      </div>
+
+      {multisig.cosigners.map((cosigner, index) => (
+        <div key={index} className={styles.cosignerRow}>
+          <div className={styles.cosignerHeader}>
+            <span>Cosigner {index + 1}</span>
+            {multisig.cosigners.length > 2 && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeCosigner(index)}
+                icon="fas fa-trash"
+              >
+                Remove
+              </Button>
+            )}
+          </div>
+          <Input
+            label="Account xpub"
+            icon="fas fa-sitemap"
+            type="text"
+            id={`cosignerXpub${index}`}
+            value={cosigner.xpub}
+            onChange={(e) => updateCosigner(index, { xpub: e.target.value })}
+            placeholder="Cosigner's multisig account extended public key"
+            size="md"
+            variant="default"
+          />
+          <div className="amount-container">
+            <div className="input-group flex-1">
+              <Input
+                label="Master Fingerprint"
+                icon="fas fa-fingerprint"
+                type="text"
+                id={`cosignerFingerprint${index}`}
+                value={cosigner.masterFingerprint}
+                onChange={(e) =>
+                  updateCosigner(index, { masterFingerprint: e.target.value })
+                }
+                placeholder="8 hex characters"
+                size="md"
+                variant="default"
+              />
+            </div>
+            <div className="input-group flex-1">
+              <Input
+                label="Account Path"
+                icon="fas fa-route"
+                type="text"
+                id={`cosignerPath${index}`}
+                value={cosigner.accountPath}
+                onChange={(e) =>
+                  updateCosigner(index, { accountPath: e.target.value })
+                }
+                placeholder={pathPlaceholder}
+                size="md"
+                variant="default"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {multisig.cosigners.length < MAX_MULTISIG_KEYS && (
+        <div className={styles.actions}>
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={() =>
+              onChange({
+                ...multisig,
+                cosigners: [...multisig.cosigners, { ...EMPTY_COSIGNER }],
+              })
+            }
+            icon="fas fa-user-plus"
+          >
+            Add Cosigner
+          </Button>
+        </div>
+      )}
+
+      {walletError && <div className={styles.walletError}>{walletError}</div>}
+      {summary && (
+        <div className="space-y-2 text-sm">
+          <div className="summary-item">
+            <span>First receive address:</span>
+            <span className="value font-mono">{summary.receiveAddress}</span>
+          </div>
+          <div className={styles.descriptor}>{summary.descriptor}</div>
+        </div>
+      )}
+    </div>
+  );
+}
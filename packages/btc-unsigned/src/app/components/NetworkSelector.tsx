@@ -0,0 +1,60 @@
+'use client';
+
+import {
+  COINS,
+  COIN_LABELS,
+  ChainNetwork,
+  DEFAULT_COIN_NETWORKS,
+  NETWORK_LABELS,
+  getCoinNetworks,
+  getNetworkCoin,
+  isMainnet,
+} from '../../lib/networks';
+import styles from './NetworkSelector.module.css';
+
+export default function NetworkSelector({
+  network,
+  onNetworkChange,
+}: {
+  network: ChainNetwork;
+  onNetworkChange: (network: ChainNetwork) => void;
+}) {
+  const coin = getNetworkCoin(network);
+
+  return (
+    <div className="input-group">
+      <div className="tab-navigation">
+        {COINS.map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() =>
+              option !== coin && onNetworkChange(DEFAULT_COIN_NETWORKS[option])
+            }
+            className={`tab-button ${coin === option ? 'active' : ''}`}
+          >
+            {COIN_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      <div className={`tab-navigation ${styles.networkTabs}`}>
+        {getCoinNetworks(coin).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onNetworkChange(option)}
+            className={`tab-button ${network === option ? 'active' : ''}`}
+          >
+            {NETWORK_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      {isMainnet(network) && (
+        <div className={styles.mainnetWarning}>
+          Mainnet transactions spend real {COIN_LABELS[coin].toLowerCase()}.
+          Every address must be a {COIN_LABELS[coin]} mainnet address.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  parseRecipientsCSV,
+  RecipientFormRow,
+  validateRecipientRow,
+} from '../../lib/bitcoin';
+import {
+  ChainNetwork,
+  getBitcoinNetwork,
+  getNetworkName,
+  getNetworkUnit,
+} from '../../lib/networks';
+import { Button, Input, TextArea } from '@btc-wallet/ui';
+import styles from './RecipientList.module.css';
+
+export const EMPTY_RECIPIENT: RecipientFormRow = {
+  address: '',
+  amount: '',
+  label: '',
+  subtractFee: false,
+};
+
+const isEmptyRow = (row: RecipientFormRow) =>
+  !row.address.trim() && !row.amount.trim() && !row.label.trim();
+
+export default function RecipientList({
+  network,
+  recipients,
+  onChange,
+}: {
+  network: ChainNetwork;
+  recipients: RecipientFormRow[];
+  onChange: (recipients: RecipientFormRow[]) => void;
+}) {
+  const [showPaste, setShowPaste] = useState(false);
+  const [csvText, setCsvText] = useState('');
+  const [importError, setImportError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateRow = (index: number, changes: Partial<RecipientFormRow>) => {
+    onChange(
+      recipients.map((row, i) => (i === index ? { ...row, ...changes } : row))
+    );
+  };
+
+  const removeRow = (index: number) => {
+    const remaining = recipients.filter((_, i) => i !== index);
+    onChange(remaining.length > 0 ? remaining : [{ ...EMPTY_RECIPIENT }]);
+  };
+
+  // Imported rows replace blank rows and follow the ones already entered
+  const importCSV = (text: string) => {
+    try {
+      const imported = parseRecipientsCSV(text);
+      onChange([...recipients.filter((row) => !isEmptyRow(row)), ...imported]);
+      setImportError('');
+      setCsvText('');
+      setShowPaste(false);
+    } catch (error) {
+      setImportError(
+        error instanceof Error ? error.message : 'Failed to read CSV'
+      );
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      importCSV(await file.text());
+    }
+  };
+
+  const totalBTC = recipients.reduce(
+    (sum, row) => sum + (parseFloat(row.amount) || 0),
+    0
+  );
+
+  return (
+    <div className="input-group">
+      {recipients.map((row, index) => {
+        const error = isEmptyRow(row)
+          ? null
+          : validateRecipientRow(row, network);
+        return (
+          <div key={index} className={styles.recipientRow}>
+            <div className={styles.recipientHeader}>
+              <span>Recipient {index + 1}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removeRow(index)}
+                disabled={recipients.length === 1 && isEmptyRow(row)}
+                icon="fas fa-trash"
+              >
+                Remove
+              </Button>
+            </div>
+            <Input
+              label="To Address"
+              icon="fas fa-user"
+              type="text"
+              id={`recipientAddress${index}`}
+              value={row.address}
+              onChange={(e) => updateRow(index, { address: e.target.value })}
+              placeholder={`Recipient ${getNetworkName(network)} address`}
+              size="md"
+              variant="default"
+            />
+            <div className="amount-container">
+              <div className="flex-1">
+                <Input
+                  label={`Amount (${getNetworkUnit(network)})`}
+                  icon="fas fa-coins"
+                  type="number"
+                  id={`recipientAmount${index}`}
+                  min="0.00000001"
+                  step="0.00000001"
+                  value={row.amount}
+                  onChange={(e) => updateRow(index, { amount: e.target.value })}
+                  placeholder="0.00000000"
+                  size="md"
+                  variant="default"
+                />
+              </div>
+              <div className="flex-1">
+                <Input
+                  label="Label (optional)"
+                  icon="fas fa-edit"
+                  type="text"
+                  id={`recipientLabel${index}`}
+                  value={row.label}
+                  onChange={(e) => updateRow(index, { label: e.target.value })}
+                  placeholder="e.g. employee name"
+                  size="md"
+                  variant="default"
+                />
+              </div>
+            </div>
+            <label className={styles.subtractFee}>
+              <input
+                type="checkbox"
+                checked={row.subtractFee}
+                onChange={(e) =>
+                  updateRow(index, { subtractFee: e.target.checked })
+                }
+              />
+              Subtract fee from this amount
+            </label>
+            {error && <div className={styles.rowError}>{error}</div>}
+          </div>
+        );
+      })}
+
+      <div className={styles.actions}>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => onChange([...recipients, { ...EMPTY_RECIPIENT }])}
+          icon="fas fa-user"
+        >
+          Add Recipient
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => setShowPaste(!showPaste)}
+          icon="fas fa-file-text"
+        >
+          Paste CSV
+        </Button>
+        <Button
+          type="button"
+          variant="secondary"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          icon="fas fa-download"
+        >
+          Upload CSV
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv,text/plain"
+          className={styles.fileInput}
+          onChange={handleFile}
+        />
+      </div>
+
+      {showPaste && (
+        <div className={styles.pasteArea}>
+          <TextArea
+            label="Recipients CSV"
+            icon="fas fa-file-text"
+            id="recipientsCsv"
+            rows={5}
+            value={csvText}
+            onChange={(e) => setCsvText(e.target.value)}
+            placeholder={`address,amount,label\n${
+              getBitcoinNetwork(network).bech32
+            }1q...,0.001,Alice`}
+          />
+          <Button
+            type="button"
+            variant="primary"
+            size="sm"
+            onClick={() => importCSV(csvText)}
+            disabled={!csvText.trim()}
+            icon="fas fa-check-circle"
+          >
+            Import Recipients
+          </Button>
+        </div>
+      )}
+
+      {importError && <div className={styles.rowError}>{importError}</div>}
+
+      <div className="balance-display">
+        {recipients.length} recipient{recipients.length === 1 ? '' : 's'} ·
+        Total: {totalBTC.toFixed(8)} {getNetworkUnit(network)}
+      </div>
+    </div>
+  );
+}
@@ -5,32 +5,65 @@ import { UTXO, FeeEstimate } from '../../types/bitcoin';
 import {
   getFeeRates,
   estimateFee,
+  addressNeedsPublicKey,
   TransactionFormData,
+  validateRecipientRow,
 } from '../../lib/bitcoin';
 import FeeSelector from './FeeSelector';
+import RecipientList, { EMPTY_RECIPIENT } from './RecipientList';
+import MultisigWalletForm, { INITIAL_MULTISIG } from './MultisigWalletForm';
+import {
+  ChainNetwork,
+  getCoinType,
+  getNetworkName,
+  getNetworkUnit,
+} from '../../lib/networks';
 import { Button, Input } from '@btc-wallet/ui';
 import { Coins } from 'lucide-react';
 
+// Sample addresses are only filled in on testnet
+const getInitialFormData = (network: ChainNetwork): TransactionFormData =>
+  network === 'testnet'
+    ? {
+        fromAddress: 'tb1q338v7xrvh3lgsyywnxekts7mljd5mdmctx9u7l',
+        recipients: [
+          {
+            address: 'tb1qqupwljgnct7qcas4ukpgc9z2pelmrhsj07x5hk',
+            amount: '0.0001',
+            label: '',
+            subtractFee: false,
+          },
+        ],
+        currency: 'btc',
+        amountSummary: '0.00010000 BTC',
+        feeSummary: '0.00010000 BTC',
+        totalSummary: '0.00020000 BTC',
+      }
+    : {
+        fromAddress: '',
+        recipients: [{ ...EMPTY_RECIPIENT }],
+        currency: 'btc',
+        amountSummary: `0.00000000 ${getNetworkUnit(network)}`,
+        feeSummary: `0.00000000 ${getNetworkUnit(network)}`,
+        totalSummary: `0.00000000 ${getNetworkUnit(network)}`,
+      };
+
 export default function TransactionForm({
+  network,
   onCreateTransaction,
   onFetchUTXOs,
   balance,
   utxos,
 }: {
+  network: ChainNetwork;
   onCreateTransaction: (data: TransactionFormData) => void;
   onFetchUTXOs: (address: string) => void;
   balance: number;
   utxos: UTXO[];
 }) {
-  const [formData, setFormData] = useState<TransactionFormData>({
-    fromAddress: 'tb1q338v7xrvh3lgsyywnxekts7mljd5mdmctx9u7l',
-    toAddress: 'tb1qqupwljgnct7qcas4ukpgc9z2pelmrhsj07x5hk',
-    amount: '0.0001',
-    currency: 'btc',
-    amountSummary: '0.00010000 BTC',
-    feeSummary: '0.00010000 BTC',
-    totalSummary: '0.00020000 BTC',
-  });
+  const [formData, setFormData] = useState<TransactionFormData>(() =>
+    getInitialFormData(network)
+  );
 
   const [feeRate, setFeeRate] = useState('normal');
   const [feeRates, setFeeRates] = useState<FeeEstimate | null>(null);
@@ -42,31 +75,28 @@ export default function TransactionForm({
 
   // Load fee rates on component mount
   useEffect(() => {
+    const loadFeeRates = async () => {
+      try {
+        setIsLoadingFees(true);
+        const rates = await getFeeRates(network);
+        setFeeRates(rates);
+      } catch (error) {
+        console.error('Failed to load fee rates:', error);
+      } finally {
+        setIsLoadingFees(false);
+      }
+    };
     loadFeeRates();
-  }, []);
-
-  const loadFeeRates = async () => {
-    try {
-      setIsLoadingFees(true);
-      const rates = await getFeeRates();
-      setFeeRates(rates);
-    } catch (error) {
-      console.error('Failed to load fee rates:', error);
-    } finally {
-      setIsLoadingFees(false);
-    }
-  };
+  }, [network]);
 
   const estimateTransactionFee = useCallback(async () => {
     try {
       setIsEstimatingFee(true);
-      const amountValue = parseFloat(formData.amount) || 0;
-      if (amountValue <= 0) return;
 
       // Use existing fee rates if available, otherwise fetch them
       let currentFeeRates = feeRates;
       if (!currentFeeRates) {
-        currentFeeRates = await getFeeRates();
+        currentFeeRates = await getFeeRates(network);
         setFeeRates(currentFeeRates);
       }
 
@@ -76,6 +106,7 @@ export default function TransactionForm({
           feeRate,
         },
         utxos,
+        network,
         currentFeeRates
       );
 
@@ -86,19 +117,18 @@ export default function TransactionForm({
     } finally {
       setIsEstimatingFee(false);
     }
-  }, [formData, utxos, feeRate, feeRates]);
+  }, [formData, utxos, feeRate, feeRates, network]);
 
-  // Estimate fee when form data changes
+  // Estimate fee when form data changes and every recipient is valid
   useEffect(() => {
     if (
       utxos.length > 0 &&
-      formData.amount &&
       formData.fromAddress &&
-      formData.toAddress
+      formData.recipients.every((row) => !validateRecipientRow(row, network))
     ) {
       estimateTransactionFee();
     }
-  }, [formData, utxos, feeRate, estimateTransactionFee]);
+  }, [formData, utxos, feeRate, network, estimateTransactionFee]);
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
@@ -116,7 +146,10 @@ export default function TransactionForm({
   };
 
   const updateSummary = useCallback(() => {
-    const amountValue = parseFloat(formData.amount) || 0;
+    const amountValue = formData.recipients.reduce(
+      (sum, row) => sum + (parseFloat(row.amount) || 0),
+      0
+    );
     let amountInBTC = amountValue;
 
     // Convert to BTC if needed (simplified conversion)
@@ -127,23 +160,56 @@ export default function TransactionForm({
     }
 
     const feeBTC = estimatedFee ? estimatedFee / 100000000 : 0;
-    const totalBTC = amountInBTC + feeBTC;
+    // Recipients that subtract the fee pay it out of the amount
+    const totalBTC = formData.recipients.some((row) => row.subtractFee)
+      ? amountInBTC
+      : amountInBTC + feeBTC;
 
+    const unit = getNetworkUnit(network);
     setFormData((prev) => ({
       ...prev,
-      amountSummary: `${amountInBTC.toFixed(8)} BTC`,
-      feeSummary: `${feeBTC.toFixed(8)} BTC`,
-      totalSummary: `${totalBTC.toFixed(8)} BTC`,
+      amountSummary: `${amountInBTC.toFixed(8)} ${unit}`,
+      feeSummary: `${feeBTC.toFixed(8)} ${unit}`,
+      totalSummary: `${totalBTC.toFixed(8)} ${unit}`,
     }));
-  }, [formData.amount, formData.currency, estimatedFee]);
+  }, [formData.recipients, formData.currency, estimatedFee, network]);
 
   // Update summary when estimated fee changes
   useEffect(() => {
     updateSummary();
-  }, [formData.amount, formData.currency, estimatedFee, updateSummary]);
+  }, [formData.recipients, formData.currency, estimatedFee, updateSummary]);
+
+  // Switching wallet type drops the key fields of the other type
+  const setMultisig = (enabled: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      publicKey: undefined,
+      accountXpub: undefined,
+      masterFingerprint: undefined,
+      accountPath: undefined,
+      multisig: enabled ? INITIAL_MULTISIG : undefined,
+    }));
+  };
 
   return (
     <form onSubmit={handleSubmit}>
+      <div className="tab-navigation">
+        <button
+          type="button"
+          onClick={() => setMultisig(false)}
+          className={`tab-button ${!formData.multisig ? 'active' : ''}`}
+        >
+          Single Key
+        </button>
+        <button
+          type="button"
+          onClick={() => setMultisig(true)}
+          className={`tab-button ${formData.multisig ? 'active' : ''}`}
+        >
+          Multisig
+        </button>
+      </div>
+
       <div className="input-group">
         <div className="input-with-button">
           <Input
@@ -154,7 +220,11 @@ export default function TransactionForm({
             name="fromAddress"
             value={formData.fromAddress}
             onChange={handleChange}
-            placeholder="Your Bitcoin testnet address"
+            placeholder={
+              formData.multisig
+                ? `Multisig ${getNetworkName(network)} address of the wallet below`
+                : `Your ${getNetworkName(network)} address`
+            }
             size="md"
             variant="default"
             hideLabel={true}
@@ -173,43 +243,96 @@ export default function TransactionForm({
         </div>
         <div className="balance-display" id="balanceDisplay">
           <Coins size={16} strokeWidth={2.5} /> Balance:
-          <span id="balanceValue"> {balance.toFixed(8)} </span> BTC
+          <span id="balanceValue"> {balance.toFixed(8)} </span>{' '}
+          {getNetworkUnit(network)}
         </div>
       </div>
 
-      <div className="input-group">
-        <Input
-          label="To Address"
-          icon="fas fa-user"
-          type="text"
-          id="toAddress"
-          name="toAddress"
-          value={formData.toAddress}
-          onChange={handleChange}
-          placeholder="Recipient Bitcoin testnet address"
-          size="md"
-          variant="default"
+      {formData.multisig && (
+        <MultisigWalletForm
+          network={network}
+          multisig={formData.multisig}
+          onChange={(multisig) =>
+            setFormData((prev) => ({ ...prev, multisig }))
+          }
         />
-      </div>
+      )}
+
+      {!formData.multisig &&
+        addressNeedsPublicKey(formData.fromAddress) &&
+        !formData.accountXpub && (
+          <div className="input-group">
+            <Input
+              label="From Address Public Key"
+              icon="fas fa-key"
+              type="text"
+              id="publicKey"
+              name="publicKey"
+              value={formData.publicKey ?? ''}
+              onChange={handleChange}
+              placeholder="Hex public key (taproot: internal key)"
+              size="md"
+              variant="default"
+            />
+          </div>
+        )}
 
-      <div className="amount-container">
-        <div className="input-group flex-1">
+      {!formData.multisig && (
+        <div className="input-group">
           <Input
-            label="Amount"
-            icon="fas fa-coins"
-            type="number"
-            id="amount"
-            name="amount"
-            min="0.00000001"
-            step="0.00000001"
-            value={formData.amount}
+            label="Account xpub (optional)"
+            icon="fas fa-sitemap"
+            type="text"
+            id="accountXpub"
+            name="accountXpub"
+            value={formData.accountXpub ?? ''}
             onChange={handleChange}
-            placeholder="0.00000000"
+            placeholder="Adds key origins so signers can derive keys and verify change"
             size="md"
             variant="default"
           />
+          {formData.accountXpub && (
+            <div className="amount-container">
+              <div className="input-group flex-1">
+                <Input
+                  label="Master Fingerprint"
+                  icon="fas fa-fingerprint"
+                  type="text"
+                  id="masterFingerprint"
+                  name="masterFingerprint"
+                  value={formData.masterFingerprint ?? ''}
+                  onChange={handleChange}
+                  placeholder="8 hex characters"
+                  size="md"
+                  variant="default"
+                />
+              </div>
+              <div className="input-group flex-1">
+                <Input
+                  label="Account Path"
+                  icon="fas fa-route"
+                  type="text"
+                  id="accountPath"
+                  name="accountPath"
+                  value={formData.accountPath ?? ''}
+                  onChange={handleChange}
+                  placeholder={`m/84'/${getCoinType(network)}'/0'`}
+                  size="md"
+                  variant="default"
+                />
+              </div>
+            </div>
+          )}
         </div>
-      </div>
+      )}
+
+      <RecipientList
+        network={network}
+        recipients={formData.recipients}
+        onChange={(recipients) =>
+          setFormData((prev) => ({ ...prev, recipients }))
+        }
+      />
 
       {/* Fee Selector Component */}
       <FeeSelector
@@ -253,15 +376,7 @@ export default function TransactionForm({
           variant="secondary"
           onClick={() => {
             if (confirm('Are you sure you want to reset all fields?')) {
-              setFormData({
-                fromAddress: 'tb1q338v7xrvh3lgsyywnxekts7mljd5mdmctx9u7l',
-                toAddress: 'tb1qqupwljgnct7qcas4ukpgc9z2pelmrhsj07x5hk',
-                amount: '0.0001',
-                currency: 'btc',
-                amountSummary: '0.00010000 BTC',
-                feeSummary: '0.00010000 BTC',
-                totalSummary: '0.00020000 BTC',
-              });
+              setFormData(getInitialFormData(network));
               setFeeRate('normal');
               setEstimatedFee(undefined);
             }
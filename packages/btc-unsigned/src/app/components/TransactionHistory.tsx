@@ -0,0 +1,236 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@btc-wallet/ui';
+import { History } from 'lucide-react';
+import {
+  deleteHistoryRecord,
+  getTransactionHistory,
+  HistoryRecord,
+  needsStatusCheck,
+  refreshHistoryRecord,
+} from '../../lib/tx-history';
+import { getNetworkName, getNetworkUnit } from '../../lib/networks';
+import styles from './TransactionHistory.module.css';
+
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const STATUS_LABELS: Record<HistoryRecord['status'], string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  replaced: 'Replaced',
+  dropped: 'Dropped',
+};
+
+export default function TransactionHistory({
+  version,
+  onOpen,
+}: {
+  version: number; // Bumped whenever a broadcast is recorded
+  onOpen: (record: HistoryRecord) => void;
+}) {
+  const [records, setRecords] = useState<HistoryRecord[]>([]);
+  const [activeTab, setActiveTab] = useState<'pending' | 'completed'>(
+    'pending'
+  );
+  const [isChecking, setIsChecking] = useState(false);
+  const checkingRef = useRef(false); // Read by the interval, unlike state
+  const [error, setError] = useState('');
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setRecords(await getTransactionHistory());
+      setError('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to load history');
+    }
+  }, []);
+
+  // Check every record still in flight, one at a time. A poll that comes
+  // round while the last one is still running is skipped.
+  const checkStatuses = useCallback(async () => {
+    if (checkingRef.current) return;
+    checkingRef.current = true;
+    setIsChecking(true);
+    try {
+      for (const record of (await getTransactionHistory()).filter(
+        needsStatusCheck
+      )) {
+        try {
+          await refreshHistoryRecord(record);
+        } catch (e) {
+          console.error(`Failed to check ${record.txid}:`, e);
+        }
+      }
+      await loadHistory();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to check history');
+    } finally {
+      checkingRef.current = false;
+      setIsChecking(false);
+    }
+  }, [loadHistory]);
+
+  useEffect(() => {
+    checkStatuses();
+    const interval = setInterval(checkStatuses, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [version, checkStatuses]);
+
+  const handleRemove = async (txid: string) => {
+    if (!confirm('Remove this transaction from the history?')) return;
+    await deleteHistoryRecord(txid);
+    await loadHistory();
+  };
+
+  const formatBTC = (satoshis: number): string => {
+    return (satoshis / 100000000).toFixed(8);
+  };
+
+  const visible = records.filter((record) =>
+    activeTab === 'pending'
+      ? record.status === 'pending' || record.status === 'dropped'
+      : record.status === 'confirmed' || record.status === 'replaced'
+  );
+
+  return (
+    <div>
+      <div className="tab-navigation">
+        <button
+          type="button"
+          onClick={() => setActiveTab('pending')}
+          className={`tab-button ${activeTab === 'pending' ? 'active' : ''}`}
+        >
+          Pending
+        </button>
+        <button
+          type="button"
+          onClick={() => setActiveTab('completed')}
+          className={`tab-button ${activeTab === 'completed' ? 'active' : ''}`}
+        >
+          Confirmed
+        </button>
+      </div>
+
+      {error && <div className={styles.empty}>{error}</div>}
+
+      {visible.length === 0 ? (
+        <div className={styles.empty}>
+          <History size={32} strokeWidth={2.5} className="mb-2" />
+          <p>
+            {activeTab === 'pending'
+              ? 'No transactions waiting for confirmation'
+              : 'No confirmed transactions yet'}
+          </p>
+        </div>
+      ) : (
+        visible.map((record) => {
+          const { transaction } = record;
+          return (
+            <div key={record.txid} className={styles.historyItem}>
+              <div className={styles.historyHeader}>
+                <span className={styles.txid} title={record.txid}>
+                  {record.txid}
+                </span>
+                <span className={`${styles.badge} ${styles[record.status]}`}>
+                  {STATUS_LABELS[record.status]}
+                </span>
+              </div>
+
+              <div className="space-y-2 text-sm">
+                <div className="summary-item">
+                  <span>Network:</span>
+                  <span className="value">
+                    {getNetworkName(record.network)}
+                  </span>
+                </div>
+                <div className="summary-item">
+                  <span>Broadcast:</span>
+                  <span className="value">
+                    {new Date(record.broadcastAt).toLocaleString()}
+                  </span>
+                </div>
+                <div className="summary-item">
+                  <span>Sent:</span>
+                  <span className="value font-mono">
+                    {formatBTC(
+                      transaction.totalOutputValue - transaction.changeAmount
+                    )}{' '}
+                    {getNetworkUnit(record.network)} to{' '}
+                    {transaction.recipients?.length ?? 1} recipient
+                    {(transaction.recipients?.length ?? 1) === 1 ? '' : 's'}
+                  </span>
+                </div>
+                <div className="summary-item">
+                  <span>Fee:</span>
+                  <span className="value font-mono">
+                    {transaction.estimatedFee} sats
+                  </span>
+                </div>
+                {record.status === 'confirmed' && (
+                  <div className="summary-item">
+                    <span>Confirmations:</span>
+                    <span className="value font-mono">
+                      {record.confirmations}
+                      {record.blockHeight !== undefined &&
+                        ` (block ${record.blockHeight})`}
+                    </span>
+                  </div>
+                )}
+                {record.status === 'replaced' && (
+                  <div className="summary-item">
+                    <span>Replaced by:</span>
+                    <span className="value font-mono">
+                      {record.replacedBy ?? 'Another transaction'}
+                    </span>
+                  </div>
+                )}
+                {record.status === 'dropped' && (
+                  <div className="summary-item">
+                    <span>Note:</span>
+                    <span className="value">
+                      Not in the mempool; its inputs are unspent
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              <div className={styles.actions}>
+                <Button
+                  type="button"
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => onOpen(record)}
+                  icon="fas fa-folder-open"
+                >
+                  Open PSBT
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRemove(record.txid)}
+                  icon="fas fa-trash"
+                >
+                  Remove
+                </Button>
+              </div>
+            </div>
+          );
+        })
+      )}
+
+      <div className="btn-container">
+        <Button
+          type="button"
+          variant="secondary"
+          onClick={checkStatuses}
+          loading={isChecking}
+          icon="fas fa-sync-alt"
+        >
+          Check Now
+        </Button>
+      </div>
+    </div>
+  );
+}
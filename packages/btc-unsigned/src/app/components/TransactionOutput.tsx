@@ -1,11 +1,12 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { QRCodeSVG } from 'qrcode.react';
 import { UnsignedTransaction } from '../../types/bitcoin';
 import { Button, Card } from '@btc-wallet/ui';
-import { SignatureData } from '../../lib/broadcast';
+import { CollectedSignatures } from '../../lib/broadcast';
+import { getNetworkUnit } from '../../lib/networks';
 import { FileCode, Info } from 'lucide-react';
+import AnimatedPSBTQR from './AnimatedPSBTQR';
 
 export default function TransactionOutput({
   unsignedTransaction,
@@ -17,7 +18,7 @@ export default function TransactionOutput({
   unsignedTransaction: UnsignedTransaction | null;
   onCopyPSBT: () => void;
   onExportJSON: () => void;
-  onBroadcast?: (signatures: SignatureData[]) => void;
+  onBroadcast?: (collected: CollectedSignatures) => void;
   onOpenBroadcastModal: () => void;
 }) {
   const [qrValue, setQrValue] = useState('');
@@ -73,6 +74,8 @@ export default function TransactionOutput({
     );
   }
 
+  const unit = getNetworkUnit(unsignedTransaction.network);
+
   return (
     <div className="transaction-output">
       {/* Tab Navigation */}
@@ -99,15 +102,7 @@ export default function TransactionOutput({
           {/* QR Code Container - Always Visible */}
           <div className="qr-code-container">
             {qrValue ? (
-              <div className="bg-white p-4 rounded-lg w-full max-w-[320px]">
-                <QRCodeSVG
-                  value={qrValue}
-                  size={320}
-                  level="H"
-                  includeMargin={true}
-                  style={{ width: '100%', height: 'auto' }}
-                />
-              </div>
+              <AnimatedPSBTQR psbt={qrValue} />
             ) : (
               <div className="bg-gray-700 border-2 border-dashed border-gray-600 rounded-xl w-full max-w-[320px] aspect-square flex items-center justify-center text-gray-500">
                 {error || 'No transaction to display'}
@@ -193,7 +188,7 @@ export default function TransactionOutput({
                 <div className="summary-item">
                   <span>Total Input:</span>
                   <span className="value font-mono">
-                    {formatBTC(unsignedTransaction.totalInputValue)} BTC
+                    {formatBTC(unsignedTransaction.totalInputValue)} {unit}
                   </span>
                 </div>
                 <div className="summary-item">
@@ -203,13 +198,13 @@ export default function TransactionOutput({
                       unsignedTransaction.totalOutputValue -
                         unsignedTransaction.changeAmount
                     )}{' '}
-                    BTC
+                    {unit}
                   </span>
                 </div>
                 <div className="summary-item">
                   <span>Total Output:</span>
                   <span className="value font-mono">
-                    {formatBTC(unsignedTransaction.totalOutputValue)} BTC
+                    {formatBTC(unsignedTransaction.totalOutputValue)} {unit}
                   </span>
                 </div>
                 <div className="summary-item">
@@ -218,7 +213,7 @@ export default function TransactionOutput({
                     className="value font-mono"
                     style={{ color: 'var(--color-warning)' }}
                   >
-                    {formatBTC(unsignedTransaction.estimatedFee)} BTC
+                    {formatBTC(unsignedTransaction.estimatedFee)} {unit}
                   </span>
                 </div>
                 <div className="summary-item">
@@ -227,13 +222,49 @@ export default function TransactionOutput({
                     className="value font-mono"
                     style={{ color: 'var(--color-success)' }}
                   >
-                    {formatBTC(unsignedTransaction.changeAmount)} BTC
+                    {formatBTC(unsignedTransaction.changeAmount)} {unit}
                   </span>
                 </div>
               </div>
             </Card>
           </div>
 
+          {unsignedTransaction.recipients &&
+            unsignedTransaction.recipients.length > 0 && (
+              <Card
+                title="Recipients"
+                icon="fas fa-user"
+                variant="outlined"
+                padding="md"
+              >
+                <div className="space-y-2 text-sm">
+                  {unsignedTransaction.recipients.map((recipient, index) => (
+                    <div
+                      key={index}
+                      className="flex justify-between items-center p-2 bg-gray-700 rounded"
+                    >
+                      <div className="flex-1 min-w-0">
+                        {recipient.label && <div>{recipient.label}</div>}
+                        <div className="font-mono text-xs text-gray-400 truncate">
+                          {recipient.address}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-mono">
+                          {formatBTC(recipient.value)} {unit}
+                        </div>
+                        {recipient.subtractFee && (
+                          <div className="text-xs text-gray-400">
+                            Pays part of fee
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </Card>
+            )}
+
           <Card
             title="UTXOs Used"
             icon="fas fa-list"
@@ -252,7 +283,9 @@ export default function TransactionOutput({
                     </div>
                   </div>
                   <div className="text-right">
-                    <div className="font-mono">{formatBTC(utxo.value)} BTC</div>
+                    <div className="font-mono">
+                      {formatBTC(utxo.value)} {unit}
+                    </div>
                     <div className="text-xs text-gray-400">
                       {utxo.status.confirmed ? 'Confirmed' : 'Unconfirmed'}
                     </div>
@@ -262,6 +295,55 @@ export default function TransactionOutput({
             </div>
           </Card>
 
+          {unsignedTransaction.coinSelection && (
+            <Card
+              title="Coin Selection"
+              icon="fas fa-balance-scale"
+              variant="outlined"
+              padding="md"
+            >
+              <div className="space-y-2 text-sm">
+                {unsignedTransaction.coinSelection.candidates.map(
+                  (candidate) => (
+                    <div
+                      key={candidate.strategy}
+                      className="flex justify-between items-center p-2 bg-gray-700 rounded"
+                    >
+                      <div className="flex-1">
+                        <div className="font-mono">
+                          {candidate.strategy}
+                          {candidate.strategy ===
+                            unsignedTransaction.coinSelection?.strategy &&
+                            ' (used)'}
+                        </div>
+                        <div className="text-xs text-gray-400">
+                          {candidate.inputCount} inputs · {candidate.vsize} vB ·{' '}
+                          {candidate.changeAmount > 0 ? 'change' : 'no change'}
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <div className="font-mono">
+                          {formatBTC(candidate.feeSatoshis)} {unit}
+                        </div>
+                        <div className="text-xs text-gray-400">
+                          waste {candidate.waste} sats
+                        </div>
+                      </div>
+                    </div>
+                  )
+                )}
+                {unsignedTransaction.coinSelection.failures.map((failure) => (
+                  <div
+                    key={failure.strategy}
+                    className="text-xs text-gray-400 px-2"
+                  >
+                    {failure.strategy}: {failure.reason}
+                  </div>
+                ))}
+              </div>
+            </Card>
+          )}
+
           <div className="btn-container">
             <Button
               type="button"
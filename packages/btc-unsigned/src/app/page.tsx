@@ -5,17 +5,31 @@ import { Header, MainContainer, Card, Status } from '@btc-wallet/ui';
 import TransactionForm from './components/TransactionForm';
 import TransactionOutput from './components/TransactionOutput';
 import TransactionDetails from './components/TransactionDetails';
+import FeeBumpForm from './components/FeeBumpForm';
+import NetworkSelector from './components/NetworkSelector';
+import TransactionHistory from './components/TransactionHistory';
 import { BroadcastModal } from './components/BroadcastModal';
 import { InstallPrompt, OfflineIndicator } from '@btc-wallet/my-pwa';
 import { UTXO, UnsignedTransaction } from '../types/bitcoin';
-import { SignatureData } from '../lib/broadcast';
+import { CollectedSignatures } from '../lib/broadcast';
 import {
   fetchUTXOs,
+  generateFeeBump,
   generateTransaction,
+  FeeBumpFormData,
   TransactionFormData,
 } from '../lib/bitcoin';
+import {
+  ChainNetwork,
+  DEFAULT_NETWORK,
+  getNetworkName,
+  getNetworkUnit,
+  isMainnet,
+} from '../lib/networks';
+import { HistoryRecord, recordBroadcast } from '../lib/tx-history';
 
 export default function Home() {
+  const [network, setNetwork] = useState<ChainNetwork>(DEFAULT_NETWORK);
   const [utxos, setUtxos] = useState<UTXO[]>([]);
   const [balance, setBalance] = useState(0);
   const [unsignedTransaction, setUnsignedTransaction] =
@@ -25,16 +39,27 @@ export default function Home() {
     type: 'success' | 'error' | 'warning';
   } | null>(null);
   const [showBroadcastModal, setShowBroadcastModal] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
+
+  // UTXOs and transactions never carry over to another network
+  const handleNetworkChange = (newNetwork: ChainNetwork) => {
+    if (newNetwork === network) return;
+    setNetwork(newNetwork);
+    setUtxos([]);
+    setBalance(0);
+    setUnsignedTransaction(null);
+    setShowBroadcastModal(false);
+    setStatus({
+      message: `Switched to ${getNetworkName(newNetwork)}`,
+      type: isMainnet(newNetwork) ? 'warning' : 'success',
+    });
+  };
 
   const handleFetchUTXOs = async (address: string) => {
     console.log('Fetch UTXOs clicked for address:', address);
     try {
       setStatus({ message: 'Fetching UTXOs...', type: 'warning' });
-      console.log(
-        'Making fetch request to:',
-        `https://blockstream.info/testnet/api/address/${address}/utxo`
-      );
-      const utxos = await fetchUTXOs(address);
+      const utxos = await fetchUTXOs(address, network);
       console.log('UTXOs received:', utxos);
       setUtxos(utxos);
 
@@ -46,7 +71,9 @@ export default function Home() {
       setStatus({
         message: `Fetched ${
           utxos.length
-        } UTXOs with balance: ${totalBalance.toFixed(8)} BTC`,
+        } UTXOs with balance: ${totalBalance.toFixed(8)} ${getNetworkUnit(
+          network
+        )}`,
         type: 'success',
       });
     } catch (error) {
@@ -62,7 +89,7 @@ export default function Home() {
   const handleCreateTransaction = async (formData: TransactionFormData) => {
     try {
       setStatus({ message: 'Creating transaction...', type: 'warning' });
-      const transaction = await generateTransaction(formData, utxos);
+      const transaction = await generateTransaction(formData, utxos, network);
       setUnsignedTransaction(transaction);
       setStatus({
         message: 'Transaction created successfully!',
@@ -79,6 +106,35 @@ export default function Home() {
     }
   };
 
+  const handleBumpFee = async (formData: FeeBumpFormData) => {
+    try {
+      setStatus({ message: 'Creating fee bump...', type: 'warning' });
+      // Confirmed UTXOs of the address can be added if change is too small
+      const addressUtxos =
+        formData.method === 'rbf'
+          ? await fetchUTXOs(formData.fromAddress.trim(), network)
+          : [];
+      const transaction = await generateFeeBump(
+        formData,
+        addressUtxos,
+        network
+      );
+      setUnsignedTransaction(transaction);
+      setStatus({
+        message: `Fee bump created: fee ${
+          transaction.feeBump?.originalFee
+        } → ${transaction.feeBump?.newFee} sats`,
+        type: 'success',
+      });
+    } catch (error) {
+      setStatus({
+        message:
+          error instanceof Error ? error.message : 'Fee bump creation failed',
+        type: 'error',
+      });
+    }
+  };
+
   const handleCopyPSBT = () => {
     if (unsignedTransaction) {
       navigator.clipboard.writeText(unsignedTransaction.psbt);
@@ -97,7 +153,7 @@ export default function Home() {
     }
   };
 
-  const handleBroadcast = async (signatures: SignatureData[]) => {
+  const handleBroadcast = async (collected: CollectedSignatures) => {
     if (!unsignedTransaction) {
       setStatus({
         message: 'No transaction to broadcast',
@@ -116,13 +172,25 @@ export default function Home() {
         },
         body: JSON.stringify({
           psbt: unsignedTransaction.psbt,
-          signatures,
+          signedPsbts: collected.signedPsbts,
+          signatures: collected.legacySignatures,
+          network: unsignedTransaction.network,
         }),
       });
 
       const result = await response.json();
 
       if (result.success) {
+        // A history failure must not hide that the broadcast succeeded
+        const txid = result.broadcastResult?.txid;
+        if (txid) {
+          try {
+            await recordBroadcast(unsignedTransaction, txid);
+            setHistoryVersion((version) => version + 1);
+          } catch (error) {
+            console.error('Failed to record transaction history:', error);
+          }
+        }
         setStatus({
           message: `Transaction broadcast successfully! TXID: ${
             result.broadcastResult?.txid || 'Unknown'
@@ -145,13 +213,37 @@ export default function Home() {
     }
   };
 
+  // Re-open a recorded PSBT on its own network
+  const handleOpenHistory = (record: HistoryRecord) => {
+    if (record.network !== network) {
+      setNetwork(record.network);
+      setUtxos([]);
+      setBalance(0);
+    }
+    setUnsignedTransaction(record.transaction);
+    setStatus({
+      message: `Opened transaction ${record.txid}`,
+      type: 'success',
+    });
+  };
+
   return (
     <MainContainer>
       <OfflineIndicator />
       <Header appType="creator" />
 
+      <Card title="Network" icon="fas fa-network-wired">
+        <NetworkSelector
+          network={network}
+          onNetworkChange={handleNetworkChange}
+        />
+      </Card>
+
+      {/* Forms start over on a new network */}
       <Card title="Transaction Details" icon="fas fa-money-bill-wave">
         <TransactionForm
+          key={network}
+          network={network}
           onCreateTransaction={handleCreateTransaction}
           onFetchUTXOs={handleFetchUTXOs}
           balance={balance}
@@ -159,6 +251,10 @@ export default function Home() {
         />
       </Card>
 
+      <Card title="Bump Fee" icon="fas fa-angle-double-up">
+        <FeeBumpForm key={network} onBumpFee={handleBumpFee} />
+      </Card>
+
       <Card title="Generated Transaction" icon="fas fa-file-code">
         <TransactionOutput
           unsignedTransaction={unsignedTransaction}
@@ -169,12 +265,19 @@ export default function Home() {
         />
       </Card>
 
+      <Card title="Transaction History" icon="fas fa-history">
+        <TransactionHistory
+          version={historyVersion}
+          onOpen={handleOpenHistory}
+        />
+      </Card>
+
       <TransactionDetails />
 
       <div className="footer">
         <p>
-          This tool creates valid Bitcoin transactions with proper UTXO
-          references
+          This tool creates valid Bitcoin and Litecoin transactions with proper
+          UTXO references
         </p>
         <p>
           All processing happens in your browser - no data is sent to any server
@@ -193,6 +296,7 @@ export default function Home() {
       {unsignedTransaction && (
         <BroadcastModal
           psbt={unsignedTransaction.psbt}
+          feeBump={unsignedTransaction.feeBump}
           isOpen={showBroadcastModal}
           onClose={() => setShowBroadcastModal(false)}
           onBroadcast={handleBroadcast}
@@ -1,13 +1,33 @@
+import { address as bitcoinAddress } from 'bitcoinjs-lib';
+import { listChainParams } from '@btc-wallet/chain-params';
 import {
   UTXO,
   UnsignedTransaction,
   TransactionRequest,
 } from '../types/bitcoin';
 import {
+  createCPFPTransaction,
   createUnsignedTransaction,
   estimateTransactionFee,
 } from './transaction-creator';
 import { FeeEstimate } from './fee-estimator';
+import { AccountKey } from './key-origin';
+import {
+  MultisigScriptType,
+  MultisigWallet,
+  deriveMultisigAddress,
+  getMultisigDescriptor,
+} from './multisig';
+import { createFeeBumpTransaction } from './rbf';
+import { Recipient } from './psbt-generator';
+import {
+  ChainNetwork,
+  assertAddressNetwork,
+  getBitcoinNetwork,
+  getDustLimit,
+  getNetworkName,
+  getNetworkUnit,
+} from './networks';
 
 /**
  * Bitcoin Transaction Service
@@ -18,8 +38,12 @@ import { FeeEstimate } from './fee-estimator';
 
 export interface TransactionFormData {
   fromAddress: string;
-  toAddress: string;
-  amount: string;
+  publicKey?: string; // Needed for P2SH-P2WPKH and P2TR from addresses
+  accountXpub?: string; // Optional key origin of the from address
+  masterFingerprint?: string;
+  accountPath?: string;
+  multisig?: MultisigFormData; // Set when the from address is multisig
+  recipients: RecipientFormRow[];
   currency: string;
   amountSummary: string;
   feeSummary: string;
@@ -27,17 +51,47 @@ export interface TransactionFormData {
   feeRate?: string;
 }
 
+export interface MultisigFormData {
+  threshold: string; // M
+  scriptType: MultisigScriptType;
+  cosigners: AccountKey[]; // One row per cosigner, N in total
+}
+
+export interface RecipientFormRow {
+  address: string;
+  amount: string; // BTC or LTC
+  label: string;
+  subtractFee: boolean; // Recipient pays a share of the fee
+}
+
+export interface FeeBumpFormData {
+  method: 'rbf' | 'cpfp';
+  transaction: string; // Txid or raw hex (RBF only) of the stuck transaction
+  fromAddress: string; // Address of its inputs (RBF) or change output (CPFP)
+  publicKey?: string;
+  feeRate: string; // sat/vB; optional for CPFP, which then uses the network rate
+}
+
 /**
  * Fetch UTXOs for a Bitcoin address
  * @param address - Bitcoin address
+ * @param network - Network the address belongs to
  * @returns Array of UTXOs
  */
-export const fetchUTXOs = async (address: string): Promise<UTXO[]> => {
+export const fetchUTXOs = async (
+  address: string,
+  network: ChainNetwork
+): Promise<UTXO[]> => {
   console.log('fetchUTXOs called with address:', address);
 
+  // Never ask one network's backend about another network's address
+  assertAddressNetwork(address, network);
+
   try {
     console.log('Fetching UTXOs via proxy API...');
-    const proxyUrl = `/api/utxo?address=${encodeURIComponent(address)}`;
+    const proxyUrl = `/api/utxo?address=${encodeURIComponent(
+      address
+    )}&network=${network}`;
     console.log('Fetching from proxy URL:', proxyUrl);
 
     const response = await fetch(proxyUrl, {
@@ -66,7 +120,8 @@ export const fetchUTXOs = async (address: string): Promise<UTXO[]> => {
             }
           : null,
       });
-      return data;
+      // Tag each UTXO with its address so coin selection can group them
+      return (data as UTXO[]).map((utxo) => ({ ...utxo, address }));
     } else {
       const errorData = await response.json().catch(() => ({}));
       throw new Error(
@@ -87,11 +142,13 @@ export const fetchUTXOs = async (address: string): Promise<UTXO[]> => {
  * Generate unsigned transaction
  * @param formData - Transaction form data
  * @param utxos - Available UTXOs
+ * @param network - Network to build the transaction for
  * @returns Unsigned transaction details
  */
 export const generateTransaction = async (
   formData: TransactionFormData,
-  utxos: UTXO[]
+  utxos: UTXO[],
+  network: ChainNetwork
 ): Promise<UnsignedTransaction> => {
   console.log('generateTransaction called with:', {
     formData,
@@ -99,7 +156,7 @@ export const generateTransaction = async (
   });
 
   // Validate inputs
-  if (!formData.fromAddress || !formData.toAddress || !formData.amount) {
+  if (!formData.fromAddress || formData.recipients.length === 0) {
     throw new Error('Please fill in all required fields');
   }
 
@@ -107,23 +164,19 @@ export const generateTransaction = async (
     throw new Error('Please fetch UTXOs first');
   }
 
-  const amountValue = parseFloat(formData.amount) || 0;
-  if (amountValue <= 0) {
-    throw new Error('Please enter a valid amount');
-  }
-
-  // Convert BTC to satoshis
-  const amountSatoshis = Math.round(amountValue * 100000000);
-  console.log('Amount in satoshis:', amountSatoshis);
+  const recipients = getRecipients(formData, network);
+  console.log('Recipients in satoshis:', recipients);
 
   // Create transaction request
   const request: TransactionRequest = {
     fromAddress: formData.fromAddress,
-    toAddress: formData.toAddress,
-    amountSatoshis,
+    recipients,
     feeRate:
       (formData.feeRate as 'slow' | 'normal' | 'fast' | 'priority') || 'normal',
-    network: 'testnet',
+    network,
+    publicKey: formData.publicKey,
+    accountKey: getAccountKey(formData),
+    multisig: getMultisigWallet(formData),
   };
 
   console.log('Transaction request:', request);
@@ -140,15 +193,262 @@ export const generateTransaction = async (
   }
 };
 
+/**
+ * Generate an unsigned replace-by-fee or child-pays-for-parent transaction
+ * @param formData - Fee bump form data
+ * @param utxos - UTXOs of the from address, for extra RBF inputs
+ * @param network - Network of the stuck transaction
+ * @returns Unsigned transaction with before/after fees
+ */
+export const generateFeeBump = async (
+  formData: FeeBumpFormData,
+  utxos: UTXO[],
+  network: ChainNetwork
+): Promise<UnsignedTransaction> => {
+  if (!formData.transaction.trim() || !formData.fromAddress.trim()) {
+    throw new Error('Please fill in all required fields');
+  }
+
+  // CPFP falls back to the current network rate when none is entered
+  const feeRate = parseFloat(formData.feeRate);
+  const hasFeeRate = formData.feeRate.trim() !== '';
+  if ((hasFeeRate || formData.method === 'rbf') && !(feeRate > 0)) {
+    throw new Error('Please enter a valid fee rate');
+  }
+
+  if (formData.method === 'cpfp') {
+    if (!/^[0-9a-fA-F]{64}$/.test(formData.transaction.trim())) {
+      throw new Error('CPFP needs the transaction ID of the broadcast parent');
+    }
+    return await createCPFPTransaction({
+      parentTxid: formData.transaction.trim().toLowerCase(),
+      changeAddress: formData.fromAddress.trim(),
+      feeRate: hasFeeRate ? feeRate : undefined,
+      network,
+      publicKey: formData.publicKey,
+    });
+  }
+
+  return await createFeeBumpTransaction(
+    {
+      transaction: formData.transaction,
+      fromAddress: formData.fromAddress.trim(),
+      feeRate,
+      network,
+      publicKey: formData.publicKey,
+    },
+    utxos
+  );
+};
+
+/**
+ * Read the optional account key from the form
+ * @param formData - Transaction form data
+ * @returns Account key, or undefined when no xpub was entered
+ */
+const getAccountKey = (
+  formData: TransactionFormData
+): AccountKey | undefined => {
+  const xpub = formData.accountXpub?.trim();
+  if (!xpub) return undefined;
+  const masterFingerprint = formData.masterFingerprint?.trim();
+  const accountPath = formData.accountPath?.trim();
+  if (!masterFingerprint || !accountPath) {
+    throw new Error(
+      'Enter the master fingerprint and account path for the account xpub'
+    );
+  }
+  return { xpub, masterFingerprint, accountPath };
+};
+
+/**
+ * Read the multisig wallet of the form
+ * @param formData - Transaction form data
+ * @returns Wallet, or undefined for a single-key from address
+ */
+const getMultisigWallet = (
+  formData: TransactionFormData
+): MultisigWallet | undefined =>
+  formData.multisig && parseMultisigForm(formData.multisig);
+
+/**
+ * Convert the multisig fields of the form, rejecting incomplete cosigners
+ * @param multisig - Multisig form data
+ * @returns Multisig wallet
+ */
+const parseMultisigForm = (multisig: MultisigFormData): MultisigWallet => {
+  multisig.cosigners.forEach((cosigner, index) => {
+    if (
+      !cosigner.xpub.trim() ||
+      !cosigner.masterFingerprint.trim() ||
+      !cosigner.accountPath.trim()
+    ) {
+      throw new Error(
+        `Enter the xpub, master fingerprint and account path of cosigner ${
+          index + 1
+        }`
+      );
+    }
+  });
+  return {
+    threshold: Number(multisig.threshold),
+    scriptType: multisig.scriptType,
+    cosigners: multisig.cosigners.map((cosigner) => ({
+      xpub: cosigner.xpub.trim(),
+      masterFingerprint: cosigner.masterFingerprint.trim(),
+      accountPath: cosigner.accountPath.trim(),
+    })),
+  };
+};
+
+/**
+ * Describe the multisig wallet entered in the form
+ * @param multisig - Multisig form data
+ * @param network - Network of the cosigner xpubs
+ * @param index - Receive address index to show
+ * @returns Output descriptor and receive address
+ */
+export const describeMultisigWallet = (
+  multisig: MultisigFormData,
+  network: ChainNetwork,
+  index: number = 0
+): { descriptor: string; receiveAddress: string } => {
+  const wallet = parseMultisigForm(multisig);
+  const bitcoinNetwork = getBitcoinNetwork(network);
+  return {
+    descriptor: getMultisigDescriptor(wallet, bitcoinNetwork),
+    receiveAddress: deriveMultisigAddress(wallet, bitcoinNetwork, 0, index)
+      .address,
+  };
+};
+
+/**
+ * Convert the recipient rows of the form, rejecting the first invalid one
+ * @param formData - Transaction form data
+ * @param network - Network the addresses must belong to
+ * @returns Recipients with amounts in satoshis
+ */
+const getRecipients = (
+  formData: TransactionFormData,
+  network: ChainNetwork
+): Recipient[] =>
+  formData.recipients.map((row, index) => {
+    const error = validateRecipientRow(row, network);
+    if (error) {
+      throw new Error(`Recipient ${index + 1}: ${error}`);
+    }
+    return {
+      address: row.address.trim(),
+      value: btcToSatoshis(parseFloat(row.amount)),
+      label: row.label.trim() || undefined,
+      subtractFee: row.subtractFee,
+    };
+  });
+
+/**
+ * Validate one recipient row of the form
+ * @param row - Recipient row
+ * @param network - Network the address must belong to
+ * @returns Error message, or null when the row is valid
+ */
+export const validateRecipientRow = (
+  row: RecipientFormRow,
+  network: ChainNetwork
+): string | null => {
+  if (!row.address.trim()) {
+    return 'Enter an address';
+  }
+  try {
+    assertAddressNetwork(row.address.trim(), network);
+  } catch (error) {
+    return error instanceof Error
+      ? error.message
+      : `Invalid ${getNetworkName(network)} address`;
+  }
+  // At most 8 decimals, so it converts to whole satoshis
+  if (!/^(\d+\.?\d{0,8}|\.\d{1,8})$/.test(row.amount.trim())) {
+    return `Enter an amount in ${getNetworkUnit(network)} with up to 8 decimals`;
+  }
+  const dustLimit = getDustLimit(network);
+  if (btcToSatoshis(parseFloat(row.amount)) <= dustLimit) {
+    return `Amount is below the ${dustLimit} satoshi dust limit`;
+  }
+  return null;
+};
+
+/**
+ * Parse recipients from CSV text with address,amount,label lines. Amounts
+ * are in BTC, the label is optional, and a header line is skipped.
+ * @param text - CSV text
+ * @returns Recipient rows, not yet validated
+ */
+export const parseRecipientsCSV = (text: string): RecipientFormRow[] => {
+  const rows: RecipientFormRow[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    const fields = parseCSVLine(line).map((field) => field.trim());
+    if (index === 0 && fields[0].toLowerCase() === 'address') return;
+    if (fields.length < 2 || fields.length > 3) {
+      throw new Error(`Line ${index + 1}: expected address,amount,label`);
+    }
+    rows.push({
+      address: fields[0],
+      amount: fields[1],
+      label: fields[2] ?? '',
+      subtractFee: false,
+    });
+  });
+  if (rows.length === 0) {
+    throw new Error('No recipients found in CSV');
+  }
+  return rows;
+};
+
+/**
+ * Split a CSV line into fields, honouring double-quoted fields
+ * @param line - CSV line
+ * @returns Field values
+ */
+const parseCSVLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
 /**
  * Estimate transaction fee
  * @param formData - Transaction form data
  * @param utxos - Available UTXOs
+ * @param network - Network to build the transaction for
+ * @param feeRates - Current fee rates, fetched when omitted
  * @returns Fee estimation details
  */
 export const estimateFee = async (
   formData: TransactionFormData,
   utxos: UTXO[],
+  network: ChainNetwork,
   feeRates?: FeeEstimate
 ): Promise<{
   estimatedFee: number;
@@ -158,7 +458,7 @@ export const estimateFee = async (
   feeRate: number;
 }> => {
   // Validate inputs
-  if (!formData.fromAddress || !formData.toAddress || !formData.amount) {
+  if (!formData.fromAddress || formData.recipients.length === 0) {
     throw new Error('Please fill in all required fields');
   }
 
@@ -166,26 +466,18 @@ export const estimateFee = async (
     throw new Error('Please fetch UTXOs first');
   }
 
-  const amountValue = parseFloat(formData.amount) || 0;
-  if (amountValue <= 0) {
-    throw new Error('Please enter a valid amount');
-  }
-
-  // Convert BTC to satoshis
-  const amountSatoshis = Math.round(amountValue * 100000000);
-
   // Create transaction request
   const request: TransactionRequest = {
     fromAddress: formData.fromAddress,
-    toAddress: formData.toAddress,
-    amountSatoshis,
+    recipients: getRecipients(formData, network),
     feeRate:
       (formData.feeRate as 'slow' | 'normal' | 'fast' | 'priority') || 'normal',
-    network: 'testnet',
+    network,
+    multisig: getMultisigWallet(formData),
   };
 
   // Use provided fee rates or fetch if not provided
-  const currentFeeRates = feeRates || (await getFeeRates());
+  const currentFeeRates = feeRates || (await getFeeRates(network));
 
   // Estimate fee using cached rates
   return await estimateTransactionFee(request, utxos, currentFeeRates);
@@ -193,22 +485,54 @@ export const estimateFee = async (
 
 /**
  * Get current fee rates from the network (with caching)
+ * @param network - Network to get rates for
  * @returns Current fee rates
  */
-export const getFeeRates = async (): Promise<FeeEstimate> => {
+export const getFeeRates = async (
+  network: ChainNetwork
+): Promise<FeeEstimate> => {
   // Use the cached getFeeEstimate function
   const { getFeeEstimate } = await import('./fee-estimator');
-  return await getFeeEstimate();
+  return await getFeeEstimate(network);
 };
 
 /**
  * Validate address format
  * @param address - Bitcoin address to validate
+ * @param network - Network the address must belong to
  * @returns Validation result
  */
-export const validateAddress = (address: string): boolean => {
-  // Basic validation for testnet addresses
-  return address.startsWith('tb1') && address.length >= 42;
+export const validateAddress = (
+  address: string,
+  network: ChainNetwork
+): boolean => {
+  // Any address of the network with a valid checksum and a standard script
+  try {
+    assertAddressNetwork(address, network);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check whether spending from an address needs its public key in the PSBT
+ * (P2SH-P2WPKH redeem script, P2TR internal key)
+ * @param address - Bitcoin or Litecoin address
+ * @returns True for P2SH and P2TR addresses
+ */
+export const addressNeedsPublicKey = (address: string): boolean => {
+  const trimmed = address.trim();
+  try {
+    const { version } = bitcoinAddress.fromBase58Check(trimmed);
+    return listChainParams().some((params) => params.scriptHash === version);
+  } catch {
+    try {
+      return bitcoinAddress.fromBech32(trimmed).version === 1;
+    } catch {
+      return false;
+    }
+  }
 };
 
 /**
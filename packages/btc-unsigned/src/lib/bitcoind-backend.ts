@@ -0,0 +1,151 @@
+import { UTXO } from '../types/bitcoin';
+import type { ChainBackend, FeeEstimates } from './chain-backend';
+import { FEE_TARGETS, describeTransaction } from './chain-backend';
+import { ChainNetwork, getBitcoinNetwork } from './networks';
+
+/**
+ * Bitcoin Core Backend
+ *
+ * bitcoind JSON-RPC. Transactions outside the mempool and the wallet need
+ * the node to run with -txindex. UTXOs come from scantxoutset, which reads
+ * the UTXO set and so only returns confirmed outputs.
+ */
+
+export interface BitcoindConfig {
+  network: ChainNetwork;
+  url: string; // e.g. http://127.0.0.1:18332
+  username?: string;
+  password?: string;
+}
+
+// getrawtransaction error for a txid neither the mempool nor (with
+// -txindex) the chain holds
+const NO_SUCH_TRANSACTION = /No such mempool/i;
+
+interface RPCResponse<T> {
+  result: T | null;
+  error: { code: number; message: string } | null;
+}
+
+interface ScanTxOutSetResult {
+  success: boolean;
+  height: number;
+  unspents: Array<{
+    txid: string;
+    vout: number;
+    amount: number;
+    height: number;
+  }>;
+}
+
+interface RawTransactionResult {
+  hex: string;
+  confirmations?: number;
+  blockhash?: string;
+  blocktime?: number;
+}
+
+/**
+ * Create a Bitcoin Core backend
+ * @param config - RPC URL, credentials and network
+ * @returns Chain backend
+ */
+export function createBitcoindBackend(config: BitcoindConfig): ChainBackend {
+  const network = getBitcoinNetwork(config.network);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (config.username !== undefined) {
+    headers.Authorization = `Basic ${Buffer.from(
+      `${config.username}:${config.password ?? ''}`
+    ).toString('base64')}`;
+  }
+
+  // bitcoind reports RPC errors with a non-2xx status and a JSON body
+  const call = async <T>(method: string, params: unknown[] = []) => {
+    const response = await fetch(config.url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ jsonrpc: '1.0', id: method, method, params }),
+    });
+    const body = (await response.json().catch(() => null)) as RPCResponse<T>;
+    if (body?.error) {
+      throw new Error(`bitcoind ${method} failed: ${body.error.message}`);
+    }
+    if (!response.ok || !body) {
+      throw new Error(`bitcoind ${method} returned ${response.status}`);
+    }
+    return body.result as T;
+  };
+
+  const getTransactionHex = (txid: string) =>
+    call<string>('getrawtransaction', [txid, false]);
+
+  const toSatoshis = (btc: number) => Math.round(btc * 100000000);
+
+  return {
+    name: `bitcoind (${config.url})`,
+
+    getUTXOs: async (address) => {
+      const scan = await call<ScanTxOutSetResult>('scantxoutset', [
+        'start',
+        [`addr(${address})`],
+      ]);
+      return scan.unspents.map((utxo): UTXO => ({
+        txid: utxo.txid,
+        vout: utxo.vout,
+        value: toSatoshis(utxo.amount),
+        status: { confirmed: true, block_height: utxo.height },
+      }));
+    },
+
+    getTransactionHex,
+
+    getTransaction: async (txid) => {
+      let raw: RawTransactionResult;
+      try {
+        raw = await call<RawTransactionResult>('getrawtransaction', [
+          txid,
+          true,
+        ]);
+      } catch (error) {
+        if (error instanceof Error && NO_SUCH_TRANSACTION.test(error.message)) {
+          return null;
+        }
+        throw error;
+      }
+      const confirmations = raw.confirmations ?? 0;
+      const status =
+        confirmations > 0
+          ? {
+              confirmed: true,
+              block_height:
+                (await call<number>('getblockcount')) - confirmations + 1,
+              block_hash: raw.blockhash,
+              block_time: raw.blocktime,
+            }
+          : { confirmed: false };
+      return describeTransaction(raw.hex, getTransactionHex, network, status);
+    },
+
+    broadcast: (txHex) => call<string>('sendrawtransaction', [txHex]),
+
+    // estimatesmartfee answers in BTC/kvB, without a feerate when the node
+    // lacks data
+    getFeeEstimates: async () => {
+      const estimates: FeeEstimates = {};
+      for (const target of Object.values(FEE_TARGETS)) {
+        const { feerate } = await call<{ feerate?: number }>(
+          'estimatesmartfee',
+          [target]
+        );
+        if (feerate && feerate > 0) {
+          estimates[target] = feerate * 100000;
+        }
+      }
+      return estimates;
+    },
+
+    getTipHeight: () => call<number>('getblockcount'),
+  };
+}
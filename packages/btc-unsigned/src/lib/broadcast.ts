@@ -1,12 +1,11 @@
 import * as bitcoin from 'bitcoinjs-lib';
+import type { ChainBackend } from './chain-backend';
+import { ChainNetwork, assertPSBTNetwork } from './networks';
 
-// Bitcoin testnet API endpoints
-const TESTNET_API_URLS = [
-  'https://blockstream.info/testnet/api',
-  'https://testnet-api.bitcoin.com/v2',
-  'https://testnet.bitcoin.com/api',
-];
-
+/**
+ * Legacy signer output: bare signatures per input. Signers now return a
+ * partially signed PSBT instead; this shape is only accepted for import.
+ */
 export interface SignatureData {
   inputIndex: number;
   publicKey: string; // Hex format
@@ -15,6 +14,31 @@ export interface SignatureData {
   timestamp?: string; // Optional for validation
 }
 
+/**
+ * Everything collected from signers for one transaction
+ */
+export interface CollectedSignatures {
+  signedPsbts: string[]; // Base64 BIP174 PSBTs returned by signers
+  legacySignatures: SignatureData[];
+}
+
+export interface SignedPSBTSummary {
+  inputs: number;
+  signedInputs: number;
+  signatures: number;
+}
+
+/**
+ * Signatures an input has against the number it needs. Single-key inputs
+ * need one; multisig inputs need M from the keys in their witness script.
+ */
+export interface InputSignatureProgress {
+  index: number;
+  required: number;
+  signed: number;
+  complete: boolean; // Finalized, or signed enough to finalize
+}
+
 export interface BroadcastResult {
   success: boolean;
   txid?: string;
@@ -73,45 +97,215 @@ export interface TransactionStatus {
 }
 
 /**
- * Combine PSBT with signatures and finalize
- * @param psbtBase64 - Base64 encoded PSBT
- * @param signatures - Array of signature objects
+ * Count the signatures a PSBT carries (ECDSA partial sigs and Taproot
+ * key/script path sigs)
+ * @param psbt - PSBT to inspect
+ * @returns Summary of signed inputs and signature count
+ */
+function summarizeSignatures(psbt: bitcoin.Psbt): SignedPSBTSummary {
+  let signedInputs = 0;
+  let signatures = 0;
+  for (const input of psbt.data.inputs) {
+    const count =
+      (input.partialSig?.length ?? 0) +
+      (input.tapKeySig ? 1 : 0) +
+      (input.tapScriptSig?.length ?? 0) +
+      (input.finalScriptSig || input.finalScriptWitness ? 1 : 0);
+    if (count > 0) signedInputs++;
+    signatures += count;
+  }
+  return { inputs: psbt.data.inputs.length, signedInputs, signatures };
+}
+
+/**
+ * The M and keys of an input's CHECKMULTISIG witness script
+ * @param input - PSBT input
+ * @returns Threshold and keys, or undefined for single-key inputs
+ */
+function getMultisigScript(
+  input: bitcoin.Psbt['data']['inputs'][number]
+): { m: number; pubkeys: Buffer[] } | undefined {
+  if (!input.witnessScript) return undefined;
+  try {
+    const { m, pubkeys } = bitcoin.payments.p2ms({
+      output: input.witnessScript,
+    });
+    return m && pubkeys ? { m, pubkeys } : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Count each input's signatures against what it needs to finalize
+ * @param psbt - PSBT to inspect
+ * @returns Progress of every input
+ */
+export function getSignatureProgress(
+  psbt: bitcoin.Psbt
+): InputSignatureProgress[] {
+  return psbt.data.inputs.map((input, index) => {
+    const multisig = getMultisigScript(input);
+    const required = multisig?.m ?? 1;
+    if (input.finalScriptSig || input.finalScriptWitness) {
+      return { index, required, signed: required, complete: true };
+    }
+
+    let signed: number;
+    if (multisig) {
+      // Only signatures from the script's own keys count, once each
+      signed = multisig.pubkeys.filter((pubkey) =>
+        input.partialSig?.some((sig) => sig.pubkey.equals(pubkey))
+      ).length;
+    } else {
+      signed =
+        input.partialSig?.length ||
+        input.tapKeySig ||
+        input.tapScriptSig?.length
+          ? 1
+          : 0;
+    }
+    return { index, required, signed, complete: signed >= required };
+  });
+}
+
+/**
+ * Combine the PSBTs collected so far and report each input's progress,
+ * without finalizing
+ * @param psbtBase64 - Base64 encoded unsigned PSBT
+ * @param signedPsbts - Base64 PSBTs returned by signers
+ * @returns Progress of every input
+ */
+export function getCombinedSignatureProgress(
+  psbtBase64: string,
+  signedPsbts: string[]
+): InputSignatureProgress[] {
+  const psbt = bitcoin.Psbt.fromBase64(psbtBase64);
+  if (signedPsbts.length > 0) {
+    psbt.combine(
+      ...signedPsbts.map((signed) => bitcoin.Psbt.fromBase64(signed))
+    );
+  }
+  return getSignatureProgress(psbt);
+}
+
+/**
+ * Keep only the first M signatures of a multisig input, in witness script
+ * key order, as CHECKMULTISIG takes exactly M
+ * @param psbt - PSBT holding the input
+ * @param index - Input index
+ */
+function dropExtraMultisigSignatures(psbt: bitcoin.Psbt, index: number): void {
+  const input = psbt.data.inputs[index];
+  const multisig = getMultisigScript(input);
+  if (!multisig) return;
+  const ordered = multisig.pubkeys.flatMap(
+    (pubkey) =>
+      input.partialSig
+        ?.filter((sig) => sig.pubkey.equals(pubkey))
+        .slice(0, 1) ?? []
+  );
+  if (ordered.length > multisig.m) {
+    input.partialSig = ordered.slice(0, multisig.m);
+  }
+}
+
+/**
+ * Check that a PSBT returned by a signer belongs to the unsigned PSBT
+ * @param psbtBase64 - Base64 encoded unsigned PSBT
+ * @param signedPsbtBase64 - Base64 encoded PSBT returned by a signer
+ * @returns Summary of the signatures it adds
+ */
+export function inspectSignedPSBT(
+  psbtBase64: string,
+  signedPsbtBase64: string
+): SignedPSBTSummary {
+  const unsigned = bitcoin.Psbt.fromBase64(psbtBase64);
+  const signed = bitcoin.Psbt.fromBase64(signedPsbtBase64);
+  if (!unsigned.data.getTransaction().equals(signed.data.getTransaction())) {
+    throw new Error('Signed PSBT is for a different transaction');
+  }
+  return summarizeSignatures(signed);
+}
+
+/**
+ * Combine signer PSBTs (BIP174 combiner) and finalize
+ * @param psbtBase64 - Base64 encoded unsigned PSBT
+ * @param collected - Signed PSBTs plus any legacy signature JSON
+ * @param network - Network the PSBT was built for
  * @returns Combined transaction result
  */
-export async function combinePSBTWithSignatures(
+export async function combineSignedPSBTs(
   psbtBase64: string,
-  signatures: SignatureData[]
+  collected: CollectedSignatures,
+  network: ChainNetwork
 ): Promise<CombineResult> {
-  console.log('🔗 Combining PSBT with signatures...');
-  console.log('PSBT length:', psbtBase64.length);
-  console.log('Signatures count:', signatures.length);
+  console.log('🔗 Combining signed PSBTs...');
+  console.log('Signed PSBTs count:', collected.signedPsbts.length);
+  console.log('Legacy signatures count:', collected.legacySignatures.length);
 
   try {
-    // Load PSBT
     const psbt = bitcoin.Psbt.fromBase64(psbtBase64);
     console.log('✅ PSBT loaded with', psbt.data.inputs.length, 'inputs');
+    assertPSBTNetwork(psbt, network);
 
-    // Apply signatures to PSBT
-    for (const sig of signatures) {
-      const { inputIndex, publicKey, signature } = sig;
-
-      console.log(`📝 Applying signature to input ${inputIndex}...`);
-
-      // Create partial signature
-      const partialSig = {
-        pubkey: Buffer.from(publicKey, 'hex'),
-        signature: Buffer.from(signature, 'hex'),
-      };
+    if (collected.signedPsbts.length > 0) {
+      const signed = collected.signedPsbts.map((signed) =>
+        bitcoin.Psbt.fromBase64(signed)
+      );
+      signed.forEach((signedPsbt) => assertPSBTNetwork(signedPsbt, network));
+      psbt.combine(...signed);
+    }
 
-      // Add signature to PSBT
+    // Legacy signature JSON carries no sighash or key-origin data; it is
+    // merged as plain partial signatures
+    for (const sig of collected.legacySignatures) {
+      const { inputIndex, publicKey, signature } = sig;
+      console.log(`📝 Applying legacy signature to input ${inputIndex}...`);
       psbt.updateInput(inputIndex, {
-        partialSig: [partialSig],
+        partialSig: [
+          {
+            pubkey: Buffer.from(publicKey, 'hex'),
+            signature: Buffer.from(signature, 'hex'),
+          },
+        ],
       });
     }
 
+    const { signatures } = summarizeSignatures(psbt);
+
+    // Every input needs its own threshold before anything is finalized
+    const missing = getSignatureProgress(psbt).filter(
+      (progress) => !progress.complete
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        missing
+          .map(
+            ({ index, signed, required }) =>
+              `Input ${index} has ${signed} of ${required} signature${
+                required === 1 ? '' : 's'
+              }`
+          )
+          .join('; ')
+      );
+    }
+
     // Finalize the PSBT
     console.log('🔒 Finalizing PSBT...');
-    psbt.finalizeAllInputs();
+    psbt.data.inputs.forEach((input, index) => {
+      if (input.finalScriptSig || input.finalScriptWitness) return;
+      dropExtraMultisigSignatures(psbt, index);
+      try {
+        psbt.finalizeInput(index);
+      } catch (error) {
+        throw new Error(
+          `Input ${index} is not fully signed: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+    });
 
     // Extract the final transaction
     const tx = psbt.extractTransaction();
@@ -124,147 +318,148 @@ export async function combinePSBTWithSignatures(
       success: true,
       psbtInputs: psbt.data.inputs.length,
       psbtOutputs: psbt.data.outputs.length,
-      signaturesApplied: signatures.length,
+      signaturesApplied: signatures,
       transactionHex: txHex,
-      message: 'PSBT successfully combined with signatures',
+      message: 'Signed PSBTs combined successfully',
     };
   } catch (error) {
-    console.error('❌ Error combining PSBT with signatures:', error);
+    console.error('❌ Error combining signed PSBTs:', error);
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Unknown error',
-      message: 'Failed to combine PSBT with signatures',
+      message: 'Failed to combine signed PSBTs',
     };
   }
 }
 
 /**
- * Broadcast a signed transaction to the Bitcoin testnet
+ * Combine PSBT with legacy signature JSON and finalize
+ * @deprecated Signers return signed PSBTs; use combineSignedPSBTs
+ * @param psbtBase64 - Base64 encoded PSBT
+ * @param signatures - Array of signature objects
+ * @param network - Network the PSBT was built for
+ * @returns Combined transaction result
+ */
+export async function combinePSBTWithSignatures(
+  psbtBase64: string,
+  signatures: SignatureData[],
+  network: ChainNetwork
+): Promise<CombineResult> {
+  return combineSignedPSBTs(
+    psbtBase64,
+    {
+      signedPsbts: [],
+      legacySignatures: signatures,
+    },
+    network
+  );
+}
+
+/**
+ * Broadcast a signed transaction through the chain backend
  * @param txHex - Signed transaction in hex format
+ * @param backend - Chain backend to submit it to
  * @returns Broadcast result
  */
 export async function broadcastTransaction(
-  txHex: string
+  txHex: string,
+  backend: ChainBackend
 ): Promise<BroadcastResult> {
   console.log('📡 Broadcasting combined transaction...');
   console.log('Transaction hex:', txHex.substring(0, 50) + '...');
 
-  const errors: string[] = [];
-
-  // Try multiple APIs for redundancy
-  for (const apiUrl of TESTNET_API_URLS) {
-    try {
-      console.log(`🔄 Trying ${apiUrl}...`);
-
-      let response;
-      if (apiUrl.includes('blockstream.info')) {
-        // Blockstream API
-        response = await fetch(`${apiUrl}/tx`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'text/plain' },
-          body: txHex,
-        });
-      } else if (apiUrl.includes('bitcoin.com')) {
-        // Bitcoin.com API
-        response = await fetch(`${apiUrl}/rawtransactions/sendRawTransaction`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ hex: txHex }),
-        });
-      }
-
-      if (response && response.ok) {
-        const data = await response.text();
-        console.log(`✅ Successfully broadcast via ${apiUrl}`);
-        return {
-          success: true,
-          txid: data,
-          api: apiUrl,
-          message: 'Transaction broadcast successfully',
-        };
-      }
-    } catch (error) {
-      const errorMsg = `Failed to broadcast via ${apiUrl}: ${
-        error instanceof Error ? error.message : 'Unknown error'
-      }`;
-      console.log(`❌ ${errorMsg}`);
-      errors.push(errorMsg);
-    }
+  try {
+    console.log(`🔄 Trying ${backend.name}...`);
+    const txid = await backend.broadcast(txHex);
+    console.log(`✅ Successfully broadcast via ${backend.name}`);
+    return {
+      success: true,
+      txid,
+      api: backend.name,
+      message: 'Transaction broadcast successfully',
+    };
+  } catch (error) {
+    const errorMsg = `Failed to broadcast via ${backend.name}: ${
+      error instanceof Error ? error.message : 'Unknown error'
+    }`;
+    console.log(`❌ ${errorMsg}`);
+    return {
+      success: false,
+      error: errorMsg,
+      errors: [errorMsg],
+      message: 'Failed to broadcast transaction',
+    };
   }
-
-  // If all APIs failed
-  console.log('❌ All broadcast attempts failed');
-  return {
-    success: false,
-    errors: errors,
-    message: 'Failed to broadcast transaction to all APIs',
-  };
 }
 
 /**
- * Get transaction status from testnet
+ * Get transaction status from the chain backend (via our API)
  * @param txid - Transaction ID
+ * @param network - Network the transaction is on
  * @returns Transaction status
  */
-export async function getTransactionStatus(txid: string): Promise<{
+export async function getTransactionStatus(
+  txid: string,
+  network: ChainNetwork
+): Promise<{
   success: boolean;
   txid: string;
   status?: TransactionStatus;
+  tipHeight?: number; // Chain height, set once the transaction confirms
+  notFound?: boolean; // The backend answered, and does not know the txid
   api?: string;
   message?: string;
 }> {
   console.log(`🔍 Checking transaction status: ${txid}`);
 
-  for (const apiUrl of TESTNET_API_URLS) {
-    try {
-      let response;
-      if (apiUrl.includes('blockstream.info')) {
-        response = await fetch(`${apiUrl}/tx/${txid}`, {
-          method: 'GET',
-        });
-      } else if (apiUrl.includes('bitcoin.com')) {
-        response = await fetch(
-          `${apiUrl}/rawtransactions/getRawTransaction/${txid}?verbose=true`,
-          {
-            method: 'GET',
-          }
-        );
-      }
-
-      if (response && response.ok) {
-        const data = await response.json();
-        return {
-          success: true,
-          txid: txid,
-          status: data,
-          api: apiUrl,
-        };
+  try {
+    const response = await fetch(
+      `/api/tx?txid=${encodeURIComponent(txid)}&network=${network}`,
+      {
+        method: 'GET',
+        headers: { Accept: 'application/json' },
       }
-    } catch (error) {
-      console.log(
-        `❌ Failed to get status from ${apiUrl}: ${
-          error instanceof Error ? error.message : 'Unknown error'
-        }`
-      );
+    );
+    const data = await response.json().catch(() => ({}));
+    if (response.ok) {
+      return {
+        success: true,
+        txid: txid,
+        status: data.status,
+        tipHeight: data.tipHeight,
+        api: data.api,
+      };
     }
+    return {
+      success: false,
+      txid: txid,
+      notFound: response.status === 404,
+      message: data.error || `Transaction API returned ${response.status}`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      txid: txid,
+      message: `Failed to get transaction status: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+    };
   }
-
-  return {
-    success: false,
-    txid: txid,
-    message: 'Failed to get transaction status from all APIs',
-  };
 }
 
 /**
- * Combine PSBT with signatures and broadcast
+ * Combine signer output with the PSBT and broadcast
  * @param psbt - Base64 encoded PSBT
- * @param signatures - Array of signature objects
+ * @param collected - Signed PSBTs plus any legacy signature JSON
+ * @param network - Network the PSBT was built for
+ * @param backend - Chain backend of that network to broadcast through
  * @returns Combined and broadcast result
  */
 export async function combineAndBroadcast(
   psbt: string,
-  signatures: SignatureData[]
+  collected: CollectedSignatures,
+  network: ChainNetwork,
+  backend: ChainBackend
 ): Promise<{
   success: boolean;
   message: string;
@@ -274,10 +469,10 @@ export async function combineAndBroadcast(
   try {
     console.log('🔗 Combine and broadcast request received');
     console.log('PSBT length:', psbt.length);
-    console.log('Signatures count:', signatures.length);
+    console.log('Signed PSBTs count:', collected.signedPsbts.length);
 
-    // Step 1: Combine PSBT with signatures
-    const combineResult = await combinePSBTWithSignatures(psbt, signatures);
+    // Step 1: Combine PSBT with signer output
+    const combineResult = await combineSignedPSBTs(psbt, collected, network);
 
     if (!combineResult.success) {
       return {
@@ -289,13 +484,14 @@ export async function combineAndBroadcast(
 
     // Step 2: Broadcast the combined transaction
     const broadcastResult = await broadcastTransaction(
-      combineResult.transactionHex!
+      combineResult.transactionHex!,
+      backend
     );
 
     if (broadcastResult.success) {
       return {
         success: true,
-        message: 'PSBT combined with signatures and broadcast successfully',
+        message: 'Signed PSBT combined and broadcast successfully',
         combineResult,
         broadcastResult,
       };
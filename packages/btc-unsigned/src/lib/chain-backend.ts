@@ -0,0 +1,372 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { UTXO } from '../types/bitcoin';
+import type { TransactionStatus } from './broadcast';
+import { FeeEstimate } from './fee-estimator';
+import { getOutputScriptType } from './tx-weight';
+import {
+  CHAIN_NETWORKS,
+  ChainNetwork,
+  getNetworkName,
+  parseChainNetwork,
+} from './networks';
+import { createEsploraBackend } from './esplora-backend';
+import { createElectrumBackend } from './electrum-backend';
+import { createBitcoindBackend } from './bitcoind-backend';
+
+/**
+ * Blockchain Backend
+ *
+ * Everything the server needs from the chain goes through one ChainBackend,
+ * chosen by configuration: an Esplora REST API (blockstream.info,
+ * mempool.space or self-hosted), an Electrum server, or a bitcoind node over
+ * JSON-RPC. Litecoin networks use the same backends, e.g. litecoinspace.org
+ * for Esplora. Backends hold server addresses and credentials, so they are only
+ * used from API routes; the browser reaches them through /api/*, naming the
+ * network of each request.
+ */
+
+// sat/vB keyed by confirmation target in blocks
+export type FeeEstimates = Record<number, number>;
+
+export interface ChainBackend {
+  name: string; // Shown as the source of results
+  getUTXOs(address: string): Promise<UTXO[]>;
+  getTransactionHex(txid: string): Promise<string>;
+  // Esplora-shaped details: fee, weight, outputs and confirmation status;
+  // null when the backend does not know the transaction
+  getTransaction(txid: string): Promise<TransactionStatus | null>;
+  broadcast(txHex: string): Promise<string>; // Resolves to the txid
+  getFeeEstimates(): Promise<FeeEstimates>;
+  getTipHeight(): Promise<number>;
+}
+
+export type ChainBackendConfig =
+  | { type: 'esplora'; network: ChainNetwork; urls: string[] }
+  | {
+      type: 'electrum';
+      network: ChainNetwork;
+      host: string;
+      port: number;
+      tls: boolean;
+    }
+  | {
+      type: 'bitcoind';
+      network: ChainNetwork;
+      url: string;
+      username?: string;
+      password?: string;
+    };
+
+// Confirmation targets the fee presets map to
+export const FEE_TARGETS = {
+  priority: 1,
+  fast: 3,
+  normal: 6,
+  slow: 144,
+} as const;
+
+const DEFAULT_ESPLORA_URLS: Record<ChainNetwork, string[]> = {
+  mainnet: ['https://blockstream.info/api', 'https://mempool.space/api'],
+  testnet: [
+    'https://blockstream.info/testnet/api',
+    'https://mempool.space/testnet/api',
+  ],
+  signet: ['https://mempool.space/signet/api'],
+  regtest: ['http://127.0.0.1:3002'],
+  'ltc-mainnet': ['https://litecoinspace.org/api'],
+  'ltc-testnet': ['https://litecoinspace.org/testnet/api'],
+};
+
+const DEFAULT_ELECTRUM_PORTS: Record<ChainNetwork, number> = {
+  mainnet: 50002,
+  testnet: 60002,
+  signet: 60602,
+  regtest: 60401,
+  'ltc-mainnet': 50002,
+  'ltc-testnet': 51002,
+};
+
+const DEFAULT_RPC_PORTS: Record<ChainNetwork, number> = {
+  mainnet: 8332,
+  testnet: 18332,
+  signet: 38332,
+  regtest: 18443,
+  'ltc-mainnet': 9332,
+  'ltc-testnet': 19332,
+};
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Network of the configured backend, used when a request names none
+ * @param env - Environment variables
+ * @returns CHAIN_NETWORK, default testnet
+ */
+export function getDefaultNetwork(env: Env = process.env): ChainNetwork {
+  return parseChainNetwork(env.CHAIN_NETWORK);
+}
+
+/**
+ * Networks this server serves
+ * @param env - Environment variables
+ * @returns CHAIN_NETWORKS (comma separated), default all
+ */
+export function getEnabledNetworks(env: Env = process.env): ChainNetwork[] {
+  if (!env.CHAIN_NETWORKS) return CHAIN_NETWORKS;
+  return env.CHAIN_NETWORKS.split(',').map((name) =>
+    parseChainNetwork(name.trim())
+  );
+}
+
+/**
+ * Network named by a request, checked against the enabled networks
+ * @param value - Network parameter of the request
+ * @param env - Environment variables
+ * @returns Network name, the default network when none is named
+ */
+export function getRequestNetwork(
+  value: string | null,
+  env: Env = process.env
+): ChainNetwork {
+  const network = parseChainNetwork(value, getDefaultNetwork(env));
+  if (!getEnabledNetworks(env).includes(network)) {
+    throw new Error(`${getNetworkName(network)} is disabled on this server`);
+  }
+  return network;
+}
+
+/**
+ * Read the backend configuration for a network from environment variables.
+ * CHAIN_BACKEND (esplora, electrum or bitcoind) serves CHAIN_NETWORK, with
+ * ESPLORA_URLS (comma separated, tried in order), ELECTRUM_HOST,
+ * ELECTRUM_PORT and ELECTRUM_TLS, or BITCOIND_RPC_URL, BITCOIND_RPC_USER
+ * and BITCOIND_RPC_PASSWORD (litecoind answers the same RPC). Other
+ * networks use Esplora, at ESPLORA_URLS_<NETWORK> when set (e.g.
+ * ESPLORA_URLS_SIGNET or ESPLORA_URLS_LTC_MAINNET).
+ * @param network - Network to serve
+ * @param env - Environment variables
+ * @returns Backend configuration
+ */
+export function getChainBackendConfig(
+  network: ChainNetwork,
+  env: Env = process.env
+): ChainBackendConfig {
+  const parseUrls = (urls: string) =>
+    urls
+      .split(',')
+      .map((url) => url.trim().replace(/\/+$/, ''))
+      .filter(Boolean);
+  const networkUrls =
+    env[`ESPLORA_URLS_${network.toUpperCase().replace('-', '_')}`];
+  const isDefault = network === getDefaultNetwork(env);
+
+  const type = isDefault ? env.CHAIN_BACKEND || 'esplora' : 'esplora';
+  switch (type) {
+    case 'esplora':
+      return {
+        type,
+        network,
+        urls: networkUrls
+          ? parseUrls(networkUrls)
+          : isDefault && env.ESPLORA_URLS
+            ? parseUrls(env.ESPLORA_URLS)
+            : DEFAULT_ESPLORA_URLS[network],
+      };
+    case 'electrum':
+      if (!env.ELECTRUM_HOST) {
+        throw new Error('ELECTRUM_HOST is required for the electrum backend');
+      }
+      return {
+        type,
+        network,
+        host: env.ELECTRUM_HOST,
+        port: Number(env.ELECTRUM_PORT) || DEFAULT_ELECTRUM_PORTS[network],
+        tls: env.ELECTRUM_TLS !== 'false',
+      };
+    case 'bitcoind':
+      return {
+        type,
+        network,
+        url:
+          env.BITCOIND_RPC_URL ||
+          `http://127.0.0.1:${DEFAULT_RPC_PORTS[network]}`,
+        username: env.BITCOIND_RPC_USER,
+        password: env.BITCOIND_RPC_PASSWORD,
+      };
+    default:
+      throw new Error(`Unsupported CHAIN_BACKEND: ${type}`);
+  }
+}
+
+/**
+ * Create a backend from its configuration
+ * @param config - Backend type, network and connection details
+ * @returns Chain backend
+ */
+export function createChainBackend(config: ChainBackendConfig): ChainBackend {
+  switch (config.type) {
+    case 'esplora':
+      return createEsploraBackend(config.urls);
+    case 'electrum':
+      return createElectrumBackend(config);
+    case 'bitcoind':
+      return createBitcoindBackend(config);
+  }
+}
+
+const configuredBackends = new Map<ChainNetwork, ChainBackend>();
+
+/**
+ * Backend configured by the environment for a network, created on first use
+ * @param network - Network to serve, default CHAIN_NETWORK
+ * @returns Chain backend
+ */
+export function getChainBackend(
+  network: ChainNetwork = getDefaultNetwork()
+): ChainBackend {
+  let backend = configuredBackends.get(network);
+  if (!backend) {
+    backend = createChainBackend(getChainBackendConfig(network));
+    configuredBackends.set(network, backend);
+  }
+  return backend;
+}
+
+/**
+ * Replace the backend of a network, e.g. with a regtest stand-in in tests
+ * @param network - Network it serves
+ * @param backend - Backend to use, or null to read the environment again
+ */
+export function setChainBackend(
+  network: ChainNetwork,
+  backend: ChainBackend | null
+): void {
+  if (backend) configuredBackends.set(network, backend);
+  else configuredBackends.delete(network);
+}
+
+/**
+ * Fee rate for a confirmation target: the estimate for the nearest target
+ * at or below it, else the lowest estimate available
+ * @param estimates - Fee estimates by target
+ * @param target - Confirmation target in blocks
+ * @returns Fee rate in sat/vB, or undefined when there are no estimates
+ */
+export function getFeeRateForTarget(
+  estimates: FeeEstimates,
+  target: number
+): number | undefined {
+  const targets = Object.keys(estimates)
+    .map(Number)
+    .filter((t) => estimates[t] > 0)
+    .sort((a, b) => a - b);
+  if (targets.length === 0) return undefined;
+  const nearest = targets.filter((t) => t <= target).pop() ?? targets[0];
+  return estimates[nearest];
+}
+
+/**
+ * Map target-based estimates onto the fee presets
+ * @param estimates - Fee estimates by target
+ * @returns Preset fee rates, or null when a preset has no estimate
+ */
+export function toFeeEstimate(estimates: FeeEstimates): FeeEstimate | null {
+  const rate = (target: number) => getFeeRateForTarget(estimates, target);
+  const priority = rate(FEE_TARGETS.priority);
+  const fast = rate(FEE_TARGETS.fast);
+  const normal = rate(FEE_TARGETS.normal);
+  const slow = rate(FEE_TARGETS.slow);
+  if (!priority || !fast || !normal || !slow) return null;
+  return { slow, normal, fast, priority, timestamp: Date.now() };
+}
+
+// Esplora names of output script types
+const ESPLORA_SCRIPT_TYPES = {
+  p2pkh: 'p2pkh',
+  p2sh: 'p2sh',
+  p2wpkh: 'v0_p2wpkh',
+  p2wsh: 'v0_p2wsh',
+  p2tr: 'v1_p2tr',
+} as const;
+
+/**
+ * Build Esplora-shaped transaction details for backends that only return
+ * raw transactions; spent outputs come from the funding transactions
+ * @param txHex - Raw transaction
+ * @param getTransactionHex - Source of funding transactions
+ * @param network - Network for output addresses
+ * @param status - Confirmation status
+ * @returns Transaction details including fee and weight
+ */
+export async function describeTransaction(
+  txHex: string,
+  getTransactionHex: (txid: string) => Promise<string>,
+  network: bitcoin.Network,
+  status: NonNullable<TransactionStatus['status']>
+): Promise<TransactionStatus> {
+  const tx = bitcoin.Transaction.fromHex(txHex);
+  const describeOutput = (output: bitcoin.TxOutput) => {
+    const type = getOutputScriptType(output.script);
+    let address = '';
+    try {
+      address = bitcoin.address.fromOutputScript(output.script, network);
+    } catch {
+      // Non-standard and OP_RETURN outputs have no address
+    }
+    return {
+      scriptpubkey: output.script.toString('hex'),
+      scriptpubkey_address: address,
+      scriptpubkey_asm: bitcoin.script.toASM(output.script),
+      scriptpubkey_type: type
+        ? ESPLORA_SCRIPT_TYPES[type]
+        : output.script[0] === bitcoin.opcodes.OP_RETURN
+          ? 'op_return'
+          : 'unknown',
+      value: output.value,
+    };
+  };
+
+  const funding = new Map<string, Promise<bitcoin.Transaction>>();
+  const vin = await Promise.all(
+    tx.ins.map(async (input) => {
+      const txid = Buffer.from(input.hash).reverse().toString('hex');
+      const isCoinbase = input.hash.every((byte) => byte === 0);
+      let prevout;
+      if (!isCoinbase) {
+        if (!funding.has(txid)) {
+          funding.set(
+            txid,
+            getTransactionHex(txid).then((hex) =>
+              bitcoin.Transaction.fromHex(hex)
+            )
+          );
+        }
+        prevout = describeOutput((await funding.get(txid)!).outs[input.index]);
+      }
+      return {
+        txid,
+        vout: input.index,
+        prevout,
+        scriptsig: input.script.toString('hex'),
+        scriptsig_asm: bitcoin.script.toASM(input.script),
+        witness: input.witness.map((item) => item.toString('hex')),
+        is_coinbase: isCoinbase,
+        sequence: input.sequence,
+      };
+    })
+  );
+
+  const inputValue = vin.reduce((sum, i) => sum + (i.prevout?.value ?? 0), 0);
+  const outputValue = tx.outs.reduce((sum, output) => sum + output.value, 0);
+  return {
+    txid: tx.getId(),
+    version: tx.version,
+    locktime: tx.locktime,
+    size: tx.byteLength(),
+    weight: tx.weight(),
+    fee: vin.some((i) => i.is_coinbase) ? 0 : inputValue - outputValue,
+    status,
+    vin,
+    vout: tx.outs.map(describeOutput),
+  };
+}
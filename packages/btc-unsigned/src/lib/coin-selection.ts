@@ -0,0 +1,510 @@
+import { UTXO } from '../types/bitcoin';
+import {
+  InputWeightSpec,
+  OUTPUT_SCRIPT_LENGTH,
+  inputHasWitness,
+  inputWeight as getInputWeight,
+  outputTypeForInput,
+  outputWeight,
+  overheadWeight,
+} from './tx-weight';
+
+/**
+ * Coin Selection Engine
+ *
+ * Runs several coin selection algorithms over the same UTXO pool and ranks
+ * their results by the waste metric (as in Bitcoin Core): the fee paid now
+ * for the inputs beyond what they would cost at the long-term fee rate,
+ * plus either the cost of creating and later spending change or the excess
+ * given up to fees when there is no change.
+ */
+
+export type CoinSelectionStrategy =
+  | 'branch-and-bound'
+  | 'knapsack'
+  | 'single-random-draw'
+  | 'oldest-first'
+  | 'largest-first'
+  | 'avoid-address-reuse';
+
+// A UTXO priced at the current and long-term fee rates
+export interface SelectionCandidate {
+  utxo: UTXO;
+  weight: number; // Input weight in weight units
+  fee: number; // Cost of spending it at the current fee rate
+  longTermFee: number; // Cost of spending it at the long-term fee rate
+  effectiveValue: number; // value - fee
+}
+
+export interface SelectionTarget {
+  // Effective value the inputs must cover for a changeless transaction:
+  // recipient amounts plus the fee for the overhead and recipient outputs
+  noChange: number;
+  changeOutputFee: number; // Fee for adding the change output now
+  costOfChange: number; // changeOutputFee plus spending it later
+  minChange: number; // Smallest change output worth creating
+}
+
+export interface CoinSelectionAlgorithm {
+  strategy: CoinSelectionStrategy | string;
+  // Changeless algorithms only return selections whose excess is dropped
+  // to fees; the others get change when it is worth creating
+  changeless?: boolean;
+  select(
+    pool: SelectionCandidate[],
+    target: SelectionTarget,
+    random: () => number
+  ): SelectionCandidate[] | null;
+}
+
+export interface CoinSelectionOptions {
+  inputScriptType?: InputWeightSpec; // Script type of every UTXO, default P2WPKH
+  // Recipient output script lengths in bytes, default one P2WPKH output (22)
+  recipientScriptLengths?: number[];
+  changeScriptLength?: number; // Default matches the input script type
+  longTermFeeRate?: number; // sat/vB, default 10
+  dustLimit?: number; // Default 546
+  includeUnconfirmed?: boolean; // Default false
+  algorithms?: CoinSelectionAlgorithm[]; // Default every built-in strategy
+  random?: () => number; // Default Math.random
+  // Recipients pay the fee: inputs only need to cover the amount
+  subtractFeeFromOutputs?: boolean;
+}
+
+export interface CoinSelectionResult {
+  strategy: CoinSelectionStrategy | string;
+  selectedUTXOs: UTXO[];
+  totalValue: number;
+  inputCount: number;
+  changeAmount: number; // 0 when the transaction has no change output
+  feeSatoshis: number;
+  // Part of the fee taken from the recipient amounts, 0 unless the fee is
+  // subtracted from outputs
+  feeFromOutputs: number;
+  vsize: number;
+  waste: number;
+}
+
+export interface CoinSelectionComparison {
+  best: CoinSelectionResult;
+  candidates: CoinSelectionResult[]; // Best first
+  failures: Array<{ strategy: string; reason: string }>;
+}
+
+export const DEFAULT_LONG_TERM_FEE_RATE = 10;
+export const DUST_LIMIT = 546;
+
+const BNB_MAX_TRIES = 100_000;
+const KNAPSACK_ITERATIONS = 1000;
+
+/**
+ * Run every coin selection strategy and compare the results
+ * @param utxos - Available UTXOs
+ * @param amount - Total paid to recipients, in satoshis
+ * @param feeRate - Fee rate in sat/vB
+ * @param options - Script types, long-term fee rate and strategies
+ * @returns Candidates ranked by waste
+ */
+export function selectCoins(
+  utxos: UTXO[],
+  amount: number,
+  feeRate: number,
+  options: CoinSelectionOptions = {}
+): CoinSelectionComparison {
+  const inputScriptType = options.inputScriptType ?? 'p2wpkh';
+  const recipientScriptLengths = options.recipientScriptLengths ?? [22];
+  const changeScriptLength =
+    options.changeScriptLength ??
+    OUTPUT_SCRIPT_LENGTH[outputTypeForInput(inputScriptType)];
+  const longTermFeeRate = options.longTermFeeRate ?? DEFAULT_LONG_TERM_FEE_RATE;
+  const dustLimit = options.dustLimit ?? DUST_LIMIT;
+  const algorithms = options.algorithms ?? BUILTIN_ALGORITHMS;
+  const random = options.random ?? Math.random;
+  const subtractFee = options.subtractFeeFromOutputs ?? false;
+
+  const feeFor = (weight: number, rate: number) =>
+    Math.ceil((weight * rate) / 4);
+
+  const segwit = inputHasWitness(inputScriptType);
+  const baseWeight = (inputCount: number, outputCount: number) =>
+    overheadWeight(inputCount, outputCount, segwit);
+  const recipientCount = recipientScriptLengths.length;
+  const recipientWeight = recipientScriptLengths.reduce(
+    (sum, length) => sum + outputWeight(length),
+    0
+  );
+  const changeWeight = outputWeight(changeScriptLength);
+  const inputWeight = getInputWeight(inputScriptType);
+
+  const changeOutputFee = feeFor(changeWeight, feeRate);
+  // When recipients pay the fee, inputs count at face value and the
+  // target is the amount alone
+  const target: SelectionTarget = {
+    noChange: subtractFee
+      ? amount
+      : amount +
+        feeFor(baseWeight(1, recipientCount) + recipientWeight, feeRate),
+    changeOutputFee: subtractFee ? 0 : changeOutputFee,
+    costOfChange: changeOutputFee + feeFor(inputWeight, longTermFeeRate),
+    minChange: dustLimit,
+  };
+
+  const pool: SelectionCandidate[] = utxos
+    .filter((utxo) => options.includeUnconfirmed || utxo.status.confirmed)
+    .map((utxo) => {
+      const fee = feeFor(inputWeight, feeRate);
+      return {
+        utxo,
+        weight: inputWeight,
+        fee,
+        longTermFee: feeFor(inputWeight, longTermFeeRate),
+        effectiveValue: subtractFee ? utxo.value : utxo.value - fee,
+      };
+    })
+    // Inputs worth less than their own fee only add cost
+    .filter((candidate) => candidate.utxo.value > candidate.fee);
+
+  if (pool.length === 0) {
+    throw new Error('No confirmed UTXOs worth spending at this fee rate');
+  }
+
+  const candidates: CoinSelectionResult[] = [];
+  const failures: CoinSelectionComparison['failures'] = [];
+  for (const algorithm of algorithms) {
+    const selection = algorithm.select([...pool], target, random);
+    if (!selection || selection.length === 0) {
+      failures.push({
+        strategy: algorithm.strategy,
+        reason: algorithm.changeless
+          ? 'No changeless combination found'
+          : 'Insufficient funds',
+      });
+      continue;
+    }
+
+    const totalValue = selection.reduce((sum, c) => sum + c.utxo.value, 0);
+    const effective = selection.reduce((sum, c) => sum + c.effectiveValue, 0);
+    const excess = effective - target.noChange;
+    if (excess < 0) {
+      failures.push({
+        strategy: algorithm.strategy,
+        reason: 'Insufficient funds',
+      });
+      continue;
+    }
+
+    const change = excess - target.changeOutputFee;
+    const hasChange = !algorithm.changeless && change >= target.minChange;
+    const changeAmount = hasChange ? change : 0;
+    const inputsWaste = selection.reduce(
+      (sum, c) => sum + c.fee - c.longTermFee,
+      0
+    );
+    const weight =
+      baseWeight(selection.length, recipientCount + (hasChange ? 1 : 0)) +
+      recipientWeight +
+      selection.reduce((sum, c) => sum + c.weight, 0) +
+      (hasChange ? changeWeight : 0);
+    // Without change the excess goes to the fee, easing what recipients pay
+    const feeSatoshis = subtractFee
+      ? hasChange
+        ? feeFor(weight, feeRate)
+        : Math.max(feeFor(weight, feeRate), excess)
+      : totalValue - amount - changeAmount;
+
+    candidates.push({
+      strategy: algorithm.strategy,
+      selectedUTXOs: selection.map((c) => c.utxo),
+      totalValue,
+      inputCount: selection.length,
+      changeAmount,
+      feeSatoshis,
+      feeFromOutputs: amount + changeAmount + feeSatoshis - totalValue,
+      vsize: Math.ceil(weight / 4),
+      waste: inputsWaste + (hasChange ? target.costOfChange : excess),
+    });
+  }
+
+  if (candidates.length === 0) {
+    const available = pool.reduce((sum, c) => sum + c.effectiveValue, 0);
+    throw new Error(
+      `Insufficient funds: Need ${target.noChange} satoshis including fees, have ${available} satoshis after input fees`
+    );
+  }
+
+  candidates.sort(
+    (a, b) =>
+      a.waste - b.waste ||
+      a.inputCount - b.inputCount ||
+      a.feeSatoshis - b.feeSatoshis
+  );
+  return { best: candidates[0], candidates, failures };
+}
+
+/**
+ * Branch and bound (Murch): depth-first search for an input set whose
+ * effective value lands between the changeless target and the target plus
+ * the cost of change, keeping the lowest-waste match
+ */
+export const branchAndBound: CoinSelectionAlgorithm = {
+  strategy: 'branch-and-bound',
+  changeless: true,
+  select(pool, target) {
+    pool.sort((a, b) => b.effectiveValue - a.effectiveValue);
+    const upperBound = target.noChange + target.costOfChange;
+    const feeRateIsHigh = pool[0].fee > pool[0].longTermFee;
+
+    let available = pool.reduce((sum, c) => sum + c.effectiveValue, 0);
+    let value = 0;
+    let waste = 0;
+    let best: number[] | null = null;
+    let bestWaste = Infinity;
+    const selected: number[] = [];
+
+    for (let tries = 0, index = 0; tries < BNB_MAX_TRIES; tries++, index++) {
+      let backtrack = false;
+      if (
+        value + available < target.noChange ||
+        value > upperBound ||
+        (waste > bestWaste && feeRateIsHigh)
+      ) {
+        backtrack = true;
+      } else if (value >= target.noChange) {
+        const total = waste + value - target.noChange;
+        if (total <= bestWaste) {
+          best = [...selected];
+          bestWaste = total;
+        }
+        backtrack = true;
+      }
+
+      if (backtrack) {
+        if (selected.length === 0) break;
+        // Restore the omitted UTXOs, then try excluding the last included
+        for (index--; index > selected[selected.length - 1]; index--) {
+          available += pool[index].effectiveValue;
+        }
+        const last = pool[index];
+        value -= last.effectiveValue;
+        waste -= last.fee - last.longTermFee;
+        selected.pop();
+      } else {
+        const candidate = pool[index];
+        available -= candidate.effectiveValue;
+        // Skip a UTXO equivalent to an omitted predecessor: that branch has
+        // already been explored
+        const previous = pool[index - 1];
+        if (
+          selected.length === 0 ||
+          index - 1 === selected[selected.length - 1] ||
+          candidate.effectiveValue !== previous.effectiveValue ||
+          candidate.fee !== previous.fee
+        ) {
+          selected.push(index);
+          value += candidate.effectiveValue;
+          waste += candidate.fee - candidate.longTermFee;
+        }
+      }
+    }
+
+    return best ? best.map((i) => pool[i]) : null;
+  },
+};
+
+/**
+ * Knapsack (Bitcoin Core's legacy solver): the smallest single UTXO that
+ * covers the target with change, or a randomized approximation of the
+ * smallest subset of lesser UTXOs that does, whichever is closer
+ */
+export const knapsack: CoinSelectionAlgorithm = {
+  strategy: 'knapsack',
+  select(pool, target, random) {
+    const goal = target.noChange + target.changeOutputFee + target.minChange;
+    shuffle(pool, random);
+
+    const exact = pool.find(
+      (c) => c.effectiveValue === target.noChange || c.effectiveValue === goal
+    );
+    if (exact) return [exact];
+
+    let lowestLarger: SelectionCandidate | null = null;
+    const smaller: SelectionCandidate[] = [];
+    for (const candidate of pool) {
+      if (candidate.effectiveValue < goal) smaller.push(candidate);
+      else if (
+        !lowestLarger ||
+        candidate.effectiveValue < lowestLarger.effectiveValue
+      ) {
+        lowestLarger = candidate;
+      }
+    }
+
+    const smallerTotal = smaller.reduce((sum, c) => sum + c.effectiveValue, 0);
+    if (smallerTotal === goal) return smaller;
+    if (smallerTotal < goal) return lowestLarger ? [lowestLarger] : null;
+
+    smaller.sort((a, b) => b.effectiveValue - a.effectiveValue);
+    const subset = approximateBestSubset(smaller, goal, random);
+    const subsetTotal = subset.reduce((sum, c) => sum + c.effectiveValue, 0);
+    if (lowestLarger && lowestLarger.effectiveValue <= subsetTotal) {
+      return [lowestLarger];
+    }
+    return subset;
+  },
+};
+
+/**
+ * Single random draw: add UTXOs in random order until the target with
+ * change is covered. Spreads spending across the wallet's history.
+ */
+export const singleRandomDraw: CoinSelectionAlgorithm = {
+  strategy: 'single-random-draw',
+  select(pool, target, random) {
+    shuffle(pool, random);
+    return accumulate(
+      pool,
+      target.noChange + target.changeOutputFee + target.minChange
+    );
+  },
+};
+
+/**
+ * Oldest first: spend the longest-confirmed UTXOs first, unconfirmed last
+ */
+export const oldestFirst: CoinSelectionAlgorithm = {
+  strategy: 'oldest-first',
+  select(pool, target) {
+    const height = (c: SelectionCandidate) =>
+      c.utxo.status.block_height ?? Number.MAX_SAFE_INTEGER;
+    pool.sort((a, b) => height(a) - height(b));
+    return accumulate(pool, target.noChange);
+  },
+};
+
+/**
+ * Largest first: the previous greedy behaviour, kept as a baseline
+ */
+export const largestFirst: CoinSelectionAlgorithm = {
+  strategy: 'largest-first',
+  select(pool, target) {
+    pool.sort((a, b) => b.effectiveValue - a.effectiveValue);
+    return accumulate(pool, target.noChange);
+  },
+};
+
+/**
+ * Avoid address reuse: UTXOs sharing an address are spent together, so no
+ * funds are left behind on an address whose public key is already
+ * revealed, and later transactions cannot link two spends of one address.
+ * Prefers the smallest single address group that covers the target.
+ */
+export const avoidAddressReuse: CoinSelectionAlgorithm = {
+  strategy: 'avoid-address-reuse',
+  select(pool, target) {
+    const groups = new Map<string, SelectionCandidate[]>();
+    for (const candidate of pool) {
+      const key = candidate.utxo.address ?? '';
+      groups.set(key, [...(groups.get(key) ?? []), candidate]);
+    }
+    const ranked = [...groups.values()]
+      .map((members) => ({
+        members,
+        value: members.reduce((sum, c) => sum + c.effectiveValue, 0),
+      }))
+      .sort((a, b) => a.value - b.value);
+
+    const single = ranked.find((group) => group.value >= target.noChange);
+    if (single) return single.members;
+
+    const selection: SelectionCandidate[] = [];
+    let value = 0;
+    for (const group of ranked.reverse()) {
+      selection.push(...group.members);
+      value += group.value;
+      if (value >= target.noChange) return selection;
+    }
+    return null;
+  },
+};
+
+export const BUILTIN_ALGORITHMS: CoinSelectionAlgorithm[] = [
+  branchAndBound,
+  knapsack,
+  singleRandomDraw,
+  oldestFirst,
+  largestFirst,
+  avoidAddressReuse,
+];
+
+/**
+ * Take candidates in order until their effective value reaches the goal
+ * @param ordered - Candidates in spending order
+ * @param goal - Effective value needed
+ * @returns Selection, or null when the pool is too small
+ */
+function accumulate(
+  ordered: SelectionCandidate[],
+  goal: number
+): SelectionCandidate[] | null {
+  const selection: SelectionCandidate[] = [];
+  let value = 0;
+  for (const candidate of ordered) {
+    selection.push(candidate);
+    value += candidate.effectiveValue;
+    if (value >= goal) return selection;
+  }
+  return null;
+}
+
+/**
+ * Randomized subset-sum approximation (Bitcoin Core ApproximateBestSubset)
+ * @param sorted - Candidates sorted by effective value, largest first
+ * @param goal - Effective value needed
+ * @param random - Random source
+ * @returns Smallest-overshoot subset found
+ */
+function approximateBestSubset(
+  sorted: SelectionCandidate[],
+  goal: number,
+  random: () => number
+): SelectionCandidate[] {
+  let best = sorted.map(() => true);
+  let bestTotal = sorted.reduce((sum, c) => sum + c.effectiveValue, 0);
+
+  for (let rep = 0; rep < KNAPSACK_ITERATIONS && bestTotal !== goal; rep++) {
+    const included = sorted.map(() => false);
+    let total = 0;
+    let reached = false;
+    for (let pass = 0; pass < 2 && !reached; pass++) {
+      for (let i = 0; i < sorted.length; i++) {
+        // First pass picks at random, second fills in the rest in order
+        if (included[i] || (pass === 0 ? random() < 0.5 : false)) continue;
+        total += sorted[i].effectiveValue;
+        included[i] = true;
+        if (total >= goal) {
+          reached = true;
+          if (total < bestTotal) {
+            bestTotal = total;
+            best = [...included];
+          }
+          total -= sorted[i].effectiveValue;
+          included[i] = false;
+        }
+      }
+    }
+  }
+
+  return sorted.filter((_, i) => best[i]);
+}
+
+/**
+ * Fisher-Yates shuffle in place
+ * @param items - Array to shuffle
+ * @param random - Random source returning [0, 1)
+ */
+function shuffle<T>(items: T[], random: () => number): void {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+}
@@ -0,0 +1,210 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as net from 'net';
+import * as tls from 'tls';
+import { UTXO } from '../types/bitcoin';
+import type { ChainBackend, FeeEstimates } from './chain-backend';
+import { FEE_TARGETS, describeTransaction } from './chain-backend';
+import { ChainNetwork, getBitcoinNetwork } from './networks';
+
+/**
+ * Electrum Backend
+ *
+ * Electrum protocol (ElectrumX, Fulcrum, electrs) over TCP or TLS. Requests
+ * are newline-delimited JSON-RPC; each call opens a connection, sends its
+ * request and closes once the response has arrived.
+ */
+
+export interface ElectrumConfig {
+  network: ChainNetwork;
+  host: string;
+  port: number;
+  tls: boolean;
+}
+
+const CLIENT_NAME = 'btc-unsigned';
+const PROTOCOL_VERSION = '1.4';
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Servers pass on the node's error for an unknown txid (ElectrumX, Fulcrum)
+// or word their own (electrs)
+const NO_SUCH_TRANSACTION = /No such mempool|not found|missing transaction/i;
+
+interface ElectrumResponse {
+  id: number;
+  result?: unknown;
+  error?: { code?: number; message?: string } | string;
+}
+
+interface ElectrumUnspent {
+  tx_hash: string;
+  tx_pos: number;
+  height: number; // 0 or -1 while unconfirmed
+  value: number;
+}
+
+interface ElectrumHistoryItem {
+  tx_hash: string;
+  height: number;
+}
+
+/**
+ * Electrum script hash: SHA256 of an output script, byte reversed
+ * @param script - Output script
+ * @returns Hex script hash
+ */
+export function getScriptHash(script: Buffer): string {
+  return Buffer.from(bitcoin.crypto.sha256(script)).reverse().toString('hex');
+}
+
+/**
+ * Create an Electrum backend
+ * @param config - Server host, port, TLS and network
+ * @returns Chain backend
+ */
+export function createElectrumBackend(config: ElectrumConfig): ChainBackend {
+  const network = getBitcoinNetwork(config.network);
+
+  // One connection per call; server.version opens every session
+  const call = <T>(method: string, params: unknown[] = []): Promise<T> =>
+    new Promise((resolve, reject) => {
+      const socket = config.tls
+        ? tls.connect({
+            host: config.host,
+            port: config.port,
+            servername: config.host,
+          })
+        : net.connect({ host: config.host, port: config.port });
+      let buffer = '';
+      const finish = (error: Error | null, result?: unknown) => {
+        socket.destroy();
+        if (error) reject(error);
+        else resolve(result as T);
+      };
+
+      socket.setTimeout(REQUEST_TIMEOUT_MS, () =>
+        finish(new Error(`Electrum ${method} timed out`))
+      );
+      socket.on('error', (error) =>
+        finish(new Error(`Electrum connection failed: ${error.message}`))
+      );
+      socket.on('close', () =>
+        finish(new Error(`Electrum server closed the connection`))
+      );
+      socket.on('data', (data) => {
+        buffer += data.toString('utf8');
+        let newline;
+        while ((newline = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.slice(0, newline);
+          buffer = buffer.slice(newline + 1);
+          if (!line.trim()) continue;
+          let response: ElectrumResponse;
+          try {
+            response = JSON.parse(line);
+          } catch {
+            finish(new Error('Electrum server sent invalid JSON'));
+            return;
+          }
+          if (response.id !== 1) continue;
+          if (response.error) {
+            const message =
+              typeof response.error === 'string'
+                ? response.error
+                : response.error.message;
+            finish(new Error(`Electrum ${method} failed: ${message}`));
+          } else {
+            finish(null, response.result);
+          }
+        }
+      });
+
+      socket.write(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: 0,
+          method: 'server.version',
+          params: [CLIENT_NAME, PROTOCOL_VERSION],
+        }) +
+          '\n' +
+          JSON.stringify({ jsonrpc: '2.0', id: 1, method, params }) +
+          '\n'
+      );
+    });
+
+  const getTransactionHex = (txid: string) =>
+    call<string>('blockchain.transaction.get', [txid, false]);
+
+  return {
+    name: `electrum (${config.host}:${config.port})`,
+
+    getUTXOs: async (address) => {
+      const unspent = await call<ElectrumUnspent[]>(
+        'blockchain.scripthash.listunspent',
+        [getScriptHash(bitcoin.address.toOutputScript(address, network))]
+      );
+      return unspent.map((utxo): UTXO => ({
+        txid: utxo.tx_hash,
+        vout: utxo.tx_pos,
+        value: utxo.value,
+        status:
+          utxo.height > 0
+            ? { confirmed: true, block_height: utxo.height }
+            : { confirmed: false },
+      }));
+    },
+
+    getTransactionHex,
+
+    // The height comes from the history of an output's script hash
+    getTransaction: async (txid) => {
+      let txHex: string;
+      try {
+        txHex = await getTransactionHex(txid);
+      } catch (error) {
+        if (error instanceof Error && NO_SUCH_TRANSACTION.test(error.message)) {
+          return null;
+        }
+        throw error;
+      }
+      const tx = bitcoin.Transaction.fromHex(txHex);
+      const output = tx.outs.find(
+        (o) => o.script[0] !== bitcoin.opcodes.OP_RETURN
+      );
+      let height = 0;
+      if (output) {
+        const history = await call<ElectrumHistoryItem[]>(
+          'blockchain.scripthash.get_history',
+          [getScriptHash(output.script)]
+        );
+        height = history.find((item) => item.tx_hash === txid)?.height ?? 0;
+      }
+      return describeTransaction(
+        txHex,
+        getTransactionHex,
+        network,
+        height > 0
+          ? { confirmed: true, block_height: height }
+          : { confirmed: false }
+      );
+    },
+
+    broadcast: (txHex) =>
+      call<string>('blockchain.transaction.broadcast', [txHex]),
+
+    // estimatefee answers in BTC/kvB, or -1 without enough data
+    getFeeEstimates: async () => {
+      const estimates: FeeEstimates = {};
+      for (const target of Object.values(FEE_TARGETS)) {
+        const btcPerKvB = await call<number>('blockchain.estimatefee', [
+          target,
+        ]);
+        if (btcPerKvB > 0) {
+          estimates[target] = btcPerKvB * 100000;
+        }
+      }
+      return estimates;
+    },
+
+    getTipHeight: async () =>
+      (await call<{ height: number }>('blockchain.headers.subscribe')).height,
+  };
+}
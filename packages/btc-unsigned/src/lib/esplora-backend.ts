@@ -0,0 +1,103 @@
+import { UTXO } from '../types/bitcoin';
+import type { TransactionStatus } from './broadcast';
+import type { ChainBackend, FeeEstimates } from './chain-backend';
+
+/**
+ * Esplora Backend
+ *
+ * Esplora REST API as served by blockstream.info, mempool.space or a
+ * self-hosted electrs. Each call tries the base URLs in order and returns
+ * the first success.
+ */
+
+const HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (compatible; Bitcoin-UTXO-Fetcher/1.0)',
+};
+
+/**
+ * Create an Esplora backend
+ * @param urls - API base URLs, e.g. https://blockstream.info/testnet/api
+ * @returns Chain backend
+ */
+export function createEsploraBackend(urls: string[]): ChainBackend {
+  if (urls.length === 0) {
+    throw new Error('At least one Esplora URL is required');
+  }
+
+  // Try each server in turn; the last error is reported if all fail. With
+  // notFound, every server answering 404 resolves to its result instead.
+  const request = async <T>(
+    path: string,
+    read: (response: Response) => Promise<T>,
+    init?: RequestInit,
+    notFound?: () => T
+  ): Promise<T> => {
+    let lastError = '';
+    let allNotFound = true;
+    for (const baseUrl of urls) {
+      try {
+        console.log(`Trying API: ${baseUrl}${path}`);
+        const response = await fetch(`${baseUrl}${path}`, {
+          ...init,
+          headers: { ...HEADERS, ...init?.headers },
+        });
+        if (response.ok) {
+          return await read(response);
+        }
+        allNotFound = allNotFound && response.status === 404;
+        lastError = `${baseUrl} returned ${response.status}: ${(
+          await response.text()
+        ).trim()}`;
+      } catch (error) {
+        allNotFound = false;
+        lastError = `${baseUrl}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`;
+      }
+      console.log(`API failed: ${lastError}`);
+    }
+    if (allNotFound && notFound) return notFound();
+    throw new Error(lastError);
+  };
+
+  const json = <T>(response: Response) => response.json() as Promise<T>;
+  const text = async (response: Response) => (await response.text()).trim();
+
+  return {
+    name: `esplora (${urls[0]})`,
+
+    getUTXOs: (address) =>
+      request(`/address/${encodeURIComponent(address)}/utxo`, json<UTXO[]>),
+
+    getTransactionHex: (txid) => request(`/tx/${txid}/hex`, text),
+
+    getTransaction: (txid) =>
+      request<TransactionStatus | null>(
+        `/tx/${txid}`,
+        json<TransactionStatus>,
+        undefined,
+        () => null
+      ),
+
+    broadcast: (txHex) =>
+      request('/tx', text, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/plain' },
+        body: txHex,
+      }),
+
+    getFeeEstimates: async () => {
+      const estimates = await request(
+        '/fee-estimates',
+        json<Record<string, number>>
+      );
+      const result: FeeEstimates = {};
+      for (const [target, rate] of Object.entries(estimates)) {
+        result[Number(target)] = Number(rate);
+      }
+      return result;
+    },
+
+    getTipHeight: async () => Number(await request('/blocks/tip/height', text)),
+  };
+}
@@ -1,10 +1,17 @@
 import axios from 'axios';
+import { ChainNetwork, getNetworkName, isMainnet } from './networks';
+import {
+  InputWeightSpec,
+  OUTPUT_SCRIPT_LENGTH,
+  OutputScriptType,
+  estimateTransactionWeight,
+} from './tx-weight';
 
 /**
- * Bitcoin Testnet Fee Estimator
+ * Bitcoin Fee Estimator
  *
- * This service estimates appropriate fees for Bitcoin testnet transactions
- * based on current network conditions and transaction size.
+ * This service estimates appropriate fees for Bitcoin transactions based on
+ * current network conditions and transaction size.
  */
 
 // Configuration
@@ -16,16 +23,6 @@ const config = {
     fast: 10, // 10 sat/byte - fast confirmation
     priority: 20, // 20 sat/byte - priority confirmation
   },
-
-  // Transaction size estimates (in bytes)
-  txSizes: {
-    // P2WPKH (native SegWit) transaction sizes (virtual size for fee calculation)
-    p2wpkh: {
-      input: 71, // Virtual input size: base (40 bytes) + witness discount (~31 bytes)
-      output: 31, // 8 bytes value + 1 byte script length + 22 bytes script
-      overhead: 10, // version + locktime + witness marker + witness count
-    },
-  },
 };
 
 export interface FeeEstimate {
@@ -49,9 +46,10 @@ export interface FeeCalculation {
   satPerByte: number;
   inputCount: number;
   outputCount: number;
-  estimatedSize: number;
+  estimatedSize: number; // Virtual size in vbytes
   feeSatoshis: number;
   feeBTC: number;
+  // Virtual size of each part; may be fractional as witness bytes count 1/4
   breakdown: {
     inputs: number;
     outputs: number;
@@ -75,12 +73,16 @@ export interface OptimalFeeResult {
  * @param inputCount - Number of inputs
  * @param outputCount - Number of outputs (including change)
  * @param feeRate - Fee rate type ('slow', 'normal', 'fast', 'priority')
+ * @param inputType - Script type of every input, default P2WPKH
+ * @param outputType - Script type of every output, default P2WPKH
  * @returns Fee estimation details
  */
 export function estimateFee(
   inputCount: number,
   outputCount: number,
-  feeRate: keyof typeof config.feeRates = 'normal'
+  feeRate: keyof typeof config.feeRates = 'normal',
+  inputType: InputWeightSpec = 'p2wpkh',
+  outputType: OutputScriptType = 'p2wpkh'
 ): FeeCalculation {
   const rate = config.feeRates[feeRate];
   if (!rate) {
@@ -90,38 +92,42 @@ export function estimateFee(
   }
 
   // Calculate transaction size
-  const inputSize = config.txSizes.p2wpkh.input;
-  const outputSize = config.txSizes.p2wpkh.output;
-  const overhead = config.txSizes.p2wpkh.overhead;
-
-  const totalSize =
-    inputCount * inputSize + outputCount * outputSize + overhead;
-  const feeSatoshis = totalSize * rate;
+  const size = estimateTransactionWeight(
+    new Array(inputCount).fill(inputType),
+    new Array(outputCount).fill(OUTPUT_SCRIPT_LENGTH[outputType])
+  );
+  const feeSatoshis = size.vsize * rate;
 
   return {
     feeRate,
     satPerByte: rate,
     inputCount,
     outputCount,
-    estimatedSize: totalSize,
+    estimatedSize: size.vsize,
     feeSatoshis,
     feeBTC: feeSatoshis / 100000000,
     breakdown: {
-      inputs: inputCount * inputSize,
-      outputs: outputCount * outputSize,
-      overhead,
+      inputs: size.inputs / 4,
+      outputs: size.outputs / 4,
+      overhead: size.overhead / 4,
     },
   };
 }
 
 /**
- * Get current fee rates from mempool.space API
+ * Get current fee rates from the chain backend (via our API). Test networks
+ * fall back to defaults; mainnet never guesses.
+ * @param network - Network to get rates for
  * @returns Current fee rates
  */
-export async function getCurrentFeeRates(): Promise<CurrentFeeRates> {
+export async function getCurrentFeeRates(
+  network: ChainNetwork
+): Promise<CurrentFeeRates> {
   try {
-    console.log('Fetching current fee rates from our API...');
-    const response = await axios.get('/api/fee-rates');
+    console.log(`Fetching current ${network} fee rates from our API...`);
+    const response = await axios.get('/api/fee-rates', {
+      params: { network },
+    });
 
     console.log('API Response:', response.data);
 
@@ -142,6 +148,13 @@ export async function getCurrentFeeRates(): Promise<CurrentFeeRates> {
     console.log('Parsed fee rates:', rates);
     return rates;
   } catch (error) {
+    if (isMainnet(network)) {
+      throw new Error(
+        `Could not fetch ${getNetworkName(network)} fee rates: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
     console.log('⚠️  Could not fetch current fee rates, using defaults');
     console.log('Error details:', error);
 
@@ -220,58 +233,60 @@ export function estimateSpecificTransaction(
   return calculateOptimalFee(utxoValue, desiredAmount, feeRate);
 }
 
-// Shared cache for fee rates
-let feeEstimateCache: FeeEstimate | null = null;
-let feeEstimateCacheTime: number = 0;
+// Shared cache for fee rates, per network
+const feeEstimateCache = new Map<ChainNetwork, FeeEstimate>();
 const FEE_ESTIMATE_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
 /**
  * Get fee estimate with current network rates
+ * @param network - Network to get rates for
  * @returns Fee estimate with current network rates
  */
-export async function getFeeEstimate(): Promise<FeeEstimate> {
+export async function getFeeEstimate(
+  network: ChainNetwork
+): Promise<FeeEstimate> {
   const now = Date.now();
 
   // Return cached rates if they're still valid
-  if (
-    feeEstimateCache &&
-    now - feeEstimateCacheTime < FEE_ESTIMATE_CACHE_DURATION
-  ) {
+  const cached = feeEstimateCache.get(network);
+  if (cached && now - cached.timestamp < FEE_ESTIMATE_CACHE_DURATION) {
     console.log('Using cached fee estimate');
-    return feeEstimateCache;
+    return cached;
   }
 
   console.log('Fetching fresh fee estimate from API');
-  const currentRates = await getCurrentFeeRates();
+  const currentRates = await getCurrentFeeRates(network);
 
   const feeEstimate = {
     slow: currentRates.economy,
     normal: currentRates.hour,
     fast: currentRates.halfHour,
     priority: currentRates.fastest,
-    timestamp: Date.now(),
+    timestamp: now,
   };
 
   // Cache the new rates
-  feeEstimateCache = feeEstimate;
-  feeEstimateCacheTime = now;
+  feeEstimateCache.set(network, feeEstimate);
 
   return feeEstimate;
 }
 
 /**
- * Calculate transaction size for P2WPKH transactions
+ * Calculate transaction virtual size
  * @param inputCount - Number of inputs
  * @param outputCount - Number of outputs
- * @returns Transaction size in bytes
+ * @param inputType - Script type of every input, default P2WPKH
+ * @param outputType - Script type of every output, default P2WPKH
+ * @returns Transaction size in vbytes
  */
 export function calculateTransactionSize(
   inputCount: number,
-  outputCount: number
+  outputCount: number,
+  inputType: InputWeightSpec = 'p2wpkh',
+  outputType: OutputScriptType = 'p2wpkh'
 ): number {
-  const inputSize = config.txSizes.p2wpkh.input;
-  const outputSize = config.txSizes.p2wpkh.output;
-  const overhead = config.txSizes.p2wpkh.overhead;
-
-  return inputCount * inputSize + outputCount * outputSize + overhead;
+  return estimateTransactionWeight(
+    new Array(inputCount).fill(inputType),
+    new Array(outputCount).fill(OUTPUT_SCRIPT_LENGTH[outputType])
+  ).vsize;
 }
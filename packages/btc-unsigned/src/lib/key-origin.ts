@@ -0,0 +1,206 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { BIP32, SLIP132, WalletScan } from '@btc-wallet/wallet-generator';
+import { getChainParams } from '@btc-wallet/chain-params';
+
+/**
+ * Key Origin Service
+ *
+ * Maps addresses of a watch-only account back to the BIP32 key that owns
+ * them, so generated PSBTs can tell signers which key and path to use.
+ */
+
+export interface AccountKey {
+  xpub: string; // Account-level extended public key, any SLIP-132 prefix
+  masterFingerprint: string; // 8 hex chars
+  accountPath: string; // e.g. m/84'/1'/0'
+}
+
+export interface KeyDerivation {
+  chain: 0 | 1; // 0 receive, 1 change
+  index: number;
+  path: string; // Full path from the master key
+  pubkey: Buffer; // Compressed public key
+}
+
+export interface GlobalXpub {
+  extendedPubkey: Buffer; // 78-byte BIP32 serialization (xpub/tpub version)
+  masterFingerprint: Buffer;
+  path: string;
+}
+
+export interface AccountKeyIndex {
+  masterFingerprint: Buffer;
+  globalXpub: GlobalXpub;
+  lookahead: number;
+  find(script: Buffer): KeyDerivation | undefined;
+}
+
+// Addresses derived per chain when looking up a script
+export const DEFAULT_ADDRESS_LOOKAHEAD = 200;
+
+/**
+ * Normalize an account path to the m/84'/1'/0' form
+ * @param path - Path with ' or h hardened markers, with or without m/
+ * @returns Normalized path
+ */
+export function normalizeAccountPath(path: string): string {
+  const steps = path
+    .trim()
+    .replace(/^m\/?/, '')
+    .split('/')
+    .filter(Boolean)
+    .map((step) => {
+      const match = /^(\d+)(['hH]?)$/.exec(step);
+      if (!match || Number(match[1]) >= 0x80000000) {
+        throw new Error(`Invalid account path step: ${step}`);
+      }
+      return `${match[1]}${match[2] ? "'" : ''}`;
+    });
+  return ['m', ...steps].join('/');
+}
+
+export interface ParsedAccountKey {
+  node: ReturnType<typeof BIP32.deriveNodeFromExtendedKey>;
+  networkType: BIP32.NetworkType;
+  accountPath: string;
+  masterFingerprint: Buffer;
+  globalXpub: GlobalXpub;
+}
+
+/**
+ * Check an account xpub against its key origin and the network
+ * @param account - Account xpub with its key origin
+ * @param network - bitcoinjs-lib network
+ * @param label - Name of the key, used in errors
+ * @returns Account node with its normalized origin
+ */
+export function parseAccountKey(
+  account: AccountKey,
+  network: bitcoin.Network,
+  label: string = 'Account xpub'
+): ParsedAccountKey {
+  const fingerprint = account.masterFingerprint.trim();
+  if (!/^[0-9a-fA-F]{8}$/.test(fingerprint)) {
+    throw new Error(`${label}: master fingerprint must be 8 hex characters`);
+  }
+  const accountPath = normalizeAccountPath(account.accountPath);
+
+  // Litecoin keeps Bitcoin's BIP32 versions, so they tell mainnet apart
+  const networkType: BIP32.NetworkType =
+    network.bip32.public === getChainParams('bitcoin', 'mainnet').bip32.public
+      ? 'mainnet'
+      : 'testnet';
+  let prefix: SLIP132.ExtendedKeyPrefix;
+  try {
+    prefix = SLIP132.getExtendedKeyPrefix(account.xpub.trim());
+  } catch (error) {
+    throw new Error(
+      `Invalid ${label.toLowerCase()}: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`
+    );
+  }
+  if (SLIP132.isPrivatePrefix(prefix)) {
+    throw new Error(
+      `${label}: enter the extended public key, not a private key`
+    );
+  }
+  if (SLIP132.networkForPrefix(prefix) !== networkType) {
+    throw new Error(`${label} (${prefix}) is not a ${networkType} key`);
+  }
+
+  const node = BIP32.deriveNodeFromExtendedKey(
+    account.xpub.trim(),
+    networkType
+  );
+  const depth = accountPath.split('/').length - 1;
+  if (node.depth !== depth) {
+    throw new Error(
+      `${label} has depth ${node.depth} but ${accountPath} has ${depth} steps`
+    );
+  }
+
+  const masterFingerprint = Buffer.from(fingerprint, 'hex');
+  return {
+    node,
+    networkType,
+    accountPath,
+    masterFingerprint,
+    globalXpub: {
+      extendedPubkey: serializeExtendedPublicKey(node),
+      masterFingerprint,
+      path: accountPath,
+    },
+  };
+}
+
+/**
+ * Derive the receive and change addresses of an account for lookup
+ * @param account - Account xpub with its key origin
+ * @param kind - Script type of the account's addresses
+ * @param network - Bitcoin network
+ * @param lookahead - Addresses to derive on each chain
+ * @returns Index from output script to key derivation
+ */
+export function createAccountKeyIndex(
+  account: AccountKey,
+  kind: BIP32.AddressKind,
+  network: bitcoin.Network,
+  lookahead: number = DEFAULT_ADDRESS_LOOKAHEAD
+): AccountKeyIndex {
+  const { node, networkType, accountPath, masterFingerprint, globalXpub } =
+    parseAccountKey(account, network);
+
+  const byScript = new Map<string, KeyDerivation>();
+  for (const chain of [0, 1] as const) {
+    const batch = WalletScan.deriveAddressBatch(
+      node,
+      kind,
+      networkType,
+      chain,
+      0,
+      lookahead,
+      accountPath
+    );
+    // Batches hold Bitcoin addresses; their scripts are the same on Litecoin
+    const batchNetwork = BIP32.getNetwork(networkType);
+    for (const entry of batch) {
+      const script = bitcoin.address.toOutputScript(
+        entry.address,
+        batchNetwork
+      );
+      byScript.set(script.toString('hex'), {
+        chain,
+        index: entry.index,
+        path: entry.path,
+        pubkey: Buffer.from(entry.publicKeyHex, 'hex'),
+      });
+    }
+  }
+
+  return {
+    masterFingerprint,
+    globalXpub,
+    lookahead,
+    find: (script) => byScript.get(script.toString('hex')),
+  };
+}
+
+/**
+ * Serialize an extended public key as BIP174 expects for PSBT_GLOBAL_XPUB:
+ * the raw 78 bytes with the plain xpub/tpub version, never a SLIP-132 one
+ * @param node - BIP32 node
+ * @returns Serialized key
+ */
+function serializeExtendedPublicKey(
+  node: ReturnType<typeof BIP32.deriveNodeFromExtendedKey>
+): Buffer {
+  const out = Buffer.alloc(78);
+  out.writeUInt32BE(node.network.bip32.public, 0);
+  out.writeUInt8(node.depth, 4);
+  out.writeUInt32BE(node.parentFingerprint, 5);
+  out.writeUInt32BE(node.index, 9);
+  Buffer.from(node.chainCode).copy(out, 13);
+  Buffer.from(node.publicKey).copy(out, 45);
+  return out;
+}
@@ -0,0 +1,240 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { Descriptors } from '@btc-wallet/wallet-generator';
+import {
+  AccountKey,
+  DEFAULT_ADDRESS_LOOKAHEAD,
+  GlobalXpub,
+  ParsedAccountKey,
+  parseAccountKey,
+} from './key-origin';
+import type { MultisigInput } from './tx-weight';
+
+/**
+ * Multisig Wallets
+ *
+ * An M-of-N wallet is built from the account xpubs of N cosigners. Its
+ * addresses follow sortedmulti (BIP67): the cosigners' child keys at the
+ * same chain and index are sorted before going into the CHECKMULTISIG
+ * witness script, so every coordinator derives the same addresses whatever
+ * order the cosigners were entered in.
+ */
+
+export type MultisigScriptType = 'p2wsh' | 'p2sh-p2wsh';
+
+export interface MultisigWallet {
+  threshold: number; // M, signatures needed to spend
+  cosigners: AccountKey[]; // N account xpubs with their key origins
+  scriptType: MultisigScriptType;
+}
+
+export interface CosignerDerivation {
+  masterFingerprint: Buffer;
+  pubkey: Buffer; // Compressed child public key
+  path: string; // Full path from the cosigner's master key
+}
+
+export interface MultisigAddress {
+  chain: 0 | 1; // 0 receive, 1 change
+  index: number;
+  address: string;
+  script: Buffer; // Output script
+  witnessScript: Buffer; // OP_M <sorted keys> OP_N OP_CHECKMULTISIG
+  redeemScript?: Buffer; // P2SH-P2WSH only
+  derivations: CosignerDerivation[]; // In witness script key order
+}
+
+export interface MultisigIndex {
+  globalXpubs: GlobalXpub[]; // One per cosigner
+  lookahead: number;
+  find(script: Buffer): MultisigAddress | undefined;
+}
+
+// Keys per script; bare CHECKMULTISIG inside P2SH is limited to 15
+export const MAX_MULTISIG_KEYS = 15;
+
+export const MULTISIG_SCRIPT_LABELS: Record<MultisigScriptType, string> = {
+  p2wsh: 'P2WSH',
+  'p2sh-p2wsh': 'P2SH-P2WSH',
+};
+
+/**
+ * Check a wallet's threshold and cosigner keys
+ * @param wallet - Multisig wallet
+ * @param network - Bitcoin network
+ * @returns Parsed cosigner keys, in the order entered
+ */
+function parseMultisigWallet(
+  wallet: MultisigWallet,
+  network: bitcoin.Network
+): ParsedAccountKey[] {
+  const n = wallet.cosigners.length;
+  if (n < 2 || n > MAX_MULTISIG_KEYS) {
+    throw new Error(
+      `A multisig wallet needs 2 to ${MAX_MULTISIG_KEYS} cosigners, got ${n}`
+    );
+  }
+  if (
+    !Number.isInteger(wallet.threshold) ||
+    wallet.threshold < 1 ||
+    wallet.threshold > n
+  ) {
+    throw new Error(
+      `Signatures required must be a whole number from 1 to ${n}`
+    );
+  }
+
+  const cosigners = wallet.cosigners.map((cosigner, index) =>
+    parseAccountKey(cosigner, network, `Cosigner ${index + 1} xpub`)
+  );
+  const seen = new Set<string>();
+  cosigners.forEach(({ node }, index) => {
+    const key = Buffer.from(node.publicKey).toString('hex');
+    if (seen.has(key)) {
+      throw new Error(`Cosigner ${index + 1} repeats an earlier xpub`);
+    }
+    seen.add(key);
+  });
+  return cosigners;
+}
+
+/**
+ * Build the scripts of one address from the cosigners' child keys
+ * @param wallet - Multisig wallet
+ * @param derivations - Child key of each cosigner at the same chain and index
+ * @param network - Bitcoin network
+ * @returns Address and the scripts that spend it
+ */
+function buildMultisigScripts(
+  wallet: MultisigWallet,
+  derivations: CosignerDerivation[],
+  network: bitcoin.Network
+): Pick<
+  MultisigAddress,
+  'address' | 'script' | 'witnessScript' | 'redeemScript' | 'derivations'
+> {
+  const sorted = [...derivations].sort((a, b) => a.pubkey.compare(b.pubkey));
+  const multisig = bitcoin.payments.p2ms({
+    m: wallet.threshold,
+    pubkeys: sorted.map((derivation) => derivation.pubkey),
+    network,
+  });
+  const p2wsh = bitcoin.payments.p2wsh({ redeem: multisig, network });
+  const payment =
+    wallet.scriptType === 'p2sh-p2wsh'
+      ? bitcoin.payments.p2sh({ redeem: p2wsh, network })
+      : p2wsh;
+
+  return {
+    address: payment.address!,
+    script: payment.output!,
+    witnessScript: multisig.output!,
+    redeemScript: wallet.scriptType === 'p2sh-p2wsh' ? p2wsh.output : undefined,
+    derivations: sorted,
+  };
+}
+
+/**
+ * Derive one address of a multisig wallet
+ * @param wallet - Multisig wallet
+ * @param network - Bitcoin network
+ * @param chain - 0 for receive, 1 for change
+ * @param index - Address index
+ * @returns Address with its scripts and cosigner derivations
+ */
+export function deriveMultisigAddress(
+  wallet: MultisigWallet,
+  network: bitcoin.Network,
+  chain: 0 | 1,
+  index: number
+): MultisigAddress {
+  const cosigners = parseMultisigWallet(wallet, network);
+  const derivations = cosigners.map(
+    ({ node, accountPath, masterFingerprint }) => ({
+      masterFingerprint,
+      pubkey: Buffer.from(node.derive(chain).derive(index).publicKey),
+      path: `${accountPath}/${chain}/${index}`,
+    })
+  );
+  return {
+    chain,
+    index,
+    ...buildMultisigScripts(wallet, derivations, network),
+  };
+}
+
+/**
+ * Derive the receive and change addresses of a multisig wallet for lookup
+ * @param wallet - Multisig wallet
+ * @param network - Bitcoin network
+ * @param lookahead - Addresses to derive on each chain
+ * @returns Index from output script to the address's scripts and keys
+ */
+export function createMultisigIndex(
+  wallet: MultisigWallet,
+  network: bitcoin.Network,
+  lookahead: number = DEFAULT_ADDRESS_LOOKAHEAD
+): MultisigIndex {
+  const cosigners = parseMultisigWallet(wallet, network);
+
+  const byScript = new Map<string, MultisigAddress>();
+  for (const chain of [0, 1] as const) {
+    const chainNodes = cosigners.map(({ node }) => node.derive(chain));
+    for (let index = 0; index < lookahead; index++) {
+      const derivations = cosigners.map(
+        ({ accountPath, masterFingerprint }, i) => ({
+          masterFingerprint,
+          pubkey: Buffer.from(chainNodes[i].derive(index).publicKey),
+          path: `${accountPath}/${chain}/${index}`,
+        })
+      );
+      const address = {
+        chain,
+        index,
+        ...buildMultisigScripts(wallet, derivations, network),
+      };
+      byScript.set(address.script.toString('hex'), address);
+    }
+  }
+
+  return {
+    globalXpubs: cosigners.map(({ globalXpub }) => globalXpub),
+    lookahead,
+    find: (script) => byScript.get(script.toString('hex')),
+  };
+}
+
+/**
+ * Output descriptor of a multisig wallet, for importing it into other
+ * coordinators and watch-only wallets
+ * @param wallet - Multisig wallet
+ * @param network - Bitcoin network
+ * @returns wsh(sortedmulti(...)) or sh(wsh(sortedmulti(...))) with checksum
+ */
+export function getMultisigDescriptor(
+  wallet: MultisigWallet,
+  network: bitcoin.Network
+): string {
+  const keys = parseMultisigWallet(wallet, network).map(
+    ({ node, accountPath, masterFingerprint }) =>
+      `[${masterFingerprint.toString('hex')}${accountPath.slice(
+        1
+      )}]${node.toBase58()}/<0;1>/*`
+  );
+  const multi = `wsh(sortedmulti(${wallet.threshold},${keys.join(',')}))`;
+  return Descriptors.addChecksum(
+    wallet.scriptType === 'p2sh-p2wsh' ? `sh(${multi})` : multi
+  );
+}
+
+/**
+ * Weight estimator spec for the wallet's inputs
+ * @param wallet - Multisig wallet
+ * @returns Script type with M and N
+ */
+export function getMultisigInputSpec(wallet: MultisigWallet): MultisigInput {
+  return {
+    type: wallet.scriptType,
+    m: wallet.threshold,
+    n: wallet.cosigners.length,
+  };
+}
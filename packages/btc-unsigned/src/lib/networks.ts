@@ -0,0 +1,234 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import {
+  ChainParams,
+  Coin,
+  detectAddressNetworks,
+  getChainParams,
+  getNetwork,
+  NETWORK_LABELS as CHAIN_NETWORK_LABELS,
+  NetworkName,
+} from '@btc-wallet/chain-params';
+
+/**
+ * Chain Networks
+ *
+ * The network a transaction is built for is chosen once in the UI and
+ * passed through UTXO fetching, address validation, PSBT creation, decoding
+ * and broadcasting. Each network belongs to a coin: Bitcoin mainnet,
+ * testnet, signet and regtest, or Litecoin mainnet and testnet. Prefixes,
+ * coin types and dust limits come from the shared chain-params registry.
+ */
+
+export { COINS, COIN_LABELS } from '@btc-wallet/chain-params';
+export type { Coin } from '@btc-wallet/chain-params';
+
+export type ChainNetwork =
+  'mainnet' | 'testnet' | 'signet' | 'regtest' | 'ltc-mainnet' | 'ltc-testnet';
+
+export const CHAIN_NETWORKS: ChainNetwork[] = [
+  'mainnet',
+  'testnet',
+  'signet',
+  'regtest',
+  'ltc-mainnet',
+  'ltc-testnet',
+];
+
+export const DEFAULT_NETWORK: ChainNetwork = 'testnet';
+
+// Coin and chain-params network of each network name
+const NETWORK_CHAINS: Record<ChainNetwork, [Coin, NetworkName]> = {
+  mainnet: ['bitcoin', 'mainnet'],
+  testnet: ['bitcoin', 'testnet'],
+  signet: ['bitcoin', 'signet'],
+  regtest: ['bitcoin', 'regtest'],
+  'ltc-mainnet': ['litecoin', 'mainnet'],
+  'ltc-testnet': ['litecoin', 'testnet'],
+};
+
+// Network names within their coin, e.g. for the network tabs
+export const NETWORK_LABELS = Object.fromEntries(
+  CHAIN_NETWORKS.map((network) => [
+    network,
+    CHAIN_NETWORK_LABELS[NETWORK_CHAINS[network][1]],
+  ])
+) as Record<ChainNetwork, string>;
+
+// Network a coin starts on when it is selected
+export const DEFAULT_COIN_NETWORKS: Record<Coin, ChainNetwork> = {
+  bitcoin: DEFAULT_NETWORK,
+  litecoin: 'ltc-testnet',
+};
+
+/**
+ * Coin a network belongs to
+ * @param network - Network name
+ * @returns Bitcoin or Litecoin
+ */
+export function getNetworkCoin(network: ChainNetwork): Coin {
+  return NETWORK_CHAINS[network][0];
+}
+
+/**
+ * Chain parameters of a network
+ * @param network - Network name
+ * @returns Prefixes, coin type and dust limit
+ */
+export function getNetworkParams(network: ChainNetwork): ChainParams {
+  const chain = NETWORK_CHAINS[network];
+  if (!chain) {
+    throw new Error(`Unsupported network: ${network}`);
+  }
+  return getChainParams(...chain);
+}
+
+/**
+ * Networks of a coin
+ * @param coin - Coin
+ * @returns Its networks, in CHAIN_NETWORKS order
+ */
+export function getCoinNetworks(coin: Coin): ChainNetwork[] {
+  return CHAIN_NETWORKS.filter((network) => getNetworkCoin(network) === coin);
+}
+
+/**
+ * Full network name for messages, e.g. "Litecoin Testnet"
+ * @param network - Network name
+ * @returns Coin and network label
+ */
+export function getNetworkName(network: ChainNetwork): string {
+  return getNetworkParams(network).name;
+}
+
+/**
+ * Ticker of a network's coin
+ * @param network - Network name
+ * @returns BTC or LTC
+ */
+export function getNetworkUnit(network: ChainNetwork): string {
+  return getNetworkParams(network).unit;
+}
+
+/**
+ * Check for a network whose coins have value, where nothing may be guessed
+ * @param network - Network name
+ * @returns True for Bitcoin and Litecoin mainnet
+ */
+export function isMainnet(network: ChainNetwork): boolean {
+  return network === 'mainnet' || network === 'ltc-mainnet';
+}
+
+/**
+ * BIP44 coin type of a network's account paths
+ * @param network - Network name
+ * @returns 0 for Bitcoin, 2 for Litecoin, 1 for every test network
+ */
+export function getCoinType(network: ChainNetwork): number {
+  return getNetworkParams(network).coinType;
+}
+
+/**
+ * Smallest output worth creating on a network; change below it goes to fees
+ * @param network - Network name
+ * @returns 546 satoshis on Bitcoin, 5460 litoshis on Litecoin
+ */
+export function getDustLimit(network: ChainNetwork): number {
+  return getNetworkParams(network).dustLimit;
+}
+
+/**
+ * Check for a supported network name
+ * @param value - Value to check
+ * @returns True for a network in CHAIN_NETWORKS
+ */
+export function isChainNetwork(value: unknown): value is ChainNetwork {
+  return CHAIN_NETWORKS.includes(value as ChainNetwork);
+}
+
+/**
+ * Parse a network name, e.g. from a query parameter
+ * @param value - Network name, or empty for the fallback
+ * @param fallback - Network used when no name is given
+ * @returns Network name
+ */
+export function parseChainNetwork(
+  value: string | null | undefined,
+  fallback: ChainNetwork = DEFAULT_NETWORK
+): ChainNetwork {
+  if (!value) return fallback;
+  if (!isChainNetwork(value)) {
+    throw new Error(
+      `Unsupported network: ${value}. Use ${CHAIN_NETWORKS.join(', ')}`
+    );
+  }
+  return value;
+}
+
+/**
+ * bitcoinjs-lib network parameters
+ * @param network - Network name
+ * @returns Address and key version bytes
+ */
+export function getBitcoinNetwork(network: ChainNetwork): bitcoin.Network {
+  const { coin, network: name } = getNetworkParams(network);
+  return getNetwork(coin, name);
+}
+
+/**
+ * Networks whose address encoding accepts an address
+ * @param address - Bitcoin or Litecoin address
+ * @returns Matching networks, empty for invalid addresses
+ */
+export function getAddressNetworks(address: string): ChainNetwork[] {
+  const chains = detectAddressNetworks(address);
+  return CHAIN_NETWORKS.filter((network) =>
+    chains.includes(getNetworkParams(network))
+  );
+}
+
+/**
+ * Require an address to belong to a network, so nothing is ever built or
+ * paid across networks
+ * @param address - Bitcoin or Litecoin address
+ * @param network - Network it must belong to
+ * @param role - What the address is for, used in the error
+ * @returns Output script of the address
+ */
+export function assertAddressNetwork(
+  address: string,
+  network: ChainNetwork,
+  role: string = 'Address'
+): Buffer {
+  try {
+    return bitcoin.address.toOutputScript(address, getBitcoinNetwork(network));
+  } catch {
+    const matches = getAddressNetworks(address);
+    throw new Error(
+      matches.length > 0
+        ? `${role} ${address} is a ${matches
+            .map(getNetworkName)
+            .join('/')} address, not ${getNetworkName(network)}`
+        : `${role} ${address} is not a valid ${getNetworkName(network)} address`
+    );
+  }
+}
+
+/**
+ * Require a PSBT's global xpubs to use the network's version bytes. Output
+ * scripts carry no network, so these are the only network marks a PSBT has.
+ * @param psbt - PSBT to check
+ * @param network - Network it must belong to
+ */
+export function assertPSBTNetwork(
+  psbt: bitcoin.Psbt,
+  network: ChainNetwork
+): void {
+  const expected = getBitcoinNetwork(network).bip32.public;
+  for (const { extendedPubkey } of psbt.data.globalMap.globalXpub ?? []) {
+    if (Buffer.from(extendedPubkey).readUInt32BE(0) !== expected) {
+      throw new Error(
+        `PSBT account xpub is not a ${getNetworkName(network)} key`
+      );
+    }
+  }
+}
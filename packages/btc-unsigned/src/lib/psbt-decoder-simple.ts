@@ -1,4 +1,10 @@
 import * as bitcoin from 'bitcoinjs-lib';
+import {
+  InputWeightSpec,
+  OutputScriptType,
+  estimateTransactionWeight,
+  getOutputScriptType,
+} from './tx-weight';
 
 export interface DecodedPSBT {
   // Basic transaction info
@@ -19,10 +25,10 @@ export interface DecodedPSBT {
   // Fee calculation
   feeSatoshis: number;
   feeBTC: number;
-  feeRate: number; // sat/byte
+  feeRate: number; // sat/vB
 
   // Transaction size
-  transactionSize: number;
+  transactionSize: number; // Bytes; estimated vbytes for unsigned PSBTs
   virtualSize: number;
 
   // Validation results
@@ -75,7 +81,7 @@ export interface ValidationResult {
  */
 export function decodePSBT(
   psbtBase64: string,
-  network: bitcoin.Network = bitcoin.networks.testnet,
+  network: bitcoin.Network,
   expectedValues?: {
     recipientAmount: number;
     feeRate: number;
@@ -132,11 +138,11 @@ function decodeFinalizedPSBT(
 
   for (let i = 0; i < tx.ins.length; i++) {
     const input = tx.ins[i];
-    const psbtInput = psbt.data.inputs[i];
+    const prevout = getInputPrevout(psbt, i);
 
     let inputValue = 0;
-    if (psbtInput.witnessUtxo) {
-      inputValue = psbtInput.witnessUtxo.value;
+    if (prevout) {
+      inputValue = prevout.value;
       totalInputValue += inputValue;
     }
 
@@ -144,14 +150,14 @@ function decodeFinalizedPSBT(
     let address: string | undefined;
     let scriptType: string | undefined;
 
-    if (psbtInput.witnessUtxo) {
+    if (prevout) {
       try {
-        const script = psbtInput.witnessUtxo.script;
-        if (script) {
-          const decoded = bitcoin.address.fromOutputScript(script, network);
-          address = decoded;
-          scriptType = getScriptType(script);
-        }
+        const decoded = bitcoin.address.fromOutputScript(
+          prevout.script,
+          network
+        );
+        address = decoded;
+        scriptType = getScriptType(prevout.script);
       } catch {
         warnings.push(`Input ${i}: Could not decode address`);
       }
@@ -203,10 +209,10 @@ function decodeFinalizedPSBT(
 
   // Calculate transaction size
   const transactionSize = tx.byteLength();
-  const virtualSize = Math.ceil(transactionSize / 4); // Simplified vSize calculation
+  const virtualSize = tx.virtualSize();
 
   // Calculate fee rate
-  const feeRate = transactionSize > 0 ? feeSatoshis / transactionSize : 0;
+  const feeRate = virtualSize > 0 ? feeSatoshis / virtualSize : 0;
 
   // Validate transaction
   if (feeSatoshis < 0) {
@@ -265,30 +271,35 @@ function decodeUnsignedPSBT(
 
   // Decode inputs from PSBT data
   const inputs: DecodedInput[] = [];
+  const inputWeights: InputWeightSpec[] = [];
   let totalInputValue = 0;
 
   for (let i = 0; i < psbt.data.inputs.length; i++) {
-    const input = psbt.data.inputs[i];
+    const prevout = getInputPrevout(psbt, i);
 
-    if (!input.witnessUtxo) {
-      validationErrors.push(`Input ${i}: Missing witness UTXO data`);
+    if (!prevout) {
+      validationErrors.push(`Input ${i}: Missing UTXO data`);
       continue;
     }
 
-    const inputValue = input.witnessUtxo.value;
+    const inputValue = prevout.value;
     totalInputValue += inputValue;
 
+    const weightSpec = getInputWeightSpec(psbt.data.inputs[i], prevout.script);
+    if (weightSpec) {
+      inputWeights.push(weightSpec);
+    } else {
+      warnings.push(`Input ${i}: Unknown script type, size not estimated`);
+    }
+
     // Try to decode the address
     let address: string | undefined;
     let scriptType: string | undefined;
 
     try {
-      const script = input.witnessUtxo.script;
-      if (script) {
-        const decoded = bitcoin.address.fromOutputScript(script, network);
-        address = decoded;
-        scriptType = getScriptType(script);
-      }
+      const decoded = bitcoin.address.fromOutputScript(prevout.script, network);
+      address = decoded;
+      scriptType = getScriptType(prevout.script);
     } catch {
       warnings.push(`Input ${i}: Could not decode address`);
     }
@@ -303,22 +314,25 @@ function decodeUnsignedPSBT(
     });
   }
 
+  // Estimate the signed transaction size from the input and output script
+  // types (we can't get the exact size before signing)
+  const outputScripts = psbt.txOutputs.map((output) => output.script);
+  const { vsize } = estimateTransactionWeight(
+    inputWeights,
+    outputScripts.map((script) => script.length)
+  );
+
   // For unsigned PSBTs, we need to estimate output values
   // Use expected values if provided, otherwise estimate
   let totalEstimatedOutput = 0;
 
   if (expectedValues) {
     // Use expected values to calculate outputs
-    const estimatedFee = Math.round(
-      (inputs.length * 71 + psbt.data.outputs.length * 31 + 10) *
-        expectedValues.feeRate
-    );
+    const estimatedFee = Math.round(vsize * expectedValues.feeRate);
     totalEstimatedOutput = totalInputValue - estimatedFee;
   } else {
     // Fallback estimation
-    const estimatedFee = Math.round(
-      (inputs.length * 71 + psbt.data.outputs.length * 31 + 10) * 1
-    ); // 1 sat/byte for slow
+    const estimatedFee = Math.round(vsize * 1); // 1 sat/vB for slow
     totalEstimatedOutput = totalInputValue - estimatedFee;
   }
 
@@ -327,10 +341,7 @@ function decodeUnsignedPSBT(
 
   if (expectedValues && psbt.data.outputs.length > 0) {
     // Use expected values to calculate outputs
-    const estimatedFee = Math.round(
-      (inputs.length * 71 + psbt.data.outputs.length * 31 + 10) *
-        expectedValues.feeRate
-    );
+    const estimatedFee = Math.round(vsize * expectedValues.feeRate);
 
     for (let i = 0; i < psbt.data.outputs.length; i++) {
       let outputValue = 0;
@@ -349,16 +360,12 @@ function decodeUnsignedPSBT(
       let scriptType: string | undefined;
 
       try {
-        // Access the script from the output data
-        const outputData = psbt.data.outputs[i] as { script?: Buffer };
-        if (outputData.script) {
-          const decoded = bitcoin.address.fromOutputScript(
-            outputData.script,
-            network
-          );
-          address = decoded;
-          scriptType = getScriptType(outputData.script);
-        }
+        const decoded = bitcoin.address.fromOutputScript(
+          outputScripts[i],
+          network
+        );
+        address = decoded;
+        scriptType = getScriptType(outputScripts[i]);
       } catch {
         warnings.push(`Output ${i}: Could not decode address`);
       }
@@ -366,7 +373,7 @@ function decodeUnsignedPSBT(
       outputs.push({
         index: i,
         value: outputValue,
-        scriptPubKey: '', // Not available in unsigned PSBT
+        scriptPubKey: outputScripts[i].toString('hex'),
         address,
         scriptType,
         isChange: i === 1, // Second output is change
@@ -407,10 +414,7 @@ function decodeUnsignedPSBT(
 
   if (expectedValues) {
     // Use expected fee calculation for unsigned PSBTs
-    const estimatedFee = Math.round(
-      (inputs.length * 71 + psbt.data.outputs.length * 31 + 10) *
-        expectedValues.feeRate
-    );
+    const estimatedFee = Math.round(vsize * expectedValues.feeRate);
     feeSatoshis = estimatedFee;
   } else {
     // Calculate fee from input/output difference
@@ -419,16 +423,11 @@ function decodeUnsignedPSBT(
 
   const feeBTC = feeSatoshis / 100000000;
 
-  // Estimate transaction size (since we can't get exact size from unsigned PSBT)
-  const estimatedInputSize = inputs.length * 71; // P2WPKH virtual input size
-  const estimatedOutputSize = psbt.data.outputs.length * 31; // P2WPKH output size
-  const estimatedOverhead = 10; // version + locktime + witness marker
-  const transactionSize =
-    estimatedInputSize + estimatedOutputSize + estimatedOverhead;
-  const virtualSize = Math.ceil(transactionSize / 4);
+  const transactionSize = vsize;
+  const virtualSize = vsize;
 
   // Calculate fee rate
-  const feeRate = transactionSize > 0 ? feeSatoshis / transactionSize : 0;
+  const feeRate = virtualSize > 0 ? feeSatoshis / virtualSize : 0;
 
   // Validate transaction
   if (feeSatoshis < 0) {
@@ -467,25 +466,19 @@ export function validatePSBT(
   expectedValues: {
     recipientAmount: number;
     feeRate: number;
-    network?: bitcoin.Network;
+    network: bitcoin.Network;
   }
 ): ValidationResult {
-  const decoded = decodePSBT(
-    psbtBase64,
-    expectedValues.network || bitcoin.networks.testnet,
-    {
-      recipientAmount: expectedValues.recipientAmount,
-      feeRate: expectedValues.feeRate,
-    }
-  );
+  const decoded = decodePSBT(psbtBase64, expectedValues.network, {
+    recipientAmount: expectedValues.recipientAmount,
+    feeRate: expectedValues.feeRate,
+  });
 
   const errors: string[] = [...decoded.validationErrors];
   const warnings: string[] = [...decoded.warnings];
 
   // Validate fee calculation
-  const expectedFee = Math.round(
-    decoded.transactionSize * expectedValues.feeRate
-  );
+  const expectedFee = Math.round(decoded.virtualSize * expectedValues.feeRate);
   const feeAccuracy = Math.abs(decoded.feeSatoshis - expectedFee);
   const isFeeAccurate = feeAccuracy <= 1; // Allow 1 satoshi tolerance
 
@@ -543,14 +536,81 @@ export function validatePSBT(
 function getScriptType(script: Buffer): string {
   if (script.length === 0) return 'empty';
 
-  const firstByte = script[0];
+  const type = getOutputScriptType(script);
+  return type ? SCRIPT_TYPE_LABELS[type] : 'unknown';
+}
 
-  if (firstByte === 0x00) return 'P2PKH';
-  if (firstByte === 0x51) return 'P2WPKH';
-  if (firstByte === 0x52) return 'P2WSH';
-  if (firstByte === 0x53) return 'P2TR';
+const SCRIPT_TYPE_LABELS: Record<OutputScriptType, string> = {
+  p2pkh: 'P2PKH',
+  p2sh: 'P2SH',
+  p2wpkh: 'P2WPKH',
+  p2wsh: 'P2WSH',
+  p2tr: 'P2TR',
+};
 
-  return 'unknown';
+/**
+ * Get the output an input spends, from its witness or full funding UTXO
+ */
+function getInputPrevout(
+  psbt: bitcoin.Psbt,
+  index: number
+): { script: Buffer; value: number } | undefined {
+  const input = psbt.data.inputs[index];
+  if (input.witnessUtxo) return input.witnessUtxo;
+  if (input.nonWitnessUtxo) {
+    const funding = bitcoin.Transaction.fromBuffer(input.nonWitnessUtxo);
+    return funding.outs[psbt.txInputs[index].index];
+  }
+  return undefined;
+}
+
+/**
+ * Get the weight estimator's script type for an input
+ */
+function getInputWeightSpec(
+  input: bitcoin.Psbt['data']['inputs'][number],
+  script: Buffer
+): InputWeightSpec | undefined {
+  switch (getOutputScriptType(script)) {
+    case 'p2pkh':
+      return 'p2pkh';
+    case 'p2wpkh':
+      return 'p2wpkh';
+    case 'p2tr':
+      return 'p2tr';
+    case 'p2sh':
+      // Without a redeem script, assume the common nested P2WPKH
+      if (
+        !input.redeemScript ||
+        getOutputScriptType(input.redeemScript) === 'p2wpkh'
+      ) {
+        return 'p2sh-p2wpkh';
+      }
+      if (getOutputScriptType(input.redeemScript) === 'p2wsh') {
+        return getMultisigWeightSpec(input.witnessScript, 'p2sh-p2wsh');
+      }
+      return undefined;
+    case 'p2wsh':
+      return getMultisigWeightSpec(input.witnessScript, 'p2wsh');
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Get the weight estimator's spec for a CHECKMULTISIG witness script
+ */
+function getMultisigWeightSpec(
+  witnessScript: Buffer | undefined,
+  type: 'p2wsh' | 'p2sh-p2wsh'
+): InputWeightSpec | undefined {
+  if (!witnessScript) return undefined;
+  try {
+    const { m, n } = bitcoin.payments.p2ms({ output: witnessScript });
+    return m && n ? { type, m, n } : undefined;
+  } catch {
+    return undefined;
+  }
 }
 
 /**
@@ -575,17 +635,13 @@ export function generatePSBTReport(
   expectedValues: {
     recipientAmount: number;
     feeRate: number;
-    network?: bitcoin.Network;
+    network: bitcoin.Network;
   }
 ): string {
-  const decoded = decodePSBT(
-    psbtBase64,
-    expectedValues.network || bitcoin.networks.testnet,
-    {
-      recipientAmount: expectedValues.recipientAmount,
-      feeRate: expectedValues.feeRate,
-    }
-  );
+  const decoded = decodePSBT(psbtBase64, expectedValues.network, {
+    recipientAmount: expectedValues.recipientAmount,
+    feeRate: expectedValues.feeRate,
+  });
 
   const validation = validatePSBT(psbtBase64, expectedValues);
 
@@ -630,8 +686,8 @@ export function generatePSBTReport(
   report += `Fee: ${formatBTC(decoded.feeSatoshis)} BTC (${
     decoded.feeSatoshis
   } satoshis)\n`;
-  report += `Fee Rate: ${decoded.feeRate.toFixed(2)} sat/byte\n`;
-  report += `Transaction Size: ${decoded.transactionSize} bytes\n\n`;
+  report += `Fee Rate: ${decoded.feeRate.toFixed(2)} sat/vB\n`;
+  report += `Transaction Size: ${decoded.transactionSize} bytes (${decoded.virtualSize} vB)\n\n`;
 
   // Validation results
   report += `=== Validation Results ===\n`;
@@ -655,9 +711,7 @@ export function generatePSBTReport(
   report += `\n=== Fee Validation ===\n`;
   report += `Expected Fee: ${validation.feeValidation.expectedFee} satoshis\n`;
   report += `Calculated Fee: ${validation.feeValidation.calculatedFee} satoshis\n`;
-  report += `Fee Rate: ${validation.feeValidation.feeRate.toFixed(
-    2
-  )} sat/byte\n`;
+  report += `Fee Rate: ${validation.feeValidation.feeRate.toFixed(2)} sat/vB\n`;
   report += `Accurate: ${
     validation.feeValidation.isAccurate ? '✅ Yes' : '❌ No'
   }\n`;
@@ -1,5 +1,37 @@
 import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from 'tiny-secp256k1';
 import { UTXO } from '../types/bitcoin';
+import { getTransactionStatus } from './broadcast';
+import { CurrentFeeRates, getCurrentFeeRates } from './fee-estimator';
+import {
+  AccountKey,
+  AccountKeyIndex,
+  KeyDerivation,
+  createAccountKeyIndex,
+} from './key-origin';
+import {
+  ChainNetwork,
+  assertAddressNetwork,
+  getBitcoinNetwork,
+  getDustLimit,
+} from './networks';
+import {
+  MultisigAddress,
+  MultisigWallet,
+  createMultisigIndex,
+  getMultisigInputSpec,
+} from './multisig';
+import {
+  InputScriptType,
+  InputWeightSpec,
+  estimateVsize,
+  outputScriptLength,
+} from './tx-weight';
+
+export type { InputScriptType } from './tx-weight';
+
+// Needed to derive taproot output keys
+bitcoin.initEccLib(ecc);
 
 /**
  * PSBT Generator Service
@@ -8,11 +40,20 @@ import { UTXO } from '../types/bitcoin';
  * that can be signed and broadcast by external applications.
  */
 
+// Highest nSequence that signals BIP125 opt-in replace-by-fee
+export const RBF_SEQUENCE = 0xfffffffd;
+
 export interface TransactionOutput {
   address: string;
   value: number;
 }
 
+// Payment output of a batch; labels stay local and are not in the PSBT
+export interface Recipient extends TransactionOutput {
+  label?: string;
+  subtractFee?: boolean; // Pays a share of the fee out of its value
+}
+
 export interface PSBTResult {
   psbt: string; // Base64 encoded PSBT
   transactionSize: number;
@@ -24,13 +65,60 @@ export interface PSBTResult {
   changeAmount: number;
 }
 
+export interface CPFPResult extends PSBTResult {
+  parentOutput: UTXO; // The change output the child spends
+  parentTxid: string;
+  parentFee: number;
+  parentVsize: number;
+  childFee: number;
+  childVsize: number; // Estimated until signed
+  targetFeeRate: number; // sat/vB for parent and child together
+  packageFeeRate: number; // sat/vB actually reached
+}
+
 export interface PSBTInput {
   hash: string;
   index: number;
-  witnessUtxo: {
+  sequence: number;
+  nonWitnessUtxo?: Buffer; // Full funding transaction (legacy inputs)
+  witnessUtxo?: {
     script: Buffer;
     value: number;
   };
+  redeemScript?: Buffer; // P2SH-P2WPKH only
+  tapInternalKey?: Buffer; // P2TR only
+}
+
+export interface Bip32Derivation {
+  masterFingerprint: Buffer;
+  pubkey: Buffer;
+  path: string;
+}
+
+// Key origin fields for an input or output owned by the account. Taproot
+// keys go in tapBip32Derivation with their x-only form and no leaf hashes;
+// the single-key scripts are only set on outputs, inputs already carry them.
+export interface PSBTKeyOrigin {
+  bip32Derivation?: Bip32Derivation[];
+  witnessScript?: Buffer; // Multisig only, on inputs and outputs
+  tapBip32Derivation?: Array<Bip32Derivation & { leafHashes: Buffer[] }>;
+  redeemScript?: Buffer;
+  tapInternalKey?: Buffer;
+}
+
+export interface InputSigningOptions {
+  // Hex public key of the spending address. Required for P2SH-P2WPKH
+  // (compressed key) and P2TR (internal key, compressed or x-only).
+  publicKey?: string;
+  // Raw hex of a funding transaction, needed for legacy P2PKH inputs
+  fetchTransactionHex?: (txid: string) => Promise<string>;
+  // Account xpub and key origin. Adds BIP32 derivations for the inputs and
+  // any output paying back to the account, plus a global xpub.
+  accountKey?: AccountKey;
+  // Cosigner xpubs of the multisig wallet holding the from address. Adds the
+  // witness script and every cosigner's derivation to inputs and change.
+  multisig?: MultisigWallet;
+  addressLookahead?: number; // Addresses per chain searched, default 200
 }
 
 export interface PSBTOutput {
@@ -42,74 +130,89 @@ export interface PSBTOutput {
  * Create unsigned PSBT transaction
  * @param inputs - Array of UTXOs to spend
  * @param outputs - Array of transaction outputs
- * @param network - Bitcoin network (testnet/mainnet)
+ * @param fromAddress - Address holding every input
+ * @param networkName - Network every address must belong to
+ * @param options - Public key, account key or multisig wallet, and funding transaction source
+ * @param changeIndex - Index of the change output in outputs, if there is one
  * @returns Unsigned PSBT in base64 format
  */
 export async function createUnsignedPSBT(
   inputs: UTXO[],
   outputs: TransactionOutput[],
   fromAddress: string,
-  network: bitcoin.Network = bitcoin.networks.testnet
+  networkName: ChainNetwork,
+  options: InputSigningOptions = {},
+  changeIndex?: number
 ): Promise<PSBTResult> {
   try {
     console.log('createUnsignedPSBT called with:', {
       inputCount: inputs.length,
       outputCount: outputs.length,
+      network: networkName,
     });
 
     // Create a new PSBT
+    const network = getBitcoinNetwork(networkName);
     const psbt = new bitcoin.Psbt({ network });
 
-    let totalInputValue = 0;
-    let totalOutputValue = 0;
+    // All inputs are from the same address, so they share one script.
+    // Every address is checked against the network before anything is added.
+    const script = assertAddressNetwork(
+      fromAddress,
+      networkName,
+      'From address'
+    );
+    const outputScripts = outputs.map((output, index) =>
+      assertAddressNetwork(output.address, networkName, `Output ${index + 1}`)
+    );
+    const weightSpec = getInputWeightSpec(script, fromAddress, options);
+    if (options.multisig && options.accountKey) {
+      throw new Error('Use either an account xpub or a multisig wallet');
+    }
 
-    // Add inputs with real transaction data
-    for (let i = 0; i < inputs.length; i++) {
-      const input = inputs[i];
-      console.log(
-        `Processing input ${i + 1}/${inputs.length}: ${input.txid}:${
-          input.vout
-        }`
+    if (options.multisig) {
+      addMultisigInputsAndOutputs(
+        psbt,
+        inputs,
+        outputs,
+        fromAddress,
+        script,
+        outputScripts,
+        options.multisig,
+        network,
+        options.addressLookahead
+      );
+    } else {
+      await addSingleKeyInputsAndOutputs(
+        psbt,
+        inputs,
+        outputs,
+        fromAddress,
+        script,
+        outputScripts,
+        networkName,
+        options
       );
-
-      // Create script from the fromAddress (all inputs are from the same address)
-      const script = createScriptFromAddress(fromAddress);
-
-      psbt.addInput({
-        hash: input.txid,
-        index: input.vout,
-        witnessUtxo: {
-          script,
-          value: input.value,
-        },
-      });
-
-      totalInputValue += input.value;
-      console.log(`Input ${i + 1} processed successfully`);
     }
 
-    // Add outputs
-    for (const output of outputs) {
-      psbt.addOutput({
-        address: output.address,
-        value: output.value,
-      });
-
-      totalOutputValue += output.value;
-    }
+    const totalInputValue = inputs.reduce((sum, input) => sum + input.value, 0);
+    const totalOutputValue = outputs.reduce(
+      (sum, output) => sum + output.value,
+      0
+    );
 
     // Calculate fee and change
     const feeSatoshis = totalInputValue - totalOutputValue;
     const changeAmount =
-      outputs.length > 1 ? outputs[outputs.length - 1].value : 0;
+      changeIndex === undefined ? 0 : outputs[changeIndex].value;
 
     // Get PSBT in base64 format
     const psbtBase64 = psbt.toBase64();
 
     // Calculate transaction size
-    const transactionSize = calculateTransactionSize(
-      inputs.length,
-      outputs.length
+    const transactionSize = estimateVsize(
+      inputs.map(() => weightSpec),
+      outputs.map((output) => outputScriptLength(output.address, network))
     );
 
     return {
@@ -132,55 +235,452 @@ export async function createUnsignedPSBT(
 }
 
 /**
- * Fetch transaction script from blockchain
- * @param txid - Transaction ID
- * @param vout - Output index
- * @returns Script buffer
+ * Add inputs from a single-key address, with key origins when the account
+ * xpub is known, and the outputs
+ * @param psbt - PSBT being built
+ * @param inputs - UTXOs of the from address
+ * @param outputs - Transaction outputs
+ * @param fromAddress - Address holding every input
+ * @param script - Output script of the from address
+ * @param outputScripts - Output script of each output
+ * @param networkName - Network of the transaction
+ * @param options - Public key, account key or multisig wallet, and funding transaction source
  */
-function createScriptFromAddress(address: string): Buffer {
-  console.log(`Creating script from address: ${address}`);
+async function addSingleKeyInputsAndOutputs(
+  psbt: bitcoin.Psbt,
+  inputs: UTXO[],
+  outputs: TransactionOutput[],
+  fromAddress: string,
+  script: Buffer,
+  outputScripts: Buffer[],
+  networkName: ChainNetwork,
+  options: InputSigningOptions
+): Promise<void> {
+  const network = getBitcoinNetwork(networkName);
+  const scriptType = getInputScriptType(script, fromAddress);
+  const fundingTransactions = new Map<string, Promise<Buffer>>();
 
-  try {
-    // For now, focus on the most common address types
-    // Most testnet addresses are P2WPKH (tb1...)
-    if (address.startsWith('tb1') || address.startsWith('bc1')) {
-      // Native SegWit (P2WPKH or P2WSH)
-      const decoded = bitcoin.address.fromBech32(address);
-      if (!decoded) {
-        throw new Error(`Invalid Bech32 address: ${address}`);
-      }
+  // Find the account key that owns the from address
+  let keyIndex: AccountKeyIndex | undefined;
+  let fromKey: KeyDerivation | undefined;
+  let inputOptions: InputSigningOptions = {
+    ...options,
+    fetchTransactionHex:
+      options.fetchTransactionHex ??
+      ((txid) => fetchTransactionHex(txid, networkName)),
+  };
+  if (options.accountKey) {
+    keyIndex = createAccountKeyIndex(
+      options.accountKey,
+      scriptType,
+      network,
+      options.addressLookahead
+    );
+    fromKey = keyIndex.find(script);
+    if (!fromKey) {
+      throw new Error(
+        `${fromAddress} is not among the first ${keyIndex.lookahead} receive or change addresses of the account xpub`
+      );
+    }
+    if (!options.publicKey) {
+      inputOptions = {
+        ...inputOptions,
+        publicKey: fromKey.pubkey.toString('hex'),
+      };
+    }
+    psbt.updateGlobal({ globalXpub: [keyIndex.globalXpub] });
+  }
 
-      // P2WPKH (20-byte hash) or P2WSH (32-byte hash)
-      const script = bitcoin.script.compile([
-        bitcoin.opcodes.OP_0,
-        decoded.data,
-      ]);
-      console.log(`Successfully created SegWit script for address: ${address}`);
-      return script;
-    } else {
-      // For other address types, use placeholder for now
-      // TODO: Implement proper support for P2SH and Legacy addresses
-      console.log(
-        `Address type not fully supported yet: ${address}, using placeholder`
+  // Add inputs with real transaction data
+  for (let i = 0; i < inputs.length; i++) {
+    const input = inputs[i];
+    console.log(
+      `Processing input ${i + 1}/${inputs.length}: ${input.txid}:${input.vout}`
+    );
+
+    psbt.addInput(
+      await createPSBTInput(
+        input,
+        fromAddress,
+        script,
+        scriptType,
+        network,
+        inputOptions,
+        fundingTransactions
+      )
+    );
+    if (keyIndex && fromKey) {
+      psbt.updateInput(i, createKeyOrigin(keyIndex, fromKey, scriptType));
+    }
+    console.log(`Input ${i + 1} processed successfully`);
+  }
+
+  // Add outputs, marking those that pay back to the account so signers
+  // can verify change
+  outputs.forEach((output, index) => {
+    psbt.addOutput({
+      address: output.address,
+      value: output.value,
+    });
+    const ownKey = keyIndex?.find(outputScripts[index]);
+    if (keyIndex && ownKey) {
+      psbt.updateOutput(
+        index,
+        createOutputKeyOrigin(keyIndex, ownKey, scriptType, network)
       );
-      return createPlaceholderP2WPKHScript();
     }
-  } catch (error) {
-    console.error(`Error creating script for address ${address}:`, error);
-    // Fallback to placeholder script
-    return createPlaceholderP2WPKHScript();
+  });
+}
+
+/**
+ * Add inputs from a multisig address and the outputs. Inputs carry the
+ * witness script and every cosigner's derivation so each signer can find
+ * its key and add its partial signature; outputs paying back to the wallet
+ * carry the same so signers can verify change.
+ * @param psbt - PSBT being built
+ * @param inputs - UTXOs of the from address
+ * @param outputs - Transaction outputs
+ * @param fromAddress - Multisig address holding every input
+ * @param script - Output script of the from address
+ * @param outputScripts - Output script of each output
+ * @param wallet - Multisig wallet owning the from address
+ * @param network - Bitcoin network
+ * @param lookahead - Addresses per chain searched
+ */
+function addMultisigInputsAndOutputs(
+  psbt: bitcoin.Psbt,
+  inputs: UTXO[],
+  outputs: TransactionOutput[],
+  fromAddress: string,
+  script: Buffer,
+  outputScripts: Buffer[],
+  wallet: MultisigWallet,
+  network: bitcoin.Network,
+  lookahead?: number
+): void {
+  const multisigIndex = createMultisigIndex(wallet, network, lookahead);
+  const from = multisigIndex.find(script);
+  if (!from) {
+    throw new Error(
+      `${fromAddress} is not among the first ${multisigIndex.lookahead} receive or change addresses of the multisig wallet`
+    );
+  }
+  psbt.updateGlobal({ globalXpub: multisigIndex.globalXpubs });
+
+  // Witness UTXOs commit to the value in every segwit sighash, so the
+  // funding transactions are not needed
+  for (const input of inputs) {
+    psbt.addInput({
+      hash: input.txid,
+      index: input.vout,
+      sequence: RBF_SEQUENCE,
+      witnessUtxo: { script, value: input.value },
+      ...createMultisigKeyOrigin(from),
+    });
+  }
+
+  outputs.forEach((output, index) => {
+    psbt.addOutput({
+      address: output.address,
+      value: output.value,
+    });
+    const own = multisigIndex.find(outputScripts[index]);
+    if (own) {
+      psbt.updateOutput(index, createMultisigKeyOrigin(own));
+    }
+  });
+}
+
+/**
+ * Identify the spendable script type of an output script
+ * @param script - Output script of the funding address
+ * @param address - Address, for error messages
+ * @returns Input script type
+ */
+export function getInputScriptType(
+  script: Buffer,
+  address: string
+): InputScriptType {
+  const { opcodes } = bitcoin;
+  if (
+    script.length === 25 &&
+    script[0] === opcodes.OP_DUP &&
+    script[1] === opcodes.OP_HASH160 &&
+    script[23] === opcodes.OP_EQUALVERIFY &&
+    script[24] === opcodes.OP_CHECKSIG
+  ) {
+    return 'p2pkh';
+  }
+  if (
+    script.length === 23 &&
+    script[0] === opcodes.OP_HASH160 &&
+    script[22] === opcodes.OP_EQUAL
+  ) {
+    // Only nested P2WPKH is supported; the public key check in
+    // createPSBTInput rejects any other redeem script
+    return 'p2sh-p2wpkh';
+  }
+  if (script.length === 22 && script[0] === opcodes.OP_0) return 'p2wpkh';
+  if (script.length === 34 && script[0] === opcodes.OP_1) return 'p2tr';
+  throw new Error(
+    `Unsupported address type: ${address}. Supported inputs are P2PKH, P2SH-P2WPKH, P2WPKH and P2TR`
+  );
+}
+
+/**
+ * Identify the weight estimator's spec for inputs from an address
+ * @param script - Output script of the funding address
+ * @param address - Address, for error messages
+ * @param options - Multisig wallet, when the address belongs to one
+ * @returns Multisig spec or single-key input script type
+ */
+export function getInputWeightSpec(
+  script: Buffer,
+  address: string,
+  options: Pick<InputSigningOptions, 'multisig'> = {}
+): InputWeightSpec {
+  return options.multisig
+    ? getMultisigInputSpec(options.multisig)
+    : getInputScriptType(script, address);
+}
+
+/**
+ * Build the PSBT input fields a signer needs for one UTXO
+ * @param utxo - UTXO to spend
+ * @param address - Address holding the UTXO
+ * @param script - Output script of the address
+ * @param scriptType - Script type of the address
+ * @param network - Bitcoin network
+ * @param options - Public key and funding transaction source
+ * @param fundingTransactions - Funding transactions already requested, by txid
+ * @returns PSBT input
+ */
+async function createPSBTInput(
+  utxo: UTXO,
+  address: string,
+  script: Buffer,
+  scriptType: InputScriptType,
+  network: bitcoin.Network,
+  options: InputSigningOptions,
+  fundingTransactions: Map<string, Promise<Buffer>>
+): Promise<PSBTInput> {
+  // Every input signals replaceability so the fee can be bumped later
+  const input: PSBTInput = {
+    hash: utxo.txid,
+    index: utxo.vout,
+    sequence: RBF_SEQUENCE,
+  };
+  const outpoint = `${utxo.txid}:${utxo.vout}`;
+
+  switch (scriptType) {
+    case 'p2pkh': {
+      // Legacy sighashes do not commit to the input value, so signers must
+      // check it against the full funding transaction
+      let funding = fundingTransactions.get(utxo.txid);
+      if (!funding) {
+        funding = loadFundingTransaction(utxo.txid, options);
+        fundingTransactions.set(utxo.txid, funding);
+      }
+      const raw = await funding;
+      const output = bitcoin.Transaction.fromBuffer(raw).outs[utxo.vout];
+      if (!output || !output.script.equals(script)) {
+        throw new Error(
+          `Funding transaction output ${outpoint} is not locked to ${address}`
+        );
+      }
+      input.nonWitnessUtxo = raw;
+      return input;
+    }
+    case 'p2sh-p2wpkh': {
+      const pubkey = parsePublicKey(options.publicKey, outpoint, address);
+      if (pubkey.length !== 33) {
+        throw new Error('P2SH-P2WPKH inputs need a compressed public key');
+      }
+      const nested = bitcoin.payments.p2sh({
+        redeem: bitcoin.payments.p2wpkh({ pubkey, network }),
+        network,
+      });
+      if (!nested.output!.equals(script)) {
+        throw new Error(
+          `${address} is not the P2SH-P2WPKH address of the supplied public key`
+        );
+      }
+      input.witnessUtxo = { script, value: utxo.value };
+      input.redeemScript = nested.redeem!.output!;
+      return input;
+    }
+    case 'p2wpkh':
+      input.witnessUtxo = { script, value: utxo.value };
+      return input;
+    case 'p2tr': {
+      const pubkey = parsePublicKey(options.publicKey, outpoint, address);
+      const internalPubkey = pubkey.length === 33 ? pubkey.subarray(1) : pubkey;
+      if (internalPubkey.length !== 32) {
+        throw new Error('P2TR inputs need a 32-byte internal public key');
+      }
+      // Key-path only: the output key must be the BIP86 tweak of the key
+      const tweaked = bitcoin.payments.p2tr({ internalPubkey, network });
+      if (!tweaked.output!.equals(script)) {
+        throw new Error(
+          `The supplied public key is not the taproot internal key of ${address}`
+        );
+      }
+      input.witnessUtxo = { script, value: utxo.value };
+      input.tapInternalKey = internalPubkey;
+      return input;
+    }
+  }
+}
+
+/**
+ * Build the BIP32 derivation fields for a key owned by the account
+ * @param keyIndex - Account key index
+ * @param key - Derivation of the owning key
+ * @param scriptType - Script type of the account
+ * @returns Derivation fields for updateInput/updateOutput
+ */
+function createKeyOrigin(
+  keyIndex: AccountKeyIndex,
+  key: KeyDerivation,
+  scriptType: InputScriptType
+): PSBTKeyOrigin {
+  const { masterFingerprint } = keyIndex;
+  if (scriptType === 'p2tr') {
+    return {
+      tapBip32Derivation: [
+        {
+          masterFingerprint,
+          pubkey: key.pubkey.subarray(1),
+          path: key.path,
+          leafHashes: [],
+        },
+      ],
+    };
+  }
+  return {
+    bip32Derivation: [
+      { masterFingerprint, pubkey: key.pubkey, path: key.path },
+    ],
+  };
+}
+
+/**
+ * Build the key origin of an output paying back to the account, including
+ * the scripts a signer needs to check the output really is its own
+ * @param keyIndex - Account key index
+ * @param key - Derivation of the owning key
+ * @param scriptType - Script type of the account
+ * @param network - Bitcoin network
+ * @returns Fields for updateOutput
+ */
+function createOutputKeyOrigin(
+  keyIndex: AccountKeyIndex,
+  key: KeyDerivation,
+  scriptType: InputScriptType,
+  network: bitcoin.Network
+): PSBTKeyOrigin {
+  const origin = createKeyOrigin(keyIndex, key, scriptType);
+  if (scriptType === 'p2tr') {
+    origin.tapInternalKey = key.pubkey.subarray(1);
+  } else if (scriptType === 'p2sh-p2wpkh') {
+    origin.redeemScript = bitcoin.payments.p2wpkh({
+      pubkey: key.pubkey,
+      network,
+    }).output!;
+  }
+  return origin;
+}
+
+/**
+ * Build the scripts and cosigner derivations of a multisig address
+ * @param address - Multisig address owned by the wallet
+ * @returns Fields for addInput/updateOutput
+ */
+function createMultisigKeyOrigin(address: MultisigAddress): PSBTKeyOrigin {
+  return {
+    witnessScript: address.witnessScript,
+    ...(address.redeemScript && { redeemScript: address.redeemScript }),
+    bip32Derivation: address.derivations.map(
+      ({ masterFingerprint, pubkey, path }) => ({
+        masterFingerprint,
+        pubkey,
+        path,
+      })
+    ),
+  };
+}
+
+/**
+ * Decode the hex public key required by an input
+ * @param hex - Hex public key, if supplied
+ * @param outpoint - Input being built, for error messages
+ * @param address - Address holding the input, for error messages
+ * @returns Public key buffer
+ */
+function parsePublicKey(
+  hex: string | undefined,
+  outpoint: string,
+  address: string
+): Buffer {
+  const trimmed = hex?.trim() ?? '';
+  if (!trimmed) {
+    throw new Error(
+      `Input ${outpoint} needs the public key of ${address} to be signable`
+    );
+  }
+  if (!/^[0-9a-fA-F]+$/.test(trimmed) || trimmed.length % 2 !== 0) {
+    throw new Error('Public key must be hex encoded');
+  }
+  return Buffer.from(trimmed, 'hex');
+}
+
+/**
+ * Fetch a funding transaction and check it hashes to the expected txid
+ * @param txid - Transaction ID
+ * @param options - Transaction source
+ * @returns Raw transaction
+ */
+async function loadFundingTransaction(
+  txid: string,
+  options: InputSigningOptions
+): Promise<Buffer> {
+  if (!options.fetchTransactionHex) {
+    throw new Error(`No source for funding transaction ${txid}`);
   }
+  const raw = Buffer.from(
+    (await options.fetchTransactionHex(txid)).trim(),
+    'hex'
+  );
+  if (bitcoin.Transaction.fromBuffer(raw).getId() !== txid) {
+    throw new Error(`Funding transaction ${txid} does not match its txid`);
+  }
+  return raw;
 }
 
 /**
- * Create placeholder P2WPKH script
- * This is a fallback solution when transaction fetch fails
- * @returns Placeholder script buffer
+ * Fetch raw transaction hex via the proxy API
+ * @param txid - Transaction ID
+ * @param network - Network the transaction is on
+ * @returns Raw transaction hex
  */
-function createPlaceholderP2WPKHScript(): Buffer {
-  // Create a placeholder P2WPKH script
-  // This is used as fallback when transaction fetch fails
-  return bitcoin.script.compile([bitcoin.opcodes.OP_0, Buffer.alloc(20)]);
+export async function fetchTransactionHex(
+  txid: string,
+  network: ChainNetwork
+): Promise<string> {
+  const response = await fetch(
+    `/api/tx-hex?txid=${encodeURIComponent(txid)}&network=${network}`,
+    {
+      method: 'GET',
+      headers: {
+        Accept: 'application/json',
+      },
+    }
+  );
+  if (!response.ok) {
+    throw new Error(`Failed to fetch transaction ${txid}`);
+  }
+  const data = await response.json();
+  return data.hex;
 }
 
 /**
@@ -200,77 +700,104 @@ function createPlaceholderP2WPKHScript(): Buffer {
 //   return bitcoin.script.compile([bitcoin.opcodes.OP_0, decoded.data]);
 // }
 
-/**
- * Calculate transaction size for P2WPKH transactions
- * @param inputCount - Number of inputs
- * @param outputCount - Number of outputs
- * @returns Transaction size in bytes
- */
-function calculateTransactionSize(
-  inputCount: number,
-  outputCount: number
-): number {
-  // P2WPKH transaction size calculation (virtual size for fee calculation)
-  // Virtual size accounts for SegWit witness discount (witness data / 4)
-  const inputSize = 71; // Virtual input size: base (40 bytes) + witness discount (~31 bytes)
-  const outputSize = 31; // 8 bytes value + 1 byte script length + 22 bytes script
-  const overhead = 10; // version + locktime + witness marker + witness count
-
-  return inputCount * inputSize + outputCount * outputSize + overhead;
-}
-
 /**
  * Create PSBT from UTXOs and outputs with automatic change calculation
  * @param inputs - Array of UTXOs to spend
- * @param toAddress - Destination address
- * @param amountSatoshis - Amount to send
+ * @param recipients - Payment outputs
  * @param fromAddress - Change address
- * @param network - Bitcoin network
+ * @param networkName - Network every address must belong to
  * @param feeRate - Fee rate in satoshis per byte
+ * @param options - Public key, account key or multisig wallet, and funding transaction source
  * @returns Unsigned PSBT with change output
  */
 export async function createPSBTWithChange(
   inputs: UTXO[],
-  toAddress: string,
-  amountSatoshis: number,
+  recipients: Recipient[],
   fromAddress: string,
-  network: bitcoin.Network = bitcoin.networks.testnet,
-  feeRate: number = 5
+  networkName: ChainNetwork,
+  feeRate: number = 5,
+  options: InputSigningOptions = {}
 ): Promise<PSBTResult> {
+  const amountSatoshis = recipients.reduce((sum, r) => sum + r.value, 0);
   console.log('createPSBTWithChange called with:', {
     inputCount: inputs.length,
-    toAddress,
+    recipientCount: recipients.length,
     amountSatoshis,
     fromAddress,
     feeRate,
   });
 
   const totalInputValue = inputs.reduce((sum, input) => sum + input.value, 0);
+  const network = getBitcoinNetwork(networkName);
+  const dustLimit = getDustLimit(networkName);
+  recipients.forEach((r, index) =>
+    assertAddressNetwork(r.address, networkName, `Recipient ${index + 1}`)
+  );
 
-  // Calculate outputs
-  const outputs: TransactionOutput[] = [
-    {
-      address: toAddress,
-      value: amountSatoshis,
-    },
-  ];
-
-  // Calculate initial fee estimate with 2 outputs (recipient + change)
-  let feeSatoshis = calculateEstimatedFee(inputs.length, 2, feeRate);
-  let changeAmount = totalInputValue - amountSatoshis - feeSatoshis;
-
-  // If change is below dust limit, add it to fee and recalculate
-  if (changeAmount > 0 && changeAmount <= 546) {
-    feeSatoshis += changeAmount;
-    changeAmount = 0;
+  // Calculate initial fee estimate with the recipients and change
+  const scriptType = getInputWeightSpec(
+    assertAddressNetwork(fromAddress, networkName, 'From address'),
+    fromAddress,
+    options
+  );
+  const inputTypes = inputs.map(() => scriptType);
+  const recipientScriptLengths = recipients.map((r) =>
+    outputScriptLength(r.address, network)
+  );
+  let feeSatoshis = calculateEstimatedFee(
+    inputTypes,
+    [...recipientScriptLengths, outputScriptLength(fromAddress, network)],
+    feeRate
+  );
+
+  let outputs: TransactionOutput[];
+  let changeAmount: number;
+  if (recipients.some((r) => r.subtractFee)) {
+    // Inputs only cover the amounts; the flagged recipients pay the fee
+    changeAmount = totalInputValue - amountSatoshis;
+    if (changeAmount < 0) {
+      throw new Error(
+        `Insufficient funds: Need ${amountSatoshis} satoshis, have ${totalInputValue}`
+      );
+    }
+    let feeFromOutputs = feeSatoshis;
+    if (changeAmount <= dustLimit) {
+      // Dust change goes to the fee, easing what recipients pay
+      feeSatoshis = calculateEstimatedFee(
+        inputTypes,
+        recipientScriptLengths,
+        feeRate
+      );
+      feeFromOutputs = Math.max(feeSatoshis - changeAmount, 0);
+      changeAmount = 0;
+    }
+    outputs = subtractFeeFromRecipients(recipients, feeFromOutputs, dustLimit);
+  } else {
+    outputs = [...recipients];
+    changeAmount = totalInputValue - amountSatoshis - feeSatoshis;
+    if (changeAmount < 0) {
+      throw new Error(
+        `Insufficient funds: Need ${
+          amountSatoshis + feeSatoshis
+        } satoshis including fees, have ${totalInputValue}`
+      );
+    }
+
+    // If change is below dust limit, add it to fee and recalculate
+    if (changeAmount > 0 && changeAmount <= dustLimit) {
+      feeSatoshis += changeAmount;
+      changeAmount = 0;
+    }
   }
 
   // Add change output if it's above dust limit
-  if (changeAmount > 546) {
-    outputs.push({
-      address: fromAddress,
-      value: changeAmount,
-    });
+  let changeIndex: number | undefined;
+  if (changeAmount > dustLimit) {
+    changeIndex =
+      outputs.push({
+        address: fromAddress,
+        value: changeAmount,
+      }) - 1;
   }
 
   console.log('PSBT calculation results:', {
@@ -287,26 +814,176 @@ export async function createPSBTWithChange(
     inputs,
     outputs,
     fromAddress,
-    network
+    networkName,
+    options,
+    changeIndex
   );
   console.log('PSBT creation completed successfully');
   return result;
 }
 
+/**
+ * Take a fee out of the recipients that pay it. As in Bitcoin Core, the fee
+ * is split evenly and the first paying recipient also takes the remainder.
+ * @param recipients - Payment outputs, some flagged with subtractFee
+ * @param feeSatoshis - Fee to take from them
+ * @param dustLimit - Smallest value a recipient may be left with
+ * @returns Recipients with their reduced values
+ */
+export function subtractFeeFromRecipients(
+  recipients: Recipient[],
+  feeSatoshis: number,
+  dustLimit: number = 546
+): Recipient[] {
+  const payers = recipients.filter((r) => r.subtractFee).length;
+  if (feeSatoshis > 0 && payers === 0) {
+    throw new Error('No recipient is set to pay the fee');
+  }
+
+  const share = payers > 0 ? Math.floor(feeSatoshis / payers) : 0;
+  let remainder = feeSatoshis - share * payers;
+  return recipients.map((recipient, index) => {
+    if (!recipient.subtractFee) return { ...recipient };
+    const value = recipient.value - share - remainder;
+    remainder = 0;
+    if (value <= dustLimit) {
+      throw new Error(
+        `Recipient ${index + 1} (${recipient.label || recipient.address}) is too small to pay its share of the fee`
+      );
+    }
+    return { ...recipient, value };
+  });
+}
+
+/**
+ * Create a child PSBT that spends our change output of a stuck transaction
+ * and pays enough fee for the parent and child together to reach the
+ * target fee rate (child pays for parent)
+ * @param parentTxid - Unconfirmed parent transaction ID
+ * @param changeAddress - Our address receiving the parent's change
+ * @param networkName - Network of the parent transaction
+ * @param targetFeeRate - Package fee rate in sat/vB, or a current network rate
+ * @param options - Public key, account key or multisig wallet, and funding transaction source
+ * @param toAddress - Where the child sends the funds, default changeAddress
+ * @returns Unsigned child PSBT with the package fees
+ */
+export async function createCPFPChildPSBT(
+  parentTxid: string,
+  changeAddress: string,
+  networkName: ChainNetwork,
+  targetFeeRate: number | keyof CurrentFeeRates = 'halfHour',
+  options: InputSigningOptions = {},
+  toAddress: string = changeAddress
+): Promise<CPFPResult> {
+  console.log('createCPFPChildPSBT called with:', {
+    parentTxid,
+    changeAddress,
+    targetFeeRate,
+  });
+
+  const network = getBitcoinNetwork(networkName);
+  assertAddressNetwork(toAddress, networkName, 'Destination');
+  const { status: parent } = await getTransactionStatus(
+    parentTxid,
+    networkName
+  );
+  if (!parent || parent.weight === undefined || parent.fee === undefined) {
+    throw new Error(`Could not load parent transaction ${parentTxid}`);
+  }
+  if (parent.status?.confirmed) {
+    throw new Error(`Transaction ${parentTxid} is already confirmed`);
+  }
+
+  // Spend our largest output of the parent
+  const script = assertAddressNetwork(
+    changeAddress,
+    networkName,
+    'Change address'
+  );
+  const scriptHex = script.toString('hex');
+  const change = (parent.vout ?? [])
+    .map((output, vout) => ({ ...output, vout }))
+    .filter((output) => output.scriptpubkey === scriptHex)
+    .sort((a, b) => b.value - a.value)[0];
+  if (!change) {
+    throw new Error(
+      `Transaction ${parentTxid} has no output to ${changeAddress}`
+    );
+  }
+
+  const rate =
+    typeof targetFeeRate === 'number'
+      ? targetFeeRate
+      : (await getCurrentFeeRates(networkName))[targetFeeRate];
+  const parentVsize = Math.ceil(parent.weight / 4);
+  const parentFee = parent.fee;
+  if (parentFee / parentVsize >= rate) {
+    throw new Error(
+      `Transaction ${parentTxid} already pays ${(
+        parentFee / parentVsize
+      ).toFixed(2)} sat/vB`
+    );
+  }
+
+  // One input, one output; the child also pays at least the minimum relay
+  // fee for its own size
+  const scriptType = getInputWeightSpec(script, changeAddress, options);
+  const childVsize = estimateVsize(
+    [scriptType],
+    [outputScriptLength(toAddress, network)]
+  );
+  const childFee = Math.max(
+    Math.ceil(rate * (parentVsize + childVsize)) - parentFee,
+    childVsize
+  );
+  const childValue = change.value - childFee;
+  if (childValue <= getDustLimit(networkName)) {
+    throw new Error(
+      `Change output of ${change.value} satoshis cannot pay the ${childFee} satoshi child fee`
+    );
+  }
+
+  const utxo: UTXO = {
+    txid: parentTxid,
+    vout: change.vout,
+    value: change.value,
+    address: changeAddress,
+    status: { confirmed: false },
+  };
+  const result = await createUnsignedPSBT(
+    [utxo],
+    [{ address: toAddress, value: childValue }],
+    changeAddress,
+    networkName,
+    options
+  );
+
+  return {
+    ...result,
+    parentOutput: utxo,
+    parentTxid,
+    parentFee,
+    parentVsize,
+    childFee,
+    childVsize,
+    targetFeeRate: rate,
+    packageFeeRate: (parentFee + childFee) / (parentVsize + childVsize),
+  };
+}
+
 /**
  * Calculate estimated fee for transaction
- * @param inputCount - Number of inputs
- * @param outputCount - Number of outputs
- * @param feeRate - Fee rate in satoshis per byte
+ * @param inputTypes - Script type of each input
+ * @param outputScriptLengths - Script length of each output
+ * @param feeRate - Fee rate in satoshis per vbyte
  * @returns Estimated fee in satoshis
  */
 function calculateEstimatedFee(
-  inputCount: number,
-  outputCount: number,
+  inputTypes: InputWeightSpec[],
+  outputScriptLengths: number[],
   feeRate: number = 5
 ): number {
-  const transactionSize = calculateTransactionSize(inputCount, outputCount);
-  return transactionSize * feeRate;
+  return Math.ceil(estimateVsize(inputTypes, outputScriptLengths) * feeRate);
 }
 
 /**
@@ -359,11 +1036,15 @@ export function getPSBTDetails(psbtBase64: string): {
   let totalOutputValue = 0;
 
   // Calculate total input value
-  for (const input of psbt.data.inputs) {
+  psbt.data.inputs.forEach((input, index) => {
     if (input.witnessUtxo) {
       totalInputValue += input.witnessUtxo.value;
+    } else if (input.nonWitnessUtxo) {
+      const vout = psbt.txInputs[index].index;
+      totalInputValue += bitcoin.Transaction.fromBuffer(input.nonWitnessUtxo)
+        .outs[vout].value;
     }
-  }
+  });
 
   // Calculate total output value
   for (const output of psbt.data.outputs) {
@@ -1,18 +1,40 @@
+import { UR, UREncoder } from '@ngraveio/bc-ur';
 import { SignatureData } from './broadcast';
 
+// Bytes of PSBT carried per animated frame. Frames stay small enough for
+// phone cameras to read at a glance; larger PSBTs just get more frames.
+export const UR_MAX_FRAGMENT_LENGTH = 200;
+
+// Delay between animated frames in milliseconds
+export const UR_FRAME_INTERVAL_MS = 250;
+
 /**
- * Generate PSBT QR code data
+ * Wrap a PSBT as a Blockchain Commons `crypto-psbt` UR
  * @param psbt - Base64 encoded PSBT
- * @returns QR code data string
+ * @returns UR holding the CBOR-encoded PSBT bytes
+ */
+export function encodePSBTAsUR(psbt: string): UR {
+  const bytes = Buffer.from(psbt.replace(/\s/g, ''), 'base64');
+  return new UR(UR.fromBuffer(bytes).cbor, 'crypto-psbt');
+}
+
+/**
+ * Create a fountain encoder for an animated PSBT QR code
+ * @param psbt - Base64 encoded PSBT
+ * @param maxFragmentLength - Maximum PSBT bytes per frame
+ * @returns Encoder whose `nextPart()` yields an endless frame sequence;
+ * `fragmentsLength` is 1 when the PSBT fits in a single frame
  */
-export function generatePSBTQR(psbt: string): string {
-  // Simple format - just the PSBT string
-  // This can be scanned by the signature app
-  return psbt;
+export function createPSBTQREncoder(
+  psbt: string,
+  maxFragmentLength = UR_MAX_FRAGMENT_LENGTH
+): UREncoder {
+  return new UREncoder(encodePSBTAsUR(psbt), maxFragmentLength);
 }
 
 /**
- * Parse signature QR code data
+ * Parse legacy signature QR code data (signature JSON from older signers;
+ * current signers return a signed PSBT instead)
  * @param qrData - QR code data string
  * @returns Parsed signature data
  */
@@ -42,7 +64,11 @@ export function parseSignatureQR(qrData: string): SignatureData[] {
         console.log(`parseSignatureQR - Validating signature ${i}:`, signature);
 
         // Validate required fields
-        if (!signature.publicKey || !signature.signature) {
+        if (
+          typeof signature.inputIndex !== 'number' ||
+          !signature.publicKey ||
+          !signature.signature
+        ) {
           console.log(
             `parseSignatureQR - Signature ${i} missing required fields`
           );
@@ -50,7 +76,7 @@ export function parseSignatureQR(qrData: string): SignatureData[] {
         }
 
         const validatedSignature: SignatureData = {
-          inputIndex: signature.inputIndex || i,
+          inputIndex: signature.inputIndex,
           publicKey: signature.publicKey,
           signature: signature.signature,
           address: signature.address,
@@ -75,13 +101,17 @@ export function parseSignatureQR(qrData: string): SignatureData[] {
     console.log('parseSignatureQR - publicKey exists:', !!data.publicKey);
     console.log('parseSignatureQR - signature exists:', !!data.signature);
 
-    if (!data.publicKey || !data.signature) {
+    if (
+      typeof data.inputIndex !== 'number' ||
+      !data.publicKey ||
+      !data.signature
+    ) {
       console.log('parseSignatureQR - Missing required fields');
       throw new Error('Missing required signature fields');
     }
 
     const result = {
-      inputIndex: data.inputIndex || 0,
+      inputIndex: data.inputIndex,
       publicKey: data.publicKey,
       signature: data.signature,
       address: data.address,
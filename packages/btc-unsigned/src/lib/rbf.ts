@@ -0,0 +1,289 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { UTXO } from '../types/bitcoin';
+import { getTransactionStatus } from './broadcast';
+import { AccountKey } from './key-origin';
+import { MultisigWallet } from './multisig';
+import {
+  ChainNetwork,
+  assertAddressNetwork,
+  getBitcoinNetwork,
+  getDustLimit,
+} from './networks';
+import {
+  RBF_SEQUENCE,
+  TransactionOutput,
+  createUnsignedPSBT,
+  fetchTransactionHex,
+  getInputWeightSpec,
+} from './psbt-generator';
+import { UnsignedTransaction } from './transaction-creator';
+import { estimateVsize } from './tx-weight';
+
+/**
+ * Replace-by-Fee Service
+ *
+ * Builds an unsigned BIP125 replacement for a transaction stuck in the
+ * mempool. The replacement spends the same inputs and pays the same
+ * recipients; the higher fee comes out of the change output, and confirmed
+ * UTXOs are added when the change is not enough.
+ */
+
+// Bitcoin Core's default incremental relay fee: a replacement must pay for
+// its own size at this rate on top of the fee it replaces
+export const INCREMENTAL_RELAY_FEE_RATE = 1; // sat/vB
+
+export interface FeeBumpRequest {
+  transaction: string; // Txid or raw hex of the transaction to replace
+  fromAddress: string; // Address holding its inputs; change returns here
+  feeRate: number; // Replacement fee rate in sat/vB
+  network: ChainNetwork;
+  publicKey?: string; // Hex; required for P2SH-P2WPKH and P2TR addresses
+  accountKey?: AccountKey; // Adds BIP32 derivations and a global xpub
+  multisig?: MultisigWallet; // Cosigner xpubs when fromAddress is multisig
+  fetchTransactionHex?: (txid: string) => Promise<string>;
+}
+
+/**
+ * Fees of the stuck transaction and of what replaces or accelerates it.
+ * For CPFP the new figures cover the parent and child together.
+ */
+export interface FeeBumpSummary {
+  method: 'rbf' | 'cpfp';
+  originalTxid: string;
+  originalFee: number;
+  originalVsize: number;
+  originalFeeRate: number; // sat/vB
+  newFee: number;
+  newVsize: number; // Estimated until signed
+  newFeeRate: number; // sat/vB
+  addedInputs: number;
+}
+
+/**
+ * Check whether a transaction signals BIP125 replaceability
+ * @param tx - Transaction
+ * @returns True when any input has nSequence below 0xfffffffe
+ */
+export function signalsRBF(tx: bitcoin.Transaction): boolean {
+  return tx.ins.some((input) => input.sequence <= RBF_SEQUENCE);
+}
+
+/**
+ * Load the transaction to replace
+ * @param transaction - Txid or raw transaction hex
+ * @param fetchHex - Raw transaction source for txids
+ * @returns Parsed transaction
+ */
+export async function loadTransaction(
+  transaction: string,
+  fetchHex: (txid: string) => Promise<string>
+): Promise<bitcoin.Transaction> {
+  const trimmed = transaction.trim();
+  if (!/^[0-9a-fA-F]+$/.test(trimmed) || trimmed.length % 2 !== 0) {
+    throw new Error('Enter a transaction ID or raw transaction hex');
+  }
+  if (trimmed.length === 64) {
+    const tx = bitcoin.Transaction.fromHex((await fetchHex(trimmed)).trim());
+    if (tx.getId() !== trimmed.toLowerCase()) {
+      throw new Error(`Fetched transaction does not match ${trimmed}`);
+    }
+    return tx;
+  }
+  try {
+    return bitcoin.Transaction.fromHex(trimmed);
+  } catch {
+    throw new Error('Invalid raw transaction hex');
+  }
+}
+
+/**
+ * Build an unsigned replacement of a transaction at a higher fee rate.
+ * Fees of unconfirmed descendants are not known here; if the original has
+ * any, BIP125 requires the replacement to pay for them too.
+ * @param request - Transaction to replace and the new fee rate
+ * @param utxos - Wallet UTXOs that may be added as inputs
+ * @returns Unsigned replacement with the before/after fees
+ */
+export async function createFeeBumpTransaction(
+  request: FeeBumpRequest,
+  utxos: UTXO[]
+): Promise<UnsignedTransaction> {
+  const { fromAddress, feeRate, publicKey, accountKey, multisig } = request;
+  const network = getBitcoinNetwork(request.network);
+  const fetchHex =
+    request.fetchTransactionHex ??
+    ((txid: string) => fetchTransactionHex(txid, request.network));
+
+  if (!(feeRate > 0)) {
+    throw new Error('Invalid fee rate');
+  }
+
+  const original = await loadTransaction(request.transaction, fetchHex);
+  const originalTxid = original.getId();
+  if (!signalsRBF(original)) {
+    throw new Error(
+      `Transaction ${originalTxid} does not signal replace-by-fee (BIP125)`
+    );
+  }
+  const { status } = await getTransactionStatus(originalTxid, request.network);
+  if (status?.status?.confirmed) {
+    throw new Error(`Transaction ${originalTxid} is already confirmed`);
+  }
+
+  const fromScript = assertAddressNetwork(
+    fromAddress,
+    request.network,
+    'From address'
+  );
+  const scriptType = getInputWeightSpec(fromScript, fromAddress, request);
+
+  // Rebuild the spent outputs from their funding transactions
+  const fundingTransactions = new Map<string, Promise<bitcoin.Transaction>>();
+  const originalInputs: UTXO[] = [];
+  for (const [index, input] of original.ins.entries()) {
+    const txid = Buffer.from(input.hash).reverse().toString('hex');
+    let funding = fundingTransactions.get(txid);
+    if (!funding) {
+      funding = loadTransaction(txid, fetchHex);
+      fundingTransactions.set(txid, funding);
+    }
+    const prevout = (await funding).outs[input.index];
+    if (!prevout || !prevout.script.equals(fromScript)) {
+      throw new Error(
+        `Input ${index} (${txid}:${input.index}) is not from ${fromAddress}`
+      );
+    }
+    originalInputs.push({
+      txid,
+      vout: input.index,
+      value: prevout.value,
+      address: fromAddress,
+      // Already spent by the original; only added inputs must be confirmed
+      status: { confirmed: true },
+    });
+  }
+
+  // Recipients are paid exactly as before; change is recomputed
+  const recipients: TransactionOutput[] = [];
+  original.outs.forEach((output, index) => {
+    if (output.script.equals(fromScript)) return;
+    try {
+      recipients.push({
+        address: bitcoin.address.fromOutputScript(output.script, network),
+        value: output.value,
+      });
+    } catch {
+      throw new Error(`Output ${index} has no address and cannot be replaced`);
+    }
+  });
+  const recipientTotal = recipients.reduce((sum, o) => sum + o.value, 0);
+  const recipientScriptLengths = recipients.map(
+    (output) => bitcoin.address.toOutputScript(output.address, network).length
+  );
+
+  const originalInputTotal = originalInputs.reduce((s, u) => s + u.value, 0);
+  const originalFee =
+    originalInputTotal - original.outs.reduce((sum, o) => sum + o.value, 0);
+  const originalVsize = original.virtualSize();
+  const originalFeeRate = originalFee / originalVsize;
+  if (feeRate <= originalFeeRate) {
+    throw new Error(
+      `New fee rate must be above the original ${originalFeeRate.toFixed(
+        2
+      )} sat/vB`
+    );
+  }
+
+  // BIP125: pay the new rate, and more than the original by the
+  // incremental relay fee for the replacement's own size
+  const requiredFee = (vsize: number) =>
+    Math.max(
+      Math.ceil(vsize * feeRate),
+      originalFee + Math.ceil(vsize * INCREMENTAL_RELAY_FEE_RATE)
+    );
+
+  // New inputs must be confirmed (BIP125 rule 2) and must not be the
+  // original's own outputs
+  const spent = new Set(originalInputs.map((u) => `${u.txid}:${u.vout}`));
+  const extras = utxos
+    .filter(
+      (utxo) =>
+        utxo.status.confirmed &&
+        utxo.txid !== originalTxid &&
+        !spent.has(`${utxo.txid}:${utxo.vout}`)
+    )
+    .sort((a, b) => b.value - a.value);
+
+  // Change below the network's dust limit goes to the fee
+  const dustLimit = getDustLimit(request.network);
+  let selection: { inputs: UTXO[]; outputs: TransactionOutput[] } | null = null;
+  for (let added = 0; added <= extras.length && !selection; added++) {
+    const inputs = [...originalInputs, ...extras.slice(0, added)];
+    const inputTotal = inputs.reduce((sum, utxo) => sum + utxo.value, 0);
+    const inputTypes = inputs.map(() => scriptType);
+
+    // Shrink the change output
+    const vsize = estimateVsize(inputTypes, [
+      ...recipientScriptLengths,
+      fromScript.length,
+    ]);
+    const changeAmount = inputTotal - recipientTotal - requiredFee(vsize);
+    if (changeAmount >= dustLimit) {
+      selection = {
+        inputs,
+        outputs: [...recipients, { address: fromAddress, value: changeAmount }],
+      };
+    } else if (
+      // Or drop it, giving the excess to the fee
+      recipients.length > 0 &&
+      inputTotal - recipientTotal >=
+        requiredFee(estimateVsize(inputTypes, recipientScriptLengths))
+    ) {
+      selection = { inputs, outputs: recipients };
+    }
+  }
+  if (!selection) {
+    throw new Error(
+      `Insufficient funds: not enough confirmed UTXOs to pay ${feeRate} sat/vB`
+    );
+  }
+
+  const { inputs, outputs } = selection;
+  // The change output, when kept, follows the recipients
+  const psbtResult = await createUnsignedPSBT(
+    inputs,
+    outputs,
+    fromAddress,
+    request.network,
+    { publicKey, accountKey, multisig, fetchTransactionHex: fetchHex },
+    outputs.length > recipients.length ? recipients.length : undefined
+  );
+  const { changeAmount } = psbtResult;
+
+  return {
+    psbt: psbtResult.psbt,
+    estimatedFee: psbtResult.feeSatoshis,
+    changeAmount,
+    recipientAmount: recipientTotal,
+    utxosUsed: inputs,
+    transactionSize: psbtResult.transactionSize,
+    feeRate: `${feeRate} sat/vB`,
+    totalInputs: psbtResult.inputCount,
+    totalOutputs: psbtResult.outputCount,
+    totalInputValue: psbtResult.totalInputValue,
+    totalOutputValue: psbtResult.totalOutputValue,
+    network: request.network,
+    timestamp: Date.now(),
+    feeBump: {
+      method: 'rbf',
+      originalTxid,
+      originalFee,
+      originalVsize,
+      originalFeeRate,
+      newFee: psbtResult.feeSatoshis,
+      newVsize: psbtResult.transactionSize,
+      newFeeRate: psbtResult.feeSatoshis / psbtResult.transactionSize,
+      addedInputs: inputs.length - originalInputs.length,
+    },
+  };
+}
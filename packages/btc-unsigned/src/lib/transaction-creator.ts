@@ -1,12 +1,22 @@
-import * as bitcoin from 'bitcoinjs-lib';
 import { UTXO } from '../types/bitcoin';
-import { getFeeEstimate, FeeEstimate } from './fee-estimator';
+import { getFeeEstimate, FeeEstimate, CurrentFeeRates } from './fee-estimator';
+import { validateUTXOs, getUTXOBalance } from './utxo-selector';
 import {
-  selectUTXOsWithFeeOptimization,
-  validateUTXOs,
-  getUTXOBalance,
-} from './utxo-selector';
-import { createPSBTWithChange } from './psbt-generator';
+  createCPFPChildPSBT,
+  createUnsignedPSBT,
+  getInputWeightSpec,
+  Recipient,
+  subtractFeeFromRecipients,
+} from './psbt-generator';
+import {
+  selectCoins,
+  CoinSelectionComparison,
+  CoinSelectionOptions,
+} from './coin-selection';
+import { AccountKey } from './key-origin';
+import { MultisigWallet } from './multisig';
+import { ChainNetwork, assertAddressNetwork, getDustLimit } from './networks';
+import type { FeeBumpSummary } from './rbf';
 
 /**
  * Main Transaction Creator Service
@@ -19,7 +29,8 @@ export interface UnsignedTransaction {
   psbt: string; // Base64 encoded PSBT
   estimatedFee: number;
   changeAmount: number;
-  recipientAmount: number; // Amount sent to recipient (excluding change)
+  recipientAmount: number; // Amount sent to recipients (excluding change)
+  recipients?: Recipient[]; // Payment outputs after any fee subtraction
   utxosUsed: UTXO[];
   transactionSize: number;
   feeRate: string;
@@ -27,16 +38,47 @@ export interface UnsignedTransaction {
   totalOutputs: number;
   totalInputValue: number;
   totalOutputValue: number;
-  network: string;
+  network: ChainNetwork;
   timestamp: number;
+  coinSelection?: CoinSelectionSummary;
+  feeBump?: FeeBumpSummary; // Set when this replaces a stuck transaction
+}
+
+/**
+ * How the inputs were chosen, with the other strategies for comparison
+ */
+export interface CoinSelectionSummary {
+  strategy: string;
+  candidates: Array<{
+    strategy: string;
+    inputCount: number;
+    feeSatoshis: number;
+    changeAmount: number;
+    vsize: number;
+    waste: number;
+  }>;
+  failures: CoinSelectionComparison['failures'];
 }
 
 export interface TransactionRequest {
   fromAddress: string;
-  toAddress: string;
-  amountSatoshis: number;
+  recipients: Recipient[]; // One or more payment outputs
   feeRate?: 'slow' | 'normal' | 'fast' | 'priority';
-  network?: 'testnet' | 'mainnet';
+  network: ChainNetwork; // Every address must belong to it
+  publicKey?: string; // Hex; required for P2SH-P2WPKH and P2TR addresses
+  accountKey?: AccountKey; // Adds BIP32 derivations and a global xpub
+  multisig?: MultisigWallet; // Cosigner xpubs when the address is multisig
+}
+
+export interface CPFPRequest {
+  parentTxid: string; // Unconfirmed transaction to accelerate
+  changeAddress: string; // Our address holding its change output
+  // Package fee rate in sat/vB, or a current network rate (default halfHour)
+  feeRate?: number | keyof CurrentFeeRates;
+  network: ChainNetwork;
+  publicKey?: string; // Hex; required for P2SH-P2WPKH and P2TR addresses
+  accountKey?: AccountKey; // Adds BIP32 derivations and a global xpub
+  multisig?: MultisigWallet; // Cosigner xpubs when the address is multisig
 }
 
 export interface TransactionError extends Error {
@@ -54,18 +96,14 @@ export async function createUnsignedTransaction(
   utxos: UTXO[]
 ): Promise<UnsignedTransaction> {
   try {
-    const {
-      fromAddress,
-      toAddress,
-      amountSatoshis,
-      feeRate = 'normal',
-      network = 'testnet',
-    } = request;
+    const { fromAddress, feeRate = 'normal', network } = request;
+    const amountSatoshis = getRecipientTotal(request.recipients);
 
     // Validate inputs
-    if (!fromAddress || !toAddress || amountSatoshis <= 0) {
+    if (!fromAddress || !hasValidRecipients(request.recipients)) {
       throw createError('Invalid transaction parameters', 'INVALID_PARAMS');
     }
+    checkRequestNetwork(request);
 
     // Validate UTXOs
     const validation = validateUTXOs(utxos, amountSatoshis);
@@ -74,47 +112,17 @@ export async function createUnsignedTransaction(
     }
 
     // Get current fee rates
-    const feeRates = await getFeeEstimate();
+    const feeRates = await getFeeEstimate(network);
     const currentFeeRate = feeRates[feeRate];
 
-    // Select optimal UTXOs
-    const utxoSelection = selectUTXOsWithFeeOptimization(
+    // Select UTXOs and build the PSBT
+    const unsignedTransaction = await buildUnsignedTransaction(
+      request,
       utxos,
-      amountSatoshis,
-      currentFeeRate
-    );
-
-    // Create PSBT
-    const bitcoinNetwork =
-      network === 'testnet'
-        ? bitcoin.networks.testnet
-        : bitcoin.networks.bitcoin;
-    const psbtResult = await createPSBTWithChange(
-      utxoSelection.selectedUTXOs,
-      toAddress,
-      amountSatoshis,
-      fromAddress,
-      bitcoinNetwork,
-      currentFeeRate
+      currentFeeRate,
+      feeRate
     );
 
-    // Create unsigned transaction result
-    const unsignedTransaction: UnsignedTransaction = {
-      psbt: psbtResult.psbt,
-      estimatedFee: psbtResult.feeSatoshis,
-      changeAmount: psbtResult.changeAmount,
-      recipientAmount: amountSatoshis,
-      utxosUsed: utxoSelection.selectedUTXOs,
-      transactionSize: psbtResult.transactionSize,
-      feeRate,
-      totalInputs: psbtResult.inputCount,
-      totalOutputs: psbtResult.outputCount,
-      totalInputValue: psbtResult.totalInputValue,
-      totalOutputValue: psbtResult.totalOutputValue,
-      network,
-      timestamp: Date.now(),
-    };
-
     return unsignedTransaction;
   } catch (error) {
     if (error instanceof Error && 'code' in error) {
@@ -142,17 +150,14 @@ export async function createUnsignedTransactionWithCustomFee(
   customFeeRate: number
 ): Promise<UnsignedTransaction> {
   try {
-    const {
-      fromAddress,
-      toAddress,
-      amountSatoshis,
-      network = 'testnet',
-    } = request;
+    const { fromAddress } = request;
+    const amountSatoshis = getRecipientTotal(request.recipients);
 
     // Validate inputs
-    if (!fromAddress || !toAddress || amountSatoshis <= 0) {
+    if (!fromAddress || !hasValidRecipients(request.recipients)) {
       throw createError('Invalid transaction parameters', 'INVALID_PARAMS');
     }
+    checkRequestNetwork(request);
 
     if (customFeeRate <= 0) {
       throw createError('Invalid fee rate', 'INVALID_FEE_RATE');
@@ -164,44 +169,14 @@ export async function createUnsignedTransactionWithCustomFee(
       throw createError(validation.message, 'INSUFFICIENT_FUNDS');
     }
 
-    // Select optimal UTXOs with custom fee rate
-    const utxoSelection = selectUTXOsWithFeeOptimization(
+    // Select UTXOs with custom fee rate and build the PSBT
+    const unsignedTransaction = await buildUnsignedTransaction(
+      request,
       utxos,
-      amountSatoshis,
-      customFeeRate
-    );
-
-    // Create PSBT
-    const bitcoinNetwork =
-      network === 'testnet'
-        ? bitcoin.networks.testnet
-        : bitcoin.networks.bitcoin;
-    const psbtResult = await createPSBTWithChange(
-      utxoSelection.selectedUTXOs,
-      toAddress,
-      amountSatoshis,
-      fromAddress,
-      bitcoinNetwork,
-      customFeeRate
+      customFeeRate,
+      'custom'
     );
 
-    // Create unsigned transaction result
-    const unsignedTransaction: UnsignedTransaction = {
-      psbt: psbtResult.psbt,
-      estimatedFee: psbtResult.feeSatoshis,
-      changeAmount: psbtResult.changeAmount,
-      recipientAmount: amountSatoshis,
-      utxosUsed: utxoSelection.selectedUTXOs,
-      transactionSize: psbtResult.transactionSize,
-      feeRate: 'custom',
-      totalInputs: psbtResult.inputCount,
-      totalOutputs: psbtResult.outputCount,
-      totalInputValue: psbtResult.totalInputValue,
-      totalOutputValue: psbtResult.totalOutputValue,
-      network,
-      timestamp: Date.now(),
-    };
-
     return unsignedTransaction;
   } catch (error) {
     if (error instanceof Error && 'code' in error) {
@@ -216,6 +191,66 @@ export async function createUnsignedTransactionWithCustomFee(
   }
 }
 
+/**
+ * Create a child-pays-for-parent transaction spending a stuck
+ * transaction's change output
+ * @param request - Parent transaction, change address and target fee rate
+ * @returns Unsigned child transaction with the package fees
+ */
+export async function createCPFPTransaction(
+  request: CPFPRequest
+): Promise<UnsignedTransaction> {
+  try {
+    const { network, feeRate = 'halfHour' } = request;
+
+    const child = await createCPFPChildPSBT(
+      request.parentTxid,
+      request.changeAddress,
+      network,
+      feeRate,
+      {
+        publicKey: request.publicKey,
+        accountKey: request.accountKey,
+        multisig: request.multisig,
+      }
+    );
+
+    return {
+      psbt: child.psbt,
+      estimatedFee: child.childFee,
+      changeAmount: child.totalOutputValue,
+      recipientAmount: 0,
+      utxosUsed: [child.parentOutput],
+      transactionSize: child.childVsize,
+      feeRate: `${child.targetFeeRate} sat/vB`,
+      totalInputs: child.inputCount,
+      totalOutputs: child.outputCount,
+      totalInputValue: child.totalInputValue,
+      totalOutputValue: child.totalOutputValue,
+      network,
+      timestamp: Date.now(),
+      feeBump: {
+        method: 'cpfp',
+        originalTxid: child.parentTxid,
+        originalFee: child.parentFee,
+        originalVsize: child.parentVsize,
+        originalFeeRate: child.parentFee / child.parentVsize,
+        newFee: child.parentFee + child.childFee,
+        newVsize: child.parentVsize + child.childVsize,
+        newFeeRate: child.packageFeeRate,
+        addedInputs: 0,
+      },
+    };
+  } catch (error) {
+    throw createError(
+      `Failed to create CPFP transaction: ${
+        error instanceof Error ? error.message : 'Unknown error'
+      }`,
+      'CPFP_CREATION_FAILED'
+    );
+  }
+}
+
 /**
  * Estimate transaction fee without creating PSBT
  * @param request - Transaction request parameters
@@ -234,24 +269,26 @@ export async function estimateTransactionFee(
   feeRate: number;
 }> {
   try {
-    const { amountSatoshis, feeRate = 'normal' } = request;
+    const { feeRate = 'normal', network } = request;
+    const amountSatoshis = getRecipientTotal(request.recipients);
 
     // Use provided fee rates or fetch if not provided
-    const currentFeeRates = feeRates || (await getFeeEstimate());
+    const currentFeeRates = feeRates || (await getFeeEstimate(network));
     const currentFeeRate = currentFeeRates[feeRate];
 
     // Select optimal UTXOs
-    const utxoSelection = selectUTXOsWithFeeOptimization(
+    const { best } = selectCoins(
       utxos,
       amountSatoshis,
-      currentFeeRate
+      currentFeeRate,
+      getCoinSelectionOptions(request)
     );
 
     return {
-      estimatedFee: utxoSelection.feeSatoshis,
-      changeAmount: utxoSelection.changeAmount,
-      utxosUsed: utxoSelection.selectedUTXOs,
-      transactionSize: utxoSelection.inputCount * 71 + 2 * 31 + 10, // P2WPKH virtual size calculation (witness discount applied)
+      estimatedFee: best.feeSatoshis,
+      changeAmount: best.changeAmount,
+      utxosUsed: best.selectedUTXOs,
+      transactionSize: best.vsize,
       feeRate: currentFeeRate,
     };
   } catch (error) {
@@ -266,10 +303,13 @@ export async function estimateTransactionFee(
 
 /**
  * Get current fee rates
+ * @param network - Network to get rates for
  * @returns Current network fee rates
  */
-export async function getCurrentFeeRates(): Promise<FeeEstimate> {
-  return await getFeeEstimate();
+export async function getCurrentFeeRates(
+  network: ChainNetwork
+): Promise<FeeEstimate> {
+  return await getFeeEstimate(network);
 }
 
 /**
@@ -288,7 +328,7 @@ export function validateTransactionRequest(
   requiredAmount: number;
 } {
   try {
-    const { amountSatoshis } = request;
+    const amountSatoshis = getRecipientTotal(request.recipients);
     const balance = getUTXOBalance(utxos);
     const validation = validateUTXOs(utxos, amountSatoshis);
 
@@ -310,6 +350,166 @@ export function validateTransactionRequest(
   }
 }
 
+/**
+ * Select coins and build the PSBT for a request
+ * @param request - Transaction request parameters
+ * @param utxos - Available UTXOs
+ * @param feeRate - Fee rate in satoshis per vbyte
+ * @param feeRateLabel - Fee preset name, or 'custom'
+ * @returns Unsigned transaction details
+ */
+async function buildUnsignedTransaction(
+  request: TransactionRequest,
+  utxos: UTXO[],
+  feeRate: number,
+  feeRateLabel: string
+): Promise<UnsignedTransaction> {
+  const { fromAddress, publicKey, accountKey, multisig, network } = request;
+
+  const comparison = selectCoins(
+    utxos,
+    getRecipientTotal(request.recipients),
+    feeRate,
+    getCoinSelectionOptions(request)
+  );
+  const { best } = comparison;
+
+  // Recipients flagged to pay the fee share what the inputs do not cover
+  const recipients = subtractFeeFromRecipients(
+    request.recipients,
+    best.feeFromOutputs,
+    getDustLimit(network)
+  );
+
+  // Change goes back to the from address
+  const outputs = recipients.map(({ address, value }) => ({ address, value }));
+  let changeIndex: number | undefined;
+  if (best.changeAmount > 0) {
+    changeIndex =
+      outputs.push({ address: fromAddress, value: best.changeAmount }) - 1;
+  }
+
+  const psbtResult = await createUnsignedPSBT(
+    best.selectedUTXOs,
+    outputs,
+    fromAddress,
+    network,
+    { publicKey, accountKey, multisig },
+    changeIndex
+  );
+
+  return {
+    psbt: psbtResult.psbt,
+    estimatedFee: psbtResult.feeSatoshis,
+    changeAmount: best.changeAmount,
+    recipientAmount: getRecipientTotal(recipients),
+    recipients,
+    utxosUsed: best.selectedUTXOs,
+    transactionSize: best.vsize,
+    feeRate: feeRateLabel,
+    totalInputs: psbtResult.inputCount,
+    totalOutputs: psbtResult.outputCount,
+    totalInputValue: psbtResult.totalInputValue,
+    totalOutputValue: psbtResult.totalOutputValue,
+    network,
+    timestamp: Date.now(),
+    coinSelection: {
+      strategy: best.strategy,
+      candidates: comparison.candidates.map((candidate) => ({
+        strategy: candidate.strategy,
+        inputCount: candidate.inputCount,
+        feeSatoshis: candidate.feeSatoshis,
+        changeAmount: candidate.changeAmount,
+        vsize: candidate.vsize,
+        waste: candidate.waste,
+      })),
+      failures: comparison.failures,
+    },
+  };
+}
+
+/**
+ * Coin selection options for the script types of a request
+ * @param request - Transaction request parameters
+ * @returns Input, recipient and change script details
+ */
+function getCoinSelectionOptions(
+  request: TransactionRequest
+): CoinSelectionOptions {
+  const fromScript = assertAddressNetwork(
+    request.fromAddress,
+    request.network,
+    'From address'
+  );
+  return {
+    inputScriptType: getInputWeightSpec(
+      fromScript,
+      request.fromAddress,
+      request
+    ),
+    recipientScriptLengths: request.recipients.map(
+      (recipient, index) =>
+        assertAddressNetwork(
+          recipient.address,
+          request.network,
+          `Recipient ${index + 1}`
+        ).length
+    ),
+    changeScriptLength: fromScript.length,
+    dustLimit: getDustLimit(request.network),
+    subtractFeeFromOutputs: request.recipients.some((r) => r.subtractFee),
+  };
+}
+
+/**
+ * Total paid to the recipients of a request
+ * @param recipients - Payment outputs
+ * @returns Amount in satoshis
+ */
+function getRecipientTotal(recipients: Recipient[]): number {
+  return recipients.reduce((sum, recipient) => sum + recipient.value, 0);
+}
+
+/**
+ * Check that a request has recipients and each has an address and amount
+ * @param recipients - Payment outputs
+ * @returns True when every recipient can be paid
+ */
+function hasValidRecipients(recipients: Recipient[] | undefined): boolean {
+  return (
+    !!recipients &&
+    recipients.length > 0 &&
+    recipients.every(
+      (recipient) =>
+        !!recipient.address &&
+        Number.isInteger(recipient.value) &&
+        recipient.value > 0
+    )
+  );
+}
+
+/**
+ * Check that every address of a request belongs to its network
+ * @param request - Transaction request parameters
+ */
+function checkRequestNetwork(request: TransactionRequest): void {
+  try {
+    assertAddressNetwork(request.fromAddress, request.network, 'From address');
+    request.recipients.forEach((recipient, index) =>
+      assertAddressNetwork(
+        recipient.address,
+        request.network,
+        `Recipient ${index + 1}`
+      )
+    );
+  } catch (error) {
+    throw createError(
+      error instanceof Error ? error.message : 'Address network mismatch',
+      'NETWORK_MISMATCH'
+    );
+  }
+}
+
 /**
  * Create error with code
  * @param message - Error message
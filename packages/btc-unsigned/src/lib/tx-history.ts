@@ -0,0 +1,276 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { UnsignedTransaction } from '../types/bitcoin';
+import { fetchUTXOs } from './bitcoin';
+import { getTransactionStatus } from './broadcast';
+import { ChainNetwork, getBitcoinNetwork } from './networks';
+
+/**
+ * Transaction History
+ *
+ * Every broadcast transaction is kept in IndexedDB with the PSBT, fee and
+ * recipients it was built with, and followed until it is buried under
+ * FINAL_CONFIRMATIONS blocks. A transaction the backend no longer knows was
+ * replaced when one of its inputs has been spent elsewhere, and dropped when
+ * its inputs are still unspent.
+ */
+
+export type HistoryStatus = 'pending' | 'confirmed' | 'replaced' | 'dropped';
+
+export interface HistoryRecord {
+  txid: string;
+  network: ChainNetwork;
+  transaction: UnsignedTransaction; // PSBT, fee and recipients as built
+  status: HistoryStatus;
+  broadcastAt: number;
+  checkedAt?: number;
+  blockHeight?: number;
+  blockTime?: number; // Unix seconds
+  confirmations?: number;
+  replacedBy?: string; // Txid of the replacement, when built here
+}
+
+// Confirmations after which a transaction is no longer checked
+export const FINAL_CONFIRMATIONS = 6;
+
+// Time a broadcast transaction may take to reach the backend's mempool
+// before it counts as dropped
+export const DROP_GRACE_MS = 10 * 60 * 1000;
+
+// Bitcoin Core's default mempool expiry; an unconfirmed transaction older
+// than this is gone for good
+const MEMPOOL_EXPIRY_MS = 14 * 24 * 60 * 60 * 1000;
+
+const DB_NAME = 'btc-unsigned';
+const DB_VERSION = 1;
+const STORE_NAME = 'transactions';
+
+/**
+ * Open the history database, creating the store on first use
+ * @returns Database connection
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'txid' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run one request against the store and wait for its transaction to commit
+ * @param mode - Read-only or read-write
+ * @param run - Request to make
+ * @returns Result of the request
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load the whole history
+ * @returns Records, most recently broadcast first
+ */
+export async function getTransactionHistory(): Promise<HistoryRecord[]> {
+  const records = await withStore('readonly', (store) => store.getAll());
+  return (records as HistoryRecord[]).sort(
+    (a, b) => b.broadcastAt - a.broadcastAt
+  );
+}
+
+/**
+ * Load one record
+ * @param txid - Transaction ID
+ * @returns Record, or undefined when the transaction is not in the history
+ */
+export async function getHistoryRecord(
+  txid: string
+): Promise<HistoryRecord | undefined> {
+  return (await withStore('readonly', (store) => store.get(txid))) as
+    HistoryRecord | undefined;
+}
+
+/**
+ * Add or replace a record
+ * @param record - Record to store
+ */
+export async function saveHistoryRecord(record: HistoryRecord): Promise<void> {
+  await withStore('readwrite', (store) => store.put(record));
+}
+
+/**
+ * Remove a record
+ * @param txid - Transaction ID
+ */
+export async function deleteHistoryRecord(txid: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(txid));
+}
+
+/**
+ * Record a transaction that was just broadcast. A fee bump built here also
+ * marks the transaction it replaces.
+ * @param transaction - Unsigned transaction as built
+ * @param txid - Txid returned by the broadcast
+ * @returns New record
+ */
+export async function recordBroadcast(
+  transaction: UnsignedTransaction,
+  txid: string
+): Promise<HistoryRecord> {
+  const record: HistoryRecord = {
+    txid,
+    network: transaction.network,
+    transaction,
+    status: 'pending',
+    broadcastAt: Date.now(),
+  };
+  await saveHistoryRecord(record);
+
+  if (transaction.feeBump?.method === 'rbf') {
+    const original = await getHistoryRecord(transaction.feeBump.originalTxid);
+    if (original) {
+      await saveHistoryRecord({
+        ...original,
+        status: 'replaced',
+        replacedBy: txid,
+      });
+    }
+  }
+  return record;
+}
+
+/**
+ * Check whether a record should still be polled. Dropped and replaced are
+ * inferred from a lookup that found nothing, so they are checked again
+ * until the transaction would have expired from mempools anyway.
+ * @param record - History record
+ * @returns False once confirmed deeply enough or known to be replaced
+ */
+export function needsStatusCheck(record: HistoryRecord): boolean {
+  const inMempoolWindow = Date.now() - record.broadcastAt < MEMPOOL_EXPIRY_MS;
+  switch (record.status) {
+    case 'pending':
+      return true;
+    case 'confirmed':
+      return (record.confirmations ?? 0) < FINAL_CONFIRMATIONS;
+    case 'dropped':
+      return inMempoolWindow;
+    case 'replaced':
+      return !record.replacedBy && inMempoolWindow;
+  }
+}
+
+/**
+ * Check a record against the chain backend and store the result
+ * @param record - History record
+ * @returns Updated record
+ */
+export async function refreshHistoryRecord(
+  record: HistoryRecord
+): Promise<HistoryRecord> {
+  const now = Date.now();
+  const result = await getTransactionStatus(record.txid, record.network);
+
+  let updated: HistoryRecord;
+  if (result.success && result.status) {
+    const {
+      confirmed = false,
+      block_height,
+      block_time,
+    } = result.status.status ?? {};
+    updated = {
+      ...record,
+      status: confirmed ? 'confirmed' : 'pending',
+      blockHeight: confirmed ? block_height : undefined,
+      blockTime: confirmed ? block_time : undefined,
+      confirmations:
+        confirmed && block_height !== undefined && result.tipHeight
+          ? result.tipHeight - block_height + 1
+          : confirmed
+            ? 1
+            : 0,
+      checkedAt: now,
+    };
+  } else if (!result.notFound) {
+    // Backend or network failure says nothing about the transaction
+    updated = { ...record, checkedAt: now };
+  } else if (await hasSpentInputs(record)) {
+    updated = {
+      ...record,
+      status: 'replaced',
+      confirmations: undefined,
+      checkedAt: now,
+    };
+  } else {
+    updated = {
+      ...record,
+      status: now - record.broadcastAt > DROP_GRACE_MS ? 'dropped' : 'pending',
+      confirmations: undefined,
+      checkedAt: now,
+    };
+  }
+
+  await saveHistoryRecord(updated);
+  return updated;
+}
+
+/**
+ * Check whether any input of a recorded transaction has left the UTXO set
+ * of its address
+ * @param record - History record
+ * @returns True when an input has been spent by another transaction
+ */
+async function hasSpentInputs(record: HistoryRecord): Promise<boolean> {
+  const network = getBitcoinNetwork(record.network);
+  const psbt = bitcoin.Psbt.fromBase64(record.transaction.psbt);
+
+  const inputsByAddress = new Map<string, string[]>();
+  psbt.txInputs.forEach((input, index) => {
+    const { witnessUtxo, nonWitnessUtxo } = psbt.data.inputs[index];
+    const script =
+      witnessUtxo?.script ??
+      (nonWitnessUtxo &&
+        bitcoin.Transaction.fromBuffer(nonWitnessUtxo).outs[input.index]
+          .script);
+    if (!script) return;
+    const address = bitcoin.address.fromOutputScript(script, network);
+    const outpoint = `${Buffer.from(input.hash).reverse().toString('hex')}:${
+      input.index
+    }`;
+    inputsByAddress.set(address, [
+      ...(inputsByAddress.get(address) ?? []),
+      outpoint,
+    ]);
+  });
+
+  for (const [address, outpoints] of inputsByAddress) {
+    const unspent = new Set(
+      (await fetchUTXOs(address, record.network)).map(
+        (utxo) => `${utxo.txid}:${utxo.vout}`
+      )
+    );
+    if (outpoints.some((outpoint) => !unspent.has(outpoint))) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,28 @@
+import { TxWeight } from '@btc-wallet/wallet-generator';
+
+/**
+ * Transaction Weight Estimator
+ *
+ * The estimator lives in wallet-generator, where the signers' PSBT review
+ * sizes signed inputs with it too. See TxWeight there for the assumptions.
+ */
+
+export type InputScriptType = TxWeight.InputScriptType;
+export type MultisigInput = TxWeight.MultisigInput;
+export type InputWeightSpec = TxWeight.InputWeightSpec;
+export type OutputScriptType = TxWeight.OutputScriptType;
+export type TransactionWeight = TxWeight.TransactionWeight;
+
+export const {
+  OUTPUT_SCRIPT_LENGTH,
+  varIntSize,
+  inputHasWitness,
+  inputWeight,
+  outputWeight,
+  overheadWeight,
+  estimateTransactionWeight,
+  estimateVsize,
+  outputScriptLength,
+  outputTypeForInput,
+  getOutputScriptType,
+} = TxWeight;
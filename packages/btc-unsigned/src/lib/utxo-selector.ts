@@ -1,10 +1,18 @@
 import { UTXO } from '../types/bitcoin';
+import { selectCoins, CoinSelectionOptions } from './coin-selection';
+import {
+  InputWeightSpec,
+  OUTPUT_SCRIPT_LENGTH,
+  OutputScriptType,
+  estimateVsize,
+} from './tx-weight';
 
 /**
  * UTXO Selection Service
  *
  * This service handles optimal UTXO selection for Bitcoin transactions
- * based on amount requirements and fee optimization.
+ * based on amount requirements and fee optimization. Selection itself is
+ * done by the coin selection engine in coin-selection.ts.
  */
 
 export interface UTXOSelectionResult {
@@ -87,63 +95,23 @@ export function selectOptimalUTXOs(
  * @param utxos - Available UTXOs
  * @param requiredAmount - Amount needed (excluding fee)
  * @param feeRate - Fee rate in satoshis per byte
- * @returns Optimal UTXO selection with fee calculation
+ * @param options - Script types and strategies for the coin selection engine
+ * @returns Lowest-waste UTXO selection with fee calculation
  */
 export function selectUTXOsWithFeeOptimization(
   utxos: UTXO[],
   requiredAmount: number,
-  feeRate: number
+  feeRate: number,
+  options: CoinSelectionOptions = {}
 ): UTXOSelectionResult {
-  const { confirmedUTXOs } = filterAndSortUTXOs(utxos);
-
-  if (confirmedUTXOs.length === 0) {
-    throw new Error('No confirmed UTXOs available');
-  }
-
-  // Start with single UTXO selection
-  let selectedUTXOs: UTXO[] = [];
-  let totalValue = 0;
-  let feeSatoshis = 0;
-  let changeAmount = 0;
-
-  // Try to find a single UTXO that covers the amount + estimated fee
-  const estimatedFee = estimateFeeForUTXOs(1, 2, feeRate);
-  const initialRequired = requiredAmount + estimatedFee;
-
-  // Find the smallest UTXO that covers the required amount
-  const singleUTXO = confirmedUTXOs.find(
-    (utxo) => utxo.value >= initialRequired
-  );
-
-  if (singleUTXO) {
-    selectedUTXOs = [singleUTXO];
-    totalValue = singleUTXO.value;
-    feeSatoshis = estimatedFee;
-    changeAmount = totalValue - requiredAmount - feeSatoshis;
-  } else {
-    // Need multiple UTXOs
-    const { selectedUTXOs: multiUTXOs, totalValue: multiValue } =
-      selectOptimalUTXOs(confirmedUTXOs, initialRequired);
-
-    selectedUTXOs = multiUTXOs;
-    totalValue = multiValue;
-    feeSatoshis = estimateFeeForUTXOs(multiUTXOs.length, 2, feeRate);
-    changeAmount = totalValue - requiredAmount - feeSatoshis;
-  }
-
-  // Handle dust limit for change
-  const dustLimit = 546;
-  if (changeAmount > 0 && changeAmount < dustLimit) {
-    feeSatoshis += changeAmount;
-    changeAmount = 0;
-  }
+  const { best } = selectCoins(utxos, requiredAmount, feeRate, options);
 
   return {
-    selectedUTXOs,
-    totalValue,
-    inputCount: selectedUTXOs.length,
-    changeAmount,
-    feeSatoshis,
+    selectedUTXOs: best.selectedUTXOs,
+    totalValue: best.totalValue,
+    inputCount: best.inputCount,
+    changeAmount: best.changeAmount,
+    feeSatoshis: best.feeSatoshis,
   };
 }
 
@@ -151,22 +119,23 @@ export function selectUTXOsWithFeeOptimization(
  * Estimate fee for given number of inputs and outputs
  * @param inputCount - Number of inputs
  * @param outputCount - Number of outputs
- * @param feeRate - Fee rate in satoshis per byte
+ * @param feeRate - Fee rate in satoshis per vbyte
+ * @param inputType - Script type of every input, default P2WPKH
+ * @param outputType - Script type of every output, default P2WPKH
  * @returns Estimated fee in satoshis
  */
 export function estimateFeeForUTXOs(
   inputCount: number,
   outputCount: number,
-  feeRate: number
+  feeRate: number,
+  inputType: InputWeightSpec = 'p2wpkh',
+  outputType: OutputScriptType = 'p2wpkh'
 ): number {
-  // P2WPKH transaction size calculation
-  const inputSize = 71; // Virtual input size for fee calculation (witness discount applied)
-  const outputSize = 31; // 8 bytes value + 1 byte script length + 22 bytes script
-  const overhead = 10; // version + locktime + witness marker + witness count
-
-  const totalSize =
-    inputCount * inputSize + outputCount * outputSize + overhead;
-  return totalSize * feeRate;
+  const vsize = estimateVsize(
+    new Array(inputCount).fill(inputType),
+    new Array(outputCount).fill(OUTPUT_SCRIPT_LENGTH[outputType])
+  );
+  return Math.ceil(vsize * feeRate);
 }
 
 /**
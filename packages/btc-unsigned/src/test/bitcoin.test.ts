@@ -0,0 +1,72 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { fetchUTXOs, parseRecipientsCSV } from '../lib/bitcoin';
+
+const ADDRESS = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('parseRecipientsCSV', () => {
+  it('reads address, amount and optional label lines', () => {
+    expect(
+      parseRecipientsCSV(
+        'address,amount,label\r\ntb1qa,0.001,Rent\r\n\r\ntb1qb,0.0025\n'
+      )
+    ).toEqual([
+      { address: 'tb1qa', amount: '0.001', label: 'Rent', subtractFee: false },
+      { address: 'tb1qb', amount: '0.0025', label: '', subtractFee: false },
+    ]);
+  });
+
+  it('keeps commas and escaped quotes inside quoted fields', () => {
+    const [row] = parseRecipientsCSV('tb1qa, 0.001 ,"Bob, ""the builder"""');
+
+    expect(row.amount).toBe('0.001');
+    expect(row.label).toBe('Bob, "the builder"');
+  });
+
+  it('names the line with the wrong number of fields', () => {
+    expect(() => parseRecipientsCSV('tb1qa,0.001\ntb1qb')).toThrow(
+      'Line 2: expected address,amount,label'
+    );
+    expect(() => parseRecipientsCSV('tb1qa,0.001,Rent,extra')).toThrow(
+      'Line 1: expected address,amount,label'
+    );
+  });
+
+  it('needs at least one recipient', () => {
+    expect(() => parseRecipientsCSV('address,amount,label\n\n')).toThrow(
+      'No recipients found in CSV'
+    );
+  });
+});
+
+describe('fetchUTXOs', () => {
+  it('tags each UTXO with the address it was fetched for', async () => {
+    const utxo = {
+      txid: 'aa'.repeat(32),
+      vout: 0,
+      value: 10_000,
+      status: { confirmed: true },
+    };
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async () => new Response(JSON.stringify([utxo])))
+    );
+
+    expect(await fetchUTXOs(ADDRESS, 'testnet')).toEqual([
+      { ...utxo, address: ADDRESS },
+    ]);
+  });
+
+  it('refuses an address of another network before fetching', async () => {
+    const fetch = vi.fn();
+    vi.stubGlobal('fetch', fetch);
+
+    await expect(
+      fetchUTXOs('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4', 'testnet')
+    ).rejects.toThrow('is a Bitcoin Mainnet address, not Bitcoin Testnet');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import * as bitcoin from 'bitcoinjs-lib';
+import { createBitcoindBackend } from '../lib/bitcoind-backend';
+
+const URL = 'http://127.0.0.1:18332';
+const network = bitcoin.networks.testnet;
+const script = bitcoin.address.toOutputScript(
+  'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx',
+  network
+);
+
+// A funding transaction and one spending it for a 1,000 sat fee
+const funding = new bitcoin.Transaction();
+funding.addInput(Buffer.alloc(32, 1), 0);
+funding.addOutput(script, 50_000);
+const spend = new bitcoin.Transaction();
+spend.addInput(funding.getHash(), 0);
+spend.addOutput(script, 49_000);
+
+type Handler = (params: unknown[]) => unknown;
+
+// Answer JSON-RPC calls by method; a thrown message becomes an RPC error
+function stubNode(handlers: Record<string, Handler>) {
+  const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+    const { method, params } = JSON.parse(init.body as string);
+    try {
+      const result = handlers[method](params);
+      return new Response(JSON.stringify({ result, error: null }));
+    } catch (error) {
+      const message = (error as Error).message;
+      return new Response(
+        JSON.stringify({ result: null, error: { code: -5, message } }),
+        { status: 500 }
+      );
+    }
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('bitcoind backend', () => {
+  const backend = createBitcoindBackend({
+    network: 'testnet',
+    url: URL,
+    username: 'user',
+    password: 'secret',
+  });
+
+  it('scans the UTXO set with basic auth and converts amounts to satoshis', async () => {
+    const fetch = stubNode({
+      scantxoutset: (params) => {
+        expect(params).toEqual(['start', ['addr(tb1qa)']]);
+        return {
+          success: true,
+          height: 100,
+          unspents: [
+            { txid: 'aa'.repeat(32), vout: 1, amount: 0.0001234, height: 90 },
+          ],
+        };
+      },
+    });
+
+    expect(await backend.getUTXOs('tb1qa')).toEqual([
+      {
+        txid: 'aa'.repeat(32),
+        vout: 1,
+        value: 12_340,
+        status: { confirmed: true, block_height: 90 },
+      },
+    ]);
+    expect(fetch.mock.calls[0][1].headers).toMatchObject({
+      Authorization: `Basic ${Buffer.from('user:secret').toString('base64')}`,
+    });
+  });
+
+  it('describes a confirmed transaction from its raw hex', async () => {
+    stubNode({
+      getrawtransaction: ([txid, verbose]) => {
+        if (txid === funding.getId()) return funding.toHex();
+        expect(verbose).toBe(true);
+        return {
+          hex: spend.toHex(),
+          confirmations: 3,
+          blockhash: 'bb'.repeat(32),
+        };
+      },
+      getblockcount: () => 102,
+    });
+
+    const tx = await backend.getTransaction(spend.getId());
+    expect(tx?.fee).toBe(1_000);
+    expect(tx?.status).toMatchObject({
+      confirmed: true,
+      block_height: 100,
+      block_hash: 'bb'.repeat(32),
+    });
+  });
+
+  it('returns null for a transaction the node does not know', async () => {
+    stubNode({
+      getrawtransaction: () => {
+        throw new Error('No such mempool or blockchain transaction');
+      },
+    });
+    expect(await backend.getTransaction(spend.getId())).toBeNull();
+
+    stubNode({
+      getrawtransaction: () => {
+        throw new Error('Work queue depth exceeded');
+      },
+    });
+    await expect(backend.getTransaction(spend.getId())).rejects.toThrow(
+      'bitcoind getrawtransaction failed: Work queue depth exceeded'
+    );
+  });
+
+  it('converts fee estimates from BTC/kvB and skips targets without data', async () => {
+    stubNode({
+      estimatesmartfee: ([target]) =>
+        target === 144
+          ? { errors: ['Insufficient data'] }
+          : { feerate: 0.0002 },
+    });
+
+    expect(await backend.getFeeEstimates()).toEqual({ 1: 20, 3: 20, 6: 20 });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import * as bitcoin from 'bitcoinjs-lib';
+import { ECPairFactory } from 'ecpair';
+import * as ecc from 'tiny-secp256k1';
+import { combineSignedPSBTs, getSignatureProgress } from '../lib/broadcast';
+
+const ECPair = ECPairFactory(ecc);
+const network = bitcoin.networks.testnet;
+
+const RECIPIENT = bitcoin.payments.p2wpkh({
+  hash: Buffer.alloc(20, 9),
+  network,
+}).address!;
+
+// Three cosigners of a 2-of-3 P2WSH, and a stranger
+const signers = [1, 2, 3, 4].map((fill) => {
+  const key = ECPair.fromPrivateKey(Buffer.alloc(32, fill));
+  return {
+    publicKey: Buffer.from(key.publicKey),
+    sign: (hash: Buffer) => Buffer.from(key.sign(hash)),
+  };
+});
+const multisig = bitcoin.payments.p2ms({
+  m: 2,
+  pubkeys: signers.slice(0, 3).map((signer) => signer.publicKey),
+  network,
+});
+const wsh = bitcoin.payments.p2wsh({ redeem: multisig, network });
+
+function multisigPSBT(...signedBy: number[]): bitcoin.Psbt {
+  const psbt = new bitcoin.Psbt({ network });
+  psbt.addInput({
+    hash: '11'.repeat(32),
+    index: 0,
+    witnessUtxo: { script: wsh.output!, value: 100_000 },
+    witnessScript: multisig.output!,
+  });
+  psbt.addOutput({ address: RECIPIENT, value: 90_000 });
+  signedBy.forEach((index) => psbt.signInput(0, signers[index]));
+  return psbt;
+}
+
+describe('getSignatureProgress', () => {
+  it('counts single-key inputs as needing one signature', () => {
+    const { output } = bitcoin.payments.p2wpkh({
+      pubkey: signers[0].publicKey,
+      network,
+    });
+    const psbt = new bitcoin.Psbt({ network });
+    psbt.addInput({
+      hash: '11'.repeat(32),
+      index: 0,
+      witnessUtxo: { script: output!, value: 100_000 },
+    });
+    psbt.addOutput({ address: RECIPIENT, value: 90_000 });
+
+    expect(getSignatureProgress(psbt)).toEqual([
+      { index: 0, required: 1, signed: 0, complete: false },
+    ]);
+    psbt.signInput(0, signers[0]);
+    expect(getSignatureProgress(psbt)[0].complete).toBe(true);
+  });
+
+  it('counts only signatures from the witness script keys', () => {
+    const psbt = multisigPSBT(0);
+    const [signature] = psbt.data.inputs[0].partialSig!;
+    psbt.updateInput(0, {
+      partialSig: [{ ...signature, pubkey: signers[3].publicKey }],
+    });
+
+    expect(getSignatureProgress(psbt)).toEqual([
+      { index: 0, required: 2, signed: 1, complete: false },
+    ]);
+    psbt.signInput(0, signers[2]);
+    expect(getSignatureProgress(psbt)[0]).toMatchObject({
+      signed: 2,
+      complete: true,
+    });
+  });
+
+  it('counts a finalized input as complete', () => {
+    const psbt = multisigPSBT(0, 1).finalizeAllInputs();
+
+    // Finalizing drops the witness script, so only completeness is known
+    expect(getSignatureProgress(psbt)[0].complete).toBe(true);
+  });
+});
+
+describe('combineSignedPSBTs', () => {
+  const unsigned = multisigPSBT().toBase64();
+
+  it('finalizes a multisig input with exactly M signatures', async () => {
+    // Every cosigner signed; CHECKMULTISIG takes only two
+    const result = await combineSignedPSBTs(
+      unsigned,
+      {
+        signedPsbts: [0, 1, 2].map((index) => multisigPSBT(index).toBase64()),
+        legacySignatures: [],
+      },
+      'testnet'
+    );
+
+    expect(result.success).toBe(true);
+    const { witness } = bitcoin.Transaction.fromHex(result.transactionHex!)
+      .ins[0];
+    // Dummy element, two signatures in key order, witness script
+    expect(witness).toHaveLength(4);
+    expect(witness[1]).toEqual(
+      multisigPSBT(0).data.inputs[0].partialSig![0].signature
+    );
+    expect(witness[2]).toEqual(
+      multisigPSBT(1).data.inputs[0].partialSig![0].signature
+    );
+    expect(witness[3]).toEqual(multisig.output);
+  });
+
+  it('reports inputs short of their threshold', async () => {
+    const result = await combineSignedPSBTs(
+      unsigned,
+      { signedPsbts: [multisigPSBT(2).toBase64()], legacySignatures: [] },
+      'testnet'
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Input 0 has 1 of 2 signatures');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { UTXO } from '../types/bitcoin';
+import {
+  avoidAddressReuse,
+  branchAndBound,
+  knapsack,
+  largestFirst,
+  selectCoins,
+} from '../lib/coin-selection';
+
+// At 1 sat/vB a P2WPKH input costs 68 sats, and a one-input transaction
+// paying one P2WPKH recipient costs 42 sats besides its inputs
+const INPUT_FEE = 68;
+const BASE_FEE = 42;
+const AMOUNT = 10_000;
+
+const utxo = (value: number, vout = 0, confirmed = true): UTXO => ({
+  txid: 'aa'.repeat(32),
+  vout,
+  value,
+  address: `address-${vout}`, // No reuse, so no address group is forced
+  status: { confirmed, block_height: confirmed ? 800_000 + vout : undefined },
+});
+
+describe('Coin selection', () => {
+  it('finds an exact branch-and-bound match without change', () => {
+    const exact = utxo(AMOUNT + BASE_FEE + INPUT_FEE, 1);
+    const { best } = selectCoins(
+      [utxo(50_000, 0), exact, utxo(70_000, 2)],
+      AMOUNT,
+      1
+    );
+
+    expect(best.strategy).toBe('branch-and-bound');
+    expect(best.selectedUTXOs).toEqual([exact]);
+    expect(best.changeAmount).toBe(0);
+    expect(best.feeSatoshis).toBe(BASE_FEE + INPUT_FEE);
+  });
+
+  it('falls back to knapsack with a change output', () => {
+    const { best, failures } = selectCoins([utxo(100_000)], AMOUNT, 1, {
+      algorithms: [branchAndBound, knapsack],
+    });
+
+    expect(failures).toEqual([
+      {
+        strategy: 'branch-and-bound',
+        reason: 'No changeless combination found',
+      },
+    ]);
+    expect(best.strategy).toBe('knapsack');
+    expect(best.changeAmount).toBeGreaterThan(0);
+    expect(best.totalValue).toBe(AMOUNT + best.changeAmount + best.feeSatoshis);
+  });
+
+  it('gives dust change to the fee', () => {
+    // 300 sats over a changeless transaction, less than a change output
+    // above the 546 sat dust limit could hold
+    const value = AMOUNT + BASE_FEE + INPUT_FEE + 300;
+    const { best } = selectCoins([utxo(value)], AMOUNT, 1, {
+      algorithms: [largestFirst],
+    });
+
+    expect(best.changeAmount).toBe(0);
+    expect(best.feeSatoshis).toBe(value - AMOUNT);
+  });
+
+  it('creates change at the dust limit it is given', () => {
+    const value = AMOUNT + BASE_FEE + INPUT_FEE + 2_000;
+    const options = { algorithms: [largestFirst] };
+
+    expect(
+      selectCoins([utxo(value)], AMOUNT, 1, options).best.changeAmount
+    ).toBeGreaterThan(0);
+    expect(
+      selectCoins([utxo(value)], AMOUNT, 1, { ...options, dustLimit: 5_460 })
+        .best.changeAmount
+    ).toBe(0);
+  });
+
+  it('leaves unconfirmed UTXOs out unless asked', () => {
+    const confirmed = utxo(20_000, 0);
+    const unconfirmed = utxo(1_000_000, 1, false);
+
+    const { candidates } = selectCoins([confirmed, unconfirmed], AMOUNT, 1);
+    candidates.forEach((candidate) =>
+      expect(candidate.selectedUTXOs).toEqual([confirmed])
+    );
+
+    expect(() => selectCoins([unconfirmed], AMOUNT, 1)).toThrow(
+      'No confirmed UTXOs worth spending at this fee rate'
+    );
+    expect(
+      selectCoins([unconfirmed], AMOUNT, 1, { includeUnconfirmed: true }).best
+        .selectedUTXOs
+    ).toEqual([unconfirmed]);
+  });
+
+  it('spends every UTXO of the smallest address that covers the target', () => {
+    const reused = [
+      { ...utxo(8_000, 0), address: 'reused' },
+      { ...utxo(7_000, 1), address: 'reused' },
+    ];
+    const { best } = selectCoins([...reused, utxo(200_000, 2)], AMOUNT, 1, {
+      algorithms: [avoidAddressReuse],
+    });
+
+    expect(best.strategy).toBe('avoid-address-reuse');
+    expect(best.selectedUTXOs).toEqual(reused);
+  });
+
+  it('reports insufficient funds', () => {
+    expect(() => selectCoins([utxo(5_000), utxo(4_000, 1)], AMOUNT, 1)).toThrow(
+      `Insufficient funds: Need ${AMOUNT + BASE_FEE} satoshis including fees, have ${
+        9_000 - 2 * INPUT_FEE
+      } satoshis after input fees`
+    );
+  });
+});
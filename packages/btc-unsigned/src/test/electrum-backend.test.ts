@@ -0,0 +1,140 @@
+import { afterAll, beforeAll, describe, it, expect } from 'vitest';
+import * as bitcoin from 'bitcoinjs-lib';
+import * as net from 'net';
+import { createElectrumBackend, getScriptHash } from '../lib/electrum-backend';
+import type { ChainBackend } from '../lib/chain-backend';
+
+const network = bitcoin.networks.testnet;
+const ADDRESS = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx';
+const script = bitcoin.address.toOutputScript(ADDRESS, network);
+
+// A funding transaction and one spending it for a 1,000 sat fee
+const funding = new bitcoin.Transaction();
+funding.addInput(Buffer.alloc(32, 1), 0);
+funding.addOutput(script, 50_000);
+const spend = new bitcoin.Transaction();
+spend.addInput(funding.getHash(), 0);
+spend.addOutput(script, 49_000);
+
+// Answers for the current test, by method; a thrown message becomes an
+// Electrum error
+let handlers: Record<string, (params: unknown[]) => unknown> = {};
+
+// Local Electrum server speaking newline-delimited JSON-RPC
+const server = net.createServer((socket) => {
+  let buffer = '';
+  socket.on('data', (data) => {
+    buffer += data.toString('utf8');
+    let newline;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const { id, method, params } = JSON.parse(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      let response;
+      try {
+        const result =
+          method === 'server.version'
+            ? ['ElectrumX 1.16', '1.4']
+            : handlers[method](params);
+        response = { jsonrpc: '2.0', id, result };
+      } catch (error) {
+        response = {
+          jsonrpc: '2.0',
+          id,
+          error: { code: 2, message: (error as Error).message },
+        };
+      }
+      socket.write(JSON.stringify(response) + '\n');
+    }
+  });
+});
+
+let backend: ChainBackend;
+
+beforeAll(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  backend = createElectrumBackend({
+    network: 'testnet',
+    host: '127.0.0.1',
+    port: (server.address() as net.AddressInfo).port,
+    tls: false,
+  });
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('Electrum backend', () => {
+  it('lists UTXOs by script hash', async () => {
+    handlers = {
+      'blockchain.scripthash.listunspent': ([scriptHash]) => {
+        expect(scriptHash).toBe(getScriptHash(script));
+        return [
+          { tx_hash: 'aa'.repeat(32), tx_pos: 0, height: 100, value: 10_000 },
+          { tx_hash: 'bb'.repeat(32), tx_pos: 1, height: 0, value: 20_000 },
+        ];
+      },
+    };
+
+    expect(await backend.getUTXOs(ADDRESS)).toEqual([
+      {
+        txid: 'aa'.repeat(32),
+        vout: 0,
+        value: 10_000,
+        status: { confirmed: true, block_height: 100 },
+      },
+      {
+        txid: 'bb'.repeat(32),
+        vout: 1,
+        value: 20_000,
+        status: { confirmed: false },
+      },
+    ]);
+  });
+
+  it('takes a transaction height from its output history', async () => {
+    const hex = new Map([
+      [funding.getId(), funding.toHex()],
+      [spend.getId(), spend.toHex()],
+    ]);
+    handlers = {
+      'blockchain.transaction.get': ([txid]) => hex.get(txid as string),
+      'blockchain.scripthash.get_history': () => [
+        { tx_hash: funding.getId(), height: 90 },
+        { tx_hash: spend.getId(), height: 100 },
+      ],
+    };
+
+    const tx = await backend.getTransaction(spend.getId());
+    expect(tx?.fee).toBe(1_000);
+    expect(tx?.status).toEqual({ confirmed: true, block_height: 100 });
+  });
+
+  it('returns null for a transaction the server does not know', async () => {
+    handlers = {
+      'blockchain.transaction.get': () => {
+        throw new Error(
+          'daemon error: No such mempool or blockchain transaction'
+        );
+      },
+    };
+    expect(await backend.getTransaction(spend.getId())).toBeNull();
+
+    handlers = {
+      'blockchain.transaction.get': () => {
+        throw new Error('daemon busy');
+      },
+    };
+    await expect(backend.getTransaction(spend.getId())).rejects.toThrow(
+      'Electrum blockchain.transaction.get failed: daemon busy'
+    );
+  });
+
+  it('converts fee estimates from BTC/kvB and skips targets without data', async () => {
+    handlers = {
+      'blockchain.estimatefee': ([target]) => (target === 144 ? -1 : 0.0001),
+    };
+
+    expect(await backend.getFeeEstimates()).toEqual({ 1: 10, 3: 10, 6: 10 });
+  });
+});
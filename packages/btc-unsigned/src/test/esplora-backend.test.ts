@@ -0,0 +1,95 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { createEsploraBackend } from '../lib/esplora-backend';
+
+const PRIMARY = 'https://primary.example/api';
+const FALLBACK = 'https://fallback.example/api';
+const TXID = 'aa'.repeat(32);
+
+// Answer each request URL with a status and body; unknown URLs fail
+function stubServers(routes: Record<string, [number, unknown]>) {
+  const fetch = vi.fn(async (url: string) => {
+    const route = routes[url];
+    if (!route) throw new Error('getaddrinfo ENOTFOUND');
+    const [status, body] = route;
+    return new Response(
+      typeof body === 'string' ? body : JSON.stringify(body),
+      { status }
+    );
+  });
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('Esplora backend', () => {
+  const backend = createEsploraBackend([PRIMARY, FALLBACK]);
+
+  it('needs a URL', () => {
+    expect(() => createEsploraBackend([])).toThrow(
+      'At least one Esplora URL is required'
+    );
+  });
+
+  it('falls back to the next server', async () => {
+    const utxos = [
+      { txid: TXID, vout: 0, value: 10_000, status: { confirmed: true } },
+    ];
+    stubServers({
+      [`${PRIMARY}/address/tb1qa/utxo`]: [503, 'busy'],
+      [`${FALLBACK}/address/tb1qa/utxo`]: [200, utxos],
+    });
+
+    expect(await backend.getUTXOs('tb1qa')).toEqual(utxos);
+  });
+
+  it('reports the last error when every server fails', async () => {
+    stubServers({ [`${PRIMARY}/tx/${TXID}/hex`]: [500, 'oops\n'] });
+
+    await expect(backend.getTransactionHex(TXID)).rejects.toThrow(
+      `${FALLBACK}: getaddrinfo ENOTFOUND`
+    );
+  });
+
+  it('returns null only when every server does not know a transaction', async () => {
+    stubServers({
+      [`${PRIMARY}/tx/${TXID}`]: [404, 'Transaction not found'],
+      [`${FALLBACK}/tx/${TXID}`]: [404, 'Transaction not found'],
+    });
+    expect(await backend.getTransaction(TXID)).toBeNull();
+
+    stubServers({
+      [`${PRIMARY}/tx/${TXID}`]: [404, 'Transaction not found'],
+      [`${FALLBACK}/tx/${TXID}`]: [502, 'Bad gateway'],
+    });
+    await expect(backend.getTransaction(TXID)).rejects.toThrow(
+      `${FALLBACK} returned 502: Bad gateway`
+    );
+  });
+
+  it('posts raw transactions as text', async () => {
+    const fetch = stubServers({ [`${PRIMARY}/tx`]: [200, `${TXID}\n`] });
+
+    expect(await backend.broadcast('0200')).toBe(TXID);
+    expect(fetch).toHaveBeenCalledWith(
+      `${PRIMARY}/tx`,
+      expect.objectContaining({
+        method: 'POST',
+        body: '0200',
+        headers: expect.objectContaining({ 'Content-Type': 'text/plain' }),
+      })
+    );
+  });
+
+  it('reads fee estimates and the tip height as numbers', async () => {
+    stubServers({
+      [`${PRIMARY}/fee-estimates`]: [200, { '1': 20.5, '6': 8, '144': 1 }],
+      [`${PRIMARY}/blocks/tip/height`]: [200, '840000'],
+    });
+
+    expect(await backend.getFeeEstimates()).toEqual({ 1: 20.5, 6: 8, 144: 1 });
+    expect(await backend.getTipHeight()).toBe(840_000);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import * as bitcoin from 'bitcoinjs-lib';
+import { assertAddressNetwork, getBitcoinNetwork } from '../lib/networks';
+
+// One witness program on each network
+const HASH = Buffer.alloc(20, 1);
+const address = (network: Parameters<typeof getBitcoinNetwork>[0]) =>
+  bitcoin.payments.p2wpkh({ hash: HASH, network: getBitcoinNetwork(network) })
+    .address!;
+
+describe('assertAddressNetwork', () => {
+  it('returns the output script of an address on its network', () => {
+    const script = assertAddressNetwork(address('testnet'), 'testnet');
+
+    expect(script.toString('hex')).toBe(`0014${HASH.toString('hex')}`);
+    // Signet shares testnet's prefixes
+    expect(assertAddressNetwork(address('testnet'), 'signet')).toEqual(script);
+  });
+
+  it('names the network a foreign address belongs to', () => {
+    expect(() =>
+      assertAddressNetwork(address('mainnet'), 'testnet', 'From address')
+    ).toThrow(
+      `From address ${address('mainnet')} is a Bitcoin Mainnet address, not Bitcoin Testnet`
+    );
+    expect(() => assertAddressNetwork(address('testnet'), 'regtest')).toThrow(
+      'is a Bitcoin Testnet/Bitcoin Signet address, not Bitcoin Regtest'
+    );
+  });
+
+  it('keeps Bitcoin and Litecoin addresses apart', () => {
+    expect(() =>
+      assertAddressNetwork(address('ltc-mainnet'), 'mainnet')
+    ).toThrow('is a Litecoin Mainnet address, not Bitcoin Mainnet');
+    expect(() =>
+      assertAddressNetwork(address('mainnet'), 'ltc-mainnet')
+    ).toThrow('is a Bitcoin Mainnet address, not Litecoin Mainnet');
+    expect(() =>
+      assertAddressNetwork(address('ltc-testnet'), 'testnet', 'Recipient 2')
+    ).toThrow(
+      `Recipient 2 ${address('ltc-testnet')} is a Litecoin Testnet address, not Bitcoin Testnet`
+    );
+  });
+
+  it('rejects an address of no network', () => {
+    expect(() => assertAddressNetwork('not-an-address', 'testnet')).toThrow(
+      'Address not-an-address is not a valid Bitcoin Testnet address'
+    );
+  });
+});
@@ -0,0 +1,236 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import * as bitcoin from 'bitcoinjs-lib';
+import { BIP32 } from '@btc-wallet/wallet-generator';
+import { UTXO } from '../types/bitcoin';
+import { getBitcoinNetwork } from '../lib/networks';
+import {
+  createCPFPChildPSBT,
+  createPSBTWithChange,
+  createUnsignedPSBT,
+  subtractFeeFromRecipients,
+} from '../lib/psbt-generator';
+
+const network = bitcoin.networks.testnet;
+const p2wpkh = (fill: number, on: bitcoin.Network = network) =>
+  bitcoin.payments.p2wpkh({ hash: Buffer.alloc(20, fill), network: on })
+    .address!;
+
+const FROM = p2wpkh(1);
+const RECIPIENT = p2wpkh(2);
+// One P2WPKH input paying a P2WPKH recipient and P2WPKH change at 1 sat/vB
+const FEE = 141;
+
+const utxo = (value: number, vout = 0, address = FROM): UTXO => ({
+  txid: 'aa'.repeat(32),
+  vout,
+  value,
+  address,
+  status: { confirmed: true, block_height: 800_000 },
+});
+
+// Answer the coordinator's /api/tx proxy with a transaction status
+const stubTransactionStatus = (status: object) =>
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(async () => new Response(JSON.stringify({ status })))
+  );
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createPSBTWithChange', () => {
+  it('reports the change output it adds', async () => {
+    const result = await createPSBTWithChange(
+      [utxo(100_000)],
+      [{ address: RECIPIENT, value: 10_000 }],
+      FROM,
+      'testnet',
+      1
+    );
+
+    expect(result.outputCount).toBe(2);
+    expect(result.feeSatoshis).toBe(FEE);
+    expect(result.changeAmount).toBe(100_000 - 10_000 - FEE);
+  });
+
+  it('reports no change when every output pays a recipient', async () => {
+    const result = await createPSBTWithChange(
+      [utxo(100_000)],
+      [
+        { address: RECIPIENT, value: 40_000 },
+        { address: p2wpkh(3), value: 60_000, subtractFee: true },
+      ],
+      FROM,
+      'testnet',
+      1
+    );
+
+    expect(result.outputCount).toBe(2);
+    expect(result.changeAmount).toBe(0);
+  });
+
+  it('refuses inputs that cannot pay the amount and the fee', async () => {
+    await expect(
+      createPSBTWithChange(
+        [utxo(10_050)],
+        [{ address: RECIPIENT, value: 10_000 }],
+        FROM,
+        'testnet',
+        1
+      )
+    ).rejects.toThrow(
+      `Insufficient funds: Need ${10_000 + FEE} satoshis including fees, have 10050`
+    );
+  });
+});
+
+describe('subtractFeeFromRecipients', () => {
+  it('splits the fee evenly, the first payer taking the remainder', () => {
+    const recipients = subtractFeeFromRecipients(
+      [
+        { address: RECIPIENT, value: 10_000 },
+        { address: p2wpkh(3), value: 20_000, subtractFee: true },
+        { address: p2wpkh(4), value: 30_000, subtractFee: true },
+      ],
+      301
+    );
+
+    expect(recipients.map((r) => r.value)).toEqual([10_000, 19_849, 29_850]);
+  });
+
+  it('needs a recipient to pay the fee', () => {
+    expect(() =>
+      subtractFeeFromRecipients([{ address: RECIPIENT, value: 10_000 }], 141)
+    ).toThrow('No recipient is set to pay the fee');
+  });
+
+  it('refuses to leave a recipient at dust', () => {
+    expect(() =>
+      subtractFeeFromRecipients(
+        [{ address: RECIPIENT, value: 700, label: 'Tip', subtractFee: true }],
+        200
+      )
+    ).toThrow('Recipient 1 (Tip) is too small to pay its share of the fee');
+  });
+});
+
+describe('createCPFPChildPSBT', () => {
+  // A 141 vB parent paying 1 sat/vB, with 50,000 sats of change to FROM
+  const parent = {
+    weight: 564,
+    fee: 141,
+    status: { confirmed: false },
+    vout: [
+      {
+        scriptpubkey: bitcoin.address
+          .toOutputScript(RECIPIENT, network)
+          .toString('hex'),
+        value: 10_000,
+      },
+      {
+        scriptpubkey: bitcoin.address
+          .toOutputScript(FROM, network)
+          .toString('hex'),
+        value: 50_000,
+      },
+    ],
+  };
+
+  it('pays for the parent and child together at the target rate', async () => {
+    stubTransactionStatus(parent);
+    const result = await createCPFPChildPSBT(
+      'bb'.repeat(32),
+      FROM,
+      'testnet',
+      10
+    );
+
+    // One P2WPKH input and output
+    expect(result.childVsize).toBe(110);
+    expect(result.childFee).toBe(10 * (141 + 110) - 141);
+    expect(result.packageFeeRate).toBe(10);
+    expect(result.parentOutput).toMatchObject({ vout: 1, value: 50_000 });
+    expect(result.totalOutputValue).toBe(50_000 - result.childFee);
+  });
+
+  it('refuses a parent that already pays the target rate', async () => {
+    stubTransactionStatus(parent);
+
+    await expect(
+      createCPFPChildPSBT('bb'.repeat(32), FROM, 'testnet', 1)
+    ).rejects.toThrow('already pays 1.00 sat/vB');
+  });
+
+  it('refuses change too small to pay the child fee', async () => {
+    stubTransactionStatus({
+      ...parent,
+      vout: [{ ...parent.vout[1], value: 2_000 }],
+    });
+
+    await expect(
+      createCPFPChildPSBT('bb'.repeat(32), FROM, 'testnet', 10)
+    ).rejects.toThrow('cannot pay the');
+  });
+});
+
+describe('Litecoin PSBTs', () => {
+  const litecoin = getBitcoinNetwork('ltc-mainnet');
+  const root = BIP32.deriveNodeFromSeed(Buffer.alloc(32, 1), 'mainnet');
+  const account = root.derivePath("m/84'/2'/0'").neutered();
+  const from = bitcoin.payments.p2wpkh({
+    pubkey: Buffer.from(account.derive(0).derive(0).publicKey),
+    network: litecoin,
+  }).address!;
+  const recipient = p2wpkh(2, litecoin);
+
+  it('builds with Litecoin addresses and key origins', async () => {
+    const result = await createUnsignedPSBT(
+      [utxo(100_000, 0, from)],
+      [{ address: recipient, value: 90_000 }],
+      from,
+      'ltc-mainnet',
+      {
+        accountKey: {
+          xpub: account.toBase58(),
+          masterFingerprint: Buffer.from(root.fingerprint).toString('hex'),
+          accountPath: "m/84'/2'/0'",
+        },
+      }
+    );
+    const psbt = bitcoin.Psbt.fromBase64(result.psbt, { network: litecoin });
+
+    expect(from).toMatch(/^ltc1/);
+    expect(psbt.txOutputs[0].address).toBe(recipient);
+    expect(psbt.data.inputs[0].bip32Derivation?.[0].path).toBe(
+      "m/84'/2'/0'/0/0"
+    );
+  });
+
+  it('gives change under the Litecoin dust limit to the fee', async () => {
+    // 2,000 sats over the fee would be change on Bitcoin, not on Litecoin
+    const result = await createPSBTWithChange(
+      [utxo(10_000 + FEE + 2_000, 0, from)],
+      [{ address: recipient, value: 10_000 }],
+      from,
+      'ltc-mainnet',
+      1
+    );
+
+    expect(result.outputCount).toBe(1);
+    expect(result.changeAmount).toBe(0);
+  });
+
+  it('refuses Bitcoin addresses', async () => {
+    await expect(
+      createUnsignedPSBT(
+        [utxo(100_000, 0, from)],
+        [{ address: RECIPIENT, value: 90_000 }],
+        from,
+        'ltc-mainnet'
+      )
+    ).rejects.toThrow(
+      `Output 1 ${RECIPIENT} is a Bitcoin Testnet/Bitcoin Signet address, not Litecoin Mainnet`
+    );
+  });
+});
@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import * as bitcoin from 'bitcoinjs-lib';
+import { UTXO } from '../types/bitcoin';
+import { ChainNetwork, getBitcoinNetwork } from '../lib/networks';
+import { RBF_SEQUENCE } from '../lib/psbt-generator';
+import { FeeBumpRequest, createFeeBumpTransaction } from '../lib/rbf';
+
+const network = bitcoin.networks.testnet;
+const p2wpkh = (fill: number) =>
+  bitcoin.payments.p2wpkh({ hash: Buffer.alloc(20, fill), network }).address!;
+
+const FROM = p2wpkh(1);
+const RECIPIENT = p2wpkh(2);
+const fromScript = bitcoin.address.toOutputScript(FROM, network);
+
+// Funding transaction paying the from address
+function fund(value: number, fill: number): bitcoin.Transaction {
+  const tx = new bitcoin.Transaction();
+  tx.addInput(Buffer.alloc(32, fill), 0);
+  tx.addOutput(fromScript, value);
+  return tx;
+}
+
+// Unsigned 113 vB transaction paying 60,000 sats to the recipient and the
+// rest, less a 113 sat fee, back to the from address
+function spend(funding: bitcoin.Transaction, sequence = RBF_SEQUENCE) {
+  const tx = new bitcoin.Transaction();
+  tx.addInput(funding.getHash(), 0, sequence);
+  tx.addOutput(bitcoin.address.toOutputScript(RECIPIENT, network), 60_000);
+  tx.addOutput(fromScript, funding.outs[0].value - 60_000 - 113);
+  return tx;
+}
+
+function bumpRequest(
+  original: bitcoin.Transaction,
+  funding: bitcoin.Transaction[],
+  feeRate: number,
+  on: ChainNetwork = 'testnet'
+): FeeBumpRequest {
+  const hex = new Map(funding.map((tx) => [tx.getId(), tx.toHex()]));
+  return {
+    transaction: original.toHex(),
+    // The same script as FROM, on the chosen network
+    fromAddress: bitcoin.address.fromOutputScript(
+      fromScript,
+      getBitcoinNetwork(on)
+    ),
+    feeRate,
+    network: on,
+    fetchTransactionHex: async (txid) => hex.get(txid)!,
+  };
+}
+
+const utxo = (tx: bitcoin.Transaction, confirmed = true): UTXO => ({
+  txid: tx.getId(),
+  vout: 0,
+  value: tx.outs[0].value,
+  address: FROM,
+  status: { confirmed },
+});
+
+// Answer the coordinator's /api/tx proxy for the original transaction
+const stubConfirmed = (confirmed: boolean) =>
+  vi.stubGlobal(
+    'fetch',
+    vi.fn(
+      async () =>
+        new Response(JSON.stringify({ status: { status: { confirmed } } }))
+    )
+  );
+
+beforeEach(() => {
+  // The original is still in the mempool
+  stubConfirmed(false);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createFeeBumpTransaction', () => {
+  const funding = fund(100_000, 1);
+  const original = spend(funding);
+
+  it('pays the new rate out of the change', async () => {
+    const bump = await createFeeBumpTransaction(
+      bumpRequest(original, [funding], 5),
+      []
+    );
+
+    // One P2WPKH input paying two P2WPKH outputs is 141 vB
+    expect(bump.transactionSize).toBe(141);
+    expect(bump.estimatedFee).toBe(5 * 141);
+    expect(bump.changeAmount).toBe(100_000 - 60_000 - 5 * 141);
+    expect(bump.recipientAmount).toBe(60_000);
+    expect(bump.feeBump).toMatchObject({
+      method: 'rbf',
+      originalTxid: original.getId(),
+      originalFee: 113,
+      originalVsize: 113,
+      originalFeeRate: 1,
+      addedInputs: 0,
+    });
+  });
+
+  it('pays the original fee plus the incremental relay fee at least', async () => {
+    // 1.5 sat/vB is above the original rate but would add only 99 sats
+    const bump = await createFeeBumpTransaction(
+      bumpRequest(original, [funding], 1.5),
+      []
+    );
+
+    expect(bump.estimatedFee).toBe(113 + 141);
+  });
+
+  it('adds confirmed UTXOs when the change is not enough', async () => {
+    const small = fund(61_000, 2);
+    const extra = fund(50_000, 3);
+    const unconfirmed = fund(1_000_000, 4);
+
+    const bump = await createFeeBumpTransaction(
+      bumpRequest(spend(small), [small], 20),
+      [utxo(unconfirmed, false), utxo(extra)]
+    );
+
+    // Two inputs and two outputs are 209 vB
+    expect(bump.feeBump?.addedInputs).toBe(1);
+    expect(bump.utxosUsed.map((u) => u.txid)).toEqual([
+      small.getId(),
+      extra.getId(),
+    ]);
+    expect(bump.estimatedFee).toBe(20 * 209);
+    expect(bump.changeAmount).toBe(111_000 - 60_000 - 20 * 209);
+  });
+
+  it('refuses a transaction that does not signal replaceability', async () => {
+    const final = spend(funding, 0xffffffff);
+
+    await expect(
+      createFeeBumpTransaction(bumpRequest(final, [funding], 5), [])
+    ).rejects.toThrow('does not signal replace-by-fee (BIP125)');
+  });
+
+  it('refuses a fee rate that is not above the original', async () => {
+    await expect(
+      createFeeBumpTransaction(bumpRequest(original, [funding], 1), [])
+    ).rejects.toThrow('New fee rate must be above the original 1.00 sat/vB');
+  });
+
+  it('refuses a confirmed transaction', async () => {
+    stubConfirmed(true);
+
+    await expect(
+      createFeeBumpTransaction(bumpRequest(original, [funding], 5), [])
+    ).rejects.toThrow('is already confirmed');
+  });
+
+  it('gives change under the Litecoin dust limit to the fee', async () => {
+    // 3,000 sats of change; at 5 sat/vB 2,408 sats would be left, above
+    // Bitcoin's 546 sat dust limit but below Litecoin's 5,460
+    const funding = fund(60_000 + 113 + 3_000, 5);
+    const original = spend(funding);
+
+    const bitcoinBump = await createFeeBumpTransaction(
+      bumpRequest(original, [funding], 5),
+      []
+    );
+    expect(bitcoinBump.changeAmount).toBe(2_408);
+
+    const litecoinBump = await createFeeBumpTransaction(
+      bumpRequest(original, [funding], 5, 'ltc-testnet'),
+      []
+    );
+    expect(litecoinBump.totalOutputs).toBe(1);
+    expect(litecoinBump.changeAmount).toBe(0);
+    expect(litecoinBump.estimatedFee).toBe(3_113);
+  });
+});
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import * as bitcoin from 'bitcoinjs-lib';
+import { IDBFactory } from 'fake-indexeddb';
+import { UnsignedTransaction } from '../types/bitcoin';
+import { fetchUTXOs } from '../lib/bitcoin';
+import { getTransactionStatus } from '../lib/broadcast';
+import {
+  DROP_GRACE_MS,
+  FINAL_CONFIRMATIONS,
+  HistoryRecord,
+  getHistoryRecord,
+  needsStatusCheck,
+  recordBroadcast,
+  refreshHistoryRecord,
+} from '../lib/tx-history';
+
+vi.mock('../lib/broadcast', () => ({ getTransactionStatus: vi.fn() }));
+vi.mock('../lib/bitcoin', () => ({ fetchUTXOs: vi.fn() }));
+
+const network = bitcoin.networks.testnet;
+const ADDRESS = bitcoin.payments.p2wpkh({
+  hash: Buffer.alloc(20, 1),
+  network,
+}).address!;
+const FUNDING_TXID = '11'.repeat(32);
+const TXID = 'aa'.repeat(32);
+const BUMP_TXID = 'bb'.repeat(32);
+const NOW = Date.UTC(2026, 0, 1);
+
+// Unsigned transaction spending output 0 of the funding transaction
+function unsigned(
+  feeBump?: UnsignedTransaction['feeBump']
+): UnsignedTransaction {
+  const psbt = new bitcoin.Psbt({ network });
+  psbt.addInput({
+    hash: FUNDING_TXID,
+    index: 0,
+    witnessUtxo: {
+      script: bitcoin.address.toOutputScript(ADDRESS, network),
+      value: 50_000,
+    },
+  });
+  psbt.addOutput({ address: ADDRESS, value: 49_000 });
+  return {
+    psbt: psbt.toBase64(),
+    estimatedFee: 1_000,
+    changeAmount: 0,
+    utxosUsed: [],
+    transactionSize: 110,
+    feeRate: 'normal',
+    totalInputs: 1,
+    totalOutputs: 1,
+    totalInputValue: 50_000,
+    totalOutputValue: 49_000,
+    network: 'testnet',
+    timestamp: NOW,
+    feeBump,
+  };
+}
+
+const pending = (broadcastAt = NOW): HistoryRecord => ({
+  txid: TXID,
+  network: 'testnet',
+  transaction: unsigned(),
+  status: 'pending',
+  broadcastAt,
+});
+
+const notFound = () =>
+  vi.mocked(getTransactionStatus).mockResolvedValue({
+    success: false,
+    txid: TXID,
+    notFound: true,
+  });
+
+// The funding output is still in the address's UTXO set, or gone
+const fundingOutput = (unspent: boolean) =>
+  vi.mocked(fetchUTXOs).mockResolvedValue(
+    unspent
+      ? [
+          {
+            txid: FUNDING_TXID,
+            vout: 0,
+            value: 50_000,
+            address: ADDRESS,
+            status: { confirmed: true },
+          },
+        ]
+      : []
+  );
+
+beforeEach(() => {
+  // A fresh in-memory database for every test
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.resetAllMocks();
+});
+
+describe('refreshHistoryRecord', () => {
+  it('counts confirmations from the tip height', async () => {
+    vi.mocked(getTransactionStatus).mockResolvedValue({
+      success: true,
+      txid: TXID,
+      status: {
+        status: { confirmed: true, block_height: 100, block_time: 1_700 },
+      },
+      tipHeight: 102,
+    });
+
+    const updated = await refreshHistoryRecord(pending());
+    expect(updated).toMatchObject({
+      status: 'confirmed',
+      blockHeight: 100,
+      blockTime: 1_700,
+      confirmations: 3,
+      checkedAt: NOW,
+    });
+    expect(await getHistoryRecord(TXID)).toEqual(updated);
+  });
+
+  it('marks a transaction replaced once one of its inputs is spent', async () => {
+    notFound();
+    fundingOutput(false);
+
+    const updated = await refreshHistoryRecord(pending());
+    expect(updated.status).toBe('replaced');
+    expect(fetchUTXOs).toHaveBeenCalledWith(ADDRESS, 'testnet');
+  });
+
+  it('marks a transaction dropped only after the grace period', async () => {
+    notFound();
+    fundingOutput(true);
+
+    expect((await refreshHistoryRecord(pending())).status).toBe('pending');
+    const updated = await refreshHistoryRecord(
+      pending(NOW - DROP_GRACE_MS - 1)
+    );
+    expect(updated.status).toBe('dropped');
+  });
+
+  it('keeps the status when the backend fails', async () => {
+    vi.mocked(getTransactionStatus).mockResolvedValue({
+      success: false,
+      txid: TXID,
+      message: 'Transaction API returned 502',
+    });
+    const confirmed: HistoryRecord = {
+      ...pending(),
+      status: 'confirmed',
+      confirmations: 2,
+    };
+
+    expect(await refreshHistoryRecord(confirmed)).toEqual({
+      ...confirmed,
+      checkedAt: NOW,
+    });
+    expect(fetchUTXOs).not.toHaveBeenCalled();
+  });
+});
+
+describe('recordBroadcast', () => {
+  it('marks the transaction a fee bump replaces', async () => {
+    await recordBroadcast(unsigned(), TXID);
+    const bump = await recordBroadcast(
+      unsigned({
+        method: 'rbf',
+        originalTxid: TXID,
+        originalFee: 1_000,
+        originalVsize: 110,
+        originalFeeRate: 9.1,
+        newFee: 2_000,
+        newVsize: 110,
+        newFeeRate: 18.2,
+        addedInputs: 0,
+      }),
+      BUMP_TXID
+    );
+
+    expect(bump.status).toBe('pending');
+    expect(await getHistoryRecord(TXID)).toMatchObject({
+      status: 'replaced',
+      replacedBy: BUMP_TXID,
+    });
+  });
+});
+
+describe('needsStatusCheck', () => {
+  it('stops at the final confirmation count', () => {
+    const confirmed = (confirmations: number): HistoryRecord => ({
+      ...pending(),
+      status: 'confirmed',
+      confirmations,
+    });
+
+    expect(needsStatusCheck(pending())).toBe(true);
+    expect(needsStatusCheck(confirmed(FINAL_CONFIRMATIONS - 1))).toBe(true);
+    expect(needsStatusCheck(confirmed(FINAL_CONFIRMATIONS))).toBe(false);
+  });
+
+  it('stops once the replacement is known', () => {
+    const replaced: HistoryRecord = { ...pending(), status: 'replaced' };
+
+    expect(needsStatusCheck(replaced)).toBe(true);
+    expect(needsStatusCheck({ ...replaced, replacedBy: BUMP_TXID })).toBe(
+      false
+    );
+  });
+});
@@ -1,7 +1,15 @@
+import type { AccountKey } from '../lib/key-origin';
+import type { MultisigWallet } from '../lib/multisig';
+import type { CoinSelectionSummary } from '../lib/transaction-creator';
+import type { FeeBumpSummary } from '../lib/rbf';
+import type { Recipient } from '../lib/psbt-generator';
+import type { ChainNetwork } from '../lib/networks';
+
 export interface UTXO {
   txid: string;
   vout: number;
   value: number;
+  address?: string; // Owning address, set by fetchUTXOs
   status: {
     confirmed: boolean;
     block_height?: number;
@@ -17,6 +25,7 @@ export interface UnsignedTransaction {
   psbt: string; // Base64 encoded PSBT
   estimatedFee: number;
   changeAmount: number;
+  recipients?: Recipient[]; // Payment outputs after any fee subtraction
   utxosUsed: UTXO[];
   transactionSize: number;
   feeRate: string;
@@ -24,16 +33,20 @@ export interface UnsignedTransaction {
   totalOutputs: number;
   totalInputValue: number;
   totalOutputValue: number;
-  network: string;
+  network: ChainNetwork;
   timestamp: number;
+  coinSelection?: CoinSelectionSummary;
+  feeBump?: FeeBumpSummary; // Set when this replaces a stuck transaction
 }
 
 export interface TransactionRequest {
   fromAddress: string;
-  toAddress: string;
-  amountSatoshis: number;
+  recipients: Recipient[]; // One or more payment outputs
   feeRate?: 'slow' | 'normal' | 'fast' | 'priority';
-  network?: 'testnet' | 'mainnet';
+  network: ChainNetwork; // Every address must belong to it
+  publicKey?: string; // Hex; required for P2SH-P2WPKH and P2TR addresses
+  accountKey?: AccountKey; // Adds BIP32 derivations and a global xpub
+  multisig?: MultisigWallet; // Cosigner xpubs when the address is multisig
 }
 
 export interface FeeEstimate {
@@ -0,0 +1,77 @@
+import bs58check from 'bs58check';
+import { address as bitcoinAddress } from 'bitcoinjs-lib';
+import { ChainParams, Coin, listChainParams } from './params';
+
+export interface DecodedWIF {
+  version: number;
+  privateKey: Uint8Array;
+  compressed: boolean;
+}
+
+/**
+ * Decode a WIF private key without assuming a network
+ * @param wif - WIF private key
+ * @returns Version byte, private key and compression flag
+ */
+export function decodeWIF(wif: string): DecodedWIF {
+  let payload: Uint8Array;
+  try {
+    payload = bs58check.decode(wif.trim());
+  } catch {
+    throw new Error('Invalid WIF private key');
+  }
+  // Version byte, 32-byte key and the 0x01 flag of compressed keys
+  const compressed = payload.length === 34 && payload[33] === 0x01;
+  if (payload.length !== 33 && !compressed) {
+    throw new Error('Invalid WIF private key');
+  }
+  return {
+    version: payload[0],
+    privateKey: payload.slice(1, 33),
+    compressed,
+  };
+}
+
+/**
+ * Chains a WIF private key can belong to, read from its version byte.
+ * Bitcoin's test networks and Litecoin testnet share one version.
+ * @param wif - WIF private key
+ * @param coin - Only consider this coin
+ * @returns Matching chains, empty for unknown versions
+ */
+export function detectWIFNetworks(wif: string, coin?: Coin): ChainParams[] {
+  const { version } = decodeWIF(wif);
+  return listChainParams().filter(
+    (params) => params.wif === version && (!coin || params.coin === coin)
+  );
+}
+
+/**
+ * Chains an address can belong to: the version byte of a base58 address,
+ * or the human-readable part of a bech32 one
+ * @param address - Address
+ * @param coin - Only consider this coin
+ * @returns Matching chains, empty for invalid addresses
+ */
+export function detectAddressNetworks(
+  address: string,
+  coin?: Coin
+): ChainParams[] {
+  const trimmed = address.trim();
+  let matches: (params: ChainParams) => boolean;
+  try {
+    const { version } = bitcoinAddress.fromBase58Check(trimmed);
+    matches = (params) =>
+      params.pubKeyHash === version || params.scriptHash === version;
+  } catch {
+    try {
+      const { prefix } = bitcoinAddress.fromBech32(trimmed);
+      matches = (params) => params.bech32 === prefix;
+    } catch {
+      return [];
+    }
+  }
+  return listChainParams().filter(
+    (params) => matches(params) && (!coin || params.coin === coin)
+  );
+}
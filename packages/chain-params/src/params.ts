@@ -0,0 +1,182 @@
+import type { Network } from 'bitcoinjs-lib';
+
+export type Coin = 'bitcoin' | 'litecoin';
+export type NetworkName = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+export interface ChainParams {
+  coin: Coin;
+  network: NetworkName;
+  name: string; // e.g. "Litecoin Testnet"
+  unit: string; // Ticker; both coins count in units of 1e-8
+  bech32: string; // Human-readable part of segwit addresses
+  pubKeyHash: number; // Base58 version byte of P2PKH addresses
+  scriptHash: number; // Base58 version byte of P2SH addresses
+  wif: number; // Version byte of WIF private keys
+  bip32: { public: number; private: number }; // xpub/xprv versions
+  messagePrefix: string;
+  coinType: number; // SLIP-44; 1 on every test network
+  dustLimit: number; // Smallest output the wallets create, in satoshis
+}
+
+export const COINS: Coin[] = ['bitcoin', 'litecoin'];
+
+export const COIN_LABELS: Record<Coin, string> = {
+  bitcoin: 'Bitcoin',
+  litecoin: 'Litecoin',
+};
+
+export const NETWORK_LABELS: Record<NetworkName, string> = {
+  mainnet: 'Mainnet',
+  testnet: 'Testnet',
+  signet: 'Signet',
+  regtest: 'Regtest',
+};
+
+const BITCOIN_MESSAGE_PREFIX = '\x18Bitcoin Signed Message:\n';
+const LITECOIN_MESSAGE_PREFIX = '\x19Litecoin Signed Message:\n';
+
+// BIP32 versions; Litecoin wallets keep Bitcoin's xpub/tpub
+const MAINNET_BIP32 = { public: 0x0488b21e, private: 0x0488ade4 };
+const TESTNET_BIP32 = { public: 0x043587cf, private: 0x04358394 };
+
+const BITCOIN_TESTNET = {
+  coin: 'bitcoin',
+  unit: 'BTC',
+  bech32: 'tb',
+  pubKeyHash: 0x6f,
+  scriptHash: 0xc4,
+  wif: 0xef,
+  bip32: TESTNET_BIP32,
+  messagePrefix: BITCOIN_MESSAGE_PREFIX,
+  coinType: 1,
+  dustLimit: 546,
+} as const;
+
+/**
+ * Every supported chain, keyed by coin and network. Signet shares testnet's
+ * prefixes, and regtest differs only in its bech32 prefix.
+ */
+export const CHAIN_PARAMS: Record<
+  Coin,
+  Partial<Record<NetworkName, ChainParams>>
+> = {
+  bitcoin: {
+    mainnet: {
+      coin: 'bitcoin',
+      network: 'mainnet',
+      name: 'Bitcoin Mainnet',
+      unit: 'BTC',
+      bech32: 'bc',
+      pubKeyHash: 0x00,
+      scriptHash: 0x05,
+      wif: 0x80,
+      bip32: MAINNET_BIP32,
+      messagePrefix: BITCOIN_MESSAGE_PREFIX,
+      coinType: 0,
+      dustLimit: 546,
+    },
+    testnet: {
+      ...BITCOIN_TESTNET,
+      network: 'testnet',
+      name: 'Bitcoin Testnet',
+    },
+    signet: { ...BITCOIN_TESTNET, network: 'signet', name: 'Bitcoin Signet' },
+    regtest: {
+      ...BITCOIN_TESTNET,
+      network: 'regtest',
+      name: 'Bitcoin Regtest',
+      bech32: 'bcrt',
+    },
+  },
+  litecoin: {
+    mainnet: {
+      coin: 'litecoin',
+      network: 'mainnet',
+      name: 'Litecoin Mainnet',
+      unit: 'LTC',
+      bech32: 'ltc',
+      pubKeyHash: 0x30,
+      scriptHash: 0x32,
+      wif: 0xb0,
+      bip32: MAINNET_BIP32,
+      messagePrefix: LITECOIN_MESSAGE_PREFIX,
+      coinType: 2,
+      dustLimit: 5460,
+    },
+    testnet: {
+      coin: 'litecoin',
+      network: 'testnet',
+      name: 'Litecoin Testnet',
+      unit: 'LTC',
+      bech32: 'tltc',
+      pubKeyHash: 0x6f,
+      scriptHash: 0x3a,
+      wif: 0xef,
+      bip32: TESTNET_BIP32,
+      messagePrefix: LITECOIN_MESSAGE_PREFIX,
+      coinType: 1,
+      dustLimit: 5460,
+    },
+  },
+};
+
+/**
+ * Every supported chain
+ * @returns Chain parameters, Bitcoin networks first
+ */
+export function listChainParams(): ChainParams[] {
+  return COINS.flatMap((coin) =>
+    Object.values(CHAIN_PARAMS[coin]).filter(
+      (params): params is ChainParams => params !== undefined
+    )
+  );
+}
+
+/**
+ * Networks a coin runs on
+ * @param coin - Coin
+ * @returns Its networks, mainnet first
+ */
+export function getCoinNetworks(coin: Coin): NetworkName[] {
+  return Object.keys(CHAIN_PARAMS[coin]) as NetworkName[];
+}
+
+/**
+ * Parameters of one chain
+ * @param coin - Coin
+ * @param network - Network of the coin
+ * @returns Chain parameters
+ */
+export function getChainParams(coin: Coin, network: NetworkName): ChainParams {
+  const params = CHAIN_PARAMS[coin]?.[network];
+  if (!params) {
+    throw new Error(`Unsupported network: ${coin} ${network}`);
+  }
+  return params;
+}
+
+// One bitcoinjs-lib network object per chain, so they compare by identity
+const bitcoinjsNetworks = new Map<ChainParams, Network>();
+
+/**
+ * bitcoinjs-lib network parameters of a chain
+ * @param coin - Coin
+ * @param network - Network of the coin
+ * @returns Address, key and message prefixes
+ */
+export function getNetwork(coin: Coin, network: NetworkName): Network {
+  const params = getChainParams(coin, network);
+  let bitcoinjsNetwork = bitcoinjsNetworks.get(params);
+  if (!bitcoinjsNetwork) {
+    bitcoinjsNetwork = {
+      messagePrefix: params.messagePrefix,
+      bech32: params.bech32,
+      bip32: { ...params.bip32 },
+      pubKeyHash: params.pubKeyHash,
+      scriptHash: params.scriptHash,
+      wif: params.wif,
+    };
+    bitcoinjsNetworks.set(params, bitcoinjsNetwork);
+  }
+  return bitcoinjsNetwork;
+}
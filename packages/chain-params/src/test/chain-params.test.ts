@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { ECPairFactory } from 'ecpair';
+import * as ecc from 'tiny-secp256k1';
+import { networks, payments } from 'bitcoinjs-lib';
+import {
+  decodeWIF,
+  detectAddressNetworks,
+  detectWIFNetworks,
+  getChainParams,
+  getCoinNetworks,
+  getNetwork,
+} from '..';
+
+const ECPair = ECPairFactory(ecc);
+
+const chains = (list: { coin: string; network: string }[]) =>
+  list.map(({ coin, network }) => `${coin} ${network}`);
+
+describe('Chain parameters', () => {
+  it('matches the bitcoinjs-lib Bitcoin networks', () => {
+    expect(getNetwork('bitcoin', 'mainnet')).toEqual(networks.bitcoin);
+    expect(getNetwork('bitcoin', 'testnet')).toEqual(networks.testnet);
+    expect(getNetwork('bitcoin', 'regtest')).toEqual(networks.regtest);
+    expect(getNetwork('bitcoin', 'signet')).toEqual(networks.testnet);
+  });
+
+  it('returns the same network object for a chain', () => {
+    expect(getNetwork('litecoin', 'mainnet')).toBe(
+      getNetwork('litecoin', 'mainnet')
+    );
+  });
+
+  it('lists the networks of each coin', () => {
+    expect(getCoinNetworks('bitcoin')).toEqual([
+      'mainnet',
+      'testnet',
+      'signet',
+      'regtest',
+    ]);
+    expect(getCoinNetworks('litecoin')).toEqual(['mainnet', 'testnet']);
+    expect(() => getChainParams('litecoin', 'signet')).toThrow(
+      'Unsupported network: litecoin signet'
+    );
+  });
+
+  it('detects the network of a WIF key from its version byte', () => {
+    const key = ECPair.makeRandom();
+    const wif = (network: ReturnType<typeof getNetwork>, compressed = true) =>
+      ECPair.fromPrivateKey(key.privateKey!, { network, compressed }).toWIF();
+
+    const ltcMainnet = wif(getNetwork('litecoin', 'mainnet'));
+    expect(chains(detectWIFNetworks(ltcMainnet))).toEqual(['litecoin mainnet']);
+    expect(decodeWIF(ltcMainnet)).toMatchObject({
+      version: 0xb0,
+      compressed: true,
+    });
+
+    // Uncompressed keys start with '6' on Litecoin and '5' on Bitcoin
+    const uncompressed = wif(getNetwork('litecoin', 'mainnet'), false);
+    expect(uncompressed[0]).toBe('6');
+    expect(chains(detectWIFNetworks(uncompressed))).toEqual([
+      'litecoin mainnet',
+    ]);
+    expect(chains(detectWIFNetworks(wif(networks.bitcoin)))).toEqual([
+      'bitcoin mainnet',
+    ]);
+
+    // Test networks share the version byte; the coin tells them apart
+    const testnet = wif(networks.testnet);
+    expect(detectWIFNetworks(testnet)).toHaveLength(4);
+    expect(chains(detectWIFNetworks(testnet, 'litecoin'))).toEqual([
+      'litecoin testnet',
+    ]);
+  });
+
+  it('rejects invalid WIF keys', () => {
+    expect(() => decodeWIF('not-a-key')).toThrow('Invalid WIF private key');
+    expect(() =>
+      decodeWIF('ltc1qw508d6qejxtdg4y5r3zarvary0c5xw7kgmn4n9')
+    ).toThrow('Invalid WIF private key');
+  });
+
+  it('detects the network of an address', () => {
+    const pubkey = Buffer.from(ECPair.makeRandom().publicKey);
+    const address = (kind: 'p2pkh' | 'p2wpkh', coin: 'bitcoin' | 'litecoin') =>
+      payments[kind]({ pubkey, network: getNetwork(coin, 'mainnet') }).address!;
+
+    expect(
+      chains(detectAddressNetworks(address('p2wpkh', 'litecoin')))
+    ).toEqual(['litecoin mainnet']);
+    expect(chains(detectAddressNetworks(address('p2pkh', 'litecoin')))).toEqual(
+      ['litecoin mainnet']
+    );
+    expect(chains(detectAddressNetworks(address('p2wpkh', 'bitcoin')))).toEqual(
+      ['bitcoin mainnet']
+    );
+
+    const tltc = payments.p2wpkh({
+      pubkey,
+      network: getNetwork('litecoin', 'testnet'),
+    }).address!;
+    expect(chains(detectAddressNetworks(tltc))).toEqual(['litecoin testnet']);
+
+    // Legacy test addresses are the same on both coins
+    const legacy = payments.p2pkh({
+      pubkey,
+      network: networks.testnet,
+    }).address!;
+    expect(chains(detectAddressNetworks(legacy, 'litecoin'))).toEqual([
+      'litecoin testnet',
+    ]);
+    expect(detectAddressNetworks('not-an-address')).toEqual([]);
+  });
+});
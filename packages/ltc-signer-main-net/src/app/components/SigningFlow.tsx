@@ -1,10 +1,36 @@
 'use client';
 
 import { useState } from 'react';
-import { Card, Button, Input, TextArea, Status } from '@btc-wallet/ui';
-import { Eye, EyeOff, Copy, CheckCircle, Wallet } from 'lucide-react';
 import {
+  Card,
+  Button,
+  Input,
+  TextArea,
+  Status,
+  TransactionReview,
+} from '@btc-wallet/ui';
+import {
+  Eye,
+  EyeOff,
+  Copy,
+  CheckCircle,
+  Wallet,
+  Search,
+  ShieldAlert,
+} from 'lucide-react';
+import type { PSBTReview } from '@btc-wallet/wallet-generator';
+import { AuthVerificationModal } from './AuthVerificationModal';
+import { WalletDatabaseOperations } from '../libs/wallet-database-operations';
+import {
+  DAILY_CAP_WINDOW_MS,
+  PolicyViolation,
+  evaluateSpendingPolicy,
+} from '../libs/spending-policy';
+import {
+  getLTCKeyNetwork,
+  getLTCPSBTTxid,
   parseLTCPSBT,
+  reviewLTCPSBT,
   signLTCPSBT,
   validateLTCPrivateKey,
   getLTCSignedTransactionHex,
@@ -46,8 +72,13 @@ export function SigningFlow({
   const [error, setError] = useState<string>('');
   const [status, setStatus] = useState<string>('');
   const [step, setStep] = useState<
-    'input' | 'signing' | 'complete' | 'signatures'
+    'input' | 'review' | 'signing' | 'complete' | 'signatures'
   >('input');
+  const [review, setReview] = useState<PSBTReview.SpendReview | null>(null);
+  const [reviewConfirmed, setReviewConfirmed] = useState(false);
+  const [violations, setViolations] = useState<PolicyViolation[]>([]);
+  const [policyOverride, setPolicyOverride] = useState(false);
+  const [showOverrideAuth, setShowOverrideAuth] = useState(false);
 
   const [signedTxHex, setSignedTxHex] = useState<string>('');
   const [signatures, setSignatures] = useState<
@@ -55,41 +86,99 @@ export function SigningFlow({
   >(null);
 
   const wallet = importedWallet || createdWallet;
+  const policyBlocked = violations.length > 0 && !policyOverride;
+
+  // Check the spending policy before anything is signed
+  const checkSpendingPolicy = async (
+    spendReview: PSBTReview.SpendReview
+  ): Promise<PolicyViolation[]> => {
+    const policy = await WalletDatabaseOperations.getSpendingPolicy();
+    if (!policy) return [];
+    const spentInWindow = await WalletDatabaseOperations.getSpentSince(
+      new Date(Date.now() - DAILY_CAP_WINDOW_MS)
+    );
+    return evaluateSpendingPolicy(
+      spendReview,
+      policy,
+      spentInWindow,
+      getLTCKeyNetwork(privateKey.trim())
+    );
+  };
 
-  const handleSignTransaction = async () => {
+  // Count the signed spend toward the daily cap
+  const recordSpend = async (signedTxHex?: string) => {
+    if (!review) return;
     try {
-      if (!privateKey.trim()) {
-        setError('Please enter your private key');
-        return;
-      }
+      await WalletDatabaseOperations.createTransaction({
+        walletId: wallet?.id ?? 0,
+        txid: getLTCPSBTTxid(scannedData.trim()),
+        amount: review.sent,
+        confirmations: 0,
+        timestamp: new Date(),
+        type: 'send',
+        fee: review.fee,
+        status: 'pending',
+        rawTx: signedTxHex || undefined,
+      });
+    } catch (error) {
+      console.error('Failed to record LTC spend:', error);
+      setError(
+        'Signed, but the spend could not be recorded toward the daily cap'
+      );
+    }
+  };
 
-      if (!scannedData) {
-        setError('No PSBT data to sign');
-        return;
-      }
+  const handleReviewTransaction = async () => {
+    if (!privateKey.trim()) {
+      setError('Please enter your private key');
+      return;
+    }
 
-      // Validate private key format
-      if (!validateLTCPrivateKey(privateKey.trim())) {
-        setError('Invalid LTC private key format. Please check your WIF key.');
-        return;
-      }
+    if (!scannedData) {
+      setError('No PSBT data to sign');
+      return;
+    }
 
-      setIsSigning(true);
+    // Validate private key format
+    if (!validateLTCPrivateKey(privateKey.trim())) {
+      setError('Invalid LTC private key format. Please check your WIF key.');
+      return;
+    }
+
+    // Parse the PSBT first
+    let spendReview: PSBTReview.SpendReview;
+    try {
+      const parsedPsbtInfo = parseLTCPSBT(scannedData.trim());
+      spendReview = reviewLTCPSBT(scannedData.trim(), privateKey.trim());
+      setReview(spendReview);
+      setReviewConfirmed(false);
       setError('');
-      setStatus('Parsing PSBT...');
+      setStatus(
+        `PSBT parsed: ${parsedPsbtInfo.inputs} inputs, ${parsedPsbtInfo.outputs} outputs (${parsedPsbtInfo.network})`
+      );
+    } catch {
+      setError('Invalid PSBT format. Please scan a valid LTC PSBT QR code.');
+      return;
+    }
 
-      // Parse the PSBT first
-      try {
-        const parsedPsbtInfo = parseLTCPSBT(scannedData.trim());
-        setStatus(
-          `PSBT parsed: ${parsedPsbtInfo.inputs} inputs, ${parsedPsbtInfo.outputs} outputs (${parsedPsbtInfo.network})`
-        );
-      } catch {
-        setError('Invalid PSBT format. Please scan a valid LTC PSBT QR code.');
-        setIsSigning(false);
-        return;
-      }
+    try {
+      setViolations(await checkSpendingPolicy(spendReview));
+      setPolicyOverride(false);
+      setStep('review');
+    } catch (error) {
+      console.error('LTC spending policy check failed:', error);
+      setError('Could not check the spending policy. Signing is blocked.');
+    }
+  };
+
+  const handleSignTransaction = async () => {
+    // Nothing is signed until the user has approved the review and the
+    // policy passes or was overridden
+    if (!review || !reviewConfirmed || policyBlocked) return;
 
+    try {
+      setIsSigning(true);
+      setError('');
       setStatus('Signing transaction...');
 
       // Sign the PSBT with the private key
@@ -97,8 +186,9 @@ export function SigningFlow({
       setSignedPSBT(signedPSBT);
 
       // Extract the signed transaction hex
+      let txHex = '';
       try {
-        const txHex = getLTCSignedTransactionHex(signedPSBT);
+        txHex = getLTCSignedTransactionHex(signedPSBT);
         setSignedTxHex(txHex);
         setStatus(
           'Transaction signed successfully! Extracting transaction hex...'
@@ -107,6 +197,7 @@ export function SigningFlow({
         console.warn('Could not extract transaction hex:', hexError);
         setStatus('Transaction signed successfully! (Could not extract hex)');
       }
+      await recordSpend(txHex);
 
       setStep('complete');
     } catch (error) {
@@ -132,6 +223,8 @@ export function SigningFlow({
   };
 
   const handleGenerateSignatures = async () => {
+    if (!review || !reviewConfirmed || policyBlocked) return;
+
     try {
       if (!scannedData || !privateKey.trim()) {
         setError('No PSBT data or private key to generate signatures');
@@ -148,6 +241,7 @@ export function SigningFlow({
         privateKey.trim()
       );
       setSignatures(sigInfo);
+      await recordSpend();
       setStep('signatures');
       setStatus('Signatures generated successfully!');
     } catch (error) {
@@ -168,6 +262,10 @@ export function SigningFlow({
     setError('');
     setStatus('');
     setStep('input');
+    setReview(null);
+    setReviewConfirmed(false);
+    setViolations([]);
+    setPolicyOverride(false);
     setSignedTxHex('');
     setSignatures(null);
   };
@@ -233,7 +331,10 @@ export function SigningFlow({
               label="Private Key (WIF)"
               placeholder="Enter your WIF format private key"
               value={privateKey}
-              onChange={(e) => setPrivateKey(e.target.value)}
+              onChange={(e) => {
+                setPrivateKey(e.target.value);
+                setReviewConfirmed(false);
+              }}
               type={showPrivateKey ? 'text' : 'password'}
               helperText="Your private key to sign the transaction"
             />
@@ -250,20 +351,78 @@ export function SigningFlow({
           <Button onClick={onBack} variant="secondary">
             Back
           </Button>
+          <Button
+            onClick={handleReviewTransaction}
+            variant="primary"
+            disabled={!privateKey.trim()}
+          >
+            <Search size={20} />
+            Review Transaction
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+
+  const renderReviewStep = () => (
+    <div className="signing-review">
+      <Card title="Review Transaction" className="review-card">
+        {review && (
+          <TransactionReview
+            review={review}
+            unit="LTC"
+            confirmed={reviewConfirmed}
+            onConfirmedChange={setReviewConfirmed}
+          />
+        )}
+
+        {violations.length > 0 && (
+          <div className="policy-violations">
+            <div className="policy-violations-header">
+              <ShieldAlert size={20} />
+              <span>
+                {policyOverride
+                  ? 'Spending policy overridden after authentication'
+                  : 'Blocked by the spending policy'}
+              </span>
+            </div>
+            <ul>
+              {violations.map((violation) => (
+                <li key={`${violation.code}-${violation.message}`}>
+                  {violation.message}
+                </li>
+              ))}
+            </ul>
+            {!policyOverride && (
+              <Button
+                onClick={() => setShowOverrideAuth(true)}
+                variant="danger"
+                size="sm"
+              >
+                Override with Authentication
+              </Button>
+            )}
+          </div>
+        )}
+
+        <div className="signing-actions">
+          <Button onClick={() => setStep('input')} variant="secondary">
+            Back
+          </Button>
           <Button
             onClick={handleSignTransaction}
             loading={isSigning}
             variant="primary"
-            disabled={!privateKey.trim() || isSigning}
+            disabled={!reviewConfirmed || policyBlocked || isSigning}
           >
             <CheckCircle size={20} />
-            Sign Transaction
+            Confirm and Sign
           </Button>
           <Button
             onClick={handleGenerateSignatures}
             loading={isSigning}
             variant="secondary"
-            disabled={!privateKey.trim() || isSigning}
+            disabled={!reviewConfirmed || policyBlocked || isSigning}
           >
             <Copy size={20} />
             Generate Signatures Only
@@ -422,9 +581,21 @@ export function SigningFlow({
         )}
 
         {step === 'input' && renderInputStep()}
+        {step === 'review' && renderReviewStep()}
         {step === 'complete' && renderCompleteStep()}
         {step === 'signatures' && renderSignaturesStep()}
       </div>
+
+      <AuthVerificationModal
+        isOpen={showOverrideAuth}
+        onSuccess={() => {
+          setShowOverrideAuth(false);
+          setPolicyOverride(true);
+        }}
+        onClose={() => setShowOverrideAuth(false)}
+        title="Override Spending Policy"
+        message="Authenticate to sign a transaction the spending policy blocks"
+      />
     </div>
   );
 }
@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, Button, Input, TextArea, Status } from '@btc-wallet/ui';
+import { WalletDatabaseOperations } from '../libs/wallet-database-operations';
+import { buildDestinationAllowlist } from '../libs/spending-policy';
+import type { SpendingPolicy } from '../libs/wallet-database';
+
+interface SpendingPolicyEditorProps {
+  onBack: () => void;
+}
+
+interface PolicyForm {
+  maxAmount: string; // LTC
+  maxFeeRate: string; // sat/vB
+  dailyCap: string; // LTC
+  allowedDestinations: string; // One address or descriptor per line
+}
+
+const EMPTY_FORM: PolicyForm = {
+  maxAmount: '',
+  maxFeeRate: '',
+  dailyCap: '',
+  allowedDestinations: '',
+};
+
+const toLTCField = (litoshis?: number) =>
+  litoshis === undefined ? '' : String(litoshis / 1e8);
+
+/**
+ * Read an optional non-negative limit; blank means no limit
+ */
+function parseLimit(value: string, label: string): number | undefined {
+  if (!value.trim()) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`${label} must be a positive number`);
+  }
+  return parsed;
+}
+
+const toLitoshis = (ltc?: number) =>
+  ltc === undefined ? undefined : Math.round(ltc * 1e8);
+
+export function SpendingPolicyEditor({ onBack }: SpendingPolicyEditorProps) {
+  const [form, setForm] = useState<PolicyForm>(EMPTY_FORM);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [status, setStatus] = useState('');
+
+  useEffect(() => {
+    WalletDatabaseOperations.getSpendingPolicy()
+      .then((policy) => {
+        if (!policy) return;
+        setForm({
+          maxAmount: toLTCField(policy.maxAmount),
+          maxFeeRate:
+            policy.maxFeeRate === undefined ? '' : String(policy.maxFeeRate),
+          dailyCap: toLTCField(policy.dailyCap),
+          allowedDestinations: policy.allowedDestinations.join('\n'),
+        });
+      })
+      .catch(() => setError('Failed to load the spending policy'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError('');
+
+      const allowedDestinations = form.allowedDestinations
+        .split('\n')
+        .map((line) => line.trim())
+        .filter(Boolean);
+      // An entry must be readable on at least one network
+      const mainnet = buildDestinationAllowlist(allowedDestinations, 'mainnet');
+      const testnet = buildDestinationAllowlist(allowedDestinations, 'testnet');
+      const invalid = mainnet.invalid.filter((entry) =>
+        testnet.invalid.includes(entry)
+      );
+      if (invalid.length > 0) {
+        throw new Error(
+          `Not a Litecoin address or descriptor: ${invalid.join(', ')}`
+        );
+      }
+
+      const policy: Omit<SpendingPolicy, 'id' | 'updatedAt'> = {
+        maxAmount: toLitoshis(
+          parseLimit(form.maxAmount, 'Max per transaction')
+        ),
+        maxFeeRate: parseLimit(form.maxFeeRate, 'Max fee rate'),
+        dailyCap: toLitoshis(parseLimit(form.dailyCap, 'Daily cap')),
+        allowedDestinations,
+      };
+      await WalletDatabaseOperations.saveSpendingPolicy(policy);
+      setStatus('Spending policy saved');
+    } catch (saveError) {
+      setError(
+        saveError instanceof Error
+          ? saveError.message
+          : 'Failed to save the spending policy'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const update = (changes: Partial<PolicyForm>) =>
+    setForm((current) => ({ ...current, ...changes }));
+
+  return (
+    <div className="spending-policy">
+      {error && <Status message={error} type="error" />}
+      {status && <Status message={status} type="success" />}
+
+      <Card title="Spending Policy" className="spending-policy-card">
+        <p className="spending-policy-intro">
+          Every transaction is checked against these limits before it is signed.
+          Leave a field blank for no limit. Signing a transaction that breaks
+          the policy requires authenticating again.
+        </p>
+
+        <div className="spending-policy-fields">
+          <Input
+            label="Max per Transaction (LTC)"
+            type="number"
+            min={0}
+            step="any"
+            value={form.maxAmount}
+            onChange={(e) => update({ maxAmount: e.target.value })}
+            disabled={loading}
+            helperText="Amount sent to others; change is not counted"
+          />
+          <Input
+            label="Max Fee Rate (sat/vB)"
+            type="number"
+            min={0}
+            step="any"
+            value={form.maxFeeRate}
+            onChange={(e) => update({ maxFeeRate: e.target.value })}
+            disabled={loading}
+          />
+          <Input
+            label="Daily Cap (LTC)"
+            type="number"
+            min={0}
+            step="any"
+            value={form.dailyCap}
+            onChange={(e) => update({ dailyCap: e.target.value })}
+            disabled={loading}
+            helperText="Total signed in any rolling 24 hours"
+          />
+          <TextArea
+            label="Allowed Destinations"
+            value={form.allowedDestinations}
+            onChange={(e) => update({ allowedDestinations: e.target.value })}
+            rows={5}
+            disabled={loading}
+            placeholder="One address or descriptor per line"
+            helperText="Leave empty to allow any destination"
+          />
+        </div>
+
+        <div className="signing-actions">
+          <Button onClick={onBack} variant="secondary">
+            Back
+          </Button>
+          <Button
+            onClick={handleSave}
+            loading={saving}
+            variant="primary"
+            disabled={loading || saving}
+          >
+            Save Policy
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+}
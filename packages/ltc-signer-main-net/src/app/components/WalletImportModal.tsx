@@ -1,7 +1,7 @@
 'use client';
 
-import { useState, useCallback } from 'react';
-import { Button, Status } from '@btc-wallet/ui';
+import { useState, useCallback, useMemo } from 'react';
+import { Button, Status, useDebouncedValue } from '@btc-wallet/ui';
 import {
   Eye,
   EyeOff,
@@ -26,6 +26,34 @@ import {
 } from './modals';
 import type { OptionItem } from './modals';
 import { validateImportData } from '../utils/wallet-import-validation';
+import { BIP39 } from '@btc-wallet/wallet-generator';
+
+const LANGUAGE_LABELS: Record<BIP39.MnemonicLanguage, string> = {
+  english: 'English',
+  japanese: 'Japanese',
+  spanish: 'Spanish',
+  french: 'French',
+  italian: 'Italian',
+  portuguese: 'Portuguese',
+  czech: 'Czech',
+  korean: 'Korean',
+  chinese_simplified: 'Chinese (Simplified)',
+  chinese_traditional: 'Chinese (Traditional)',
+};
+
+// Diagnosing a long phrase tries every wordlist word at every position, so
+// it waits for a pause in typing
+const DIAGNOSIS_DELAY_MS = 500;
+
+// Checksum repairs can run to hundreds for 12-word phrases; only the most
+// likely few are offered as one-click fixes
+const MAX_REPAIRS_SHOWN = 8;
+
+function describeRepair(repair: BIP39.MnemonicRepair): string {
+  return repair.kind === 'replace'
+    ? `Word ${repair.index + 1} → ${repair.word}`
+    : `Insert ${repair.word} at ${repair.index + 1}`;
+}
 
 interface WalletImportModalProps {
   isOpen: boolean;
@@ -68,6 +96,38 @@ export function WalletImportModal({
     'mnemonic'
   );
   const [mnemonic, setMnemonic] = useState('');
+  const [isEditingMnemonic, setIsEditingMnemonic] = useState(false);
+  const [settledMnemonic, settleMnemonic] = useDebouncedValue(
+    mnemonic,
+    DIAGNOSIS_DELAY_MS
+  );
+  const detectedLanguage = useMemo(
+    () => (mnemonic.trim() ? BIP39.detectMnemonicLanguage(mnemonic) : null),
+    [mnemonic]
+  );
+  // A phrase one word short is usually one still being typed, so insertions
+  // are only searched once the field loses focus
+  const settledDiagnosis = useMemo(
+    () =>
+      settledMnemonic.trim()
+        ? BIP39.diagnoseMnemonic(settledMnemonic, undefined, {
+            insertions: !isEditingMnemonic,
+          })
+        : null,
+    [settledMnemonic, isEditingMnemonic]
+  );
+  const diagnosis = mnemonic === settledMnemonic ? settledDiagnosis : null;
+  const shownRepairs = useMemo(() => {
+    if (!diagnosis) return [];
+    // Fixes at the most suspicious positions first
+    const rank = (index: number) => {
+      const position = diagnosis.suspectPositions.indexOf(index);
+      return position === -1 ? Infinity : position;
+    };
+    return [...diagnosis.repairs]
+      .sort((a, b) => rank(a.index) - rank(b.index))
+      .slice(0, MAX_REPAIRS_SHOWN);
+  }, [diagnosis]);
   const [privateKey, setPrivateKey] = useState('');
   const [passphrase, setPassphrase] = useState('');
   const [walletName, setWalletName] = useState('');
@@ -111,9 +171,15 @@ export function WalletImportModal({
         passphrase: passphrase || undefined,
       };
 
-      return validateImportData(importData);
+      // Reuse the diagnosis shown in the form when it is of this phrase
+      return validateImportData(
+        importData,
+        type === 'mnemonic' && value === settledMnemonic
+          ? (settledDiagnosis ?? undefined)
+          : undefined
+      );
     },
-    []
+    [settledMnemonic, settledDiagnosis]
   );
 
   const createWalletFromImport = useCallback(async (importData: ImportData) => {
@@ -239,6 +305,21 @@ export function WalletImportModal({
     createWalletFromImport,
   ]);
 
+  const replaceMnemonicWord = useCallback(
+    (index: number, word: string) => {
+      const words = BIP39.normalizeMnemonic(mnemonic).split(' ');
+      words[index] = word;
+      setMnemonic(words.join(' '));
+      setError('');
+    },
+    [mnemonic]
+  );
+
+  const applyRepair = useCallback((repair: BIP39.MnemonicRepair) => {
+    setMnemonic(repair.mnemonic);
+    setError('');
+  }, []);
+
   const handleBack = useCallback(() => {
     if (step === 'name-input') {
       setStep('import-input');
@@ -343,13 +424,65 @@ export function WalletImportModal({
                   id="mnemonic"
                   value={mnemonic}
                   onChange={(e) => setMnemonic(e.target.value)}
+                  onFocus={() => setIsEditingMnemonic(true)}
+                  onBlur={() => {
+                    setIsEditingMnemonic(false);
+                    settleMnemonic();
+                  }}
                   placeholder="Enter your 12, 15, 18, 21, or 24 word mnemonic phrase"
                   className="mnemonic-textarea"
                   rows={4}
                 />
                 <p className="input-helper">
-                  Enter the words separated by spaces
+                  {detectedLanguage
+                    ? `Detected wordlist: ${LANGUAGE_LABELS[detectedLanguage]}`
+                    : 'Enter the words separated by spaces, in any BIP39 language'}
                 </p>
+                {diagnosis && !diagnosis.valid && (
+                  <div className="mnemonic-diagnosis">
+                    {diagnosis.unknownWords.map(
+                      ({ index, word, suggestions }) => (
+                        <div key={index} className="diagnosis-row">
+                          <span className="diagnosis-label">
+                            Word {index + 1} &ldquo;{word}&rdquo;
+                            {suggestions.length ? ':' : ' has no close match'}
+                          </span>
+                          {suggestions.map((suggestion) => (
+                            <button
+                              key={suggestion}
+                              type="button"
+                              className="suggestion-chip"
+                              onClick={() =>
+                                replaceMnemonicWord(index, suggestion)
+                              }
+                            >
+                              {suggestion}
+                            </button>
+                          ))}
+                        </div>
+                      )
+                    )}
+                    {shownRepairs.length > 0 && (
+                      <div className="diagnosis-row">
+                        <span className="diagnosis-label">
+                          {diagnosis.repairs.length} single-word{' '}
+                          {diagnosis.repairs.length === 1 ? 'fix' : 'fixes'}{' '}
+                          give a valid checksum:
+                        </span>
+                        {shownRepairs.map((repair) => (
+                          <button
+                            key={`${repair.kind}-${repair.index}-${repair.word}`}
+                            type="button"
+                            className="suggestion-chip"
+                            onClick={() => applyRepair(repair)}
+                          >
+                            {describeRepair(repair)}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
 
                 <label htmlFor="passphrase" className="input-label">
                   Passphrase (optional)
@@ -404,15 +537,15 @@ export function WalletImportModal({
                   {isImporting
                     ? 'Importing...'
                     : importType === 'mnemonic'
-                    ? 'Import from Recovery Phrase'
-                    : 'Import from Private Key'}
+                      ? 'Import from Recovery Phrase'
+                      : 'Import from Private Key'}
                 </h4>
                 <p>
                   {isImporting
                     ? 'Processing your wallet data...'
                     : importType === 'mnemonic'
-                    ? 'Import your wallet using recovery phrase'
-                    : 'Import your wallet using private key'}
+                      ? 'Import your wallet using recovery phrase'
+                      : 'Import your wallet using private key'}
                 </p>
               </div>
               <ArrowLeft size={20} className="icon-right" />
@@ -2,6 +2,7 @@ export { AuthSetupModal } from './AuthSetupModal';
 export { AuthVerificationModal } from './AuthVerificationModal';
 export { HelperModal } from './HelperModal';
 export { SigningFlow } from './SigningFlow';
+export { SpendingPolicyEditor } from './SpendingPolicyEditor';
 export { WalletCreationModal } from './WalletCreationModal';
 export { WalletImportModal } from './WalletImportModal';
 export { WalletSelectorModal } from './WalletSelectorModal';
@@ -0,0 +1,262 @@
+import { describe, it, expect } from 'vitest';
+import * as bitcoin from 'bitcoinjs-lib';
+import {
+  BIP32,
+  BIP39,
+  Descriptors,
+  PSBTReview,
+} from '@btc-wallet/wallet-generator';
+import {
+  buildDestinationAllowlist,
+  DESCRIPTOR_LOOKAHEAD,
+  evaluateSpendingPolicy,
+} from '../spending-policy';
+import { getLTCNetwork } from '../ltc-wallet';
+import type { SpendingPolicy } from '../wallet-database';
+
+const MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+const network = getLTCNetwork('testnet');
+
+async function accountKeys() {
+  const seed = await BIP39.mnemonicToSeed(MNEMONIC);
+  const root = BIP32.deriveNodeFromSeed(seed, 'testnet');
+  const account = root.derivePath("m/84'/1'/0'");
+  const key = (change: number, index: number) => {
+    const pubkey = Buffer.from(account.derive(change).derive(index).publicKey);
+    const { output, address } = bitcoin.payments.p2wpkh({ pubkey, network });
+    return {
+      pubkey,
+      script: output!,
+      address: address!,
+      path: `m/84'/1'/0'/${change}/${index}`,
+    };
+  };
+  return {
+    fingerprint: Buffer.from(root.fingerprint),
+    xpub: account.neutered().toBase58(),
+    key,
+  };
+}
+
+function policy(overrides: Partial<SpendingPolicy> = {}): SpendingPolicy {
+  return { allowedDestinations: [], updatedAt: new Date(), ...overrides };
+}
+
+function output(
+  index: number,
+  value: number,
+  overrides: Partial<PSBTReview.ReviewedOutput> = {}
+): PSBTReview.ReviewedOutput {
+  return {
+    index,
+    script: `0014${String(index).padStart(2, '0').repeat(20)}`,
+    value,
+    isChange: false,
+    ...overrides,
+  };
+}
+
+function review(
+  outputs: PSBTReview.ReviewedOutput[],
+  overrides: Partial<PSBTReview.SpendReview> = {}
+): PSBTReview.SpendReview {
+  const totalOutput = outputs.reduce((sum, o) => sum + o.value, 0);
+  const change = outputs
+    .filter((o) => o.isChange)
+    .reduce((sum, o) => sum + o.value, 0);
+  return {
+    inputs: [],
+    outputs,
+    totalInput: totalOutput + 1_000,
+    totalOutput,
+    sent: totalOutput - change,
+    change,
+    fee: 1_000,
+    vsize: 141,
+    feeRate: 1_000 / 141,
+    signableInputs: 1,
+    warnings: [],
+    ...overrides,
+  };
+}
+
+const codes = (violations: { code: string }[]) => violations.map((v) => v.code);
+
+describe('evaluateSpendingPolicy', () => {
+  it('allows a transaction within every limit', () => {
+    const violations = evaluateSpendingPolicy(
+      review([output(0, 50_000), output(1, 49_000, { isChange: true })]),
+      policy({ maxAmount: 50_000, maxFeeRate: 10, dailyCap: 100_000 }),
+      50_000,
+      'testnet'
+    );
+    expect(violations).toEqual([]);
+  });
+
+  it('limits the amount sent per transaction, change excluded', () => {
+    const tx = review([
+      output(0, 60_000),
+      output(1, 500_000, { isChange: true }),
+    ]);
+    const violations = evaluateSpendingPolicy(
+      tx,
+      policy({ maxAmount: 50_000 }),
+      0,
+      'testnet'
+    );
+    expect(codes(violations)).toEqual(['max-amount']);
+    expect(violations[0].message).toContain('0.00060000 LTC');
+  });
+
+  it('limits the fee rate and refuses an unknown one', () => {
+    const rules = policy({ maxFeeRate: 5 });
+    expect(
+      codes(
+        evaluateSpendingPolicy(review([output(0, 1_000)]), rules, 0, 'testnet')
+      )
+    ).toEqual(['max-fee-rate']);
+    expect(
+      evaluateSpendingPolicy(
+        review([output(0, 1_000)], { fee: undefined, feeRate: undefined }),
+        rules,
+        0,
+        'testnet'
+      )[0].message
+    ).toMatch(/unknown/);
+  });
+
+  it('sums the amount already sent in the rolling window toward the daily cap', () => {
+    const tx = review([output(0, 40_000)]);
+    const rules = policy({ dailyCap: 100_000 });
+
+    expect(evaluateSpendingPolicy(tx, rules, 60_000, 'testnet')).toEqual([]);
+    const violations = evaluateSpendingPolicy(tx, rules, 60_001, 'testnet');
+    expect(codes(violations)).toEqual(['daily-cap']);
+    expect(violations[0].message).toContain('0.00100001 LTC');
+  });
+
+  it('checks every payment against the destination allowlist', async () => {
+    const keys = await accountKeys();
+    const allowed = keys.key(0, 0);
+    const tx = review([
+      output(0, 10_000, { script: allowed.script.toString('hex') }),
+      output(1, 20_000, { address: 'tltc1qstranger' }),
+      output(2, 30_000, { isChange: true }),
+      output(3, 0), // OP_RETURN carries no value
+    ]);
+
+    const violations = evaluateSpendingPolicy(
+      tx,
+      policy({ allowedDestinations: [allowed.address] }),
+      0,
+      'testnet'
+    );
+    expect(codes(violations)).toEqual(['destination']);
+    expect(violations[0].message).toContain('tltc1qstranger');
+  });
+
+  it('counts spoofed multisig change toward every rule', async () => {
+    const keys = await accountKeys();
+    const ours = keys.key(0, 0);
+    const change = keys.key(1, 0);
+    const attacker = BIP32.deriveNodeFromSeed(Buffer.alloc(32, 7), 'testnet');
+    const redeem = bitcoin.payments.p2ms({
+      m: 1,
+      pubkeys: [change.pubkey, Buffer.from(attacker.publicKey)],
+    });
+
+    const psbt = new bitcoin.Psbt({ network });
+    psbt.addInput({
+      hash: '11'.repeat(32),
+      index: 0,
+      witnessUtxo: { script: ours.script, value: 100_000 },
+    });
+    psbt.addOutput({ address: ours.address, value: 1_000 });
+    psbt.addOutput({
+      script: bitcoin.payments.p2wsh({ redeem }).output!,
+      value: 98_000,
+      witnessScript: redeem.output,
+      bip32Derivation: [
+        {
+          masterFingerprint: keys.fingerprint,
+          pubkey: change.pubkey,
+          path: change.path,
+        },
+      ],
+    });
+
+    const spend = PSBTReview.reviewPSBT(psbt.toBase64(), {
+      network,
+      publicKey: change.pubkey,
+    });
+    const violations = evaluateSpendingPolicy(
+      spend,
+      policy({
+        maxAmount: 10_000,
+        allowedDestinations: [ours.address],
+        dailyCap: 10_000,
+      }),
+      0,
+      'testnet'
+    );
+    expect(codes(violations)).toEqual([
+      'max-amount',
+      'destination',
+      'daily-cap',
+    ]);
+  });
+});
+
+describe('buildDestinationAllowlist', () => {
+  it('resolves addresses to their output scripts', async () => {
+    const keys = await accountKeys();
+    const { address, script } = keys.key(0, 3);
+
+    const allowlist = buildDestinationAllowlist(
+      [` ${address} `, ''],
+      'testnet'
+    );
+    expect([...allowlist.scripts]).toEqual([script.toString('hex')]);
+    expect(allowlist.invalid).toEqual([]);
+  });
+
+  it('rejects entries of another network or no format at all', async () => {
+    const keys = await accountKeys();
+    const { address } = keys.key(0, 0);
+
+    const allowlist = buildDestinationAllowlist(
+      [address, 'not-an-address', 'wpkh(nope)'],
+      'mainnet'
+    );
+    expect(allowlist.scripts.size).toBe(0);
+    expect(allowlist.invalid).toEqual([
+      address,
+      'not-an-address',
+      'wpkh(nope)',
+    ]);
+  });
+
+  it('expands descriptors to the first addresses of each branch', async () => {
+    const keys = await accountKeys();
+    const descriptor = Descriptors.buildDescriptor({
+      kind: 'p2wpkh',
+      xpub: keys.xpub,
+    });
+
+    const { scripts, invalid } = buildDestinationAllowlist(
+      [descriptor],
+      'testnet'
+    );
+    expect(invalid).toEqual([]);
+    expect(scripts.size).toBe(2 * DESCRIPTOR_LOOKAHEAD);
+    expect(scripts.has(keys.key(0, 0).script.toString('hex'))).toBe(true);
+    expect(
+      scripts.has(keys.key(1, DESCRIPTOR_LOOKAHEAD - 1).script.toString('hex'))
+    ).toBe(true);
+    expect(
+      scripts.has(keys.key(0, DESCRIPTOR_LOOKAHEAD).script.toString('hex'))
+    ).toBe(false);
+  });
+});
@@ -1,28 +1,75 @@
 import * as bitcoin from 'bitcoinjs-lib';
 import { ECPairFactory } from 'ecpair';
 import * as tinysecp from 'tiny-secp256k1';
+import { PSBTReview } from '@btc-wallet/wallet-generator';
+import {
+  detectWIFNetworks,
+  getChainParams,
+  getNetwork,
+} from '@btc-wallet/chain-params';
 import { LTCPSBTInfo, LTCSignature, LTCNetwork } from '../types/ltc-psbt';
 
 const ECPair = ECPairFactory(tinysecp);
 
 // Litecoin network configurations
 const LTC_NETWORKS = {
-  mainnet: {
-    ...bitcoin.networks.bitcoin,
-    bech32: 'ltc',
-    pubKeyHash: 0x30, // L
-    scriptHash: 0x32, // 3
-    wif: 0xb0, // 6
-  },
-  testnet: {
-    ...bitcoin.networks.testnet,
-    bech32: 'tltc',
-    pubKeyHash: 0x6f, // m/n
-    scriptHash: 0xc4, // 2
-    wif: 0xef, // 9
-  },
+  mainnet: getNetwork('litecoin', 'mainnet'),
+  testnet: getNetwork('litecoin', 'testnet'),
 };
 
+/**
+ * Network a private key belongs to, read from its WIF version byte
+ * @param privateKeyWIF - WIF format private key
+ * @returns 'mainnet' or 'testnet'
+ */
+export function getLTCKeyNetwork(privateKeyWIF: string): LTCNetwork {
+  const [params] = detectWIFNetworks(privateKeyWIF, 'litecoin');
+  if (!params) {
+    throw new Error('Not a Litecoin private key');
+  }
+  return params.network as LTCNetwork;
+}
+
+/**
+ * Network a PSBT was built for. Scripts carry no network, so this reads the
+ * account xpubs and key paths the coordinator adds; without them the PSBT
+ * counts as mainnet.
+ * @param psbt - Parsed PSBT
+ * @returns 'mainnet' or 'testnet'
+ */
+function getLTCPSBTNetwork(psbt: bitcoin.Psbt): LTCNetwork {
+  const testnet = getChainParams('litecoin', 'testnet');
+  const mainnet = getChainParams('litecoin', 'mainnet');
+  const [xpub] = psbt.data.globalMap.globalXpub ?? [];
+  if (xpub) {
+    const version = Buffer.from(xpub.extendedPubkey).readUInt32BE(0);
+    return version === testnet.bip32.public ? 'testnet' : 'mainnet';
+  }
+  for (const input of psbt.data.inputs) {
+    for (const { path } of input.bip32Derivation ?? []) {
+      // m/purpose'/coin_type'/...
+      const coinType = path.split('/')[2];
+      if (coinType === `${testnet.coinType}'`) return 'testnet';
+      if (coinType === `${mainnet.coinType}'`) return 'mainnet';
+    }
+  }
+  return 'mainnet';
+}
+
+/**
+ * Txid of the transaction a PSBT spends in, before signing
+ * @param psbtBase64 - Base64 encoded PSBT string
+ * @returns Transaction ID; final once signed when every input is segwit
+ */
+export function getLTCPSBTTxid(psbtBase64: string): string {
+  const psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
+    network: LTC_NETWORKS.mainnet,
+  });
+  return bitcoin.Transaction.fromBuffer(
+    psbt.data.globalMap.unsignedTx.toBuffer()
+  ).getId();
+}
+
 /**
  * Parse LTC PSBT and extract basic information
  * @param psbtBase64 - Base64 encoded PSBT string
@@ -38,24 +85,10 @@ export function parseLTCPSBT(psbtBase64: string): LTCPSBTInfo {
   }
 
   try {
-    // Try mainnet first, then testnet
-    let psbt: bitcoin.Psbt;
-    let network: LTCNetwork = 'mainnet';
-
-    try {
-      psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
-        network: LTC_NETWORKS.mainnet,
-      });
-    } catch {
-      try {
-        psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
-          network: LTC_NETWORKS.testnet,
-        });
-        network = 'testnet';
-      } catch {
-        throw new Error('Invalid LTC PSBT format for both mainnet and testnet');
-      }
-    }
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
+      network: LTC_NETWORKS.mainnet,
+    });
+    const network = getLTCPSBTNetwork(psbt);
 
     // Get basic info
     const inputs = psbt.data.inputs.length;
@@ -82,6 +115,27 @@ export function parseLTCPSBT(psbtBase64: string): LTCPSBTInfo {
   }
 }
 
+/**
+ * Decode what signing an LTC PSBT would approve, before any signature
+ * @param psbtBase64 - Base64 encoded PSBT string
+ * @param privateKeyWIF - WIF format private key
+ * @returns Recipients, fee, change paying back to the key, and warnings
+ */
+export function reviewLTCPSBT(
+  psbtBase64: string,
+  privateKeyWIF: string
+): PSBTReview.SpendReview {
+  // Determine network from private key
+  const network = getLTCKeyNetwork(privateKeyWIF);
+
+  const ltcNetwork = LTC_NETWORKS[network];
+  const keyPair = ECPair.fromWIF(privateKeyWIF, ltcNetwork);
+  return PSBTReview.reviewPSBT(psbtBase64, {
+    network: ltcNetwork,
+    publicKey: keyPair.publicKey,
+  });
+}
+
 /**
  * Sign LTC PSBT with private key
  * @param psbtBase64 - Base64 encoded PSBT string
@@ -91,33 +145,22 @@ export function parseLTCPSBT(psbtBase64: string): LTCPSBTInfo {
 export function signLTCPSBT(psbtBase64: string, privateKeyWIF: string): string {
   try {
     // Determine network from private key
-    const network: LTCNetwork =
-      privateKeyWIF.startsWith('6') || privateKeyWIF.startsWith('9')
-        ? 'testnet'
-        : 'mainnet';
+    const network = getLTCKeyNetwork(privateKeyWIF);
 
     const ltcNetwork = LTC_NETWORKS[network];
     const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: ltcNetwork });
     const keyPair = ECPair.fromWIF(privateKeyWIF, ltcNetwork);
 
-    // Sign all inputs that can be signed with this key
-    for (let i = 0; i < psbt.data.inputs.length; i++) {
-      try {
-        // Use the signer interface properly
-        const signer = {
-          publicKey: Buffer.from(keyPair.publicKey),
-          sign: (hash: Buffer) => Buffer.from(keyPair.sign(hash)),
-        };
-        psbt.signInput(i, signer);
-      } catch {
-        // Skip inputs that can't be signed with this key
-        if (
-          typeof window !== 'undefined' &&
-          window.location.hostname === 'localhost'
-        ) {
-          console.log(`Could not sign LTC input ${i}`);
-        }
-      }
+    // Sign all inputs the review shows as signable, taproot ones included
+    const signed = PSBTReview.signPSBTInputs(psbt, keyPair);
+
+    if (
+      typeof window !== 'undefined' &&
+      window.location.hostname === 'localhost'
+    ) {
+      psbt.data.inputs.forEach((_, i) => {
+        if (!signed.includes(i)) console.log(`Could not sign LTC input ${i}`);
+      });
     }
 
     return psbt.toBase64();
@@ -139,10 +182,7 @@ export function extractLTCSignatures(
 ): LTCSignature[] {
   try {
     // Determine network from private key
-    const network: LTCNetwork =
-      privateKeyWIF.startsWith('6') || privateKeyWIF.startsWith('9')
-        ? 'testnet'
-        : 'mainnet';
+    const network = getLTCKeyNetwork(privateKeyWIF);
 
     const ltcNetwork = LTC_NETWORKS[network];
     const psbt = bitcoin.Psbt.fromBase64(psbtBase64, { network: ltcNetwork });
@@ -191,18 +231,11 @@ export function extractLTCSignatures(
  */
 export function validateLTCPrivateKey(privateKeyWIF: string): boolean {
   try {
-    // Try both mainnet and testnet
-    try {
-      ECPair.fromWIF(privateKeyWIF, LTC_NETWORKS.mainnet);
-      return true;
-    } catch {
-      try {
-        ECPair.fromWIF(privateKeyWIF, LTC_NETWORKS.testnet);
-        return true;
-      } catch {
-        return false;
-      }
-    }
+    ECPair.fromWIF(
+      privateKeyWIF,
+      LTC_NETWORKS[getLTCKeyNetwork(privateKeyWIF)]
+    );
+    return true;
   } catch {
     return false;
   }
@@ -215,19 +248,9 @@ export function validateLTCPrivateKey(privateKeyWIF: string): boolean {
  */
 export function getLTCSignedTransactionHex(signedPSBT: string): string {
   try {
-    // Try both networks to find the correct one
-    let psbt: bitcoin.Psbt;
-
-    try {
-      psbt = bitcoin.Psbt.fromBase64(signedPSBT, {
-        network: LTC_NETWORKS.mainnet,
-      });
-    } catch {
-      psbt = bitcoin.Psbt.fromBase64(signedPSBT, {
-        network: LTC_NETWORKS.testnet,
-      });
-    }
-
+    const psbt = bitcoin.Psbt.fromBase64(signedPSBT, {
+      network: LTC_NETWORKS.mainnet,
+    });
     psbt.finalizeAllInputs();
     const tx = psbt.extractTransaction();
     return tx.toHex();
@@ -250,31 +273,17 @@ export function validateLTCPSBT(psbtBase64: string): {
   network: LTCNetwork | null;
 } {
   try {
-    // Try mainnet first
-    try {
-      const psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
-        network: LTC_NETWORKS.mainnet,
-      });
-      return {
-        isValid: true,
-        message: 'LTC PSBT is valid for mainnet',
-        inputCount: psbt.data.inputs.length,
-        outputCount: psbt.data.outputs.length,
-        network: 'mainnet',
-      };
-    } catch {
-      // Try testnet
-      const psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
-        network: LTC_NETWORKS.testnet,
-      });
-      return {
-        isValid: true,
-        message: 'LTC PSBT is valid for testnet',
-        inputCount: psbt.data.inputs.length,
-        outputCount: psbt.data.outputs.length,
-        network: 'testnet',
-      };
-    }
+    const psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
+      network: LTC_NETWORKS.mainnet,
+    });
+    const network = getLTCPSBTNetwork(psbt);
+    return {
+      isValid: true,
+      message: `LTC PSBT is valid for ${network}`,
+      inputCount: psbt.data.inputs.length,
+      outputCount: psbt.data.outputs.length,
+      network,
+    };
   } catch (error) {
     return {
       isValid: false,
@@ -301,20 +310,10 @@ export function getLTCPSBTDetails(psbtBase64: string): {
   feeSatoshis: number;
   network: LTCNetwork;
 } {
-  // Try both networks to find the correct one
-  let psbt: bitcoin.Psbt;
-  let network: LTCNetwork = 'mainnet';
-
-  try {
-    psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
-      network: LTC_NETWORKS.mainnet,
-    });
-  } catch {
-    psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
-      network: LTC_NETWORKS.testnet,
-    });
-    network = 'testnet';
-  }
+  const psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
+    network: LTC_NETWORKS.mainnet,
+  });
+  const network = getLTCPSBTNetwork(psbt);
 
   let totalInputValue = 0;
   let totalOutputValue = 0;
@@ -353,18 +352,9 @@ export function exportLTCPSBTFormats(psbtBase64: string): {
   hex: string;
   json: unknown;
 } {
-  // Try both networks to find the correct one
-  let psbt: bitcoin.Psbt;
-
-  try {
-    psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
-      network: LTC_NETWORKS.mainnet,
-    });
-  } catch {
-    psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
-      network: LTC_NETWORKS.testnet,
-    });
-  }
+  const psbt = bitcoin.Psbt.fromBase64(psbtBase64, {
+    network: LTC_NETWORKS.mainnet,
+  });
 
   return {
     base64: psbt.toBase64(),
@@ -1,27 +1,15 @@
 import * as ecc from 'tiny-secp256k1';
 import { BIP32Factory } from 'bip32';
 import { ECPairFactory } from 'ecpair';
-import { networks, payments, Network } from 'bitcoinjs-lib';
+import { payments, Network } from 'bitcoinjs-lib';
+import { detectAddressNetworks, getNetwork } from '@btc-wallet/chain-params';
 
 const bip32 = BIP32Factory(ecc);
 const ECPair = ECPairFactory(ecc);
 
 // Litecoin network configuration
-export const litecoinMainnet: Network = {
-  ...networks.bitcoin,
-  bech32: 'ltc',
-  pubKeyHash: 0x30, // Litecoin mainnet pubkey hash
-  scriptHash: 0x32, // Litecoin mainnet script hash
-  wif: 0xb0, // Litecoin mainnet WIF
-};
-
-export const litecoinTestnet: Network = {
-  ...networks.testnet,
-  bech32: 'tltc',
-  pubKeyHash: 0x6f, // Litecoin testnet pubkey hash
-  scriptHash: 0x3a, // Litecoin testnet script hash
-  wif: 0xef, // Litecoin testnet WIF
-};
+export const litecoinMainnet: Network = getNetwork('litecoin', 'mainnet');
+export const litecoinTestnet: Network = getNetwork('litecoin', 'testnet');
 
 export type AddressKind = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh';
 export type NetworkType = 'mainnet' | 'testnet';
@@ -255,22 +243,6 @@ export function isValidLTCWIF(
 
 // Helper function to validate Litecoin address
 export function isValidLTCAddress(address: string): boolean {
-  try {
-    // Try to decode the address
-    if (
-      address.startsWith('L') ||
-      address.startsWith('M') ||
-      address.startsWith('3')
-    ) {
-      // Legacy or P2SH addresses
-      return true;
-    } else if (address.startsWith('ltc1') || address.startsWith('tltc1')) {
-      // Bech32 addresses
-      return true;
-    }
-
-    return false;
-  } catch {
-    return false;
-  }
+  // Base58 version byte or bech32 prefix of either Litecoin network
+  return detectAddressNetworks(address, 'litecoin').length > 0;
 }
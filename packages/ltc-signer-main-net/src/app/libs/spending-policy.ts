@@ -0,0 +1,150 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { BIP32, Descriptors, PSBTReview } from '@btc-wallet/wallet-generator';
+import { getLTCNetwork, NetworkType } from './ltc-wallet';
+import type { SpendingPolicy } from './wallet-database';
+
+export type PolicyViolationCode =
+  'max-amount' | 'max-fee-rate' | 'destination' | 'daily-cap';
+
+export interface PolicyViolation {
+  code: PolicyViolationCode;
+  message: string;
+}
+
+export interface DestinationAllowlist {
+  scripts: Set<string>; // Output scripts (hex) the policy allows
+  invalid: string[]; // Entries that are neither an address nor a descriptor
+}
+
+// The daily cap covers any rolling 24 hours
+export const DAILY_CAP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Addresses derived on each branch of a ranged descriptor
+export const DESCRIPTOR_LOOKAHEAD = 100;
+
+const formatLTC = (litoshis: number) => `${(litoshis / 1e8).toFixed(8)} LTC`;
+
+/**
+ * Output scripts of one allowlist descriptor. Scripts do not depend on the
+ * network, so the descriptor's Bitcoin addresses stand in for Litecoin ones.
+ * @param descriptor - Single-key output descriptor, optionally multipath
+ * @returns Output scripts (hex) of its first addresses
+ */
+function descriptorScripts(descriptor: string): string[] {
+  return Descriptors.expandMultipath(descriptor).flatMap((branch) => {
+    const parsed = Descriptors.parseDescriptor(branch);
+    const network = BIP32.getNetwork(parsed.network);
+    const count = parsed.key.wildcard ? DESCRIPTOR_LOOKAHEAD : 1;
+    return Array.from({ length: count }, (_, index) => {
+      const { address } = Descriptors.deriveDescriptorAddress(parsed, {
+        index,
+      });
+      return bitcoin.address.toOutputScript(address, network).toString('hex');
+    });
+  });
+}
+
+/**
+ * Resolve allowlist entries to the output scripts they allow
+ * @param entries - Litecoin addresses or output descriptors
+ * @param networkType - Network the addresses are decoded for
+ * @returns Allowed scripts, and the entries that could not be read
+ */
+export function buildDestinationAllowlist(
+  entries: string[],
+  networkType: NetworkType
+): DestinationAllowlist {
+  const network = getLTCNetwork(networkType);
+  const scripts = new Set<string>();
+  const invalid: string[] = [];
+
+  for (const entry of entries.map((e) => e.trim()).filter(Boolean)) {
+    try {
+      if (entry.includes('(')) {
+        descriptorScripts(entry).forEach((script) => scripts.add(script));
+      } else {
+        scripts.add(
+          bitcoin.address.toOutputScript(entry, network).toString('hex')
+        );
+      }
+    } catch {
+      invalid.push(entry);
+    }
+  }
+  return { scripts, invalid };
+}
+
+/**
+ * Check a reviewed transaction against the spending policy
+ * @param review - Decoded PSBT, with change already told apart
+ * @param policy - Spending policy
+ * @param spentInWindow - Amount signed in the current daily cap window
+ * @param networkType - Network of the signing key
+ * @returns Every rule the transaction breaks; empty when it may be signed
+ */
+export function evaluateSpendingPolicy(
+  review: PSBTReview.SpendReview,
+  policy: SpendingPolicy,
+  spentInWindow: number,
+  networkType: NetworkType
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+
+  if (policy.maxAmount !== undefined && review.sent > policy.maxAmount) {
+    violations.push({
+      code: 'max-amount',
+      message: `Sends ${formatLTC(review.sent)}, above the ${formatLTC(
+        policy.maxAmount
+      )} limit per transaction`,
+    });
+  }
+
+  if (policy.maxFeeRate !== undefined) {
+    if (review.feeRate === undefined) {
+      violations.push({
+        code: 'max-fee-rate',
+        message: 'Fee rate is unknown, so the fee rate limit cannot be checked',
+      });
+    } else if (review.feeRate > policy.maxFeeRate) {
+      violations.push({
+        code: 'max-fee-rate',
+        message: `Fee rate of ${review.feeRate.toFixed(1)} sat/vB is above the ${
+          policy.maxFeeRate
+        } sat/vB limit`,
+      });
+    }
+  }
+
+  if (policy.allowedDestinations.length > 0) {
+    const { scripts } = buildDestinationAllowlist(
+      policy.allowedDestinations,
+      networkType
+    );
+    review.outputs
+      .filter((output) => !output.isChange && output.value > 0)
+      .forEach((output) => {
+        if (!scripts.has(output.script)) {
+          violations.push({
+            code: 'destination',
+            message: `${
+              output.address ?? `Output ${output.index + 1}`
+            } is not an allowed destination`,
+          });
+        }
+      });
+  }
+
+  if (
+    policy.dailyCap !== undefined &&
+    spentInWindow + review.sent > policy.dailyCap
+  ) {
+    violations.push({
+      code: 'daily-cap',
+      message: `Brings the last 24 hours to ${formatLTC(
+        spentInWindow + review.sent
+      )}, above the ${formatLTC(policy.dailyCap)} daily cap`,
+    });
+  }
+
+  return violations;
+}
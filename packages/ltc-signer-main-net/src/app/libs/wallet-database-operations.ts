@@ -3,6 +3,7 @@ import {
   Wallet,
   Transaction,
   EncryptionMetadata,
+  SpendingPolicy,
 } from './wallet-database';
 import { WalletEncryption } from './wallet-encryption';
 
@@ -347,6 +348,57 @@ export class WalletDatabaseOperations {
     }
   }
 
+  /**
+   * Get the amount sent by transactions signed since a point in time
+   */
+  static async getSpentSince(since: Date): Promise<number> {
+    try {
+      const sends = await walletDB.transactions
+        .where('timestamp')
+        .aboveOrEqual(since)
+        .filter((tx) => tx.type === 'send' && tx.status !== 'failed')
+        .toArray();
+      return sends.reduce((sum, tx) => sum + tx.amount, 0);
+    } catch (error) {
+      console.error('❌ Failed to get spent amount:', error);
+      throw error;
+    }
+  }
+
+  // ===== SPENDING POLICY OPERATIONS =====
+
+  /**
+   * Get the spending policy, if one has been set
+   */
+  static async getSpendingPolicy(): Promise<SpendingPolicy | undefined> {
+    try {
+      return await walletDB.spendingPolicy.toCollection().first();
+    } catch (error) {
+      console.error('❌ Failed to get spending policy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the spending policy
+   */
+  static async saveSpendingPolicy(
+    policy: Omit<SpendingPolicy, 'id' | 'updatedAt'>
+  ): Promise<SpendingPolicy> {
+    try {
+      const saved: SpendingPolicy = { ...policy, updatedAt: new Date() };
+      await walletDB.transaction('rw', walletDB.spendingPolicy, async () => {
+        await walletDB.spendingPolicy.clear();
+        saved.id = await walletDB.spendingPolicy.add(saved);
+      });
+      console.log('✅ Spending policy saved successfully');
+      return saved;
+    } catch (error) {
+      console.error('❌ Failed to save spending policy:', error);
+      throw error;
+    }
+  }
+
   // ===== UTILITY OPERATIONS =====
 
   /**
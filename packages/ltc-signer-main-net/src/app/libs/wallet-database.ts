@@ -42,11 +42,22 @@ export interface EncryptionMetadata {
   createdAt: Date;
 }
 
+// Spending policy interface; a single record guards every signature
+export interface SpendingPolicy {
+  id?: number;
+  maxAmount?: number; // Litoshis sent per transaction, change excluded
+  maxFeeRate?: number; // sat/vB
+  allowedDestinations: string[]; // Addresses or descriptors; empty allows any
+  dailyCap?: number; // Litoshis sent in any rolling 24 hours
+  updatedAt: Date;
+}
+
 // Database class extending Dexie
 export class WalletDatabase extends Dexie {
   wallets!: Table<Wallet>;
   transactions!: Table<Transaction>;
   encryptionMetadata!: Table<EncryptionMetadata>;
+  spendingPolicy!: Table<SpendingPolicy>;
 
   constructor() {
     super('WalletDatabase');
@@ -74,6 +85,16 @@ export class WalletDatabase extends Dexie {
         '++id, walletId, txid, timestamp, status, type, blockHeight',
       encryptionMetadata: '++id, walletId, algorithm, createdAt',
     });
+
+    // Add spending policy
+    this.version(4).stores({
+      wallets:
+        '++id, name, address, network, cryptoType, isActive, createdAt, updatedAt',
+      transactions:
+        '++id, walletId, txid, timestamp, status, type, blockHeight',
+      encryptionMetadata: '++id, walletId, algorithm, createdAt',
+      spendingPolicy: '++id',
+    });
   }
 
   // Initialize database
@@ -115,11 +136,17 @@ export class WalletDatabase extends Dexie {
     try {
       await this.transaction(
         'rw',
-        [this.wallets, this.transactions, this.encryptionMetadata],
+        [
+          this.wallets,
+          this.transactions,
+          this.encryptionMetadata,
+          this.spendingPolicy,
+        ],
         async () => {
           await this.wallets.clear();
           await this.transactions.clear();
           await this.encryptionMetadata.clear();
+          await this.spendingPolicy.clear();
         }
       );
       console.log('✅ All database data cleared successfully');
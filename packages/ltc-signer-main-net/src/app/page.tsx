@@ -7,6 +7,7 @@ import {
   WalletImportModal,
   WalletCreationModal,
   SigningFlow,
+  SpendingPolicyEditor,
   AuthSetupModal,
   HelperModal,
   AuthVerificationModal,
@@ -15,9 +16,17 @@ import {
 import { QRScannerModal } from '@btc-wallet/ui';
 // TestControlPanel import removed for production
 import { useAuth } from './contexts/AuthContext';
-import { QrCode, Upload, Plus, ArrowLeft, Wallet } from 'lucide-react';
+import {
+  QrCode,
+  Upload,
+  Plus,
+  ArrowLeft,
+  Wallet,
+  ShieldCheck,
+} from 'lucide-react';
 
-type AppMode = 'main' | 'scan' | 'scan-qr' | 'import' | 'create' | 'signing';
+type AppMode =
+  'main' | 'scan' | 'scan-qr' | 'import' | 'create' | 'signing' | 'policy';
 
 interface Wallet {
   id?: number;
@@ -432,6 +441,44 @@ export default function LTCMainPage() {
               </button>
             </Card>
           </div>
+
+          <div
+            className="action-card policy-card clickable"
+            onClick={() => requireAuth(() => setCurrentMode('policy'))}
+            role="button"
+            tabIndex={0}
+            aria-label="Spending Policy - Set limits checked before every signature"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ' ') {
+                e.preventDefault();
+                requireAuth(() => setCurrentMode('policy'));
+              }
+            }}
+          >
+            <Card className="card-content-wrapper">
+              <div className="card-content">
+                <div className="card-icon" aria-hidden="true">
+                  <ShieldCheck size={48} />
+                </div>
+                <h3>Spending Policy</h3>
+              </div>
+              <button
+                className="helper-icon"
+                onClick={(e) =>
+                  handleHelperClick(
+                    'Spending Policy',
+                    'Set a maximum per transaction, a maximum fee rate, allowed destination addresses or descriptors, and a daily cap. Transactions that break the policy are blocked unless you authenticate again to override it.',
+                    e
+                  )
+                }
+                aria-label="Get help about the spending policy"
+                type="button"
+                tabIndex={0}
+              >
+                ?
+              </button>
+            </Card>
+          </div>
         </div>
       </div>
 
@@ -554,6 +601,24 @@ export default function LTCMainPage() {
     </div>
   );
 
+  const renderPolicyScreen = () => (
+    <div className="scan-screen">
+      <div className="screen-header">
+        <Button
+          onClick={handleBackToMain}
+          variant="ghost"
+          className="back-button"
+        >
+          <ArrowLeft size={20} />
+          Back
+        </Button>
+        <h2>Spending Policy</h2>
+      </div>
+
+      <SpendingPolicyEditor onBack={handleBackToMain} />
+    </div>
+  );
+
   const renderCurrentMode = () => {
     console.log('🔍 renderCurrentMode called with currentMode:', currentMode);
     console.log('🔍 selectedWalletForSigning state:', selectedWalletForSigning);
@@ -574,6 +639,9 @@ export default function LTCMainPage() {
       case 'signing':
         console.log('🔍 Rendering signing screen');
         return renderSigningScreen();
+      case 'policy':
+        console.log('🔍 Rendering policy screen');
+        return renderPolicyScreen();
       default:
         console.log('🔍 Rendering main screen (default)');
         return renderMainScreen();
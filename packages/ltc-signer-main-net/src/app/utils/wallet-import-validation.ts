@@ -3,66 +3,35 @@
  * Validates mnemonic phrases and private keys for wallet import
  */
 
+import { BIP39 } from '@btc-wallet/wallet-generator';
+import { detectWIFNetworks } from '@btc-wallet/chain-params';
+
 export interface ValidationResult {
   isValid: boolean;
   errors: string[];
 }
 
 /**
- * Validates a mnemonic phrase for wallet import
+ * Validates a mnemonic phrase for wallet import.
+ * The wordlist language is detected automatically, so phrases in any
+ * official BIP39 language (Spanish, Japanese, ...) are accepted. Errors name
+ * the offending word positions and suggest corrections where possible.
+ * Pass the diagnosis the import form already made to skip a second one.
  */
-export function validateMnemonic(mnemonic: string): ValidationResult {
-  const errors: string[] = [];
-
+export function validateMnemonic(
+  mnemonic: string,
+  diagnosis?: BIP39.MnemonicDiagnosis
+): ValidationResult {
   // Check if mnemonic is empty
   if (!mnemonic || !mnemonic.trim()) {
-    errors.push('Mnemonic phrase is required');
-    return { isValid: false, errors };
+    return { isValid: false, errors: ['Mnemonic phrase is required'] };
   }
 
-  const trimmedMnemonic = mnemonic.trim();
-
-  // Split into words and validate
-  const words = trimmedMnemonic.split(/\s+/);
-
-  // Check word count (BIP39 supports 12, 15, 18, 21, 24 words)
-  const validWordCounts = [12, 15, 18, 21, 24];
-  if (!validWordCounts.includes(words.length)) {
-    errors.push(
-      `Invalid word count: ${words.length}. Expected 12, 15, 18, 21, or 24 words`
-    );
-  }
-
-  // Check for empty words
-  if (words.some((word) => !word)) {
-    errors.push('Mnemonic phrase contains empty words');
-  }
-
-  // Basic word format validation (letters only, no special characters except hyphens)
-  const invalidWords = words.filter((word) => !/^[a-zA-Z-]+$/.test(word));
-  if (invalidWords.length > 0) {
-    errors.push(
-      `Invalid word format: ${invalidWords.slice(0, 3).join(', ')}${
-        invalidWords.length > 3 ? '...' : ''
-      }`
-    );
-  }
-
-  // Check for duplicate words (common mistake)
-  const uniqueWords = new Set(words);
-  if (uniqueWords.size !== words.length) {
-    errors.push('Mnemonic phrase contains duplicate words');
-  }
-
-  // Check minimum word length (BIP39 words are at least 3 characters)
-  const shortWords = words.filter((word) => word.length < 3);
-  if (shortWords.length > 0) {
-    errors.push(
-      `Some words are too short: ${shortWords.slice(0, 3).join(', ')}${
-        shortWords.length > 3 ? '...' : ''
-      }`
-    );
-  }
+  // Word count, wordlist membership and checksum
+  const errors = BIP39.describeMnemonicProblems(
+    diagnosis ??
+      BIP39.diagnoseMnemonic(mnemonic, undefined, { insertions: false })
+  );
 
   return {
     isValid: errors.length === 0,
@@ -100,11 +69,13 @@ export function validatePrivateKey(privateKey: string): ValidationResult {
     );
   }
 
-  // Basic WIF validation - should start with specific prefixes
-  if (trimmedKey.length >= 1) {
-    const firstChar = trimmedKey[0];
-    // Litecoin mainnet WIF starts with 'T' (0xb0), testnet with 'c' (0xef)
-    if (!['T', 'c', 'L', 'K'].includes(firstChar)) {
+  // The version byte must be Litecoin mainnet (0xb0) or testnet (0xef)
+  if (errors.length === 0) {
+    try {
+      if (detectWIFNetworks(trimmedKey, 'litecoin').length === 0) {
+        errors.push('Private key is not a Litecoin key');
+      }
+    } catch {
       errors.push('Private key does not appear to be in valid WIF format');
     }
   }
@@ -145,19 +116,25 @@ export function validatePassphrase(passphrase: string): ValidationResult {
 /**
  * Comprehensive validation for wallet import data
  */
-export function validateImportData(data: {
-  type: 'mnemonic' | 'private-key';
-  mnemonic?: string;
-  privateKey?: string;
-  passphrase?: string;
-}): ValidationResult {
+export function validateImportData(
+  data: {
+    type: 'mnemonic' | 'private-key';
+    mnemonic?: string;
+    privateKey?: string;
+    passphrase?: string;
+  },
+  mnemonicDiagnosis?: BIP39.MnemonicDiagnosis
+): ValidationResult {
   const errors: string[] = [];
 
   if (data.type === 'mnemonic') {
     if (!data.mnemonic) {
       errors.push('Mnemonic is required for mnemonic import');
     } else {
-      const mnemonicValidation = validateMnemonic(data.mnemonic);
+      const mnemonicValidation = validateMnemonic(
+        data.mnemonic,
+        mnemonicDiagnosis
+      );
       errors.push(...mnemonicValidation.errors);
     }
   } else if (data.type === 'private-key') {
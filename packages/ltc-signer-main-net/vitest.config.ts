@@ -5,6 +5,7 @@ export default defineConfig({
   test: {
     globals: true,
     environment: 'jsdom',
+    environmentMatchGlobs: [['src/app/libs/**', 'node']],
     setupFiles: ['./src/app/test/setup.ts'],
     coverage: {
       provider: 'v8',
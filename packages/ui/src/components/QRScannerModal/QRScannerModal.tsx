@@ -2,9 +2,12 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
 import jsQR from 'jsqr';
+import { URDecoder } from '@ngraveio/bc-ur';
 import { Camera, AlertTriangle } from 'lucide-react';
 import { Button } from '../Button';
 import styles from './QRScannerModal.module.css';
+import { isURPart, urToScanResult } from './multipart';
+import type { MultipartProgress } from './multipart';
 
 export interface QRScannerModalProps {
   isOpen: boolean;
@@ -22,11 +25,14 @@ export function QRScannerModal({
   const [error, setError] = useState<string>('');
   const [isInitializing, setIsInitializing] = useState(false);
   const [isScanning, setIsScanning] = useState(false);
+  const [progress, setProgress] = useState<MultipartProgress | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const scanIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const hasInitializedRef = useRef(false);
+  // Collects animated BC-UR frames until the payload is reassembled
+  const urDecoderRef = useRef<URDecoder | null>(null);
 
   const cleanupCamera = useCallback(() => {
     if (scanIntervalRef.current) {
@@ -41,10 +47,36 @@ export function QRScannerModal({
       videoRef.current.srcObject = null;
     }
     hasInitializedRef.current = false;
+    urDecoderRef.current = null;
+    setProgress(null);
     setIsInitializing(false);
     setIsScanning(false);
   }, []);
 
+  // Feeds one BC-UR frame to the decoder. Returns the decoded payload once
+  // every fragment has arrived, or null while frames are still needed.
+  const receiveURPart = useCallback((part: string): string | null => {
+    const decoder = urDecoderRef.current ?? new URDecoder();
+    urDecoderRef.current = decoder;
+    decoder.receivePart(part);
+
+    if (decoder.isError()) {
+      urDecoderRef.current = null;
+      throw new Error(decoder.resultError());
+    }
+    if (!decoder.isComplete()) {
+      setProgress({
+        received: decoder.receivedPartIndexes().length,
+        expected: decoder.expectedPartCount(),
+        percent: Math.round(decoder.estimatedPercentComplete() * 100),
+      });
+      return null;
+    }
+    urDecoderRef.current = null;
+    setProgress(null);
+    return urToScanResult(decoder.resultUR());
+  }, []);
+
   const startQRScanning = useCallback(() => {
     if (scanIntervalRef.current) {
       clearInterval(scanIntervalRef.current as unknown as number);
@@ -85,6 +117,26 @@ export function QRScannerModal({
               );
             }
 
+            if (isURPart(code.data)) {
+              let payload: string | null;
+              try {
+                payload = receiveURPart(code.data.trim());
+              } catch (err) {
+                cleanupCamera();
+                setError(
+                  `Multi-part QR error: ${
+                    err instanceof Error ? err.message : 'Unknown error'
+                  }`
+                );
+                return;
+              }
+              if (payload === null) return;
+              onScanResult(payload);
+              cleanupCamera();
+              onClose();
+              return;
+            }
+
             const cleanData = code.data.trim().replace(/[\s\n\r\t]/g, '');
             try {
               JSON.parse(cleanData);
@@ -103,7 +155,7 @@ export function QRScannerModal({
         }
       }
     }, 100);
-  }, [onScanResult, onClose, cleanupCamera]);
+  }, [onScanResult, onClose, cleanupCamera, receiveURPart]);
 
   const initializeCamera = useCallback(async () => {
     if (isInitializing || hasInitializedRef.current) return;
@@ -420,10 +472,20 @@ export function QRScannerModal({
                     <div className={styles.scanCorner}></div>
                   </div>
                   <p className={styles.scanText}>
-                    {isScanning
-                      ? 'Scanning for QR code...'
-                      : 'Position the QR code within the frame'}
+                    {progress
+                      ? `Animated QR: ${progress.received} of ${progress.expected} parts`
+                      : isScanning
+                        ? 'Scanning for QR code...'
+                        : 'Position the QR code within the frame'}
                   </p>
+                  {progress && (
+                    <div className={styles.progressTrack}>
+                      <div
+                        className={styles.progressFill}
+                        style={{ width: `${progress.percent}%` }}
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -0,0 +1,27 @@
+import { UR } from '@ngraveio/bc-ur';
+
+export interface MultipartProgress {
+  received: number;
+  expected: number;
+  percent: number;
+}
+
+export function isURPart(data: string): boolean {
+  return data.trim().toLowerCase().startsWith('ur:');
+}
+
+/**
+ * Convert a reassembled UR into the string consumers already expect:
+ * base64 for `crypto-psbt`, UTF-8 text for plain `bytes`.
+ */
+export function urToScanResult(ur: UR): string {
+  const payload = ur.decodeCBOR();
+  switch (ur.type) {
+    case 'crypto-psbt':
+      return payload.toString('base64');
+    case 'bytes':
+      return payload.toString('utf8');
+    default:
+      throw new Error(`Unsupported UR type: ${ur.type}`);
+  }
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import styles from './TransactionReview.module.css';
+
+// What a signer decoded from a PSBT, as produced by the wallet-generator
+// PSBT review; amounts in the coin's smallest unit
+export interface ReviewSummary {
+  sent: number;
+  fee?: number;
+  feeRate?: number; // sat/vB
+  change: number;
+  signableInputs: number;
+  inputs: unknown[];
+  outputs: Array<{
+    index: number;
+    address?: string;
+    value: number;
+    isChange: boolean;
+    path?: string;
+  }>;
+  warnings: Array<{ message: string }>;
+}
+
+export interface TransactionReviewProps {
+  review: ReviewSummary;
+  unit: string; // e.g. 'BTC' or 'LTC'
+  confirmed: boolean;
+  onConfirmedChange: (confirmed: boolean) => void;
+}
+
+export function TransactionReview({
+  review,
+  unit,
+  confirmed,
+  onConfirmedChange,
+}: TransactionReviewProps) {
+  const formatAmount = (amount: number) =>
+    `${(amount / 1e8).toFixed(8)} ${unit}`;
+
+  return (
+    <div className={styles.review}>
+      <div className={styles.list}>
+        <div className={styles.row}>
+          <span className={styles.label}>Sending</span>
+          <span className={styles.value}>{formatAmount(review.sent)}</span>
+        </div>
+        <div className={styles.row}>
+          <span className={styles.label}>Network Fee</span>
+          <span className={styles.value}>
+            {review.fee !== undefined ? formatAmount(review.fee) : 'Unknown'}
+          </span>
+        </div>
+        <div className={styles.row}>
+          <span className={styles.label}>Fee Rate</span>
+          <span className={styles.value}>
+            {review.feeRate !== undefined
+              ? `${review.feeRate.toFixed(1)} sat/vB`
+              : 'Unknown'}
+          </span>
+        </div>
+        <div className={styles.row}>
+          <span className={styles.label}>Change</span>
+          <span className={styles.value}>{formatAmount(review.change)}</span>
+        </div>
+        <div className={styles.row}>
+          <span className={styles.label}>Inputs Signed</span>
+          <span className={styles.value}>
+            {review.signableInputs} of {review.inputs.length}
+          </span>
+        </div>
+      </div>
+
+      <div className={styles.list}>
+        {review.outputs.map((output) => (
+          <div key={output.index} className={styles.output}>
+            <div className={styles.row}>
+              <span className={styles.label}>
+                {output.isChange
+                  ? `Change${output.path ? ` (${output.path})` : ''}`
+                  : `Recipient ${output.index + 1}`}
+              </span>
+              <span className={styles.value}>
+                {formatAmount(output.value)}
+              </span>
+            </div>
+            <span className={styles.address}>
+              {output.address ?? 'Non-standard script (no address)'}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {review.warnings.length > 0 && (
+        <ul className={styles.warnings}>
+          {review.warnings.map((warning, index) => (
+            <li key={index}>
+              <AlertTriangle size={16} />
+              <span>{warning.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <label className={styles.confirm}>
+        <input
+          type="checkbox"
+          checked={confirmed}
+          onChange={(e) => onConfirmedChange(e.target.checked)}
+        />
+        <span>
+          {review.warnings.length > 0
+            ? 'I understand the warnings and approve this transaction'
+            : 'I have checked the recipients, amounts and fee'}
+        </span>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+export { TransactionReview } from './TransactionReview';
+export type {
+  TransactionReviewProps,
+  ReviewSummary,
+} from './TransactionReview';
@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Follow a value once it has stopped changing, for work too slow to run on
+ * every keystroke
+ * @param value - Latest value, e.g. the text of an input
+ * @param delayMs - Quiet time before the value settles
+ * @returns The settled value, and a function that settles it at once (on blur)
+ */
+export function useDebouncedValue<T>(
+  value: T,
+  delayMs: number
+): [T, () => void] {
+  const [settled, setSettled] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSettled(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  const settle = useCallback(() => setSettled(value), [value]);
+  return [settled, settle];
+}
@@ -19,6 +19,14 @@ export { default as MainContainer } from './components/MainContainer';
 export { default as Status } from './components/Status';
 export { QRScannerModal } from './components/QRScannerModal';
 export type { QRScannerModalProps } from './components/QRScannerModal';
+export { TransactionReview } from './components/TransactionReview';
+export type {
+  TransactionReviewProps,
+  ReviewSummary,
+} from './components/TransactionReview';
+
+// Hooks
+export { useDebouncedValue } from './hooks/useDebouncedValue';
 
 // Style exports
 export * from './utils/styles';
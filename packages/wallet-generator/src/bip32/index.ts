@@ -1,12 +1,17 @@
 import * as ecc from 'tiny-secp256k1';
-import { BIP32Factory } from 'bip32';
-import { networks, payments, Network } from 'bitcoinjs-lib';
+import { BIP32Factory, BIP32Interface } from 'bip32';
+import { initEccLib, payments, Network } from 'bitcoinjs-lib';
+import { getNetwork as getChainNetwork } from '@btc-wallet/chain-params';
+import { toStandardExtendedKey } from '../slip132';
 
 const bip32 = BIP32Factory(ecc);
 
+// Taproot payments need the secp256k1 backend registered for key tweaking
+initEccLib(ecc);
+
 export type NetworkType = 'mainnet' | 'testnet';
 export type CoinType = 0 | 1; // 0: mainnet, 1: testnet (per BIP44 convention)
-export type AddressKind = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh';
+export type AddressKind = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh' | 'p2tr';
 
 export interface DerivationOptions {
   account?: number; // default 0'
@@ -19,25 +24,42 @@ export function resolveNetworkFromCoinType(coinType: CoinType): NetworkType {
 }
 
 export function getNetwork(networkType: NetworkType): Network {
-  return networkType === 'mainnet' ? networks.bitcoin : networks.testnet;
+  return getChainNetwork('bitcoin', networkType);
 }
 
-export function getPurposeFor(kind: AddressKind): 44 | 49 | 84 {
+export function getPurposeFor(kind: AddressKind): 44 | 49 | 84 | 86 {
   if (kind === 'p2pkh') return 44;
   if (kind === 'p2sh-p2wpkh') return 49;
+  if (kind === 'p2tr') return 86;
   return 84;
 }
 
+export function buildAccountPath(
+  kind: AddressKind,
+  coinType: CoinType,
+  account = 0
+): string {
+  return `m/${getPurposeFor(kind)}'/${coinType}'/${account}'`;
+}
+
 export function buildDerivationPath(
   kind: AddressKind,
   coinType: CoinType,
   options: DerivationOptions = {}
 ): string {
-  const purpose = getPurposeFor(kind);
   const account = options.account ?? 0;
   const change = options.change ?? 0;
   const index = options.index ?? 0;
-  return `m/${purpose}'/${coinType}'/${account}'/${change}/${index}`;
+  return `${buildAccountPath(kind, coinType, account)}/${change}/${index}`;
+}
+
+// BIP340 x-only form of a compressed public key (drops the parity byte)
+export function toXOnlyPublicKey(publicKey: Uint8Array): Uint8Array {
+  if (publicKey.length === 32) return publicKey;
+  if (publicKey.length !== 33) {
+    throw new Error('Expected a 33-byte compressed public key');
+  }
+  return publicKey.subarray(1, 33);
 }
 
 export function deriveNodeFromSeed(seed: Uint8Array, networkType: NetworkType) {
@@ -47,6 +69,15 @@ export function deriveNodeFromSeed(seed: Uint8Array, networkType: NetworkType) {
   return root;
 }
 
+export function deriveNodeFromExtendedKey(
+  extendedKey: string,
+  networkType: NetworkType
+): BIP32Interface {
+  // SLIP-132 flavours (ypub, zpub, vpub, ...) share the BIP32 payload
+  const network = getNetwork(networkType);
+  return bip32.fromBase58(toStandardExtendedKey(extendedKey), network);
+}
+
 export function deriveAddressFromPublicKey(
   publicKey: Uint8Array,
   kind: AddressKind,
@@ -67,6 +98,16 @@ export function deriveAddressFromPublicKey(
     if (!address) throw new Error('Failed to compute P2SH-P2WPKH address');
     return address;
   }
+  if (kind === 'p2tr') {
+    // BIP86 key-path only output: the internal key is tweaked with an empty
+    // script tree and encoded as a bech32m witness v1 program
+    const { address } = payments.p2tr({
+      internalPubkey: Buffer.from(toXOnlyPublicKey(publicKey)),
+      network,
+    });
+    if (!address) throw new Error('Failed to compute P2TR address');
+    return address;
+  }
   const { address } = payments.p2wpkh({
     pubkey: Buffer.from(publicKey),
     network,
@@ -5,25 +5,59 @@ import {
   validateMnemonic as bip39ValidateMnemonic,
   wordlists,
 } from 'bip39';
+import { crypto as bcrypto } from 'bitcoinjs-lib';
 import { bytesToHex, hexToBytes } from '../utils/hex';
 
 export type Wordlist = string[];
 
+// Official BIP39 wordlists, in the order used to break detection ties
+// (e.g. words shared between the English and French lists)
+export const MNEMONIC_LANGUAGES = [
+  'english',
+  'japanese',
+  'spanish',
+  'french',
+  'italian',
+  'portuguese',
+  'czech',
+  'korean',
+  'chinese_simplified',
+  'chinese_traditional',
+] as const;
+
+export type MnemonicLanguage = (typeof MNEMONIC_LANGUAGES)[number];
+
+export const MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24] as const;
+
 export const englishWordlist: Wordlist = wordlists.english;
 
+export function getWordlist(language: MnemonicLanguage): Wordlist {
+  const list = wordlists[language];
+  if (!list) throw new Error(`Wordlist not available: ${language}`);
+  return list;
+}
+
+function resolveWordlist(list: Wordlist | MnemonicLanguage): Wordlist {
+  return typeof list === 'string' ? getWordlist(list) : list;
+}
+
 export function entropyToMnemonic(
   entropy: Uint8Array,
-  list: Wordlist = englishWordlist
+  list: Wordlist | MnemonicLanguage = englishWordlist
 ): string {
   const hex = bytesToHex(entropy);
-  return bip39EntropyToMnemonic(hex, list);
+  return bip39EntropyToMnemonic(hex, resolveWordlist(list));
 }
 
 export function mnemonicToEntropy(
   mnemonic: string,
-  list: Wordlist = englishWordlist
+  list?: Wordlist | MnemonicLanguage
 ): Uint8Array {
-  const hex = bip39MnemonicToEntropy(normalizeMnemonic(mnemonic), list);
+  const normalized = normalizeMnemonic(mnemonic);
+  const wordlist = resolveWordlist(
+    list ?? detectMnemonicLanguage(normalized) ?? 'english'
+  );
+  const hex = bip39MnemonicToEntropy(normalized, wordlist);
   return hexToBytes(hex);
 }
 
@@ -33,18 +67,330 @@ export async function mnemonicToSeed(
 ): Promise<Uint8Array> {
   const seed = await bip39MnemonicToSeed(
     normalizeMnemonic(mnemonic),
-    passphrase
+    passphrase.normalize('NFKD')
   );
   return new Uint8Array(seed);
 }
 
 export function isValidMnemonic(
   mnemonic: string,
-  list: Wordlist = englishWordlist
+  list?: Wordlist | MnemonicLanguage
 ): boolean {
-  return bip39ValidateMnemonic(normalizeMnemonic(mnemonic), list);
+  const normalized = normalizeMnemonic(mnemonic);
+  if (list) return bip39ValidateMnemonic(normalized, resolveWordlist(list));
+  return candidateLanguages(normalized).some((language) =>
+    bip39ValidateMnemonic(normalized, getWordlist(language))
+  );
+}
+
+// Languages whose wordlist contains every word of the phrase
+function candidateLanguages(normalized: string): MnemonicLanguage[] {
+  const words = normalized.split(' ').filter(Boolean);
+  if (words.length === 0) return [];
+  return MNEMONIC_LANGUAGES.filter((language) => {
+    const list = getWordlist(language);
+    return words.every((word) => list.includes(word));
+  });
+}
+
+// Returns the wordlist language of a phrase, or null when no single list
+// contains all of its words. Phrases that fit several lists resolve to the
+// one whose checksum validates.
+export function detectMnemonicLanguage(
+  mnemonic: string
+): MnemonicLanguage | null {
+  const normalized = normalizeMnemonic(mnemonic);
+  const candidates = candidateLanguages(normalized);
+  if (candidates.length <= 1) return candidates[0] ?? null;
+  return (
+    candidates.find((language) =>
+      bip39ValidateMnemonic(normalized, getWordlist(language))
+    ) ?? candidates[0]
+  );
+}
+
+// NFKD plus single ASCII spaces; Japanese phrases are commonly written with
+// ideographic spaces (U+3000), which \s also matches
+export function normalizeMnemonic(m: string): string {
+  return m.normalize('NFKD').trim().replace(/\s+/g, ' ');
+}
+
+// Wordlist entries close to a (possibly partial) word, best first: words
+// it is a prefix of, then words sharing its first four letters (unique in
+// the English list), then words within two edits
+export function suggestWords(
+  input: string,
+  list: Wordlist | MnemonicLanguage = englishWordlist,
+  limit = 5
+): string[] {
+  const word = input.normalize('NFKD').trim();
+  if (!word) return [];
+  const stem = word.length >= 4 ? word.slice(0, 4) : null;
+  const scored: Array<[string, number]> = [];
+  for (const candidate of resolveWordlist(list)) {
+    let score: number;
+    if (candidate.startsWith(word)) score = 0;
+    else if (stem && candidate.startsWith(stem)) score = 1;
+    else score = 1 + editDistance(word, candidate, 2);
+    if (score <= 3) scored.push([candidate, score]);
+  }
+  return scored
+    .sort((a, b) => a[1] - b[1])
+    .slice(0, limit)
+    .map(([candidate]) => candidate);
+}
+
+export interface UnknownWord {
+  index: number;
+  word: string;
+  suggestions: string[];
+}
+
+export interface MnemonicRepair {
+  // 'replace' swaps the word at index; 'insert' adds a word before it
+  kind: 'replace' | 'insert';
+  index: number;
+  word: string;
+  mnemonic: string;
+}
+
+export interface MnemonicDiagnosis {
+  valid: boolean;
+  language: MnemonicLanguage | null;
+  wordCount: number;
+  validWordCount: boolean;
+  unknownWords: UnknownWord[];
+  checksumValid: boolean;
+  // Word positions most likely to be wrong, most likely first
+  suspectPositions: number[];
+  // Every single-word change that yields a valid checksum. Only computed
+  // when exactly one word is unknown, one word is missing, or all words are
+  // known but the checksum fails.
+  repairs: MnemonicRepair[];
+}
+
+export interface DiagnoseOptions {
+  // Look for 'insert' repairs when the phrase is one word short. Off while
+  // the user is still typing: every phrase passes through 11, 14, ... words
+  // on its way, and the search tries each word at each position.
+  insertions?: boolean;
+}
+
+export function diagnoseMnemonic(
+  mnemonic: string,
+  list?: Wordlist | MnemonicLanguage,
+  options: DiagnoseOptions = {}
+): MnemonicDiagnosis {
+  const { insertions = true } = options;
+  const normalized = normalizeMnemonic(mnemonic);
+  const words = normalized ? normalized.split(' ') : [];
+  let language: MnemonicLanguage | null = null;
+  if (typeof list === 'string') language = list;
+  else if (!list) {
+    language = detectMnemonicLanguage(normalized) ?? closestLanguage(words);
+  }
+  const wordlist = list
+    ? resolveWordlist(list)
+    : getWordlist(language ?? 'english');
+  const lookup = new Map(wordlist.map((word, i) => [word, i]));
+
+  const indices = words.map((word) => lookup.get(word) ?? -1);
+  const unknownWords: UnknownWord[] = [];
+  indices.forEach((value, index) => {
+    if (value >= 0) return;
+    const word = words[index];
+    unknownWords.push({
+      index,
+      word,
+      suggestions: suggestWords(word, wordlist),
+    });
+  });
+
+  const validWordCount = isValidWordCount(words.length);
+  const checksumValid =
+    validWordCount && unknownWords.length === 0 && checksumMatches(indices);
+
+  let repairs: MnemonicRepair[] = [];
+  let suspectPositions: number[] = unknownWords.map(({ index }) => index);
+  if (validWordCount && unknownWords.length === 1) {
+    repairs = replacementsAt(words, indices, unknownWords[0].index, wordlist);
+  } else if (validWordCount && unknownWords.length === 0 && !checksumValid) {
+    // Any position can be fixed by ~2048 / 2^checksumBits words; a typed
+    // word only a couple of edits away from a fixing word is the likely typo
+    const nearest = new Map<number, number>();
+    words.forEach((_, index) => {
+      for (const repair of replacementsAt(words, indices, index, wordlist)) {
+        repairs.push(repair);
+        const distance = editDistance(words[index], repair.word, 2);
+        if (distance <= 2 && distance < (nearest.get(index) ?? Infinity)) {
+          nearest.set(index, distance);
+        }
+      }
+    });
+    suspectPositions = [...nearest.entries()]
+      .sort((a, b) => a[1] - b[1] || a[0] - b[0])
+      .map(([index]) => index);
+  } else if (
+    insertions &&
+    unknownWords.length === 0 &&
+    isValidWordCount(words.length + 1)
+  ) {
+    for (let index = 0; index <= words.length; index++) {
+      wordlist.forEach((word, value) => {
+        const candidate = [...indices];
+        candidate.splice(index, 0, value);
+        if (!checksumMatches(candidate)) return;
+        const fixed = [...words];
+        fixed.splice(index, 0, word);
+        repairs.push({
+          kind: 'insert',
+          index,
+          word,
+          mnemonic: fixed.join(' '),
+        });
+      });
+    }
+  }
+
+  return {
+    valid: checksumValid,
+    language,
+    wordCount: words.length,
+    validWordCount,
+    unknownWords,
+    checksumValid,
+    suspectPositions,
+    repairs,
+  };
+}
+
+// What is wrong with a phrase, one sentence per problem, naming word
+// positions from 1; empty for a valid phrase
+export function describeMnemonicProblems(
+  diagnosis: MnemonicDiagnosis
+): string[] {
+  const problems: string[] = [];
+  if (!diagnosis.validWordCount) {
+    problems.push(
+      `Invalid word count: ${diagnosis.wordCount}. Expected 12, 15, 18, 21, or 24 words`
+    );
+  }
+  for (const { index, word, suggestions } of diagnosis.unknownWords) {
+    const hint = suggestions.length
+      ? ` (did you mean ${suggestions.join(', ')}?)`
+      : '';
+    problems.push(`Word ${index + 1} "${word}" is not a BIP39 word${hint}`);
+  }
+  if (
+    diagnosis.validWordCount &&
+    diagnosis.unknownWords.length === 0 &&
+    !diagnosis.checksumValid
+  ) {
+    const suspects = diagnosis.suspectPositions
+      .slice(0, 3)
+      .map((index) => index + 1);
+    problems.push(
+      suspects.length
+        ? `Mnemonic checksum is invalid; check word ${suspects.join(', ')}`
+        : 'Mnemonic checksum is invalid'
+    );
+  }
+  return problems;
+}
+
+function isValidWordCount(count: number): boolean {
+  return (MNEMONIC_WORD_COUNTS as readonly number[]).includes(count);
+}
+
+// The list containing the most words of the phrase, for phrases with typos
+function closestLanguage(words: string[]): MnemonicLanguage {
+  let best: MnemonicLanguage = MNEMONIC_LANGUAGES[0];
+  let bestCount = -1;
+  for (const language of MNEMONIC_LANGUAGES) {
+    const list = getWordlist(language);
+    const count = words.filter((word) => list.includes(word)).length;
+    if (count > bestCount) {
+      best = language;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Replacements for one position that make the checksum valid, closest to
+// the typed word first
+function replacementsAt(
+  words: string[],
+  indices: number[],
+  index: number,
+  wordlist: Wordlist
+): MnemonicRepair[] {
+  const candidate = [...indices];
+  const repairs: Array<MnemonicRepair & { distance: number }> = [];
+  wordlist.forEach((word, value) => {
+    if (value === indices[index]) return;
+    candidate[index] = value;
+    if (!checksumMatches(candidate)) return;
+    const fixed = [...words];
+    fixed[index] = word;
+    repairs.push({
+      kind: 'replace',
+      index,
+      word,
+      mnemonic: fixed.join(' '),
+      distance: editDistance(words[index], word, 8),
+    });
+  });
+  return repairs
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ distance: _distance, ...repair }) => repair);
+}
+
+// Checks the BIP39 checksum straight from wordlist indices, which keeps the
+// brute-force repair search to one hash per candidate
+function checksumMatches(indices: number[]): boolean {
+  const totalBits = indices.length * 11;
+  const checksumBits = totalBits / 33;
+  const entropyBytes = (totalBits - checksumBits) / 8;
+  const bytes = new Uint8Array(Math.ceil(totalBits / 8));
+  let acc = 0;
+  let accBits = 0;
+  let out = 0;
+  for (const value of indices) {
+    acc = (acc << 11) | value;
+    accBits += 11;
+    while (accBits >= 8) {
+      accBits -= 8;
+      bytes[out++] = (acc >> accBits) & 0xff;
+    }
+    acc &= (1 << accBits) - 1;
+  }
+  if (accBits > 0) bytes[out] = (acc << (8 - accBits)) & 0xff;
+  const hash = bcrypto.sha256(Buffer.from(bytes.subarray(0, entropyBytes)));
+  const shift = 8 - checksumBits;
+  return hash[0] >> shift === bytes[entropyBytes] >> shift;
 }
 
-function normalizeMnemonic(m: string): string {
-  return m.trim().replace(/\s+/g, ' ');
+// Edit distance counting swapped neighbours as one edit (optimal string
+// alignment), giving up with max + 1 once it exceeds max
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let before: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        row[j] = Math.min(row[j], before[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, row[j]);
+    }
+    if (rowMin > max) return max + 1;
+    before = prev;
+    prev = row;
+  }
+  return Math.min(prev[b.length], max + 1);
 }
@@ -26,6 +26,7 @@ export interface DeriveKeyOptions {
   // PBKDF2 tuning
   pbkdf2Iterations?: number; // if omitted, calibrated ~350ms
   pbkdf2TargetMs?: number; // default 350
+  pbkdf2MinIterations?: number; // lower clamp for calibration, default 50k
   // Testing hooks
   debugForceArgon2Failure?: boolean;
 }
@@ -99,7 +100,8 @@ async function derivePBKDF2SHA256(
 async function calibratePBKDF2Iterations(
   password: string,
   salt: Uint8Array,
-  targetMs = 350
+  targetMs = 350,
+  minIterations = 50_000
 ): Promise<number> {
   // Start with 100k iterations trial and scale
   const trial = 100_000;
@@ -109,7 +111,7 @@ async function calibratePBKDF2Iterations(
   const elapsed = Math.max(1, t1 - t0);
   const scaled = Math.round((trial * targetMs) / elapsed);
   // Clamp to reasonable bounds
-  return Math.max(50_000, Math.min(2_000_000, scaled));
+  return Math.max(minIterations, Math.min(2_000_000, scaled));
 }
 
 async function deriveArgon2id(
@@ -168,6 +170,7 @@ export async function deriveKey(
     argon2Parallelism = 1,
     pbkdf2Iterations,
     pbkdf2TargetMs = 350,
+    pbkdf2MinIterations,
     debugForceArgon2Failure = false,
   } = opts;
 
@@ -202,7 +205,12 @@ export async function deriveKey(
   // PBKDF2 fallback
   const iterations =
     pbkdf2Iterations ??
-    (await calibratePBKDF2Iterations(password, salt, pbkdf2TargetMs));
+    (await calibratePBKDF2Iterations(
+      password,
+      salt,
+      pbkdf2TargetMs,
+      pbkdf2MinIterations
+    ));
   const key = await derivePBKDF2SHA256(password, salt, iterations);
   return {
     kind: 'pbkdf2-sha256',
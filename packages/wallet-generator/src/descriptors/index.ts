@@ -0,0 +1,327 @@
+import { bytesToHex } from '../utils/hex';
+import {
+  AddressKind,
+  NetworkType,
+  deriveAddressFromPublicKey,
+  deriveNodeFromExtendedKey,
+} from '../bip32';
+
+// Output script descriptors (BIP380) for the single-key script types we
+// generate: pkh() BIP381, sh(wpkh()) / wpkh() BIP382 and key-path tr() BIP386.
+// Multipath key expressions (`<0;1>`) follow BIP389.
+
+export interface KeyOrigin {
+  fingerprint: string; // 8 hex chars, master key fingerprint
+  path: string; // e.g. "84'/0'/0'" (no leading m/)
+}
+
+export interface DescriptorKey {
+  origin?: KeyOrigin;
+  extendedKey: string;
+  // Unhardened steps after the extended key. A step is either a fixed index
+  // or a multipath choice; `wildcard` marks a trailing `/*`.
+  steps: Array<number | number[]>;
+  wildcard: boolean;
+}
+
+export interface ParsedDescriptor {
+  kind: AddressKind;
+  key: DescriptorKey;
+  network: NetworkType;
+  checksum: string;
+  descriptor: string; // canonical form including checksum
+}
+
+export interface DescriptorDerivationOptions {
+  change?: number; // multipath branch selector, default 0
+  index?: number; // wildcard replacement, default 0
+}
+
+export interface DescriptorAddress {
+  address: string;
+  path: string; // full path when the key origin is known, else relative
+  publicKeyHex: string;
+}
+
+const INPUT_CHARSET =
+  "0123456789()[],'/*abcdefgh@:$%{}" +
+  'IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~' +
+  'ijklmnopqrstuvwxyzABCDEFGH`#"\\ ';
+const CHECKSUM_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATORS = [
+  0xf5dee51989n,
+  0xa9fdca3312n,
+  0x1bab10e32dn,
+  0x3706b1677an,
+  0x644d626ffdn,
+];
+
+function polymod(c: bigint, value: number): bigint {
+  const c0 = c >> 35n;
+  let next = ((c & 0x7ffffffffn) << 5n) ^ BigInt(value);
+  GENERATORS.forEach((g, i) => {
+    if ((c0 >> BigInt(i)) & 1n) next ^= g;
+  });
+  return next;
+}
+
+export function descriptorChecksum(descriptor: string): string {
+  let c = 1n;
+  let cls = 0;
+  let clsCount = 0;
+  for (const ch of descriptor) {
+    const pos = INPUT_CHARSET.indexOf(ch);
+    if (pos === -1) {
+      throw new Error(`Invalid character in descriptor: ${ch}`);
+    }
+    c = polymod(c, pos & 31);
+    cls = cls * 3 + (pos >> 5);
+    if (++clsCount === 3) {
+      c = polymod(c, cls);
+      cls = 0;
+      clsCount = 0;
+    }
+  }
+  if (clsCount > 0) c = polymod(c, cls);
+  for (let i = 0; i < 8; i++) c = polymod(c, 0);
+  c ^= 1n;
+
+  let out = '';
+  for (let j = 0; j < 8; j++) {
+    out += CHECKSUM_CHARSET[Number((c >> BigInt(5 * (7 - j))) & 31n)];
+  }
+  return out;
+}
+
+export function addChecksum(descriptor: string): string {
+  const body = descriptor.split('#')[0];
+  return `${body}#${descriptorChecksum(body)}`;
+}
+
+export function isValidChecksum(descriptor: string): boolean {
+  const [body, checksum] = descriptor.split('#');
+  if (!checksum) return false;
+  try {
+    return descriptorChecksum(body) === checksum;
+  } catch {
+    return false;
+  }
+}
+
+function normalizeOriginPath(path: string): string {
+  return path
+    .replace(/^m\/?/, '')
+    .split('/')
+    .filter(Boolean)
+    .map((step) => {
+      const match = /^(\d+)(['hH]?)$/.exec(step);
+      if (!match) throw new Error(`Invalid key origin step: ${step}`);
+      return `${match[1]}${match[2] ? "'" : ''}`;
+    })
+    .join('/');
+}
+
+function formatKey(key: DescriptorKey): string {
+  const origin = key.origin
+    ? `[${key.origin.fingerprint}${key.origin.path ? `/${key.origin.path}` : ''}]`
+    : '';
+  const steps = key.steps
+    .map((step) => (Array.isArray(step) ? `/<${step.join(';')}>` : `/${step}`))
+    .join('');
+  return `${origin}${key.extendedKey}${steps}${key.wildcard ? '/*' : ''}`;
+}
+
+function wrapScript(kind: AddressKind, key: string): string {
+  if (kind === 'p2pkh') return `pkh(${key})`;
+  if (kind === 'p2sh-p2wpkh') return `sh(wpkh(${key}))`;
+  if (kind === 'p2tr') return `tr(${key})`;
+  return `wpkh(${key})`;
+}
+
+export interface BuildDescriptorInput {
+  kind: AddressKind;
+  xpub: string; // account-level extended public key
+  fingerprint?: string; // master fingerprint, hex
+  accountPath?: string; // e.g. "m/84'/0'/0'"
+  // 'multipath' emits /<0;1>/*, a number pins a single chain (e.g. 0/*)
+  chain?: 'multipath' | number;
+}
+
+export function buildDescriptor(input: BuildDescriptorInput): string {
+  const { kind, xpub, fingerprint, accountPath, chain = 'multipath' } = input;
+  if (accountPath && !fingerprint) {
+    throw new Error('Key origin requires the master fingerprint');
+  }
+  const key: DescriptorKey = {
+    origin: fingerprint
+      ? {
+          fingerprint: fingerprint.toLowerCase(),
+          path: accountPath ? normalizeOriginPath(accountPath) : '',
+        }
+      : undefined,
+    extendedKey: xpub,
+    steps: [chain === 'multipath' ? [0, 1] : chain],
+    wildcard: true,
+  };
+  return addChecksum(wrapScript(kind, formatKey(key)));
+}
+
+const SCRIPT_PATTERNS: Array<[RegExp, AddressKind]> = [
+  [/^pkh\((.+)\)$/, 'p2pkh'],
+  [/^sh\(wpkh\((.+)\)\)$/, 'p2sh-p2wpkh'],
+  [/^wpkh\((.+)\)$/, 'p2wpkh'],
+  [/^tr\(([^,]+)\)$/, 'p2tr'],
+];
+
+function parseIndex(step: string): number {
+  if (!/^\d+$/.test(step)) {
+    throw new Error(`Unsupported derivation step in descriptor: ${step}`);
+  }
+  const value = Number(step);
+  if (value >= 0x80000000) throw new Error(`Index out of range: ${step}`);
+  return value;
+}
+
+function parseKey(expression: string): DescriptorKey {
+  let rest = expression;
+  let origin: KeyOrigin | undefined;
+
+  if (rest.startsWith('[')) {
+    const end = rest.indexOf(']');
+    if (end === -1) throw new Error('Unterminated key origin');
+    const [fingerprint, ...path] = rest.slice(1, end).split('/');
+    if (!/^[0-9a-fA-F]{8}$/.test(fingerprint)) {
+      throw new Error('Key origin fingerprint must be 8 hex characters');
+    }
+    origin = {
+      fingerprint: fingerprint.toLowerCase(),
+      path: normalizeOriginPath(path.join('/')),
+    };
+    rest = rest.slice(end + 1);
+  }
+
+  const [extendedKey, ...suffix] = rest.split('/');
+  if (!/^[1-9A-HJ-NP-Za-km-z]+$/.test(extendedKey)) {
+    throw new Error('Only extended public keys are supported in descriptors');
+  }
+
+  const steps: Array<number | number[]> = [];
+  let wildcard = false;
+  suffix.forEach((step, i) => {
+    if (step === '*') {
+      if (i !== suffix.length - 1) throw new Error('Wildcard must be last');
+      wildcard = true;
+      return;
+    }
+    const multipath = /^<(.+)>$/.exec(step);
+    if (multipath) {
+      if (steps.some(Array.isArray)) {
+        throw new Error('Only one multipath step is allowed');
+      }
+      const options = multipath[1].split(';').map(parseIndex);
+      if (options.length < 2) throw new Error('Multipath needs two or more');
+      steps.push(options);
+      return;
+    }
+    steps.push(parseIndex(step));
+  });
+
+  return { origin, extendedKey, steps, wildcard };
+}
+
+function detectKeyNetwork(extendedKey: string): NetworkType {
+  for (const network of ['mainnet', 'testnet'] as const) {
+    try {
+      deriveNodeFromExtendedKey(extendedKey, network);
+      return network;
+    } catch {
+      // try the next network
+    }
+  }
+  throw new Error('Invalid extended public key in descriptor');
+}
+
+export function parseDescriptor(
+  descriptor: string,
+  options: { requireChecksum?: boolean } = {}
+): ParsedDescriptor {
+  const trimmed = descriptor.trim();
+  const [body, checksum] = trimmed.split('#');
+  if (checksum !== undefined) {
+    if (descriptorChecksum(body) !== checksum) {
+      throw new Error('Descriptor checksum mismatch');
+    }
+  } else if (options.requireChecksum) {
+    throw new Error('Descriptor checksum is missing');
+  }
+
+  for (const [pattern, kind] of SCRIPT_PATTERNS) {
+    const match = pattern.exec(body);
+    if (!match) continue;
+    const key = parseKey(match[1]);
+    const canonical = addChecksum(wrapScript(kind, formatKey(key)));
+    return {
+      kind,
+      key,
+      network: detectKeyNetwork(key.extendedKey),
+      checksum: canonical.split('#')[1],
+      descriptor: canonical,
+    };
+  }
+  throw new Error('Unsupported descriptor script type');
+}
+
+// Splits a multipath descriptor into one checksummed descriptor per branch,
+// for tools that do not understand BIP389 yet.
+export function expandMultipath(descriptor: string): string[] {
+  const parsed = parseDescriptor(descriptor);
+  const position = parsed.key.steps.findIndex(Array.isArray);
+  if (position === -1) return [parsed.descriptor];
+  const branches = parsed.key.steps[position] as number[];
+  return branches.map((branch) => {
+    const steps = [...parsed.key.steps];
+    steps[position] = branch;
+    return addChecksum(
+      wrapScript(parsed.kind, formatKey({ ...parsed.key, steps }))
+    );
+  });
+}
+
+export function deriveDescriptorAddress(
+  parsed: ParsedDescriptor,
+  options: DescriptorDerivationOptions = {}
+): DescriptorAddress {
+  const change = options.change ?? 0;
+  const index = options.index ?? 0;
+  const { key } = parsed;
+
+  const steps = key.steps.map((step) => {
+    if (!Array.isArray(step)) return step;
+    if (change < 0 || change >= step.length) {
+      throw new Error(`Descriptor has no branch ${change}`);
+    }
+    return step[change];
+  });
+  if (key.wildcard) steps.push(index);
+
+  let node = deriveNodeFromExtendedKey(key.extendedKey, parsed.network);
+  steps.forEach((step) => {
+    node = node.derive(step);
+  });
+
+  const relative = steps.join('/');
+  const prefix = key.origin
+    ? ['m', key.origin.path].filter(Boolean).join('/')
+    : '';
+  const path = prefix ? [prefix, relative].filter(Boolean).join('/') : relative;
+
+  return {
+    address: deriveAddressFromPublicKey(
+      node.publicKey,
+      parsed.kind,
+      parsed.network
+    ),
+    path,
+    publicKeyHex: bytesToHex(node.publicKey),
+  };
+}
@@ -1,8 +1,14 @@
 export * as Entropy from './crypto/entropy';
 export * as BIP39 from './bip39';
 export * as BIP32 from './bip32';
+export * as Descriptors from './descriptors';
+export * as SLIP132 from './slip132';
+export * as SLIP39 from './slip39';
 export * as Wallet from './wallet';
 export * as WalletExport from './wallet/export';
+export * as WalletScan from './wallet/scan';
 export { encryptText } from './wallet/export';
 export * as CryptoKDF from './crypto/kdf';
 export * as CryptoAES from './crypto/aes-gcm';
+export * as TxWeight from './tx-weight';
+export * as PSBTReview from './psbt-review';
@@ -0,0 +1,625 @@
+import {
+  Network,
+  Psbt,
+  Transaction,
+  address as bitcoinAddress,
+  crypto,
+  payments,
+} from 'bitcoinjs-lib';
+import type { BIP32Interface } from 'bip32';
+import { toXOnlyPublicKey } from '../bip32';
+import {
+  INPUT_BASE_SIZE,
+  InputWeightSpec,
+  getOutputScriptType,
+  inputHasWitness,
+  inputWeight,
+} from '../tx-weight';
+
+// What a signer shows the user before producing any signature: where the
+// money goes, what it costs, which outputs provably come back to the signing
+// key, and anything that looks wrong.
+
+export type ReviewWarningCode =
+  | 'absurd-fee' // fee rate or fee share above the configured limits
+  | 'wrong-network' // xpub or key path of another network
+  | 'sighash' // signature type other than SIGHASH_ALL
+  | 'unknown-input' // input the signing key cannot sign
+  | 'missing-utxo' // input without the output it spends, so no amount
+  | 'invalid-utxo' // full funding transaction does not match the txid
+  | 'unverified-change' // claims a key origin but does not pay this key
+  | 'nothing-to-sign'; // no input belongs to the signing key
+
+export interface ReviewWarning {
+  code: ReviewWarningCode;
+  message: string;
+  inputIndex?: number;
+  outputIndex?: number;
+}
+
+export interface ReviewedInput {
+  index: number;
+  txid: string;
+  vout: number;
+  value?: number; // unknown without a witness or non-witness UTXO
+  address?: string;
+  signable: boolean; // the signing key can sign it
+  sighashType: number; // requested type, SIGHASH_ALL when unset
+  path?: string; // key origin of the signing key, when given
+}
+
+export interface ReviewedOutput {
+  index: number;
+  address?: string; // undefined for scripts without an address (OP_RETURN)
+  script: string; // output script, hex
+  value: number;
+  isChange: boolean; // verified to pay back to the signer
+  path?: string; // key origin of the change key
+}
+
+export interface SpendReview {
+  inputs: ReviewedInput[];
+  outputs: ReviewedOutput[];
+  totalInput?: number; // unknown while any input amount is
+  totalOutput: number;
+  sent: number; // to outputs that are not change
+  change: number;
+  fee?: number;
+  vsize: number; // estimated until signed
+  feeRate?: number; // sat/vB
+  signableInputs: number;
+  warnings: ReviewWarning[];
+}
+
+export interface ReviewOptions {
+  network: Network; // network the signer signs for
+  publicKey?: Uint8Array; // signing key; without it nothing counts as change
+  accountNode?: BIP32Interface; // account key, verifies change to its addresses
+  coinType?: number; // expected BIP44 coin type, default from the network
+  maxFeeRate?: number; // sat/vB before the fee counts as absurd
+  maxFeeShare?: number; // fee as a share of the input total, 0..1
+  multisig?: MultisigAccount; // verifies change to the wallet's sortedmulti
+}
+
+export interface MultisigAccount {
+  threshold: number; // M signatures of N
+  cosigners: BIP32Interface[]; // account keys of all N cosigners, ours too
+}
+
+export const DEFAULT_MAX_FEE_RATE = 1000;
+export const DEFAULT_MAX_FEE_SHARE = 0.1;
+
+const SIGHASH_ALL = 0x01;
+const SIGHASH_DEFAULT = 0x00; // taproot, equivalent to ALL
+
+const SIGHASH_NAMES: Record<number, string> = {
+  0x00: 'DEFAULT',
+  0x01: 'ALL',
+  0x02: 'NONE',
+  0x03: 'SINGLE',
+  0x81: 'ALL|ANYONECANPAY',
+  0x82: 'NONE|ANYONECANPAY',
+  0x83: 'SINGLE|ANYONECANPAY',
+};
+
+// BIP44 coin type by bech32 prefix; testnets all share coin type 1
+const COIN_TYPES: Record<string, number> = {
+  bc: 0,
+  tb: 1,
+  bcrt: 1,
+  ltc: 2,
+  tltc: 1,
+  rltc: 1,
+};
+
+// BIP44-style purposes whose second step is the coin type
+const COIN_TYPE_PURPOSES = new Set([44, 45, 48, 49, 84, 86]);
+
+// Private key able to sign both ways, as an ecpair ECPair is
+export interface PSBTKeySigner {
+  publicKey: Uint8Array;
+  sign(hash: Uint8Array): Uint8Array; // ECDSA
+  signSchnorr(hash: Uint8Array): Uint8Array;
+  tweak(tweak: Uint8Array): PSBTKeySigner; // BIP341 tweak of the private key
+}
+
+type PsbtInput = Psbt['data']['inputs'][number];
+type PsbtOutput = Psbt['data']['outputs'][number];
+
+// Name of a sighash type as in SIGHASH_<name>, or its hex byte if unknown
+export function sighashName(type: number): string {
+  return SIGHASH_NAMES[type] ?? `0x${type.toString(16).padStart(2, '0')}`;
+}
+
+// Decode a PSBT and summarise what signing it would do: amounts, fee, which
+// inputs the key can sign, which outputs come back to it, and warnings
+export function reviewPSBT(
+  psbtBase64: string,
+  options: ReviewOptions
+): SpendReview {
+  const { network } = options;
+  const psbt = Psbt.fromBase64(psbtBase64, { network });
+  const publicKey = options.publicKey ? Buffer.from(options.publicKey) : null;
+  const warnings: ReviewWarning[] = [];
+
+  const coinType = options.coinType ?? COIN_TYPES[network.bech32];
+  checkGlobalXpubs(psbt, network, warnings);
+
+  let extraWeight = 0;
+  let segwit = false;
+  const inputs = psbt.txInputs.map((txInput, index): ReviewedInput => {
+    const input = psbt.data.inputs[index];
+    const txid = Buffer.from(txInput.hash).reverse().toString('hex');
+    const prevout = getPrevout(input, txid, txInput.index, index, warnings);
+
+    const signable =
+      publicKey !== null && prevout !== undefined
+        ? inputHasKey(psbt, index, input, prevout.script, publicKey)
+        : false;
+    if (!signable && publicKey && prevout) {
+      warnings.push({
+        code: 'unknown-input',
+        message: `Input ${index} (${txid}:${txInput.index}) is not signed by this key`,
+        inputIndex: index,
+      });
+    }
+
+    const sighashType = input.sighashType ?? SIGHASH_ALL;
+    checkSighash(input, index, sighashType, warnings);
+    const path = publicKey ? findKeyPath(input, publicKey) : undefined;
+    checkPaths(input, coinType, `Input ${index}`, warnings, {
+      inputIndex: index,
+    });
+
+    const weight = prevout ? signedInputWeight(input, prevout.script) : null;
+    extraWeight += weight?.weight ?? 0;
+    segwit = segwit || (weight?.segwit ?? false);
+
+    return {
+      index,
+      txid,
+      vout: txInput.index,
+      value: prevout?.value,
+      address: prevout ? toAddress(prevout.script, network) : undefined,
+      signable,
+      sighashType,
+      path,
+    };
+  });
+
+  const outputs = psbt.txOutputs.map((txOutput, index): ReviewedOutput => {
+    const output = psbt.data.outputs[index];
+    checkPaths(output, coinType, `Output ${index}`, warnings, {
+      outputIndex: index,
+    });
+
+    const changeKey = findChangeKey(
+      output,
+      txOutput.script,
+      publicKey,
+      options
+    );
+    const isChange = changeKey !== undefined;
+    if (!isChange && hasKeyOrigin(output)) {
+      warnings.push({
+        code: 'unverified-change',
+        message: `Output ${index} claims a key origin that does not check out; treat it as a payment`,
+        outputIndex: index,
+      });
+    }
+
+    return {
+      index,
+      address: toAddress(txOutput.script, network),
+      script: txOutput.script.toString('hex'),
+      value: txOutput.value,
+      isChange,
+      path: changeKey ? findKeyPath(output, changeKey) : undefined,
+    };
+  });
+
+  const signableInputs = inputs.filter((input) => input.signable).length;
+  if (publicKey && signableInputs === 0) {
+    warnings.push({
+      code: 'nothing-to-sign',
+      message: 'This key cannot sign any input of the transaction',
+    });
+  }
+
+  const totalOutput = outputs.reduce((sum, output) => sum + output.value, 0);
+  const change = outputs
+    .filter((output) => output.isChange)
+    .reduce((sum, output) => sum + output.value, 0);
+  const totalInput = inputs.every((input) => input.value !== undefined)
+    ? inputs.reduce((sum, input) => sum + (input.value ?? 0), 0)
+    : undefined;
+  const fee = totalInput !== undefined ? totalInput - totalOutput : undefined;
+
+  const unsignedWeight = Transaction.fromBuffer(
+    psbt.data.globalMap.unsignedTx.toBuffer()
+  ).weight();
+  const vsize = Math.ceil(
+    (unsignedWeight + extraWeight + (segwit ? 2 : 0)) / 4
+  );
+  const feeRate = fee !== undefined ? fee / vsize : undefined;
+
+  if (fee !== undefined && totalInput !== undefined && feeRate !== undefined) {
+    checkFee(fee, feeRate, totalInput, options, warnings);
+  }
+
+  return {
+    inputs,
+    outputs,
+    totalInput,
+    totalOutput,
+    sent: totalOutput - change,
+    change,
+    fee,
+    vsize,
+    feeRate,
+    signableInputs,
+    warnings,
+  };
+}
+
+// Sign every input the review counts as signable: ECDSA for key hashes and
+// scripts holding the key, a Schnorr signature with the BIP86-tweaked key for
+// key-path taproot. Returns the indexes of the inputs signed.
+export function signPSBTInputs(psbt: Psbt, key: PSBTKeySigner): number[] {
+  const publicKey = Buffer.from(key.publicKey);
+  const ecdsaSigner = {
+    publicKey,
+    sign: (hash: Buffer) => Buffer.from(key.sign(hash)),
+  };
+  let taprootSigner: ReturnType<typeof tweakedSigner> | undefined;
+
+  const signed: number[] = [];
+  psbt.data.inputs.forEach((input, index) => {
+    const script =
+      input.witnessUtxo?.script ??
+      (input.nonWitnessUtxo &&
+        Transaction.fromBuffer(input.nonWitnessUtxo).outs[
+          psbt.txInputs[index].index
+        ]?.script);
+    try {
+      if (script && isTaprootScript(script)) {
+        if (!paysTaprootKey(script, publicKey)) return;
+        taprootSigner ??= tweakedSigner(key);
+        psbt.signTaprootInput(index, taprootSigner);
+      } else {
+        psbt.signInput(index, ecdsaSigner);
+      }
+      signed.push(index);
+    } catch {
+      // Not this key's input
+    }
+  });
+  return signed;
+}
+
+// Key-path taproot signs with the private key tweaked by the hash of its
+// x-only public key, the tweak that made the output key
+function tweakedSigner(key: PSBTKeySigner) {
+  const xOnly = Buffer.from(toXOnlyPublicKey(key.publicKey));
+  const tweaked = key.tweak(crypto.taggedHash('TapTweak', xOnly));
+  return {
+    publicKey: Buffer.from(tweaked.publicKey),
+    sign: (hash: Buffer) => Buffer.from(tweaked.sign(hash)),
+    signSchnorr: (hash: Buffer) => Buffer.from(tweaked.signSchnorr(hash)),
+  };
+}
+
+// Output an input spends, from the full funding transaction when present so
+// its txid is checked, else from the witness UTXO
+function getPrevout(
+  input: PsbtInput,
+  txid: string,
+  vout: number,
+  index: number,
+  warnings: ReviewWarning[]
+): { script: Buffer; value: number } | undefined {
+  if (input.nonWitnessUtxo) {
+    const funding = Transaction.fromBuffer(input.nonWitnessUtxo);
+    if (funding.getId() !== txid || !funding.outs[vout]) {
+      warnings.push({
+        code: 'invalid-utxo',
+        message: `Input ${index} funding transaction is not ${txid}`,
+        inputIndex: index,
+      });
+      return undefined;
+    }
+    return funding.outs[vout];
+  }
+  if (input.witnessUtxo) return input.witnessUtxo;
+  warnings.push({
+    code: 'missing-utxo',
+    message: `Input ${index} (${txid}:${vout}) does not say what it spends, so its amount and the fee are unknown`,
+    inputIndex: index,
+  });
+  return undefined;
+}
+
+// Whether the key can sign the input: key-path taproot by its tweaked output
+// key, anything else by the key appearing in its scripts
+function inputHasKey(
+  psbt: Psbt,
+  index: number,
+  input: PsbtInput,
+  script: Buffer,
+  publicKey: Buffer
+): boolean {
+  if (isTaprootScript(script)) {
+    return paysTaprootKey(script, publicKey);
+  }
+  try {
+    return psbt.inputHasPubkey(index, publicKey);
+  } catch {
+    // Redeem or witness script that does not hash to the spent output
+    return false;
+  }
+}
+
+// Change is an output paying the signing key, a key the account key derives
+// at the path the output claims, or the wallet's own multisig script. A
+// script that merely holds one of our keys is not change: the other keys may
+// belong to anyone.
+function findChangeKey(
+  output: PsbtOutput,
+  script: Buffer,
+  publicKey: Buffer | null,
+  { accountNode, multisig }: ReviewOptions
+): Buffer | undefined {
+  const candidates = publicKey ? [publicKey] : [];
+  for (const { pubkey, path } of output.bip32Derivation ?? []) {
+    const derived = accountNode && deriveFromAccount(accountNode, path);
+    if (derived?.equals(pubkey)) candidates.push(pubkey);
+  }
+  return (
+    candidates.find((pubkey) => scriptPaysKey(script, pubkey)) ??
+    (multisig && findMultisigChangeKey(output, script, multisig))
+  );
+}
+
+// Multisig change must be the sortedmulti of every cosigner's key at the
+// chain and index the output claims, so no key in it is a stranger's
+function findMultisigChangeKey(
+  output: PsbtOutput,
+  script: Buffer,
+  { threshold, cosigners }: MultisigAccount
+): Buffer | undefined {
+  for (const { pubkey, path } of output.bip32Derivation ?? []) {
+    const keys = cosigners.map((node) => deriveFromAccount(node, path));
+    if (keys.some((key) => key === undefined)) continue;
+    const pubkeys = (keys as Buffer[]).sort(Buffer.compare);
+    if (!pubkeys.some((key) => key.equals(pubkey))) continue;
+    try {
+      const redeem = payments.p2ms({ m: threshold, pubkeys });
+      const p2wsh = payments.p2wsh({ redeem });
+      const scripts = [p2wsh.output, payments.p2sh({ redeem: p2wsh }).output];
+      if (scripts.some((expected) => expected?.equals(script))) return pubkey;
+    } catch {
+      // Threshold that does not fit the number of cosigners
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+// Account-level key at the chain and index that end a full path
+function deriveFromAccount(
+  accountNode: BIP32Interface,
+  path: string
+): Buffer | undefined {
+  const [chain, addressIndex] = path.split('/').slice(-2).map(Number);
+  if (!(chain === 0 || chain === 1) || !Number.isInteger(addressIndex)) {
+    return undefined;
+  }
+  return Buffer.from(accountNode.derive(chain).derive(addressIndex).publicKey);
+}
+
+// Single-key scripts of every address type the key can have
+function scriptPaysKey(script: Buffer, pubkey: Buffer): boolean {
+  if (isTaprootScript(script)) return paysTaprootKey(script, pubkey);
+  // Uncompressed keys only have legacy addresses
+  if (pubkey.length !== 33) {
+    return payments.p2pkh({ pubkey }).output!.equals(script);
+  }
+  const p2wpkh = payments.p2wpkh({ pubkey });
+  return [
+    payments.p2pkh({ pubkey }).output,
+    p2wpkh.output,
+    payments.p2sh({ redeem: p2wpkh }).output,
+  ].some((output) => output?.equals(script));
+}
+
+// Segwit v1 program with a 32-byte output key
+function isTaprootScript(script: Buffer): boolean {
+  return script.length === 34 && script[0] === 0x51 && script[1] === 0x20;
+}
+
+// Key-path taproot: the output key must be the BIP86 tweak of our key
+function paysTaprootKey(script: Buffer, publicKey: Buffer): boolean {
+  try {
+    const { output } = payments.p2tr({
+      internalPubkey: Buffer.from(toXOnlyPublicKey(publicKey)),
+    });
+    return output !== undefined && output.equals(script);
+  } catch {
+    return false;
+  }
+}
+
+// Whether a field carries any BIP32 derivation, taproot or not
+function hasKeyOrigin(field: PsbtInput | PsbtOutput): boolean {
+  return Boolean(
+    field.bip32Derivation?.length || field.tapBip32Derivation?.length
+  );
+}
+
+// Derivation path the field records for the key, matching x-only keys for
+// taproot derivations
+function findKeyPath(
+  field: PsbtInput | PsbtOutput,
+  publicKey: Buffer
+): string | undefined {
+  const xOnly = Buffer.from(toXOnlyPublicKey(publicKey));
+  return (
+    field.bip32Derivation?.find((d) => d.pubkey.equals(publicKey))?.path ??
+    field.tapBip32Derivation?.find((d) => d.pubkey.equals(xOnly))?.path
+  );
+}
+
+// Address of an output script, or undefined for non-standard scripts
+function toAddress(script: Buffer, network: Network): string | undefined {
+  try {
+    return bitcoinAddress.fromOutputScript(script, network);
+  } catch {
+    return undefined;
+  }
+}
+
+// Warn about account xpubs whose version bytes belong to another network
+function checkGlobalXpubs(
+  psbt: Psbt,
+  network: Network,
+  warnings: ReviewWarning[]
+) {
+  for (const { extendedPubkey } of psbt.data.globalMap.globalXpub ?? []) {
+    const version = Buffer.from(extendedPubkey).readUInt32BE(0);
+    if (version !== network.bip32.public) {
+      warnings.push({
+        code: 'wrong-network',
+        message: `Account xpub version 0x${version.toString(16)} belongs to another network`,
+      });
+    }
+  }
+}
+
+// Warn about BIP44-style paths whose coin type belongs to another network
+function checkPaths(
+  field: PsbtInput | PsbtOutput,
+  coinType: number | undefined,
+  label: string,
+  warnings: ReviewWarning[],
+  location: Pick<ReviewWarning, 'inputIndex' | 'outputIndex'>
+) {
+  if (coinType === undefined) return;
+  const paths = [
+    ...(field.bip32Derivation ?? []),
+    ...(field.tapBip32Derivation ?? []),
+  ].map((d) => d.path);
+  for (const path of new Set(paths)) {
+    const steps = path.replace(/^m\/?/, '').split('/');
+    const purpose = parseInt(steps[0], 10);
+    const pathCoinType = parseInt(steps[1], 10);
+    if (
+      steps.length >= 2 &&
+      /['hH]$/.test(steps[1]) &&
+      COIN_TYPE_PURPOSES.has(purpose) &&
+      pathCoinType !== coinType
+    ) {
+      warnings.push({
+        code: 'wrong-network',
+        message: `${label} key path ${path} uses coin type ${pathCoinType}, not ${coinType} for this network`,
+        ...location,
+      });
+    }
+  }
+}
+
+// Warn about sighash types other than ALL or DEFAULT, ours or in other
+// signers' signatures, since they let the transaction change after signing
+function checkSighash(
+  input: PsbtInput,
+  index: number,
+  sighashType: number,
+  warnings: ReviewWarning[]
+) {
+  const types = new Set<number>([sighashType]);
+  // Other signers' ECDSA signatures end with their sighash byte
+  for (const { signature } of input.partialSig ?? []) {
+    types.add(signature[signature.length - 1]);
+  }
+  for (const type of types) {
+    if (type !== SIGHASH_ALL && type !== SIGHASH_DEFAULT) {
+      warnings.push({
+        code: 'sighash',
+        message: `Input ${index} uses SIGHASH_${sighashName(type)}; the transaction can be changed after signing`,
+        inputIndex: index,
+      });
+    }
+  }
+}
+
+// Warn about fees that are negative, above the rate limit, or too large a
+// share of the amount spent
+function checkFee(
+  fee: number,
+  feeRate: number,
+  totalInput: number,
+  options: ReviewOptions,
+  warnings: ReviewWarning[]
+) {
+  const maxFeeRate = options.maxFeeRate ?? DEFAULT_MAX_FEE_RATE;
+  const maxFeeShare = options.maxFeeShare ?? DEFAULT_MAX_FEE_SHARE;
+  if (fee < 0) {
+    warnings.push({
+      code: 'absurd-fee',
+      message: 'Outputs spend more than the inputs hold',
+    });
+  } else if (feeRate > maxFeeRate) {
+    warnings.push({
+      code: 'absurd-fee',
+      message: `Fee rate of ${feeRate.toFixed(1)} sat/vB is above ${maxFeeRate} sat/vB`,
+    });
+  } else if (totalInput > 0 && fee / totalInput > maxFeeShare) {
+    warnings.push({
+      code: 'absurd-fee',
+      message: `Fee of ${fee} sats is ${((fee / totalInput) * 100).toFixed(
+        1
+      )}% of the amount spent`,
+    });
+  }
+}
+
+// Weight the signed input adds to the unsigned transaction, its scriptSig
+// and witness, as the shared estimator sizes them
+function signedInputWeight(
+  input: PsbtInput,
+  script: Buffer
+): { weight: number; segwit: boolean } | null {
+  const spec = inputWeightSpec(input, script);
+  if (!spec) return null;
+  return {
+    weight: inputWeight(spec) - INPUT_BASE_SIZE * 4,
+    segwit: inputHasWitness(spec),
+  };
+}
+
+// Script type of the output an input spends; P2SH and P2WSH need the redeem
+// or witness script to tell nested P2WPKH and M-of-N multisig apart
+function inputWeightSpec(
+  input: PsbtInput,
+  script: Buffer
+): InputWeightSpec | null {
+  const type = getOutputScriptType(script);
+  if (type === 'p2pkh' || type === 'p2wpkh' || type === 'p2tr') return type;
+  const redeem = input.redeemScript;
+  if (
+    type === 'p2sh' &&
+    (!redeem || getOutputScriptType(redeem) === 'p2wpkh')
+  ) {
+    return 'p2sh-p2wpkh';
+  }
+  if ((type === 'p2wsh' || type === 'p2sh') && input.witnessScript) {
+    try {
+      const { m, n } = payments.p2ms({ output: input.witnessScript });
+      if (m && n) {
+        return { type: type === 'p2sh' ? 'p2sh-p2wsh' : 'p2wsh', m, n };
+      }
+    } catch {
+      // Not a CHECKMULTISIG script
+    }
+  }
+  return null;
+}
@@ -0,0 +1,155 @@
+import bs58check from 'bs58check';
+import type { Coin } from '@btc-wallet/chain-params';
+import type { AddressKind, NetworkType } from '../bip32';
+
+// SLIP-132 registered extended key version bytes. The prefix of the
+// base58check string is determined by these four bytes; the remaining
+// 74 bytes (depth, fingerprint, child number, chain code, key) are unchanged
+// by conversion.
+export const VERSION_BYTES = {
+  xpub: 0x0488b21e,
+  xprv: 0x0488ade4,
+  ypub: 0x049d7cb2,
+  yprv: 0x049d7878,
+  zpub: 0x04b24746,
+  zprv: 0x04b2430c,
+  Ypub: 0x0295b43f,
+  Yprv: 0x0295b005,
+  Zpub: 0x02aa7ed3,
+  Zprv: 0x02aa7a99,
+  tpub: 0x043587cf,
+  tprv: 0x04358394,
+  upub: 0x044a5262,
+  uprv: 0x044a4e28,
+  vpub: 0x045f1cf6,
+  vprv: 0x045f18bc,
+  Upub: 0x024289ef,
+  Uprv: 0x024285b5,
+  Vpub: 0x02575483,
+  Vprv: 0x02575048,
+  Ltub: 0x019da462,
+  Ltpv: 0x019d9cfe,
+  Mtub: 0x01b26ef6,
+  Mtpv: 0x01b26792,
+  ttub: 0x0436f6e1,
+  ttpv: 0x0436ef7d,
+} as const;
+
+export type ExtendedKeyPrefix = keyof typeof VERSION_BYTES;
+export type SlipCoin = Coin;
+
+const PRIVATE_PREFIXES = new Set<ExtendedKeyPrefix>([
+  'xprv',
+  'yprv',
+  'zprv',
+  'Yprv',
+  'Zprv',
+  'tprv',
+  'uprv',
+  'vprv',
+  'Uprv',
+  'Vprv',
+  'Ltpv',
+  'Mtpv',
+  'ttpv',
+]);
+
+const TESTNET_PREFIXES = new Set<ExtendedKeyPrefix>([
+  'tpub',
+  'tprv',
+  'upub',
+  'uprv',
+  'vpub',
+  'vprv',
+  'Upub',
+  'Uprv',
+  'Vpub',
+  'Vprv',
+  'ttub',
+  'ttpv',
+]);
+
+function prefixForVersion(version: number): ExtendedKeyPrefix {
+  const entry = (
+    Object.entries(VERSION_BYTES) as Array<[ExtendedKeyPrefix, number]>
+  ).find(([, bytes]) => bytes === version);
+  if (!entry) {
+    throw new Error(
+      `Unknown extended key version 0x${version.toString(16).padStart(8, '0')}`
+    );
+  }
+  return entry[0];
+}
+
+function decode(extendedKey: string): Uint8Array {
+  const payload = bs58check.decode(extendedKey.trim());
+  if (payload.length !== 78) {
+    throw new Error('Extended key must decode to 78 bytes');
+  }
+  return payload;
+}
+
+function readPrefix(payload: Uint8Array): ExtendedKeyPrefix {
+  const view = new DataView(payload.buffer, payload.byteOffset, 4);
+  return prefixForVersion(view.getUint32(0));
+}
+
+export function getExtendedKeyPrefix(extendedKey: string): ExtendedKeyPrefix {
+  return readPrefix(decode(extendedKey));
+}
+
+export function isPrivatePrefix(prefix: ExtendedKeyPrefix): boolean {
+  return PRIVATE_PREFIXES.has(prefix);
+}
+
+export function networkForPrefix(prefix: ExtendedKeyPrefix): NetworkType {
+  return TESTNET_PREFIXES.has(prefix) ? 'testnet' : 'mainnet';
+}
+
+export function convertExtendedKey(
+  extendedKey: string,
+  target: ExtendedKeyPrefix
+): string {
+  const payload = decode(extendedKey);
+  const source = readPrefix(payload);
+  if (isPrivatePrefix(source) !== isPrivatePrefix(target)) {
+    throw new Error(
+      `Cannot convert ${source} to ${target}: public/private key type differs`
+    );
+  }
+  const out = new Uint8Array(payload);
+  new DataView(out.buffer).setUint32(0, VERSION_BYTES[target]);
+  return bs58check.encode(out);
+}
+
+// Maps any SLIP-132 flavour back to the plain BIP32 prefix of its network
+// (xpub/xprv or tpub/tprv), which is what bip32 and descriptors expect.
+export function toStandardExtendedKey(extendedKey: string): string {
+  const prefix = getExtendedKeyPrefix(extendedKey);
+  const testnet = TESTNET_PREFIXES.has(prefix);
+  let target: ExtendedKeyPrefix = testnet ? 'tpub' : 'xpub';
+  if (isPrivatePrefix(prefix)) target = testnet ? 'tprv' : 'xprv';
+  return prefix === target
+    ? extendedKey.trim()
+    : convertExtendedKey(extendedKey, target);
+}
+
+// The public prefix SLIP-132 registers for an account of the given script
+// type. Taproot has no registered prefix and stays xpub/tpub. SLIP-132 has
+// no Litecoin native segwit entry; zpub/vpub follows what Trezor emits.
+export function slip132PrefixFor(
+  kind: AddressKind,
+  networkType: NetworkType,
+  coin: SlipCoin = 'bitcoin'
+): ExtendedKeyPrefix {
+  const testnet = networkType === 'testnet';
+  if (coin === 'litecoin') {
+    if (kind === 'p2pkh') return testnet ? 'ttub' : 'Ltub';
+    if (kind === 'p2sh-p2wpkh') return testnet ? 'upub' : 'Mtub';
+    if (kind === 'p2wpkh') return testnet ? 'vpub' : 'zpub';
+    return testnet ? 'ttub' : 'Ltub';
+  }
+  if (kind === 'p2sh-p2wpkh') return testnet ? 'upub' : 'ypub';
+  if (kind === 'p2wpkh') return testnet ? 'vpub' : 'zpub';
+  return testnet ? 'tpub' : 'xpub';
+}
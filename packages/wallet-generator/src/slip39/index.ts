@@ -0,0 +1,607 @@
+import { concatBytes, randomBytes, utf8Encode } from '../utils/binary';
+import * as BIP39 from '../bip39';
+import { SLIP39_WORDLIST } from './wordlist';
+
+export { SLIP39_WORDLIST } from './wordlist';
+
+// Shamir's Secret-Sharing for Mnemonic Codes (SLIP-0039). A master secret is
+// encrypted with a passphrase-keyed Feistel network, split into groups with
+// a group threshold, and each group secret is split again among members.
+
+const RADIX_BITS = 10;
+const ID_LENGTH_BITS = 15;
+const EXTENDABLE_FLAG_LENGTH_BITS = 1;
+const ITERATION_EXP_LENGTH_BITS = 4;
+const ID_EXP_LENGTH_WORDS = 2;
+const CHECKSUM_LENGTH_WORDS = 3;
+const DIGEST_LENGTH_BYTES = 4;
+const METADATA_LENGTH_WORDS = ID_EXP_LENGTH_WORDS + 2 + CHECKSUM_LENGTH_WORDS;
+const MIN_STRENGTH_BITS = 128;
+const MIN_MNEMONIC_LENGTH_WORDS =
+  METADATA_LENGTH_WORDS + Math.ceil(MIN_STRENGTH_BITS / RADIX_BITS);
+const BASE_ITERATION_COUNT = 10000;
+const ROUND_COUNT = 4;
+const SECRET_INDEX = 255;
+const DIGEST_INDEX = 254;
+const MAX_SHARE_COUNT = 16;
+
+const CUSTOMIZATION_STRING_ORIG = utf8Encode('shamir');
+const CUSTOMIZATION_STRING_EXTENDABLE = utf8Encode('shamir_extendable');
+
+const RS1024_GENERATOR = [
+  0xe0e040, 0x1c1c080, 0x3838100, 0x7070200, 0xe0e0009, 0x1c0c2412, 0x38086c24,
+  0x3090fc48, 0x21b1f890, 0x3f3f120,
+];
+
+export interface GroupSpec {
+  threshold: number; // members required to rebuild this group
+  count: number; // members issued for this group
+}
+
+export interface SplitOptions {
+  groupThreshold: number;
+  groups: GroupSpec[];
+  passphrase?: string; // printable ASCII only, per SLIP-39
+  iterationExponent?: number; // PBKDF2 cost = 10000 << e, default 1
+  extendable?: boolean; // default true (shares can be extended later)
+}
+
+export interface ShareInfo {
+  identifier: number;
+  extendable: boolean;
+  iterationExponent: number;
+  groupIndex: number;
+  groupThreshold: number;
+  groupCount: number;
+  memberIndex: number;
+  memberThreshold: number;
+  value: Uint8Array;
+}
+
+// --- GF(256) arithmetic (Rijndael polynomial) ---
+
+const EXP_TABLE = new Uint8Array(255);
+const LOG_TABLE = new Uint8Array(256);
+(() => {
+  let poly = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP_TABLE[i] = poly;
+    LOG_TABLE[poly] = i;
+    poly = (poly << 1) ^ poly;
+    if (poly & 0x100) poly ^= 0x11b;
+  }
+})();
+
+function interpolate(
+  shares: Array<[number, Uint8Array]>,
+  x: number
+): Uint8Array {
+  const xs = new Set(shares.map(([index]) => index));
+  if (xs.size !== shares.length) {
+    throw new Error('Invalid set of shares. Share indices must be unique.');
+  }
+  const lengths = new Set(shares.map(([, value]) => value.length));
+  if (lengths.size !== 1) {
+    throw new Error(
+      'Invalid set of shares. All share values must have the same length.'
+    );
+  }
+  const exact = shares.find(([index]) => index === x);
+  if (exact) return exact[1];
+
+  const logProd = shares.reduce(
+    (sum, [index]) => sum + LOG_TABLE[index ^ x],
+    0
+  );
+  const result = new Uint8Array(shares[0][1].length);
+  for (const [index, value] of shares) {
+    const logBasis =
+      (((logProd -
+        LOG_TABLE[index ^ x] -
+        shares.reduce((sum, [other]) => sum + LOG_TABLE[index ^ other], 0)) %
+        255) +
+        255) %
+      255;
+    value.forEach((byte, i) => {
+      if (byte !== 0) {
+        result[i] ^= EXP_TABLE[(LOG_TABLE[byte] + logBasis) % 255];
+      }
+    });
+  }
+  return result;
+}
+
+// --- WebCrypto primitives ---
+
+function getSubtle(): SubtleCrypto {
+  const subtle = (globalThis as { crypto?: Crypto }).crypto?.subtle;
+  if (!subtle) throw new Error('WebCrypto is required for SLIP-39');
+  return subtle;
+}
+
+async function hmacSha256(
+  key: Uint8Array,
+  data: Uint8Array
+): Promise<Uint8Array> {
+  const subtle = getSubtle();
+  const cryptoKey = await subtle.importKey(
+    'raw',
+    key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return new Uint8Array(await subtle.sign('HMAC', cryptoKey, data));
+}
+
+async function pbkdf2Sha256(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length: number
+): Promise<Uint8Array> {
+  const subtle = getSubtle();
+  const keyMaterial = await subtle.importKey(
+    'raw',
+    password,
+    { name: 'PBKDF2' },
+    false,
+    ['deriveBits']
+  );
+  const bits = await subtle.deriveBits(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    keyMaterial,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+function createDigest(
+  randomPart: Uint8Array,
+  sharedSecret: Uint8Array
+): Promise<Uint8Array> {
+  return hmacSha256(randomPart, sharedSecret).then((mac) =>
+    mac.subarray(0, DIGEST_LENGTH_BYTES)
+  );
+}
+
+// --- Feistel cipher over the master secret ---
+
+function getSalt(identifier: number, extendable: boolean): Uint8Array {
+  if (extendable) return new Uint8Array(0);
+  return concatBytes([
+    CUSTOMIZATION_STRING_ORIG,
+    new Uint8Array([identifier >> 8, identifier & 0xff]),
+  ]);
+}
+
+async function feistel(
+  input: Uint8Array,
+  passphrase: Uint8Array,
+  iterationExponent: number,
+  identifier: number,
+  extendable: boolean,
+  rounds: number[]
+): Promise<Uint8Array> {
+  let left = input.slice(0, input.length / 2);
+  let right = input.slice(input.length / 2);
+  const salt = getSalt(identifier, extendable);
+  const iterations = (BASE_ITERATION_COUNT << iterationExponent) / ROUND_COUNT;
+  for (const round of rounds) {
+    const f = await pbkdf2Sha256(
+      concatBytes([new Uint8Array([round]), passphrase]),
+      concatBytes([salt, right]),
+      iterations,
+      right.length
+    );
+    const next = left.map((byte, i) => byte ^ f[i]);
+    left = right;
+    right = next;
+  }
+  return concatBytes([right, left]);
+}
+
+function encodePassphrase(passphrase: string): Uint8Array {
+  for (const ch of passphrase) {
+    const code = ch.charCodeAt(0);
+    if (code < 32 || code > 126) {
+      throw new Error(
+        'The passphrase must contain only printable ASCII characters (code points 32-126).'
+      );
+    }
+  }
+  return utf8Encode(passphrase);
+}
+
+// --- Shamir splitting ---
+
+async function splitSecret(
+  threshold: number,
+  shareCount: number,
+  secret: Uint8Array
+): Promise<Array<[number, Uint8Array]>> {
+  if (threshold < 1) {
+    throw new Error('The requested threshold must be a positive integer.');
+  }
+  if (threshold > shareCount) {
+    throw new Error(
+      'The requested threshold must not exceed the number of shares.'
+    );
+  }
+  if (shareCount > MAX_SHARE_COUNT) {
+    throw new Error(
+      `The requested number of shares must not exceed ${MAX_SHARE_COUNT}.`
+    );
+  }
+  if (threshold === 1) {
+    return Array.from({ length: shareCount }, (_, i) => [i, secret]);
+  }
+
+  const randomShareCount = threshold - 2;
+  const shares: Array<[number, Uint8Array]> = Array.from(
+    { length: randomShareCount },
+    (_, i) => [i, randomBytes(secret.length)]
+  );
+  const randomPart = randomBytes(secret.length - DIGEST_LENGTH_BYTES);
+  const digest = await createDigest(randomPart, secret);
+  const baseShares: Array<[number, Uint8Array]> = [
+    ...shares,
+    [DIGEST_INDEX, concatBytes([digest, randomPart])],
+    [SECRET_INDEX, secret],
+  ];
+  for (let i = randomShareCount; i < shareCount; i++) {
+    shares.push([i, interpolate(baseShares, i)]);
+  }
+  return shares;
+}
+
+async function recoverSecret(
+  threshold: number,
+  shares: Array<[number, Uint8Array]>
+): Promise<Uint8Array> {
+  if (threshold === 1) return shares[0][1];
+  const secret = interpolate(shares, SECRET_INDEX);
+  const digestShare = interpolate(shares, DIGEST_INDEX);
+  const digest = digestShare.subarray(0, DIGEST_LENGTH_BYTES);
+  const expected = await createDigest(
+    digestShare.subarray(DIGEST_LENGTH_BYTES),
+    secret
+  );
+  if (!digest.every((byte, i) => byte === expected[i])) {
+    throw new Error('Invalid digest of the shared secret.');
+  }
+  return secret;
+}
+
+// --- Mnemonic encoding ---
+
+function rs1024Polymod(values: number[]): number {
+  let chk = 1;
+  for (const v of values) {
+    const b = chk >> 20;
+    chk = ((chk & 0xfffff) << 10) ^ v;
+    for (let i = 0; i < 10; i++) {
+      if ((b >> i) & 1) chk ^= RS1024_GENERATOR[i];
+    }
+  }
+  return chk;
+}
+
+function customization(extendable: boolean): number[] {
+  return Array.from(
+    extendable ? CUSTOMIZATION_STRING_EXTENDABLE : CUSTOMIZATION_STRING_ORIG
+  );
+}
+
+function rs1024CreateChecksum(data: number[], extendable: boolean): number[] {
+  const polymod =
+    rs1024Polymod([
+      ...customization(extendable),
+      ...data,
+      ...new Array(CHECKSUM_LENGTH_WORDS).fill(0),
+    ]) ^ 1;
+  return Array.from(
+    { length: CHECKSUM_LENGTH_WORDS },
+    (_, i) => (polymod >> (10 * (CHECKSUM_LENGTH_WORDS - 1 - i))) & 1023
+  );
+}
+
+function rs1024VerifyChecksum(data: number[], extendable: boolean): boolean {
+  return rs1024Polymod([...customization(extendable), ...data]) === 1;
+}
+
+function bytesToIndices(value: Uint8Array, wordCount: number): number[] {
+  let acc = 0n;
+  for (const byte of value) acc = (acc << 8n) | BigInt(byte);
+  return Array.from({ length: wordCount }, (_, i) =>
+    Number((acc >> BigInt(RADIX_BITS * (wordCount - 1 - i))) & 1023n)
+  );
+}
+
+function indicesToBytes(indices: number[], byteCount: number): Uint8Array {
+  let acc = 0n;
+  for (const index of indices)
+    acc = (acc << BigInt(RADIX_BITS)) | BigInt(index);
+  const out = new Uint8Array(byteCount);
+  for (let i = byteCount - 1; i >= 0; i--) {
+    out[i] = Number(acc & 0xffn);
+    acc >>= 8n;
+  }
+  return out;
+}
+
+const WORD_INDEX = new Map(SLIP39_WORDLIST.map((word, i) => [word, i]));
+
+function mnemonicToIndices(mnemonic: string): number[] {
+  return mnemonic
+    .trim()
+    .toLowerCase()
+    .split(/\s+/)
+    .map((word) => {
+      const index = WORD_INDEX.get(word);
+      if (index === undefined)
+        throw new Error(`Invalid mnemonic word ${word}.`);
+      return index;
+    });
+}
+
+export function encodeShare(share: ShareInfo): string {
+  const idExp =
+    (share.identifier <<
+      (ITERATION_EXP_LENGTH_BITS + EXTENDABLE_FLAG_LENGTH_BITS)) +
+    ((share.extendable ? 1 : 0) << ITERATION_EXP_LENGTH_BITS) +
+    share.iterationExponent;
+  const params =
+    (share.groupIndex << 16) +
+    ((share.groupThreshold - 1) << 12) +
+    ((share.groupCount - 1) << 8) +
+    (share.memberIndex << 4) +
+    (share.memberThreshold - 1);
+  const valueWordCount = Math.ceil((share.value.length * 8) / RADIX_BITS);
+  const data = [
+    idExp >> RADIX_BITS,
+    idExp & 1023,
+    params >> RADIX_BITS,
+    params & 1023,
+    ...bytesToIndices(share.value, valueWordCount),
+  ];
+  return [...data, ...rs1024CreateChecksum(data, share.extendable)]
+    .map((index) => SLIP39_WORDLIST[index])
+    .join(' ');
+}
+
+export function decodeShare(mnemonic: string): ShareInfo {
+  const data = mnemonicToIndices(mnemonic);
+  if (data.length < MIN_MNEMONIC_LENGTH_WORDS) {
+    throw new Error(
+      `Invalid mnemonic length. The length of each mnemonic must be at least ${MIN_MNEMONIC_LENGTH_WORDS} words.`
+    );
+  }
+  const paddingLength =
+    (RADIX_BITS * (data.length - METADATA_LENGTH_WORDS)) % 16;
+  if (paddingLength > 8) throw new Error('Invalid mnemonic length.');
+
+  const idExp = (data[0] << RADIX_BITS) | data[1];
+  const extendable = Boolean((idExp >> ITERATION_EXP_LENGTH_BITS) & 1);
+  if (!rs1024VerifyChecksum(data, extendable)) {
+    throw new Error('Invalid mnemonic checksum.');
+  }
+
+  const params = (data[2] << RADIX_BITS) | data[3];
+  const groupThreshold = ((params >> 12) & 15) + 1;
+  const groupCount = ((params >> 8) & 15) + 1;
+  if (groupCount < groupThreshold) {
+    throw new Error(
+      'Invalid mnemonic. Group threshold cannot be greater than group count.'
+    );
+  }
+
+  const valueData = data.slice(
+    ID_EXP_LENGTH_WORDS + 2,
+    data.length - CHECKSUM_LENGTH_WORDS
+  );
+  if (valueData[0] >= 1 << (RADIX_BITS - paddingLength)) {
+    throw new Error('Invalid mnemonic padding.');
+  }
+  const valueByteCount = Math.ceil(
+    (RADIX_BITS * valueData.length - paddingLength) / 8
+  );
+
+  return {
+    identifier:
+      idExp >> (ITERATION_EXP_LENGTH_BITS + EXTENDABLE_FLAG_LENGTH_BITS),
+    extendable,
+    iterationExponent: idExp & ((1 << ITERATION_EXP_LENGTH_BITS) - 1),
+    groupIndex: params >> 16,
+    groupThreshold,
+    groupCount,
+    memberIndex: (params >> 4) & 15,
+    memberThreshold: (params & 15) + 1,
+    value: indicesToBytes(valueData, valueByteCount),
+  };
+}
+
+export function isValidShare(mnemonic: string): boolean {
+  try {
+    decodeShare(mnemonic);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// --- Public API ---
+
+export async function splitMasterSecret(
+  masterSecret: Uint8Array,
+  options: SplitOptions
+): Promise<string[][]> {
+  const {
+    groupThreshold,
+    groups,
+    passphrase = '',
+    iterationExponent = 1,
+    extendable = true,
+  } = options;
+
+  if (masterSecret.length * 8 < MIN_STRENGTH_BITS) {
+    throw new Error(
+      `The length of the master secret must be at least ${MIN_STRENGTH_BITS / 8} bytes.`
+    );
+  }
+  if (masterSecret.length % 2 !== 0) {
+    throw new Error(
+      'The length of the master secret in bytes must be an even number.'
+    );
+  }
+  if (groupThreshold > groups.length) {
+    throw new Error(
+      'The requested group threshold must not exceed the number of groups.'
+    );
+  }
+  if (groups.some((g) => g.threshold === 1 && g.count > 1)) {
+    throw new Error(
+      'Creating multiple member shares with member threshold 1 is not allowed. Use 1-of-1 member sharing instead.'
+    );
+  }
+  if (
+    !Number.isInteger(iterationExponent) ||
+    iterationExponent < 0 ||
+    iterationExponent > 15
+  ) {
+    throw new Error('The iteration exponent must be between 0 and 15.');
+  }
+
+  const [idHigh, idLow] = randomBytes(2);
+  const identifier = ((idHigh << 8) | idLow) & ((1 << ID_LENGTH_BITS) - 1);
+  const encrypted = await feistel(
+    masterSecret,
+    encodePassphrase(passphrase),
+    iterationExponent,
+    identifier,
+    extendable,
+    [0, 1, 2, 3]
+  );
+
+  const groupShares = await splitSecret(
+    groupThreshold,
+    groups.length,
+    encrypted
+  );
+  const result: string[][] = [];
+  for (const [groupIndex, groupSecret] of groupShares) {
+    const { threshold, count } = groups[groupIndex];
+    const memberShares = await splitSecret(threshold, count, groupSecret);
+    result.push(
+      memberShares.map(([memberIndex, value]) =>
+        encodeShare({
+          identifier,
+          extendable,
+          iterationExponent,
+          groupIndex,
+          groupThreshold,
+          groupCount: groups.length,
+          memberIndex,
+          memberThreshold: threshold,
+          value,
+        })
+      )
+    );
+  }
+  return result;
+}
+
+export async function recoverMasterSecret(
+  mnemonics: string[],
+  passphrase = ''
+): Promise<Uint8Array> {
+  if (mnemonics.length === 0)
+    throw new Error('The list of mnemonics is empty.');
+  const shares = mnemonics.map(decodeShare);
+  const first = shares[0];
+  const sameCommon = shares.every(
+    (s) =>
+      s.identifier === first.identifier &&
+      s.extendable === first.extendable &&
+      s.iterationExponent === first.iterationExponent &&
+      s.groupThreshold === first.groupThreshold &&
+      s.groupCount === first.groupCount
+  );
+  if (!sameCommon) {
+    throw new Error(
+      'Invalid set of mnemonics. All mnemonics must begin with the same 2 words, must have the same group threshold and the same group count.'
+    );
+  }
+
+  const groups = new Map<number, ShareInfo[]>();
+  for (const share of shares) {
+    const members = groups.get(share.groupIndex) ?? [];
+    // Identical shares entered twice are harmless; drop the duplicate
+    if (
+      !members.some(
+        (m) =>
+          m.memberIndex === share.memberIndex &&
+          m.value.every((byte, i) => byte === share.value[i])
+      )
+    ) {
+      members.push(share);
+    }
+    groups.set(share.groupIndex, members);
+  }
+
+  const complete: Array<[number, Uint8Array]> = [];
+  for (const [groupIndex, members] of groups) {
+    const threshold = members[0].memberThreshold;
+    if (members.some((m) => m.memberThreshold !== threshold)) {
+      throw new Error(
+        'Invalid set of mnemonics. All mnemonics in a group must have the same member threshold.'
+      );
+    }
+    if (members.length < threshold) continue;
+    complete.push([
+      groupIndex,
+      await recoverSecret(
+        threshold,
+        members
+          .slice(0, threshold)
+          .map((m): [number, Uint8Array] => [m.memberIndex, m.value])
+      ),
+    ]);
+  }
+
+  if (complete.length < first.groupThreshold) {
+    throw new Error(
+      `Insufficient number of mnemonic groups. The required number of groups is ${first.groupThreshold}.`
+    );
+  }
+
+  const encrypted = await recoverSecret(
+    first.groupThreshold,
+    complete.slice(0, first.groupThreshold)
+  );
+  return feistel(
+    encrypted,
+    encodePassphrase(passphrase),
+    first.iterationExponent,
+    first.identifier,
+    first.extendable,
+    [3, 2, 1, 0]
+  );
+}
+
+// BIP39 wallets are backed up by splitting the mnemonic's entropy, so the
+// recovered shares rebuild the exact same mnemonic (and seed).
+export async function splitMnemonic(
+  mnemonic: string,
+  options: SplitOptions
+): Promise<string[][]> {
+  return splitMasterSecret(BIP39.mnemonicToEntropy(mnemonic), options);
+}
+
+export async function recoverMnemonic(
+  mnemonics: string[],
+  passphrase = ''
+): Promise<string> {
+  const entropy = await recoverMasterSecret(mnemonics, passphrase);
+  return BIP39.entropyToMnemonic(entropy);
+}
@@ -83,4 +83,73 @@ describe('BIP32 address derivation', () => {
     expect(path).toBe("m/84'/1'/0'/0/0");
     expect(address.startsWith('tb1')).toBe(true);
   });
+
+  it("derives mainnet Taproot P2TR bech32m (BIP86 m/86'/0'/0'/0/0)", async () => {
+    const seed = await seedFromMnemonic();
+    const { address, path } = BIP32.deriveAddressFromSeed(seed, 'p2tr', 0, {
+      account: 0,
+      change: 0,
+      index: 0,
+    });
+    expect(path).toBe("m/86'/0'/0'/0/0");
+    expect(address.startsWith('bc1p')).toBe(true);
+  });
+
+  it("derives testnet Taproot P2TR bech32m (BIP86 m/86'/1'/0'/0/0)", async () => {
+    const seed = await seedFromMnemonic();
+    const { address, path } = BIP32.deriveAddressFromSeed(seed, 'p2tr', 1, {
+      account: 0,
+      change: 0,
+      index: 0,
+    });
+    expect(path).toBe("m/86'/1'/0'/0/0");
+    expect(address.startsWith('tb1p')).toBe(true);
+  });
+});
+
+// Official vectors from BIP86 (mnemonic "abandon ... about", no passphrase)
+describe('BIP86 Taproot test vectors', () => {
+  const vectors = [
+    {
+      options: { change: 0 as const, index: 0 },
+      internalKey:
+        'cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115',
+      address:
+        'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr',
+    },
+    {
+      options: { change: 0 as const, index: 1 },
+      internalKey:
+        '83dfe85a3151d2517290da461fe2815591ef69f2b18a2ce63f01697a8b313145',
+      address:
+        'bc1p4qhjn9zdvkux4e44uhx8tc55attvtyu358kutcqkudyccelu0was9fqzwh',
+    },
+    {
+      options: { change: 1 as const, index: 0 },
+      internalKey:
+        '399f1b2f4393f29a18c937859c5dd8a77350103157eb880f02e8c08214277cef',
+      address:
+        'bc1p3qkhfews2uk44qtvauqyr2ttdsw7svhkl9nkm9s9c3x4ax5h60wqwruhk7',
+    },
+  ];
+
+  for (const v of vectors) {
+    it(`matches m/86'/0'/0'/${v.options.change}/${v.options.index}`, async () => {
+      const seed = await seedFromMnemonic();
+      const { address } = BIP32.deriveAddressFromSeed(
+        seed,
+        'p2tr',
+        0,
+        v.options
+      );
+      expect(address).toBe(v.address);
+    });
+  }
+
+  it('accepts an x-only internal key directly', () => {
+    const internalKey = Buffer.from(vectors[0].internalKey, 'hex');
+    expect(
+      BIP32.deriveAddressFromPublicKey(internalKey, 'p2tr', 'mainnet')
+    ).toBe(vectors[0].address);
+  });
 });
@@ -51,3 +51,143 @@ describe('bip39', () => {
     expect(BIP39.isValidMnemonic('abandon abandon abandon')).toBe(false);
   });
 });
+
+describe('bip39 languages', () => {
+  const zeroEntropy = hexToBytes(v1EntropyHex);
+
+  it('generates and detects every official wordlist', () => {
+    for (const language of BIP39.MNEMONIC_LANGUAGES) {
+      const entropy = hexToBytes('7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f7f');
+      const mnemonic = BIP39.entropyToMnemonic(entropy, language);
+      expect(BIP39.detectMnemonicLanguage(mnemonic)).toBe(language);
+      expect(BIP39.isValidMnemonic(mnemonic)).toBe(true);
+      expect(bytesToHex(BIP39.mnemonicToEntropy(mnemonic))).toBe(
+        bytesToHex(entropy)
+      );
+    }
+  });
+
+  it('accepts Japanese phrases with ideographic spaces', () => {
+    const mnemonic = BIP39.entropyToMnemonic(zeroEntropy, 'japanese');
+    expect(mnemonic).toContain('　');
+    expect(mnemonic.startsWith('あいこくしん')).toBe(true);
+    expect(BIP39.detectMnemonicLanguage(mnemonic)).toBe('japanese');
+    expect(BIP39.isValidMnemonic(mnemonic)).toBe(true);
+  });
+
+  it('normalises composed Spanish input to NFKD', () => {
+    const mnemonic = BIP39.entropyToMnemonic(zeroEntropy, 'spanish');
+    const composed = mnemonic.normalize('NFC');
+    expect(composed).not.toBe(mnemonic);
+    expect(BIP39.detectMnemonicLanguage(composed)).toBe('spanish');
+    expect(BIP39.isValidMnemonic(composed)).toBe(true);
+    expect(BIP39.isValidMnemonic(composed, 'english')).toBe(false);
+  });
+
+  it('derives the BIP39 Japanese vector seed with an NFKD passphrase', async () => {
+    const mnemonic = BIP39.entropyToMnemonic(zeroEntropy, 'japanese');
+    const seed = await BIP39.mnemonicToSeed(
+      mnemonic,
+      '㍍ガバヴァぱばぐゞちぢ十人十色'
+    );
+    expect(bytesToHex(seed)).toBe(
+      'a262d6fb6122ecf45be09c50492b31f92e9beb7d9a845987a02cefda57a15f9c467a17872029a9e92299b5cbdf306e3a0ee620245cbd508959b6cb7ca637bd55'
+    );
+  });
+
+  it('returns null for words outside every list', () => {
+    expect(BIP39.detectMnemonicLanguage('abandon xyzzy about')).toBeNull();
+    expect(BIP39.detectMnemonicLanguage('')).toBeNull();
+  });
+});
+
+describe('bip39 diagnosis', () => {
+  const v24Mnemonic = `${'abandon '.repeat(23)}art`;
+
+  it('suggests completions and near matches', () => {
+    expect(BIP39.suggestWords('aba')[0]).toBe('abandon');
+    expect(BIP39.suggestWords('abot')).toContain('about');
+    expect(BIP39.suggestWords('zzzzzz')).toEqual([]);
+  });
+
+  it('reports a valid phrase without repairs', () => {
+    const diagnosis = BIP39.diagnoseMnemonic(v1Mnemonic);
+    expect(diagnosis.valid).toBe(true);
+    expect(diagnosis.language).toBe('english');
+    expect(diagnosis.unknownWords).toEqual([]);
+    expect(diagnosis.repairs).toEqual([]);
+  });
+
+  it('suggests words and checksum repairs for one unknown word', () => {
+    const typo = v1Mnemonic.replace(/about$/, 'abuot');
+    const diagnosis = BIP39.diagnoseMnemonic(typo);
+    expect(diagnosis.valid).toBe(false);
+    expect(diagnosis.language).toBe('english');
+    expect(diagnosis.unknownWords).toHaveLength(1);
+    expect(diagnosis.unknownWords[0].index).toBe(11);
+    expect(diagnosis.unknownWords[0].suggestions).toContain('about');
+    expect(diagnosis.suspectPositions).toEqual([11]);
+    expect(diagnosis.repairs.map((r) => r.mnemonic)).toContain(v1Mnemonic);
+    for (const repair of diagnosis.repairs) {
+      expect(repair.kind).toBe('replace');
+      expect(repair.index).toBe(11);
+      expect(BIP39.isValidMnemonic(repair.mnemonic)).toBe(true);
+    }
+  });
+
+  it('flags the likely position when a valid word breaks the checksum', () => {
+    expect(BIP39.isValidMnemonic(v24Mnemonic)).toBe(true);
+    const wrong = v24Mnemonic.replace(/art$/, 'act');
+    const diagnosis = BIP39.diagnoseMnemonic(wrong);
+    expect(diagnosis.checksumValid).toBe(false);
+    expect(diagnosis.unknownWords).toEqual([]);
+    expect(diagnosis.suspectPositions).toContain(23);
+    expect(
+      diagnosis.repairs.find((r) => r.index === 23 && r.word === 'art')
+    ).toBeDefined();
+    for (const repair of diagnosis.repairs) {
+      expect(BIP39.isValidMnemonic(repair.mnemonic)).toBe(true);
+    }
+  });
+
+  it('lists insertions for a missing word', () => {
+    const words = v1Mnemonic.split(' ');
+    words.splice(11, 1);
+    const diagnosis = BIP39.diagnoseMnemonic(words.join(' '));
+    expect(diagnosis.validWordCount).toBe(false);
+    expect(diagnosis.repairs.length).toBeGreaterThan(0);
+    expect(diagnosis.repairs.every((r) => r.kind === 'insert')).toBe(true);
+    expect(diagnosis.repairs.map((r) => r.mnemonic)).toContain(v1Mnemonic);
+
+    const typing = BIP39.diagnoseMnemonic(words.join(' '), undefined, {
+      insertions: false,
+    });
+    expect(typing.repairs).toEqual([]);
+  });
+
+  it('describes each problem with its word position', () => {
+    const typo = v1Mnemonic.replace(/about$/, 'abuot');
+    expect(
+      BIP39.describeMnemonicProblems(BIP39.diagnoseMnemonic(typo))
+    ).toEqual([expect.stringMatching(/^Word 12 "abuot" .*about/)]);
+    expect(
+      BIP39.describeMnemonicProblems(BIP39.diagnoseMnemonic('abandon about'))
+    ).toEqual([expect.stringContaining('Invalid word count: 2')]);
+    expect(
+      BIP39.describeMnemonicProblems(BIP39.diagnoseMnemonic(v1Mnemonic))
+    ).toEqual([]);
+  });
+
+  it('diagnoses non-English phrases against their own list', () => {
+    const mnemonic = BIP39.entropyToMnemonic(
+      hexToBytes(v1EntropyHex),
+      'spanish'
+    );
+    const words = mnemonic.split(' ');
+    const original = words[11];
+    words[11] = original.slice(0, -1);
+    const diagnosis = BIP39.diagnoseMnemonic(words.join(' '));
+    expect(diagnosis.language).toBe('spanish');
+    expect(diagnosis.unknownWords[0].suggestions).toContain(original);
+  });
+});
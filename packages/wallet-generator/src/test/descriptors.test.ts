@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { Descriptors, Wallet } from '..';
+
+const MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+// BIP86 account xpub for the mnemonic above
+const BIP86_XPUB =
+  'xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ';
+
+describe('Descriptor checksums (BIP380)', () => {
+  it('matches the BIP380 reference vectors', () => {
+    expect(Descriptors.descriptorChecksum('raw(deadbeef)')).toBe('89f8spxm');
+    expect(
+      Descriptors.descriptorChecksum(
+        'pk(0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798)'
+      )
+    ).toBe('gn28ywm7');
+  });
+
+  it('validates and rejects checksums', () => {
+    expect(Descriptors.isValidChecksum('raw(deadbeef)#89f8spxm')).toBe(true);
+    expect(Descriptors.isValidChecksum('raw(deadbeef)#89f8spxn')).toBe(false);
+    expect(Descriptors.isValidChecksum('raw(deadbeef)')).toBe(false);
+  });
+});
+
+describe('Descriptor export and import', () => {
+  it('emits a multipath descriptor with key origin from the mnemonic', async () => {
+    const wallet = await Wallet.assembleWalletFromMnemonic({
+      mnemonic: MNEMONIC,
+      kind: 'p2tr',
+      coinType: 0,
+    });
+
+    expect(wallet.masterFingerprint).toBe('73c5da0a');
+    expect(wallet.descriptor).toMatch(
+      new RegExp(
+        `^tr\\(\\[73c5da0a/86'/0'/0'\\]${BIP86_XPUB}/<0;1>/\\*\\)#[a-z0-9]{8}$`
+      )
+    );
+    expect(Descriptors.isValidChecksum(wallet.descriptor)).toBe(true);
+  });
+
+  it('round-trips every supported script type', async () => {
+    const expectedWrappers = {
+      p2pkh: 'pkh(',
+      'p2sh-p2wpkh': 'sh(wpkh(',
+      p2wpkh: 'wpkh(',
+      p2tr: 'tr(',
+    } as const;
+
+    for (const kind of Object.keys(expectedWrappers) as Array<
+      keyof typeof expectedWrappers
+    >) {
+      const wallet = await Wallet.assembleWalletFromMnemonic({
+        mnemonic: MNEMONIC,
+        kind,
+        coinType: 1,
+        options: { change: 1, index: 2 },
+      });
+      expect(wallet.descriptor.startsWith(expectedWrappers[kind])).toBe(true);
+
+      const parsed = Descriptors.parseDescriptor(wallet.descriptor, {
+        requireChecksum: true,
+      });
+      expect(parsed.kind).toBe(kind);
+      expect(parsed.network).toBe('testnet');
+      expect(parsed.descriptor).toBe(wallet.descriptor);
+
+      const derived = Wallet.assembleFromDescriptor(wallet.descriptor, {
+        change: 1,
+        index: 2,
+      });
+      expect(derived.address).toBe(wallet.address);
+      expect(derived.path).toBe(wallet.path);
+      expect(derived.publicKeyHex).toBe(wallet.publicKeyHex);
+    }
+  });
+
+  it('derives BIP86 addresses from a single-path descriptor with h markers', () => {
+    const descriptor = `tr([73C5DA0A/86h/0h/0h]${BIP86_XPUB}/0/*)`;
+    const first = Wallet.assembleFromDescriptor(descriptor);
+    const second = Wallet.assembleFromDescriptor(descriptor, { index: 1 });
+
+    expect(first.address).toBe(
+      'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr'
+    );
+    expect(first.internalPubkeyHex).toBe(
+      'cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115'
+    );
+    expect(first.path).toBe("m/86'/0'/0'/0/0");
+    expect(first.descriptor.startsWith("tr([73c5da0a/86'/0'/0']")).toBe(true);
+    expect(second.address).toBe(
+      'bc1p4qhjn9zdvkux4e44uhx8tc55attvtyu358kutcqkudyccelu0was9fqzwh'
+    );
+  });
+
+  it('expands multipath descriptors into receive and change descriptors', () => {
+    const descriptor = Descriptors.buildDescriptor({
+      kind: 'p2tr',
+      xpub: BIP86_XPUB,
+      fingerprint: '73c5da0a',
+      accountPath: "m/86'/0'/0'",
+    });
+    const [receive, change] = Descriptors.expandMultipath(descriptor);
+
+    expect(receive).toContain('/0/*)#');
+    expect(change).toContain('/1/*)#');
+    expect(Wallet.assembleFromDescriptor(change).address).toBe(
+      'bc1p3qkhfews2uk44qtvauqyr2ttdsw7svhkl9nkm9s9c3x4ax5h60wqwruhk7'
+    );
+  });
+
+  it('rejects malformed descriptors', () => {
+    expect(() =>
+      Descriptors.parseDescriptor(`tr(${BIP86_XPUB}/0/*)#aaaaaaaa`)
+    ).toThrow('Descriptor checksum mismatch');
+    expect(() =>
+      Descriptors.parseDescriptor(`tr(${BIP86_XPUB}/0/*)`, {
+        requireChecksum: true,
+      })
+    ).toThrow('Descriptor checksum is missing');
+    expect(() => Descriptors.parseDescriptor(`wsh(${BIP86_XPUB}/0/*)`)).toThrow(
+      'Unsupported descriptor script type'
+    );
+    expect(() =>
+      Descriptors.parseDescriptor(`wpkh(${BIP86_XPUB}/0h/*)`)
+    ).toThrow('Unsupported derivation step');
+    expect(() =>
+      Wallet.assembleFromDescriptor(`wpkh(${BIP86_XPUB}/<0;1>/*)`, {
+        change: 2,
+      })
+    ).toThrow('Descriptor has no branch 2');
+  });
+});
@@ -13,6 +13,12 @@ const sampleWallet: WalletExport.GeneratedWallet = {
   address: 'tb1qdummytap',
 };
 
+// Written by the v1 format (PBKDF2, 50k iterations) with password 'legacy-pw'
+const legacyWalletB64 =
+  'AJt7InZlcnNpb24iOjEsImtkZiI6InBia2RmMi1zaGEyNTYiLCJrZGZQYXJhbXMiOnsiaXRlcmF0aW9ucyI6NTAwMDB9LCJzYWx0QjY0IjoiYXNXQmw4THhjbDdianlZK1dXTlJEQT09IiwiY2lwaGVyIjoiYWVzLTI1Ni1nY20iLCJpdkI2NCI6ImxrTVZIaU5mam9aeTlqMXoifeVlzlhDEdIUvgUcRRwqPdLzEz+2OBEZRxPVKkn5Ezyad8OUcmSaWFrLDOLiBWtGaDKfkRAd3ZcBFIU5sOrxDBYlDyIKZGa6+/PGs3JibOhuDHBXA6p43V31cfwJwOsWtvCeqyptIbeXlQ3h7egb7CfRmLlrhTeVLnT6I/GRbBnhXZ0GKBK5r7CokfE88wt3WnIBl7hn1xM7c/f4GbEpI3udxNWPNvD9fg5wHcJaxFwe9oNCqaKM4mlxjUNkaZcc6aSIVSp+n24OsabdM12Ty/UJ7HSgqiLbWCVVSTCU3kWSEF0hXOsC01UvZzq4QuPZNWoBbdfgzBlIMLQMMVkD0KlY1Coa42Ottf+AHQL8UwntIGMJ7Gw8FdNeOUurxrfytSfLbnru';
+const legacyTextB64 =
+  'AJt7InZlcnNpb24iOjEsImtkZiI6InBia2RmMi1zaGEyNTYiLCJrZGZQYXJhbXMiOnsiaXRlcmF0aW9ucyI6NTAwMDB9LCJzYWx0QjY0IjoiK0Jvc2lsVVVuSEt5SE9zR3VTNHBhQT09IiwiY2lwaGVyIjoiYWVzLTI1Ni1nY20iLCJpdkI2NCI6IlVuMTJSRlZvMHd4S1BPeWwifZlunBt9hGbyUG6ZkdMVVMVa4EI7bVOer7ar';
+
 describe('Wallet export helpers', () => {
   it('exports JSON and TXT deterministically', () => {
     const json = WalletExport.exportWalletAsJson(sampleWallet);
@@ -67,4 +73,87 @@ describe('Wallet export helpers', () => {
     const dec = await WalletExport.decryptWallet(enc, 'pw');
     expect(dec.path).toBe(sampleWallet.path);
   }, 60_000);
+
+  it('writes v2 headers naming the payload type', async () => {
+    const enc = await WalletExport.encryptText('cVdummywif', 'pw', {
+      preferArgon2id: false,
+      pbkdf2Iterations: 100_000,
+    });
+    expect(enc.header.version).toBe(WalletExport.LATEST_EXPORT_VERSION);
+    expect(enc.header).toMatchObject({ version: 2, payloadType: 'text' });
+    expect(await WalletExport.decryptText(enc, 'pw')).toBe('cVdummywif');
+    await expect(WalletExport.decryptWallet(enc, 'pw')).rejects.toThrow(
+      'not a wallet'
+    );
+  });
+
+  it('round-trips descriptor bundles', async () => {
+    const bundle: WalletExport.DescriptorBundle = {
+      network: 'testnet',
+      masterFingerprint: '73c5da0a',
+      descriptors: [{ label: 'receive', descriptor: 'raw(deadbeef)#89f8spxm' }],
+    };
+    const enc = await WalletExport.encryptDescriptorBundle(bundle, 'pw', {
+      preferArgon2id: false,
+      pbkdf2Iterations: 100_000,
+    });
+    const dec = await WalletExport.decryptExport(enc, 'pw');
+    expect(dec).toEqual({
+      payloadType: 'descriptor-bundle',
+      version: 2,
+      bundle,
+    });
+  });
+
+  it('refuses to write or read v2 exports below the KDF floor', async () => {
+    await expect(
+      WalletExport.encryptWallet(sampleWallet, 'pw', {
+        preferArgon2id: false,
+        pbkdf2Iterations: 10_000,
+      })
+    ).rejects.toThrow('below minimum');
+
+    const enc = await WalletExport.encryptWallet(sampleWallet, 'pw', {
+      preferArgon2id: false,
+      pbkdf2Iterations: 100_000,
+    });
+    const weakened: WalletExport.EncryptedExport = {
+      ...enc,
+      header: { ...enc.header, kdfParams: { iterations: 1_000 } },
+    };
+    await expect(WalletExport.decryptWallet(weakened, 'pw')).rejects.toThrow(
+      'below minimum'
+    );
+  });
+
+  it('reads v1 exports and upgrades them to the latest version', async () => {
+    const legacy =
+      WalletExport.deserializeEncryptedExportFromBase64(legacyWalletB64);
+    expect(legacy.header.version).toBe(1);
+    expect(WalletExport.isLatestExport(legacy)).toBe(false);
+
+    const dec = await WalletExport.decryptWallet(legacy, 'legacy-pw');
+    expect(dec).toEqual(sampleWallet);
+
+    const upgraded = await WalletExport.reencryptToLatest(legacy, 'legacy-pw', {
+      preferArgon2id: false,
+      pbkdf2Iterations: 100_000,
+    });
+    expect(WalletExport.isLatestExport(upgraded)).toBe(true);
+    expect(upgraded.header).toMatchObject({ payloadType: 'wallet' });
+    expect(await WalletExport.decryptWallet(upgraded, 'legacy-pw')).toEqual(
+      sampleWallet
+    );
+  });
+
+  it('classifies v1 text exports', async () => {
+    const legacy =
+      WalletExport.deserializeEncryptedExportFromBase64(legacyTextB64);
+    const dec = await WalletExport.decryptExport(legacy, 'legacy-pw');
+    expect(dec).toEqual({
+      payloadType: 'text',
+      version: 1,
+      text: 'cVdummywif',
+    });
+  });
 });
@@ -0,0 +1,376 @@
+import { describe, it, expect } from 'vitest';
+import { Psbt, networks, payments } from 'bitcoinjs-lib';
+import { ECPairFactory } from 'ecpair';
+import * as ecc from 'tiny-secp256k1';
+import { BIP32, BIP39, PSBTReview } from '..';
+
+const MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+// Recipient on testnet and the same witness program on mainnet
+const RECIPIENT = 'tb1qw508d6qejxtdg4y5r3zarvary0c5xw7kxpjzsx';
+const MAINNET_RECIPIENT = 'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4';
+
+const FUNDING_TXID = '11'.repeat(32);
+
+const ECPair = ECPairFactory(ecc);
+
+async function signerKeys() {
+  const seed = await BIP39.mnemonicToSeed(MNEMONIC);
+  const root = BIP32.deriveNodeFromSeed(seed, 'testnet');
+  const fingerprint = Buffer.from(root.fingerprint);
+  const account = root.derivePath("m/84'/1'/0'").neutered();
+  const key = (change: 0 | 1, index: number) => {
+    const path = `m/84'/1'/0'/${change}/${index}`;
+    const node = root.derivePath(path);
+    const pubkey = Buffer.from(node.publicKey);
+    const { output, address } = payments.p2wpkh({
+      pubkey,
+      network: networks.testnet,
+    });
+    return { path, pubkey, script: output!, address: address! };
+  };
+  return { fingerprint, account, receive: key(0, 0), change: key(1, 0) };
+}
+
+async function buildPsbt(
+  build: (psbt: Psbt, keys: Awaited<ReturnType<typeof signerKeys>>) => void
+) {
+  const keys = await signerKeys();
+  const psbt = new Psbt({ network: networks.testnet });
+  psbt.addInput({
+    hash: FUNDING_TXID,
+    index: 0,
+    witnessUtxo: { script: keys.receive.script, value: 100_000 },
+    bip32Derivation: [
+      {
+        masterFingerprint: keys.fingerprint,
+        pubkey: keys.receive.pubkey,
+        path: keys.receive.path,
+      },
+    ],
+  });
+  build(psbt, keys);
+  return { psbt: psbt.toBase64(), keys };
+}
+
+describe('Signer-side PSBT review', () => {
+  it('verifies change to another address of the account', async () => {
+    const { psbt, keys } = await buildPsbt((psbt, keys) => {
+      psbt.addOutput({ address: RECIPIENT, value: 60_000 });
+      psbt.addOutput({
+        address: keys.change.address,
+        value: 39_000,
+        bip32Derivation: [
+          {
+            masterFingerprint: keys.fingerprint,
+            pubkey: keys.change.pubkey,
+            path: keys.change.path,
+          },
+        ],
+      });
+    });
+
+    const review = PSBTReview.reviewPSBT(psbt, {
+      network: networks.testnet,
+      publicKey: keys.receive.pubkey,
+      accountNode: keys.account,
+    });
+
+    expect(review.warnings).toEqual([]);
+    expect(review.signableInputs).toBe(1);
+    expect(review.inputs[0].path).toBe(keys.receive.path);
+    expect(review.outputs[0]).toMatchObject({
+      address: RECIPIENT,
+      isChange: false,
+    });
+    expect(review.outputs[1]).toMatchObject({
+      isChange: true,
+      path: keys.change.path,
+    });
+    expect(review.sent).toBe(60_000);
+    expect(review.change).toBe(39_000);
+    expect(review.fee).toBe(1_000);
+    // One P2WPKH input and two outputs
+    expect(review.vsize).toBe(141);
+    expect(review.feeRate).toBeCloseTo(1000 / 141);
+  });
+
+  it('counts an output back to the signing key as change', async () => {
+    const { psbt, keys } = await buildPsbt((psbt, keys) => {
+      psbt.addOutput({ address: RECIPIENT, value: 30_000 });
+      psbt.addOutput({ address: keys.receive.address, value: 69_000 });
+    });
+
+    const review = PSBTReview.reviewPSBT(psbt, {
+      network: networks.testnet,
+      publicKey: keys.receive.pubkey,
+    });
+
+    expect(review.outputs.map((output) => output.isChange)).toEqual([
+      false,
+      true,
+    ]);
+    expect(review.sent).toBe(30_000);
+    expect(review.change).toBe(69_000);
+  });
+
+  it('treats change it cannot verify as a payment', async () => {
+    const { psbt, keys } = await buildPsbt((psbt, keys) => {
+      psbt.addOutput({
+        address: keys.change.address,
+        value: 99_000,
+        bip32Derivation: [
+          {
+            masterFingerprint: keys.fingerprint,
+            pubkey: keys.change.pubkey,
+            path: keys.change.path,
+          },
+        ],
+      });
+    });
+
+    // Without the account key the signer only knows its own key
+    const review = PSBTReview.reviewPSBT(psbt, {
+      network: networks.testnet,
+      publicKey: keys.receive.pubkey,
+    });
+
+    expect(review.outputs[0].isChange).toBe(false);
+    expect(review.warnings.map((w) => w.code)).toEqual(['unverified-change']);
+  });
+
+  it('does not count an output as change when its key origin does not pay the signer', async () => {
+    const { psbt, keys } = await buildPsbt((psbt, keys) => {
+      psbt.addOutput({
+        address: RECIPIENT,
+        value: 99_000,
+        bip32Derivation: [
+          {
+            masterFingerprint: keys.fingerprint,
+            pubkey: keys.change.pubkey,
+            path: keys.change.path,
+          },
+        ],
+      });
+    });
+
+    const review = PSBTReview.reviewPSBT(psbt, {
+      network: networks.testnet,
+      publicKey: keys.change.pubkey,
+    });
+
+    expect(review.outputs[0].isChange).toBe(false);
+    expect(review.sent).toBe(99_000);
+    expect(review.warnings.map((w) => w.code)).toEqual([
+      'unknown-input',
+      'unverified-change',
+      'nothing-to-sign',
+    ]);
+  });
+
+  it('does not count a multisig output holding the signing key as change', async () => {
+    const attacker = BIP32.deriveNodeFromSeed(
+      Buffer.alloc(32, 7),
+      'testnet'
+    ).derivePath('m/0/0');
+    const { psbt, keys } = await buildPsbt((psbt, keys) => {
+      const redeem = payments.p2ms({
+        m: 1,
+        pubkeys: [keys.change.pubkey, Buffer.from(attacker.publicKey)],
+      });
+      psbt.addOutput({ address: RECIPIENT, value: 1_000 });
+      psbt.addOutput({
+        script: payments.p2wsh({ redeem }).output!,
+        value: 98_000,
+        witnessScript: redeem.output,
+        bip32Derivation: [
+          {
+            masterFingerprint: keys.fingerprint,
+            pubkey: keys.change.pubkey,
+            path: keys.change.path,
+          },
+        ],
+      });
+    });
+
+    const review = PSBTReview.reviewPSBT(psbt, {
+      network: networks.testnet,
+      publicKey: keys.change.pubkey,
+      accountNode: keys.account,
+    });
+
+    expect(review.outputs[1].isChange).toBe(false);
+    expect(review.sent).toBe(99_000);
+    expect(review.warnings).toContainEqual(
+      expect.objectContaining({ code: 'unverified-change', outputIndex: 1 })
+    );
+  });
+
+  it('verifies multisig change against every cosigner key', async () => {
+    const cosigner = BIP32.deriveNodeFromSeed(Buffer.alloc(32, 7), 'testnet')
+      .derivePath("m/48'/1'/0'/2'")
+      .neutered();
+    const { psbt, keys } = await buildPsbt((psbt, keys) => {
+      const pubkeys = [
+        keys.change.pubkey,
+        Buffer.from(cosigner.derive(1).derive(0).publicKey),
+      ].sort(Buffer.compare);
+      const redeem = payments.p2ms({ m: 2, pubkeys });
+      psbt.addOutput({ address: RECIPIENT, value: 60_000 });
+      psbt.addOutput({
+        script: payments.p2wsh({ redeem }).output!,
+        value: 39_000,
+        witnessScript: redeem.output,
+        bip32Derivation: [
+          {
+            masterFingerprint: keys.fingerprint,
+            pubkey: keys.change.pubkey,
+            path: keys.change.path,
+          },
+        ],
+      });
+    });
+
+    const review = PSBTReview.reviewPSBT(psbt, {
+      network: networks.testnet,
+      publicKey: keys.receive.pubkey,
+      multisig: { threshold: 2, cosigners: [keys.account, cosigner] },
+    });
+    expect(review.outputs[1]).toMatchObject({
+      isChange: true,
+      path: keys.change.path,
+    });
+    expect(review.sent).toBe(60_000);
+
+    // A different threshold is not the wallet's script
+    const wrongThreshold = PSBTReview.reviewPSBT(psbt, {
+      network: networks.testnet,
+      publicKey: keys.receive.pubkey,
+      multisig: { threshold: 1, cosigners: [keys.account, cosigner] },
+    });
+    expect(wrongThreshold.outputs[1].isChange).toBe(false);
+  });
+
+  it('warns about absurd fees', async () => {
+    const { psbt, keys } = await buildPsbt((psbt) => {
+      psbt.addOutput({ address: RECIPIENT, value: 50_000 });
+    });
+
+    const review = PSBTReview.reviewPSBT(psbt, {
+      network: networks.testnet,
+      publicKey: keys.receive.pubkey,
+    });
+    expect(review.fee).toBe(50_000);
+    expect(review.warnings.map((w) => w.code)).toEqual(['absurd-fee']);
+
+    const lenient = PSBTReview.reviewPSBT(psbt, {
+      network: networks.testnet,
+      publicKey: keys.receive.pubkey,
+      maxFeeRate: 1_000_000,
+    });
+    expect(lenient.warnings[0].message).toMatch(/50\.0% of the amount spent/);
+  });
+
+  it('warns about sighash types other than ALL', async () => {
+    const { psbt, keys } = await buildPsbt((psbt) => {
+      psbt.addOutput({ address: RECIPIENT, value: 99_000 });
+      psbt.updateInput(0, { sighashType: 0x83 });
+    });
+
+    const review = PSBTReview.reviewPSBT(psbt, {
+      network: networks.testnet,
+      publicKey: keys.receive.pubkey,
+    });
+
+    expect(review.inputs[0].sighashType).toBe(0x83);
+    expect(review.warnings).toHaveLength(1);
+    expect(review.warnings[0]).toMatchObject({
+      code: 'sighash',
+      inputIndex: 0,
+    });
+    expect(review.warnings[0].message).toContain('SINGLE|ANYONECANPAY');
+  });
+
+  it('warns about key paths and addresses of another network', async () => {
+    const { psbt, keys } = await buildPsbt((psbt) => {
+      psbt.addOutput({ address: RECIPIENT, value: 99_000 });
+    });
+
+    // The same PSBT reviewed by a mainnet signer
+    const review = PSBTReview.reviewPSBT(psbt, {
+      network: networks.bitcoin,
+      publicKey: keys.receive.pubkey,
+    });
+
+    expect(review.outputs[0].address).toBe(MAINNET_RECIPIENT);
+    expect(review.warnings).toEqual([
+      expect.objectContaining({ code: 'wrong-network', inputIndex: 0 }),
+    ]);
+    expect(review.warnings[0].message).toContain('coin type 1, not 0');
+  });
+
+  it('leaves the fee unknown when an input does not carry its UTXO', async () => {
+    const { psbt, keys } = await buildPsbt((psbt) => {
+      psbt.addInput({ hash: '22'.repeat(32), index: 1 });
+      psbt.addOutput({ address: RECIPIENT, value: 99_000 });
+    });
+
+    const review = PSBTReview.reviewPSBT(psbt, {
+      network: networks.testnet,
+      publicKey: keys.receive.pubkey,
+    });
+
+    expect(review.totalInput).toBeUndefined();
+    expect(review.fee).toBeUndefined();
+    expect(review.feeRate).toBeUndefined();
+    expect(review.inputs[1].value).toBeUndefined();
+    expect(review.warnings.map((w) => w.code)).toEqual(['missing-utxo']);
+  });
+
+  it('signs the inputs it reviews as signable, taproot included', async () => {
+    const seed = await BIP39.mnemonicToSeed(MNEMONIC);
+    const root = BIP32.deriveNodeFromSeed(seed, 'testnet');
+    const key = ECPair.fromPrivateKey(
+      Buffer.from(root.derivePath("m/86'/1'/0'/0/0").privateKey!),
+      { network: networks.testnet }
+    );
+    const internalPubkey = Buffer.from(key.publicKey.subarray(1));
+    const p2tr = payments.p2tr({ internalPubkey, network: networks.testnet });
+    const p2wpkh = payments.p2wpkh({
+      pubkey: Buffer.from(key.publicKey),
+      network: networks.testnet,
+    });
+
+    const psbt = new Psbt({ network: networks.testnet });
+    psbt.addInput({
+      hash: FUNDING_TXID,
+      index: 0,
+      witnessUtxo: { script: p2tr.output!, value: 50_000 },
+      tapInternalKey: internalPubkey,
+    });
+    psbt.addInput({
+      hash: FUNDING_TXID,
+      index: 1,
+      witnessUtxo: { script: p2wpkh.output!, value: 50_000 },
+    });
+    psbt.addOutput({ address: RECIPIENT, value: 99_000 });
+
+    const review = PSBTReview.reviewPSBT(psbt.toBase64(), {
+      network: networks.testnet,
+      publicKey: key.publicKey,
+    });
+    expect(review.inputs.map((input) => input.signable)).toEqual([true, true]);
+
+    expect(PSBTReview.signPSBTInputs(psbt, key)).toEqual([0, 1]);
+    expect(psbt.data.inputs[0].tapKeySig).toHaveLength(64);
+    // Schnorr signatures come with x-only keys
+    const verify = (pubkey: Buffer, hash: Buffer, signature: Buffer) =>
+      pubkey.length === 32
+        ? ecc.verifySchnorr(hash, pubkey, signature)
+        : ecc.verify(hash, pubkey, signature);
+    expect(psbt.validateSignaturesOfAllInputs(verify)).toBe(true);
+    psbt.finalizeAllInputs();
+    expect(psbt.extractTransaction().ins[0].witness).toHaveLength(1);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { BIP32, BIP39, Wallet, WalletScan } from '..';
+
+const MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+describe('Gap-limit account scanning', () => {
+  it('derives the same chain from the seed and from the account xpub', async () => {
+    const seed = await BIP39.mnemonicToSeed(MNEMONIC);
+    const wallet = await Wallet.assembleWalletFromMnemonic({
+      mnemonic: MNEMONIC,
+      kind: 'p2wpkh',
+      coinType: 0,
+      options: { change: 1, index: 3 },
+    });
+
+    const fromSeed = await WalletScan.scanAccountFromSeed(seed, 'p2wpkh', 0, {
+      hasHistory: () => false,
+      gapLimit: 5,
+    });
+    const fromXpub = await WalletScan.scanAccountFromXpub(
+      wallet.xpub,
+      'p2wpkh',
+      'mainnet',
+      { hasHistory: () => false, gapLimit: 5 }
+    );
+
+    expect(fromSeed.xpub).toBe(wallet.xpub);
+    expect(fromSeed.change.scanned[3].address).toBe(wallet.address);
+    expect(fromSeed.change.scanned[3].path).toBe(wallet.path);
+    expect(fromXpub.change.scanned[3].address).toBe(wallet.address);
+    expect(fromXpub.change.scanned[3].path).toBe('1/3');
+  });
+
+  it('stops after gapLimit consecutive unused addresses', async () => {
+    const seed = await BIP39.mnemonicToSeed(MNEMONIC);
+    const external = new Set<string>();
+    for (const index of [0, 4, 9]) {
+      external.add(
+        BIP32.deriveAddressFromSeed(seed, 'p2wpkh', 1, { change: 0, index })
+          .address
+      );
+    }
+
+    const result = await WalletScan.scanAccountFromSeed(seed, 'p2wpkh', 1, {
+      hasHistory: async ({ address }) => external.has(address),
+      gapLimit: 5,
+      batchSize: 3,
+    });
+
+    expect(result.external.used.map((a) => a.index)).toEqual([0, 4, 9]);
+    expect(result.external.nextIndex).toBe(10);
+    // Batches of 3 reach index 14 before five unused addresses follow index 9
+    expect(result.external.scanned).toHaveLength(15);
+    expect(result.change.used).toHaveLength(0);
+    expect(result.change.scanned).toHaveLength(6);
+    expect(result.used).toHaveLength(3);
+  });
+
+  it('scans only the requested chains and honours maxIndex', async () => {
+    const seed = await BIP39.mnemonicToSeed(MNEMONIC);
+    const result = await WalletScan.scanAccountFromSeed(seed, 'p2tr', 0, {
+      hasHistory: () => true,
+      chains: [0],
+      maxIndex: 7,
+    });
+
+    expect(result.external.scanned).toHaveLength(8);
+    expect(result.external.nextIndex).toBe(8);
+    expect(result.change.scanned).toHaveLength(0);
+    expect(result.external.scanned[0].address).toBe(
+      'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr'
+    );
+  });
+
+  it('rejects a non-positive gap limit', async () => {
+    const seed = await BIP39.mnemonicToSeed(MNEMONIC);
+    await expect(
+      WalletScan.scanAccountFromSeed(seed, 'p2wpkh', 0, {
+        hasHistory: () => false,
+        gapLimit: 0,
+      })
+    ).rejects.toThrow('Gap limit must be a positive integer');
+  });
+});
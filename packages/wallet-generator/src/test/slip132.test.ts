@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { SLIP132, Wallet, WalletScan } from '..';
+
+const MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+// Account keys published with BIP49 and BIP84 for the mnemonic above
+const BIP49_YPUB =
+  'ypub6Ww3ibxVfGzLrAH1PNcjyAWenMTbbAosGNB6VvmSEgytSER9azLDWCxoJwW7Ke7icmizBMXrzBx9979FfaHxHcrArf3zbeJJJUZPf663zsP';
+const BIP84_ZPUB =
+  'zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs';
+
+describe('SLIP-132 extended key prefixes', () => {
+  it('serialises accounts with the script-type prefix on request', async () => {
+    const nested = await Wallet.assembleWalletFromMnemonic({
+      mnemonic: MNEMONIC,
+      kind: 'p2sh-p2wpkh',
+      coinType: 0,
+      xpubFormat: 'slip132',
+    });
+    const native = await Wallet.assembleWalletFromMnemonic({
+      mnemonic: MNEMONIC,
+      kind: 'p2wpkh',
+      coinType: 0,
+      xpubFormat: 'slip132',
+    });
+
+    expect(nested.xpub).toBe(BIP49_YPUB);
+    expect(native.xpub).toBe(BIP84_ZPUB);
+    // Descriptors keep the BIP32 form other tools expect
+    expect(native.descriptor).toContain(']xpub');
+  });
+
+  it('uses upub/vpub on testnet and keeps xpub/tpub by default', async () => {
+    const testnet = await Wallet.assembleWalletFromMnemonic({
+      mnemonic: MNEMONIC,
+      kind: 'p2wpkh',
+      coinType: 1,
+      xpubFormat: 'slip132',
+    });
+    const standard = await Wallet.assembleWalletFromMnemonic({
+      mnemonic: MNEMONIC,
+      kind: 'p2wpkh',
+      coinType: 1,
+    });
+
+    expect(testnet.xpub.startsWith('vpub')).toBe(true);
+    expect(standard.xpub.startsWith('tpub')).toBe(true);
+    expect(SLIP132.toStandardExtendedKey(testnet.xpub)).toBe(standard.xpub);
+  });
+
+  it('converts between every public prefix without changing the key', () => {
+    const publicPrefixes = (
+      Object.keys(SLIP132.VERSION_BYTES) as SLIP132.ExtendedKeyPrefix[]
+    ).filter((prefix) => !SLIP132.isPrivatePrefix(prefix));
+
+    for (const prefix of publicPrefixes) {
+      const converted = SLIP132.convertExtendedKey(BIP84_ZPUB, prefix);
+      expect(converted.startsWith(prefix)).toBe(true);
+      expect(SLIP132.getExtendedKeyPrefix(converted)).toBe(prefix);
+      expect(SLIP132.convertExtendedKey(converted, 'zpub')).toBe(BIP84_ZPUB);
+    }
+  });
+
+  it('covers Litecoin Ltub/Mtub prefixes', () => {
+    expect(SLIP132.slip132PrefixFor('p2pkh', 'mainnet', 'litecoin')).toBe(
+      'Ltub'
+    );
+    expect(SLIP132.slip132PrefixFor('p2sh-p2wpkh', 'mainnet', 'litecoin')).toBe(
+      'Mtub'
+    );
+    const ltub = SLIP132.convertExtendedKey(BIP49_YPUB, 'Ltub');
+    expect(ltub.startsWith('Ltub')).toBe(true);
+    expect(SLIP132.networkForPrefix('Ltub')).toBe('mainnet');
+  });
+
+  it('refuses to turn a public key into a private prefix', () => {
+    expect(() => SLIP132.convertExtendedKey(BIP84_ZPUB, 'zprv')).toThrow(
+      'public/private key type differs'
+    );
+  });
+
+  it('accepts SLIP-132 keys when scanning', async () => {
+    const wallet = await Wallet.assembleWalletFromMnemonic({
+      mnemonic: MNEMONIC,
+      kind: 'p2wpkh',
+      coinType: 0,
+    });
+    const result = await WalletScan.scanAccountFromXpub(
+      BIP84_ZPUB,
+      'p2wpkh',
+      'mainnet',
+      { hasHistory: () => false, gapLimit: 1, chains: [0] }
+    );
+    expect(result.external.scanned[0].address).toBe(wallet.address);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { BIP32, SLIP39 } from '..';
+import { bytesToHex, hexToBytes } from '../utils/hex';
+import vectors from './slip39-vectors.json';
+
+// Official SLIP-0039 test vectors (trezor/python-shamir-mnemonic), all
+// generated with the passphrase "TREZOR". An empty secret marks an invalid set.
+type Vector = [string, string[], string, string];
+
+const MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+describe('SLIP-39 official test vectors', () => {
+  for (const [description, mnemonics, secretHex, xprv] of vectors as Vector[]) {
+    it(description, async () => {
+      if (!secretHex) {
+        await expect(
+          SLIP39.recoverMasterSecret(mnemonics, 'TREZOR')
+        ).rejects.toThrow();
+        return;
+      }
+      const secret = await SLIP39.recoverMasterSecret(mnemonics, 'TREZOR');
+      expect(bytesToHex(secret)).toBe(secretHex);
+      expect(BIP32.deriveNodeFromSeed(secret, 'mainnet').toBase58()).toBe(xprv);
+    });
+  }
+});
+
+describe('SLIP-39 split and recover', () => {
+  it('splits into M-of-N groups and recovers from any qualifying subset', async () => {
+    const secret = hexToBytes('bb54aac4b89dc868ba37d9cc21b2cece');
+    const groups = await SLIP39.splitMasterSecret(secret, {
+      groupThreshold: 2,
+      groups: [
+        { threshold: 1, count: 1 },
+        { threshold: 2, count: 3 },
+        { threshold: 3, count: 5 },
+      ],
+      passphrase: 'TREZOR',
+      iterationExponent: 0,
+    });
+
+    expect(groups.map((g) => g.length)).toEqual([1, 3, 5]);
+    expect(groups.flat().every(SLIP39.isValidShare)).toBe(true);
+
+    const fromFirstTwo = await SLIP39.recoverMasterSecret(
+      [groups[0][0], groups[1][2], groups[1][0]],
+      'TREZOR'
+    );
+    const fromLastTwo = await SLIP39.recoverMasterSecret(
+      [groups[1][1], groups[1][2], groups[2][4], groups[2][0], groups[2][3]],
+      'TREZOR'
+    );
+    expect(bytesToHex(fromFirstTwo)).toBe(bytesToHex(secret));
+    expect(bytesToHex(fromLastTwo)).toBe(bytesToHex(secret));
+  });
+
+  it('fails with too few groups', async () => {
+    const groups = await SLIP39.splitMasterSecret(
+      hexToBytes('bb54aac4b89dc868ba37d9cc21b2cece'),
+      {
+        groupThreshold: 2,
+        groups: [
+          { threshold: 2, count: 2 },
+          { threshold: 2, count: 2 },
+        ],
+        iterationExponent: 0,
+      }
+    );
+    await expect(SLIP39.recoverMasterSecret(groups[0])).rejects.toThrow(
+      'Insufficient number of mnemonic groups'
+    );
+  });
+
+  it('round-trips a BIP39 mnemonic through its entropy', async () => {
+    const [[share]] = await SLIP39.splitMnemonic(MNEMONIC, {
+      groupThreshold: 1,
+      groups: [{ threshold: 1, count: 1 }],
+      iterationExponent: 0,
+    });
+    const info = SLIP39.decodeShare(share);
+
+    expect(share.split(' ')).toHaveLength(20);
+    expect(info.extendable).toBe(true);
+    expect(await SLIP39.recoverMnemonic([share])).toBe(MNEMONIC);
+  });
+
+  it('rejects invalid split parameters', async () => {
+    const secret = hexToBytes('bb54aac4b89dc868ba37d9cc21b2cece');
+    await expect(
+      SLIP39.splitMasterSecret(secret.subarray(0, 15), {
+        groupThreshold: 1,
+        groups: [{ threshold: 1, count: 1 }],
+      })
+    ).rejects.toThrow('at least 16 bytes');
+    await expect(
+      SLIP39.splitMasterSecret(secret, {
+        groupThreshold: 1,
+        groups: [{ threshold: 1, count: 3 }],
+      })
+    ).rejects.toThrow('member threshold 1 is not allowed');
+    await expect(
+      SLIP39.splitMasterSecret(secret, {
+        groupThreshold: 1,
+        groups: [{ threshold: 1, count: 1 }],
+        passphrase: 'pässword',
+      })
+    ).rejects.toThrow('printable ASCII');
+  });
+});
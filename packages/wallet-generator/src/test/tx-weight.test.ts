@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { Psbt, networks, payments } from 'bitcoinjs-lib';
+import { ECPairFactory } from 'ecpair';
+import * as ecc from 'tiny-secp256k1';
+import { TxWeight } from '..';
+
+const { OUTPUT_SCRIPT_LENGTH, estimateTransactionWeight, estimateVsize } =
+  TxWeight;
+
+const ECPair = ECPairFactory(ecc);
+const network = networks.testnet;
+
+describe('Transaction weight', () => {
+  // One input paying one output of the same type, at the 72-byte
+  // signatures the estimator assumes
+  it.each([
+    ['p2pkh', OUTPUT_SCRIPT_LENGTH.p2pkh, 192],
+    ['p2sh-p2wpkh', OUTPUT_SCRIPT_LENGTH.p2sh, 134],
+    ['p2wpkh', OUTPUT_SCRIPT_LENGTH.p2wpkh, 110],
+    ['p2tr', OUTPUT_SCRIPT_LENGTH.p2tr, 111],
+  ] as const)(
+    'sizes a one-in one-out %s spend',
+    (type, outputLength, vsize) => {
+      expect(estimateVsize([type], [outputLength])).toBe(vsize);
+    }
+  );
+
+  it('sizes multisig inputs by their threshold and key count', () => {
+    const p2wsh = (m: number, n: number) =>
+      estimateVsize([{ type: 'p2wsh', m, n }], [OUTPUT_SCRIPT_LENGTH.p2wsh]);
+
+    expect(p2wsh(2, 3)).toBe(158);
+    // A third signature adds 73 witness bytes
+    expect(p2wsh(3, 3)).toBe(177);
+    expect(
+      estimateVsize(
+        [{ type: 'p2sh-p2wsh', m: 2, n: 3 }],
+        [OUTPUT_SCRIPT_LENGTH.p2sh]
+      )
+    ).toBe(182);
+    expect(() => p2wsh(3, 2)).toThrow('Invalid 3-of-2 multisig');
+  });
+
+  it('gives legacy inputs an empty witness in a segwit transaction', () => {
+    const legacy = estimateTransactionWeight(['p2pkh'], [22]);
+    const mixed = estimateTransactionWeight(['p2pkh', 'p2wpkh'], [22]);
+
+    expect(legacy.segwit).toBe(false);
+    expect(mixed.segwit).toBe(true);
+    expect(mixed.inputs).toBe(
+      legacy.inputs + 1 + estimateTransactionWeight(['p2wpkh'], []).inputs
+    );
+  });
+
+  it('never falls short of a signed transaction', () => {
+    const key = ECPair.fromPrivateKey(Buffer.alloc(32, 1), { network });
+    const signer = {
+      publicKey: Buffer.from(key.publicKey),
+      sign: (hash: Buffer) => Buffer.from(key.sign(hash)),
+    };
+    const payment = payments.p2wpkh({ pubkey: signer.publicKey, network });
+
+    const psbt = new Psbt({ network });
+    psbt.addInput({
+      hash: '11'.repeat(32),
+      index: 0,
+      witnessUtxo: { script: payment.output!, value: 100_000 },
+    });
+    psbt.addOutput({ script: payment.output!, value: 90_000 });
+    psbt.signInput(0, signer).finalizeAllInputs();
+    const actual = psbt.extractTransaction().virtualSize();
+
+    const estimate = estimateVsize(['p2wpkh'], [OUTPUT_SCRIPT_LENGTH.p2wpkh]);
+    expect(estimate).toBeGreaterThanOrEqual(actual);
+    expect(estimate - actual).toBeLessThanOrEqual(1);
+  });
+});
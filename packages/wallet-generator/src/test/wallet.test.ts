@@ -48,4 +48,35 @@ describe('Wallet assembly (ECPair + WIF + address)', () => {
     expect(result.publicKeyHex.length).toBe(66);
     expect(result.address.startsWith('tb1')).toBe(true);
   });
+
+  it('assembles mainnet P2TR wallet with BIP86 internal key', async () => {
+    const result = await Wallet.assembleWalletFromMnemonic({
+      mnemonic: MNEMONIC,
+      kind: 'p2tr',
+      coinType: 0,
+      options: { account: 0, change: 0, index: 0 },
+    });
+
+    expect(result.path).toBe("m/86'/0'/0'/0/0");
+    expect(result.xpub).toBe(
+      'xpub6BgBgsespWvERF3LHQu6CnqdvfEvtMcQjYrcRzx53QJjSxarj2afYWcLteoGVky7D3UKDP9QyrLprQ3VCECoY49yfdDEHGCtMMj92pReUsQ'
+    );
+    expect(result.internalPubkeyHex).toBe(
+      'cc8a4bc64d897bddc5fbc2f670f7a8ba0b386779106cf1223c6fc5d7cd6fc115'
+    );
+    expect(result.publicKeyHex.endsWith(result.internalPubkeyHex!)).toBe(true);
+    expect(result.address).toBe(
+      'bc1p5cyxnuxmeuwuvkwfem96lqzszd02n6xdcjrs20cac6yqjjwudpxqkedrcr'
+    );
+  });
+
+  it('omits the internal key for non-taproot kinds', async () => {
+    const result = await Wallet.assembleWalletFromMnemonic({
+      mnemonic: MNEMONIC,
+      kind: 'p2wpkh',
+      coinType: 0,
+    });
+    expect(result.internalPubkeyHex).toBeUndefined();
+  });
 });
+
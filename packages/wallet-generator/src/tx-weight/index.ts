@@ -0,0 +1,252 @@
+import * as bitcoin from 'bitcoinjs-lib';
+
+/**
+ * Transaction Weight Estimator
+ *
+ * Estimates the weight and virtual size of a transaction from the script
+ * types of its inputs and outputs. Signatures are assumed to be 72-byte DER
+ * (plus sighash byte) and public keys compressed, so estimates may exceed the
+ * signed size by a byte per signature but never fall short of it.
+ */
+
+export type InputScriptType = 'p2pkh' | 'p2sh-p2wpkh' | 'p2wpkh' | 'p2tr';
+
+// P2WSH or P2SH-P2WSH input spending an M-of-N CHECKMULTISIG witness script
+export interface MultisigInput {
+  type: 'p2wsh' | 'p2sh-p2wsh';
+  m: number;
+  n: number;
+}
+
+export type InputWeightSpec = InputScriptType | MultisigInput;
+
+export type OutputScriptType = 'p2pkh' | 'p2sh' | 'p2wpkh' | 'p2wsh' | 'p2tr';
+
+export interface TransactionWeight {
+  weight: number; // Weight units
+  vsize: number; // Virtual bytes, weight / 4 rounded up
+  inputs: number; // Weight of all inputs including witnesses
+  outputs: number; // Weight of all outputs
+  overhead: number; // Version, locktime, counts, segwit marker and flag
+  segwit: boolean;
+}
+
+// Output script lengths in bytes
+export const OUTPUT_SCRIPT_LENGTH: Record<OutputScriptType, number> = {
+  p2pkh: 25,
+  p2sh: 23,
+  p2wpkh: 22,
+  p2wsh: 34,
+  p2tr: 34,
+};
+
+const SIGNATURE_LENGTH = 72; // DER signature with sighash byte
+const PUBKEY_LENGTH = 33;
+const SCHNORR_SIGNATURE_LENGTH = 64; // SIGHASH_DEFAULT adds no byte
+
+// Outpoint (36), sequence (4), empty scriptSig length (1)
+export const INPUT_BASE_SIZE = 41;
+
+/**
+ * Bitcoin CompactSize length of a count
+ * @param count - Number of items or bytes
+ * @returns Size in bytes
+ */
+export function varIntSize(count: number): number {
+  if (count < 0xfd) return 1;
+  if (count <= 0xffff) return 3;
+  return count <= 0xffffffff ? 5 : 9;
+}
+
+/**
+ * Whether an input spends a segwit output and carries a witness
+ * @param spec - Input script type
+ * @returns True for every type except P2PKH
+ */
+export function inputHasWitness(spec: InputWeightSpec): boolean {
+  return spec !== 'p2pkh';
+}
+
+/**
+ * Weight of an input, witness included
+ * @param spec - Input script type
+ * @returns Weight in weight units
+ */
+export function inputWeight(spec: InputWeightSpec): number {
+  if (typeof spec === 'object') {
+    if (spec.m < 1 || spec.n < spec.m || spec.n > 16) {
+      throw new Error(`Invalid ${spec.m}-of-${spec.n} multisig`);
+    }
+    // OP_m <n pushed keys> OP_n OP_CHECKMULTISIG
+    const witnessScript = 3 + spec.n * (1 + PUBKEY_LENGTH);
+    // Item count, the empty CHECKMULTISIG dummy, m signatures, the script
+    const witness =
+      varIntSize(spec.m + 2) +
+      1 +
+      spec.m * (1 + SIGNATURE_LENGTH) +
+      varIntSize(witnessScript) +
+      witnessScript;
+    // Nested inputs push the 34-byte P2WSH redeem script in the scriptSig
+    const scriptSig = spec.type === 'p2sh-p2wsh' ? 35 : 0;
+    return (INPUT_BASE_SIZE + scriptSig) * 4 + witness;
+  }
+
+  // Item count, signature and public key pushes
+  const keyWitness = 1 + 1 + SIGNATURE_LENGTH + 1 + PUBKEY_LENGTH;
+  switch (spec) {
+    case 'p2pkh':
+      // scriptSig of signature and public key pushes
+      return (INPUT_BASE_SIZE + 1 + SIGNATURE_LENGTH + 1 + PUBKEY_LENGTH) * 4;
+    case 'p2sh-p2wpkh':
+      // scriptSig pushes the 22-byte P2WPKH redeem script
+      return (INPUT_BASE_SIZE + 23) * 4 + keyWitness;
+    case 'p2wpkh':
+      return INPUT_BASE_SIZE * 4 + keyWitness;
+    case 'p2tr':
+      // Key path: a single Schnorr signature
+      return INPUT_BASE_SIZE * 4 + 1 + 1 + SCHNORR_SIGNATURE_LENGTH;
+    default:
+      throw new Error(`Unsupported input script type: ${spec}`);
+  }
+}
+
+/**
+ * Weight of an output with a script of the given length
+ * @param scriptLength - Output script length in bytes
+ * @returns Weight in weight units
+ */
+export function outputWeight(scriptLength: number): number {
+  // 8-byte value, script length, script
+  return (8 + varIntSize(scriptLength) + scriptLength) * 4;
+}
+
+/**
+ * Weight of the fields every transaction has
+ * @param inputCount - Number of inputs
+ * @param outputCount - Number of outputs
+ * @param segwit - Whether any input carries a witness
+ * @returns Weight in weight units
+ */
+export function overheadWeight(
+  inputCount: number,
+  outputCount: number,
+  segwit: boolean
+): number {
+  // Version, locktime and counts, plus the segwit marker and flag
+  return (
+    (4 + 4 + varIntSize(inputCount) + varIntSize(outputCount)) * 4 +
+    (segwit ? 2 : 0)
+  );
+}
+
+/**
+ * Estimate the weight of a transaction
+ * @param inputs - Script type of each input
+ * @param outputScriptLengths - Script length in bytes of each output
+ * @returns Weight breakdown and virtual size
+ */
+export function estimateTransactionWeight(
+  inputs: InputWeightSpec[],
+  outputScriptLengths: number[]
+): TransactionWeight {
+  const segwit = inputs.some(inputHasWitness);
+  const inputsWeight = inputs.reduce(
+    // Legacy inputs still get an empty witness stack in a segwit transaction
+    (sum, spec) =>
+      sum + inputWeight(spec) + (segwit && !inputHasWitness(spec) ? 1 : 0),
+    0
+  );
+  const outputsWeight = outputScriptLengths.reduce(
+    (sum, length) => sum + outputWeight(length),
+    0
+  );
+  const overhead = overheadWeight(
+    inputs.length,
+    outputScriptLengths.length,
+    segwit
+  );
+  const weight = overhead + inputsWeight + outputsWeight;
+
+  return {
+    weight,
+    vsize: Math.ceil(weight / 4),
+    inputs: inputsWeight,
+    outputs: outputsWeight,
+    overhead,
+    segwit,
+  };
+}
+
+/**
+ * Estimate the virtual size of a transaction
+ * @param inputs - Script type of each input
+ * @param outputScriptLengths - Script length in bytes of each output
+ * @returns Virtual size in vbytes
+ */
+export function estimateVsize(
+  inputs: InputWeightSpec[],
+  outputScriptLengths: number[]
+): number {
+  return estimateTransactionWeight(inputs, outputScriptLengths).vsize;
+}
+
+/**
+ * Output script length for an address
+ * @param address - Bitcoin address
+ * @param network - Bitcoin network
+ * @returns Script length in bytes
+ */
+export function outputScriptLength(
+  address: string,
+  network: bitcoin.Network
+): number {
+  return bitcoin.address.toOutputScript(address, network).length;
+}
+
+/**
+ * Output script type that pays to the same kind of address as an input
+ * @param spec - Input script type
+ * @returns Output script type, e.g. for change
+ */
+export function outputTypeForInput(spec: InputWeightSpec): OutputScriptType {
+  if (typeof spec === 'object') {
+    return spec.type === 'p2sh-p2wsh' ? 'p2sh' : 'p2wsh';
+  }
+  return spec === 'p2sh-p2wpkh' ? 'p2sh' : spec;
+}
+
+/**
+ * Classify an output script
+ * @param script - Output script
+ * @returns Script type, or null for non-standard scripts
+ */
+export function getOutputScriptType(script: Buffer): OutputScriptType | null {
+  if (
+    script.length === 25 &&
+    script[0] === 0x76 &&
+    script[1] === 0xa9 &&
+    script[2] === 0x14 &&
+    script[23] === 0x88 &&
+    script[24] === 0xac
+  ) {
+    return 'p2pkh';
+  }
+  if (
+    script.length === 23 &&
+    script[0] === 0xa9 &&
+    script[1] === 0x14 &&
+    script[22] === 0x87
+  ) {
+    return 'p2sh';
+  }
+  if (script.length === 22 && script[0] === 0x00 && script[1] === 0x14) {
+    return 'p2wpkh';
+  }
+  if (script.length === 34 && script[0] === 0x00 && script[1] === 0x20) {
+    return 'p2wsh';
+  }
+  if (script.length === 34 && script[0] === 0x51 && script[1] === 0x20) {
+    return 'p2tr';
+  }
+  return null;
+}
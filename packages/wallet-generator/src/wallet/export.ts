@@ -21,20 +21,68 @@ export interface GeneratedWallet {
   wif: string;
   publicKeyHex: string;
   address: string;
+  internalPubkeyHex?: string;
+  masterFingerprint?: string;
+  descriptor?: string;
 }
 
+export type ExportKdfParams =
+  | { memoryMiB: number; timeCost: number; parallelism: number }
+  | { iterations: number };
+
 export interface EncryptedExportHeaderV1 {
   version: 1;
   kdf: 'argon2id' | 'pbkdf2-sha256';
-  kdfParams:
-    | { memoryMiB: number; timeCost: number; parallelism: number }
-    | { iterations: number };
+  kdfParams: ExportKdfParams;
   saltB64: string; // 16 bytes base64
   cipher: 'aes-256-gcm';
   ivB64: string; // 12 bytes base64
 }
 
-export type EncryptedExportHeader = EncryptedExportHeaderV1; // future versions can union here
+export type ExportPayloadType = 'wallet' | 'text' | 'descriptor-bundle';
+
+// v2 names what the ciphertext holds and is only decrypted when its KDF
+// parameters meet KDF_PARAMETER_FLOOR
+export interface EncryptedExportHeaderV2 {
+  version: 2;
+  payloadType: ExportPayloadType;
+  kdf: 'argon2id' | 'pbkdf2-sha256';
+  kdfParams: ExportKdfParams;
+  saltB64: string; // 16 bytes base64
+  cipher: 'aes-256-gcm';
+  ivB64: string; // 12 bytes base64
+}
+
+export type EncryptedExportHeader =
+  EncryptedExportHeaderV1 | EncryptedExportHeaderV2;
+
+export const LATEST_EXPORT_VERSION = 2;
+
+// Weakest KDF settings a v2 export may carry. v1 exports predate the floor
+// and are read with whatever parameters they were written with.
+export const KDF_PARAMETER_FLOOR = {
+  argon2id: { memoryMiB: 16, timeCost: 2, parallelism: 1 },
+  pbkdf2Iterations: 100_000,
+} as const;
+
+// New exports never calibrate PBKDF2 below this (OWASP guidance for
+// PBKDF2-SHA256); explicit iteration counts only have to meet the floor
+const PBKDF2_DEFAULT_MIN_ITERATIONS = 600_000;
+
+export interface DescriptorBundle {
+  network: NetworkType;
+  masterFingerprint?: string;
+  descriptors: Array<{ label?: string; descriptor: string }>;
+}
+
+export type DecryptedExport =
+  | { payloadType: 'wallet'; version: number; wallet: GeneratedWallet }
+  | { payloadType: 'text'; version: number; text: string }
+  | {
+      payloadType: 'descriptor-bundle';
+      version: number;
+      bundle: DescriptorBundle;
+    };
 
 export interface EncryptedExport {
   header: EncryptedExportHeader;
@@ -81,6 +129,13 @@ export function exportWalletAsText(wallet: GeneratedWallet): string {
     `WIF: ${wallet.wif}`,
     `PublicKey: ${wallet.publicKeyHex}`,
     `Address: ${wallet.address}`,
+    ...(wallet.internalPubkeyHex
+      ? [`InternalKey: ${wallet.internalPubkeyHex}`]
+      : []),
+    ...(wallet.masterFingerprint
+      ? [`Fingerprint: ${wallet.masterFingerprint}`]
+      : []),
+    ...(wallet.descriptor ? [`Descriptor: ${wallet.descriptor}`] : []),
   ].join('\n');
 }
 
@@ -101,45 +156,40 @@ export async function encryptWallet(
   password: string,
   options: EncryptOptions = {}
 ): Promise<EncryptedExport> {
-  const kdfResult: KdfResult = await deriveKey(password, {
-    preferArgon2id: options.preferArgon2id ?? true,
-    argon2MemoryMiBLadder: options.argon2MemoryMiBLadder ?? [64, 32, 16],
-    argon2TimeCost: options.argon2TimeCost ?? 3,
-    argon2Parallelism: options.argon2Parallelism ?? 1,
-    pbkdf2Iterations: options.pbkdf2Iterations,
-    pbkdf2TargetMs: options.pbkdf2TargetMs ?? 350,
-    debugForceArgon2Failure: options.debugForceArgon2Failure,
-  });
-
-  const iv = randomBytes(12);
-  const header: EncryptedExportHeaderV1 = {
-    version: 1,
-    kdf: kdfResult.kind,
-    kdfParams:
-      kdfResult.kind === 'argon2id'
-        ? {
-            memoryMiB: (kdfResult.params as any).memoryMiB,
-            timeCost: (kdfResult.params as any).timeCost,
-            parallelism: (kdfResult.params as any).parallelism,
-          }
-        : { iterations: (kdfResult.params as any).iterations },
-    saltB64: toBase64(kdfResult.salt),
-    cipher: 'aes-256-gcm',
-    ivB64: toBase64(iv),
-  };
-
-  const headerJson = JSON.stringify(header);
-  const aad = utf8Encode(headerJson);
-  const plaintext = utf8Encode(JSON.stringify(wallet));
-  const ctWithTag = await encryptAesGcm(kdfResult.key, iv, plaintext, aad);
-
-  return { header, payloadB64: toBase64(ctWithTag) };
+  return encryptPayload(
+    'wallet',
+    utf8Encode(JSON.stringify(wallet)),
+    password,
+    options
+  );
 }
 
 export async function encryptText(
   text: string,
   password: string,
   options: EncryptOptions = {}
+): Promise<EncryptedExport> {
+  return encryptPayload('text', utf8Encode(text), password, options);
+}
+
+export async function encryptDescriptorBundle(
+  bundle: DescriptorBundle,
+  password: string,
+  options: EncryptOptions = {}
+): Promise<EncryptedExport> {
+  return encryptPayload(
+    'descriptor-bundle',
+    utf8Encode(JSON.stringify(bundle)),
+    password,
+    options
+  );
+}
+
+async function encryptPayload(
+  payloadType: ExportPayloadType,
+  plaintext: Uint8Array,
+  password: string,
+  options: EncryptOptions
 ): Promise<EncryptedExport> {
   const kdfResult: KdfResult = await deriveKey(password, {
     preferArgon2id: options.preferArgon2id ?? true,
@@ -148,38 +198,170 @@ export async function encryptText(
     argon2Parallelism: options.argon2Parallelism ?? 1,
     pbkdf2Iterations: options.pbkdf2Iterations,
     pbkdf2TargetMs: options.pbkdf2TargetMs ?? 350,
+    pbkdf2MinIterations: PBKDF2_DEFAULT_MIN_ITERATIONS,
     debugForceArgon2Failure: options.debugForceArgon2Failure,
   });
 
   const iv = randomBytes(12);
-  const header: EncryptedExportHeaderV1 = {
-    version: 1,
+  const header: EncryptedExportHeaderV2 = {
+    version: 2,
+    payloadType,
     kdf: kdfResult.kind,
     kdfParams:
-      kdfResult.kind === 'argon2id'
+      kdfResult.params.kind === 'argon2id'
         ? {
-            memoryMiB: (kdfResult.params as any).memoryMiB,
-            timeCost: (kdfResult.params as any).timeCost,
-            parallelism: (kdfResult.params as any).parallelism,
+            memoryMiB: kdfResult.params.memoryMiB,
+            timeCost: kdfResult.params.timeCost,
+            parallelism: kdfResult.params.parallelism,
           }
-        : { iterations: (kdfResult.params as any).iterations },
+        : { iterations: kdfResult.params.iterations },
     saltB64: toBase64(kdfResult.salt),
     cipher: 'aes-256-gcm',
     ivB64: toBase64(iv),
   };
+  assertKdfFloor(header);
 
   const headerJson = JSON.stringify(header);
   const aad = utf8Encode(headerJson);
-  const plaintext = utf8Encode(text);
   const ctWithTag = await encryptAesGcm(kdfResult.key, iv, plaintext, aad);
 
   return { header, payloadB64: toBase64(ctWithTag) };
 }
 
+function assertKdfFloor(header: EncryptedExportHeader): void {
+  if (header.version === 1) return;
+  const floor = KDF_PARAMETER_FLOOR;
+  if (header.kdf === 'argon2id') {
+    const { memoryMiB, timeCost, parallelism } = header.kdfParams as {
+      memoryMiB: number;
+      timeCost: number;
+      parallelism: number;
+    };
+    if (
+      !(memoryMiB >= floor.argon2id.memoryMiB) ||
+      !(timeCost >= floor.argon2id.timeCost) ||
+      !(parallelism >= floor.argon2id.parallelism)
+    ) {
+      throw new Error(
+        `Argon2id parameters below minimum (memory ${floor.argon2id.memoryMiB} MiB, time cost ${floor.argon2id.timeCost})`
+      );
+    }
+  } else {
+    const { iterations } = header.kdfParams as { iterations: number };
+    if (!(iterations >= floor.pbkdf2Iterations)) {
+      throw new Error(
+        `PBKDF2 iterations below minimum (${floor.pbkdf2Iterations})`
+      );
+    }
+  }
+}
+
+// v1 headers do not say what they hold: wallet exports are JSON objects
+// with a mnemonic and address, anything else was written by encryptText
+function classifyLegacyPayload(text: string): DecryptedExport {
+  try {
+    const parsed = JSON.parse(text);
+    if (
+      parsed &&
+      typeof parsed === 'object' &&
+      typeof parsed.mnemonic === 'string' &&
+      typeof parsed.address === 'string'
+    ) {
+      return {
+        payloadType: 'wallet',
+        version: 1,
+        wallet: parsed as GeneratedWallet,
+      };
+    }
+  } catch {
+    // not JSON, so plain text
+  }
+  return { payloadType: 'text', version: 1, text };
+}
+
+export async function decryptExport(
+  data: EncryptedExport,
+  password: string
+): Promise<DecryptedExport> {
+  const { header } = data;
+  if (header.version !== 1 && header.version !== 2) {
+    throw new Error(
+      `Unsupported export version: ${(header as { version: unknown }).version}`
+    );
+  }
+  assertKdfFloor(header);
+  const text = utf8Decode(await decryptPayload(data, password));
+  if (header.version === 1) return classifyLegacyPayload(text);
+  switch (header.payloadType) {
+    case 'wallet':
+      return {
+        payloadType: 'wallet',
+        version: 2,
+        wallet: JSON.parse(text) as GeneratedWallet,
+      };
+    case 'text':
+      return { payloadType: 'text', version: 2, text };
+    case 'descriptor-bundle':
+      return {
+        payloadType: 'descriptor-bundle',
+        version: 2,
+        bundle: JSON.parse(text) as DescriptorBundle,
+      };
+    default:
+      throw new Error(`Unsupported export payload type: ${header.payloadType}`);
+  }
+}
+
 export async function decryptWallet(
   data: EncryptedExport,
   password: string
 ): Promise<GeneratedWallet> {
+  const result = await decryptExport(data, password);
+  if (result.payloadType !== 'wallet') {
+    throw new Error(
+      `Export holds a ${result.payloadType} payload, not a wallet`
+    );
+  }
+  return result.wallet;
+}
+
+export async function decryptText(
+  data: EncryptedExport,
+  password: string
+): Promise<string> {
+  const result = await decryptExport(data, password);
+  if (result.payloadType !== 'text') {
+    throw new Error(`Export holds a ${result.payloadType} payload, not text`);
+  }
+  return result.text;
+}
+
+export function isLatestExport(data: EncryptedExport): boolean {
+  return data.header.version === LATEST_EXPORT_VERSION;
+}
+
+// Decrypts an export of any supported version and encrypts the same payload
+// again as the latest version with fresh salt, IV and current KDF defaults
+export async function reencryptToLatest(
+  data: EncryptedExport,
+  password: string,
+  options: EncryptOptions = {}
+): Promise<EncryptedExport> {
+  const result = await decryptExport(data, password);
+  switch (result.payloadType) {
+    case 'wallet':
+      return encryptWallet(result.wallet, password, options);
+    case 'text':
+      return encryptText(result.text, password, options);
+    case 'descriptor-bundle':
+      return encryptDescriptorBundle(result.bundle, password, options);
+  }
+}
+
+async function decryptPayload(
+  data: EncryptedExport,
+  password: string
+): Promise<Uint8Array> {
   const headerJson = JSON.stringify(data.header);
   const aad = utf8Encode(headerJson);
   const salt = fromBase64(data.header.saltB64);
@@ -234,13 +416,10 @@ export async function decryptWallet(
   }
 
   const ctWithTag = fromBase64(data.payloadB64);
-  let plaintext: Uint8Array;
   try {
-    plaintext = await decryptAesGcm(kdfResult.key, iv, ctWithTag, aad);
+    return await decryptAesGcm(kdfResult.key, iv, ctWithTag, aad);
   } catch (e) {
     // Wrong password or tampered data
     throw new Error('Decryption failed. Wrong password or corrupted data.');
   }
-  const json = utf8Decode(plaintext);
-  return JSON.parse(json) as GeneratedWallet;
 }
@@ -7,13 +7,22 @@ import {
   CoinType,
   DerivationOptions,
   NetworkType,
+  buildAccountPath,
   buildDerivationPath,
   deriveNodeFromSeed,
   deriveAddressFromPublicKey,
   getNetwork,
   resolveNetworkFromCoinType,
+  toXOnlyPublicKey,
 } from '../bip32';
 import * as BIP39 from '../bip39';
+import {
+  buildDescriptor,
+  deriveDescriptorAddress,
+  parseDescriptor,
+  DescriptorDerivationOptions,
+} from '../descriptors';
+import { convertExtendedKey, slip132PrefixFor } from '../slip132';
 
 const ECPair = ECPairFactory(ecc);
 
@@ -23,6 +32,9 @@ export interface WalletAssemblyInput {
   kind: AddressKind;
   coinType: CoinType;
   options?: DerivationOptions;
+  // 'slip132' serialises the account key with the script-type prefix
+  // (ypub/zpub, upub/vpub); descriptors always carry the BIP32 form
+  xpubFormat?: 'bip32' | 'slip132';
 }
 
 export interface WalletAssemblyResult {
@@ -30,10 +42,25 @@ export interface WalletAssemblyResult {
   network: NetworkType;
   kind: AddressKind;
   path: string;
-  xpub: string; // account-level xpub (m/purpose'/coinType'/account')
+  xpub: string; // account-level xpub (m/purpose'/coinType'/account'), see xpubFormat
   wif: string; // compressed WIF at full path (change/index)
   publicKeyHex: string; // compressed public key hex of leaf key
   address: string; // address for "kind" at leaf
+  internalPubkeyHex?: string; // x-only BIP86 internal key (p2tr only)
+  masterFingerprint: string; // hex fingerprint of the root key
+  descriptor: string; // checksummed account descriptor with <0;1>/* branches
+}
+
+export interface DescriptorAssemblyResult {
+  descriptor: string; // canonical, checksummed
+  network: NetworkType;
+  kind: AddressKind;
+  path: string;
+  xpub: string;
+  masterFingerprint?: string;
+  publicKeyHex: string;
+  address: string;
+  internalPubkeyHex?: string;
 }
 
 export function privateKeyToECPair(
@@ -58,7 +85,14 @@ export function privateKeyToWIF(
 export async function assembleWalletFromMnemonic(
   input: WalletAssemblyInput
 ): Promise<WalletAssemblyResult> {
-  const { mnemonic, passphrase = '', kind, coinType, options = {} } = input;
+  const {
+    mnemonic,
+    passphrase = '',
+    kind,
+    coinType,
+    options = {},
+    xpubFormat = 'bip32',
+  } = input;
   const networkType = resolveNetworkFromCoinType(coinType);
   const network = getNetwork(networkType);
 
@@ -71,14 +105,21 @@ export async function assembleWalletFromMnemonic(
 
   // Build full leaf path and account-level path
   const path = buildDerivationPath(kind, coinType, { account, change, index });
-  const accountPath = `m/${(() => {
-    if (kind === 'p2pkh') return 44;
-    if (kind === 'p2sh-p2wpkh') return 49;
-    return 84;
-  })()}'/${coinType}'/${account}'`;
+  const accountPath = buildAccountPath(kind, coinType, account);
 
   const accountNode = root.derivePath(accountPath).neutered();
-  const xpub = accountNode.toBase58();
+  const standardXpub = accountNode.toBase58();
+  const xpub =
+    xpubFormat === 'slip132'
+      ? convertExtendedKey(standardXpub, slip132PrefixFor(kind, networkType))
+      : standardXpub;
+  const masterFingerprint = bytesToHex(root.fingerprint);
+  const descriptor = buildDescriptor({
+    kind,
+    xpub: standardXpub,
+    fingerprint: masterFingerprint,
+    accountPath,
+  });
 
   const leaf = root.derivePath(path);
   if (!leaf.privateKey || !leaf.publicKey) {
@@ -107,5 +148,36 @@ export async function assembleWalletFromMnemonic(
     wif,
     publicKeyHex,
     address,
+    ...(kind === 'p2tr'
+      ? { internalPubkeyHex: bytesToHex(toXOnlyPublicKey(keyPair.publicKey)) }
+      : {}),
+    masterFingerprint,
+    descriptor,
+  };
+}
+
+// Watch-only counterpart of assembleWalletFromMnemonic: derives the address
+// at change/index from an output descriptor instead of a seed.
+export function assembleFromDescriptor(
+  descriptor: string,
+  options: DescriptorDerivationOptions = {}
+): DescriptorAssemblyResult {
+  const parsed = parseDescriptor(descriptor);
+  const { address, path, publicKeyHex } = deriveDescriptorAddress(
+    parsed,
+    options
+  );
+  return {
+    descriptor: parsed.descriptor,
+    network: parsed.network,
+    kind: parsed.kind,
+    path,
+    xpub: parsed.key.extendedKey,
+    masterFingerprint: parsed.key.origin?.fingerprint,
+    publicKeyHex,
+    address,
+    ...(parsed.kind === 'p2tr'
+      ? { internalPubkeyHex: publicKeyHex.slice(2) }
+      : {}),
   };
 }
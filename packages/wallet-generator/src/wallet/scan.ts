@@ -0,0 +1,197 @@
+import { BIP32Interface } from 'bip32';
+import { bytesToHex } from '../utils/hex';
+import {
+  AddressKind,
+  CoinType,
+  NetworkType,
+  buildAccountPath,
+  deriveAddressFromPublicKey,
+  deriveNodeFromExtendedKey,
+  deriveNodeFromSeed,
+  resolveNetworkFromCoinType,
+} from '../bip32';
+
+export type ChainIndex = 0 | 1; // 0 external (receive), 1 internal (change)
+
+export interface ScannedAddress {
+  chain: ChainIndex;
+  index: number;
+  path: string; // full path when the account path is known, else relative
+  address: string;
+  publicKeyHex: string;
+}
+
+// Injected lookup so callers can plug in any backend (Esplora, Electrum, a
+// local cache) or a stub in tests
+export type HasHistoryPredicate = (
+  entry: ScannedAddress
+) => boolean | Promise<boolean>;
+
+export interface GapScanOptions {
+  hasHistory: HasHistoryPredicate;
+  gapLimit?: number; // consecutive unused addresses before stopping, default 20
+  batchSize?: number; // addresses derived and queried per round, default gapLimit
+  chains?: ChainIndex[]; // default both external and change
+  maxIndex?: number; // hard stop to bound work on misbehaving predicates
+}
+
+export interface ChainScanResult {
+  chain: ChainIndex;
+  scanned: ScannedAddress[]; // every address derived while scanning
+  used: ScannedAddress[]; // addresses the predicate reported history for
+  nextIndex: number; // first index after the last used address
+}
+
+export interface AccountScanResult {
+  accountPath?: string;
+  xpub: string;
+  external: ChainScanResult;
+  change: ChainScanResult;
+  used: ScannedAddress[]; // external then change, in index order
+}
+
+export const DEFAULT_GAP_LIMIT = 20;
+export const DEFAULT_MAX_INDEX = 10_000;
+
+export function deriveAddressBatch(
+  accountNode: BIP32Interface,
+  kind: AddressKind,
+  networkType: NetworkType,
+  chain: ChainIndex,
+  start: number,
+  count: number,
+  accountPath?: string
+): ScannedAddress[] {
+  const chainNode = accountNode.derive(chain);
+  const batch: ScannedAddress[] = [];
+  for (let index = start; index < start + count; index++) {
+    const child = chainNode.derive(index);
+    batch.push({
+      chain,
+      index,
+      path: accountPath
+        ? `${accountPath}/${chain}/${index}`
+        : `${chain}/${index}`,
+      address: deriveAddressFromPublicKey(child.publicKey, kind, networkType),
+      publicKeyHex: bytesToHex(child.publicKey),
+    });
+  }
+  return batch;
+}
+
+export async function scanChain(
+  accountNode: BIP32Interface,
+  kind: AddressKind,
+  networkType: NetworkType,
+  chain: ChainIndex,
+  options: GapScanOptions,
+  accountPath?: string
+): Promise<ChainScanResult> {
+  const gapLimit = options.gapLimit ?? DEFAULT_GAP_LIMIT;
+  const batchSize = options.batchSize ?? gapLimit;
+  const maxIndex = options.maxIndex ?? DEFAULT_MAX_INDEX;
+  if (!Number.isInteger(gapLimit) || gapLimit < 1) {
+    throw new Error('Gap limit must be a positive integer');
+  }
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    throw new Error('Batch size must be a positive integer');
+  }
+
+  const scanned: ScannedAddress[] = [];
+  const used: ScannedAddress[] = [];
+  let lastUsed = -1;
+  let next = 0;
+
+  while (next - lastUsed - 1 < gapLimit && next <= maxIndex) {
+    const count = Math.min(batchSize, maxIndex - next + 1);
+    const batch = deriveAddressBatch(
+      accountNode,
+      kind,
+      networkType,
+      chain,
+      next,
+      count,
+      accountPath
+    );
+    const results = await Promise.all(
+      batch.map((entry) => options.hasHistory(entry))
+    );
+    batch.forEach((entry, i) => {
+      scanned.push(entry);
+      if (results[i]) {
+        used.push(entry);
+        lastUsed = entry.index;
+      }
+    });
+    next += count;
+  }
+
+  return { chain, scanned, used, nextIndex: lastUsed + 1 };
+}
+
+async function scanAccountNode(
+  accountNode: BIP32Interface,
+  kind: AddressKind,
+  networkType: NetworkType,
+  options: GapScanOptions,
+  accountPath?: string
+): Promise<AccountScanResult> {
+  const chains = options.chains ?? [0, 1];
+  const empty = (chain: ChainIndex): ChainScanResult => ({
+    chain,
+    scanned: [],
+    used: [],
+    nextIndex: 0,
+  });
+
+  const external = chains.includes(0)
+    ? await scanChain(accountNode, kind, networkType, 0, options, accountPath)
+    : empty(0);
+  const change = chains.includes(1)
+    ? await scanChain(accountNode, kind, networkType, 1, options, accountPath)
+    : empty(1);
+
+  return {
+    accountPath,
+    xpub: accountNode.neutered().toBase58(),
+    external,
+    change,
+    used: [...external.used, ...change.used],
+  };
+}
+
+export async function scanAccountFromXpub(
+  xpub: string,
+  kind: AddressKind,
+  networkType: NetworkType,
+  options: GapScanOptions & { accountPath?: string }
+): Promise<AccountScanResult> {
+  const accountNode = deriveNodeFromExtendedKey(xpub, networkType);
+  return scanAccountNode(
+    accountNode,
+    kind,
+    networkType,
+    options,
+    options.accountPath
+  );
+}
+
+export async function scanAccountFromSeed(
+  seed: Uint8Array,
+  kind: AddressKind,
+  coinType: CoinType,
+  options: GapScanOptions & { account?: number }
+): Promise<AccountScanResult> {
+  const networkType = resolveNetworkFromCoinType(coinType);
+  const accountPath = buildAccountPath(kind, coinType, options.account ?? 0);
+  const root = deriveNodeFromSeed(seed, networkType);
+  // Only public derivation is needed past the account level
+  const accountNode = root.derivePath(accountPath).neutered();
+  return scanAccountNode(
+    accountNode,
+    kind,
+    networkType,
+    options,
+    accountPath
+  );
+}